@@ -52,7 +52,9 @@ const CodeEditor = (props: EditorProps) => {
                             [/[^\s]+?(?=\()/, 'entity.name.function'],
                             [/\(/, 'delimiter.bracket'],
                             [/\)/, 'delimiter.bracket'],
-                            [/'.*?'/, 'string'],
+                            [/'(?:[^'\\]|\\.)*'/, 'string'],
+                            [/"(?:[^"\\]|\\.)*"/, 'string'],
+                            [/`(?:[^`\\]|\\.)*`/, 'string'],
                             [/<-/, 'delimiter'],
                             [/</, 'delimiter'],
                             [/>/, 'delimiter'],
@@ -2,7 +2,7 @@ import { useEffect, useState } from 'react';
 import CodeEditor from '../../molecules/CodeEditor';
 import * as S from './style';
 // TODO - import npm package
-import { Interpreter, Lexer, Parser } from 'quackscript';
+import QuackScript, { formatDiagnostic, Interpreter, TypeChecker } from 'quackscript';
 
 const defaultQuackTextValue = `QUACK exampleFunction <- (value:text) > { 
     return value🦆 
@@ -23,15 +23,15 @@ quackprint(optionalVariableTest.unwrap())🦆
 `;
 
 
+// imports are resolved from the playground code, which has no folder, so './index.quack' is loaded as 'index.quack'
 const loadFile = (value: string) => {
-    if (value === './index.quack'){
+    if (value === 'index.quack'){
         return 'QUACK add <- (:a,b:) :> {:return a + b🦆:}🦆';
     }
     throw new Error('file not found');
 };
 
-const lexer = new Lexer();
-const parser = new Parser();
+const typeChecker = new TypeChecker(loadFile);
 
 const QuackScriptEditor = () => {
     const [quackCode, setQuackCode] = useState<string>(defaultQuackTextValue);
@@ -57,10 +57,16 @@ const QuackScriptEditor = () => {
     useEffect(() => {
         try {
             setCodeOutcome('');
-            const tokens = lexer.convertToTokens(quackCode);
-            const parsedOutcome = parser.parse(tokens);
-            console.log('tree: ', [...parsedOutcome.statements]);
-            interpreter.execute(parsedOutcome, quackCode);
+            const { ast, diagnostics } = QuackScript.parse(quackCode);
+            console.log('tree: ', [...ast.statements]);
+
+            // syntax and type errors are shown instead of running the code, the parts of the tree without errors are still checked
+            const errors = [...diagnostics, ...typeChecker.check(ast)];
+            if (errors.length) {
+                setCodeOutcome(errors.map(formatDiagnostic).join('\n\n'));
+                return;
+            }
+            interpreter.execute(ast, quackCode);
         } catch (e) {
             console.error(e);
             setCodeOutcome((e as Error).message);
@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+const path = require('path');
+
+require('ts-node').register({ project: path.join(__dirname, '..', 'tsconfig.json'), transpileOnly: true, experimentalResolver: true });
+require('../src/main');
@@ -0,0 +1,100 @@
+import { ExitCodes } from '../';
+import { TestUtils } from '../../utils/test/testUtils';
+
+const files = {
+    '/project/main.quack': `import './lib/math.quack'🦆
+quackprint(add(1, 2).toText())🦆
+`,
+    '/project/lib/math.quack': `export QUACK add <- (a: number, b: number) > {
+    return a + b🦆
+}🦆
+`,
+    '/project/failing.quack': `quack items <- [1]🦆
+quackprint('before')🦆
+quackprint(items[3].toText())🦆
+`,
+    '/project/invalid.quack': `quack a: number <- 'text'🦆
+quack b <- 🦆
+`,
+    '/project/missingImport.quack': `import './nope.quack'🦆
+quackprint('imported')🦆
+`,
+};
+
+describe('Cli - ', () => {
+
+    test('run prints the output and imports files relative to the importing file', async () => {
+        const result = await TestUtils.runCli(['run', '/project/main.quack'], files);
+
+        expect(result).toEqual({ exitCode: ExitCodes.Success, stdout: '3\n', stderr: '' });
+    });
+
+    test('run exits with an error code when a runtime error stops the execution', async () => {
+        const result = await TestUtils.runCli(['run', '/project/failing.quack'], files);
+
+        expect(result.exitCode).toBe(ExitCodes.Failure);
+        expect(result.stdout).toBe('before\n');
+        expect(result.stderr).toContain('Runtime Error: In line 3 at char 18');
+    });
+
+    test('run does not execute code with errors', async () => {
+        const result = await TestUtils.runCli(['run', '/project/invalid.quack'], files);
+
+        expect(result.exitCode).toBe(ExitCodes.Failure);
+        expect(result.stdout).toBe('');
+        expect(result.stderr).toContain('QS2003');
+    });
+
+    test('check reports syntax and type errors without running the code', async () => {
+        const invalid = await TestUtils.runCli(['check', '/project/invalid.quack'], files);
+        expect(invalid.exitCode).toBe(ExitCodes.Failure);
+        expect(invalid.stderr.split('\n').filter((line) => line.includes('Error QS'))).toHaveLength(2);
+        expect(invalid.stderr).toContain('Tried to assign text to number');
+
+        expect(await TestUtils.runCli(['check', '/project/failing.quack'], files))
+            .toEqual({ exitCode: ExitCodes.Success, stdout: '', stderr: '' });
+    });
+
+    test('check reports imports that can\'t be read', async () => {
+        const result = await TestUtils.runCli(['check', '/project/missingImport.quack'], files);
+
+        expect(result.exitCode).toBe(ExitCodes.Failure);
+        expect(result.stdout).toBe('');
+        expect(result.stderr).toContain('QS3016');
+        expect(result.stderr).toContain('Unable to load ./nope.quack: ENOENT: no such file \'/project/nope.quack\'');
+    });
+
+    test('tokens prints every token with its position', async () => {
+        const result = await TestUtils.runCli(['tokens', '/project/lib/math.quack'], files);
+
+        expect(result.exitCode).toBe(ExitCodes.Success);
+        expect(result.stdout.split('\n').slice(0, 3)).toEqual([
+            '1:1\tEXPORT\t"export"',
+            '1:8\tASSIGNMENT_CONST\t"QUACK"',
+            '1:14\tIDENTIFIER\t"add"',
+        ]);
+        expect(result.stdout).not.toContain('WHITESPACE');
+    });
+
+    test('ast prints the syntax tree as JSON', async () => {
+        const result = await TestUtils.runCli(['ast', '/project/main.quack'], files);
+
+        expect(result.exitCode).toBe(ExitCodes.Success);
+        const ast = JSON.parse(result.stdout);
+        expect(ast.type).toBe('Module');
+        expect(ast.statements).toHaveLength(2);
+    });
+
+    test('missing files and unknown commands are usage errors', async () => {
+        const missing = await TestUtils.runCli(['run', '/project/missing.quack'], files);
+        expect(missing.exitCode).toBe(ExitCodes.Usage);
+        expect(missing.stderr).toBe('Unable to read /project/missing.quack\n');
+
+        const unknown = await TestUtils.runCli(['compile', '/project/main.quack'], files);
+        expect(unknown.exitCode).toBe(ExitCodes.Usage);
+        expect(unknown.stderr).toContain('Usage: quack <command> [file]');
+
+        expect((await TestUtils.runCli(['run'], files)).exitCode).toBe(ExitCodes.Usage);
+        expect((await TestUtils.runCli(['help'])).stdout).toContain('Usage: quack <command> [file]');
+    });
+});
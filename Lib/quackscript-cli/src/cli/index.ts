@@ -0,0 +1,163 @@
+import path from 'path';
+import { Readable, Writable } from 'stream';
+import QuackScript, { Diagnostic, formatDiagnostic, Interpreter, Lexer, TypeChecker } from 'quackscript';
+import QuackRepl from '../repl';
+import { FileSystemUtils } from '../utils/fileSystem/fileSystemUtils';
+
+export const ExitCodes = {
+    Success: 0,
+    // the code has errors
+    Failure: 1,
+    // the command was used wrong or its file couldn't be read
+    Usage: 2,
+} as const;
+
+export interface CliOptions {
+    stdin?: Readable,
+    stdout?: Writable,
+    stderr?: Writable,
+    readFile?: (filePath: string) => string
+}
+
+type FileCommand = (code: string, filePath: string) => number;
+
+const usage = `Usage: quack <command> [file]
+
+Commands:
+  run <file>      Type checks and runs the file
+  check <file>    Reports the syntax and type errors of the file without running it
+  tokens <file>   Prints the tokens of the file
+  ast <file>      Prints the syntax tree of the file as JSON
+  repl            Starts an interactive session, the default when no command is given
+  help            Shows this message
+`;
+
+// tokens that don't change the meaning of the code are left out of the tokens command
+const layoutTokens = ['WHITESPACE', 'NEW_LINE'];
+
+/**
+ * Command line interface for running and inspecting .quack files
+ */
+export default class QuackCli {
+    private _stdin: Readable;
+    private _stdout: Writable;
+    private _stderr: Writable;
+    private _readFile: (filePath: string) => string;
+    private _commands: Record<string, FileCommand>;
+
+    constructor(options: CliOptions = {}) {
+        this._stdin = options.stdin ?? process.stdin;
+        this._stdout = options.stdout ?? process.stdout;
+        this._stderr = options.stderr ?? process.stderr;
+        this._readFile = options.readFile ?? FileSystemUtils.readFile;
+        this._commands = {
+            run: this.runFile,
+            check: this.checkFile,
+            tokens: this.printTokens,
+            ast: this.printAst,
+        };
+    }
+
+    /**
+     * @param args the arguments after the program name
+     * @returns the code the process should exit with
+     */
+    public run = async (args: Array<string>): Promise<number> => {
+        const [command, file, ...extraArgs] = args;
+
+        if (command === undefined || command === 'repl') {
+            return new QuackRepl(this._stdin, this._stdout, this._stderr, this._readFile).start();
+        }
+        if (command === 'help' || command === '--help') {
+            this._stdout.write(usage);
+            return ExitCodes.Success;
+        }
+
+        const fileCommand = this._commands[command];
+        if (!fileCommand || file === undefined || extraArgs.length) {
+            this._stderr.write(usage);
+            return ExitCodes.Usage;
+        }
+
+        const filePath = path.resolve(file);
+        let code: string;
+        try {
+            code = this._readFile(filePath);
+        } catch {
+            this.writeError(`Unable to read ${file}`);
+            return ExitCodes.Usage;
+        }
+
+        return fileCommand(code, filePath);
+    };
+
+    private runFile = (code: string, filePath: string): number => {
+        const { ast, diagnostics } = this.analyze(code, filePath);
+        if (diagnostics.length) {
+            this.reportDiagnostics(diagnostics, filePath);
+            return ExitCodes.Failure;
+        }
+
+        const interpreter = new Interpreter(
+            (value) => this._stdout.write(`${value}\n`),
+            (value) => this.writeError(value),
+            this._readFile,
+            FileSystemUtils.resolvePath
+        );
+
+        try {
+            return interpreter.execute(ast, code, filePath).length ? ExitCodes.Failure : ExitCodes.Success;
+        } catch (error) {
+            // errors in imported files are thrown as syntax and parse exceptions
+            this.writeError(String(error));
+            return ExitCodes.Failure;
+        }
+    };
+
+    private checkFile = (code: string, filePath: string): number => {
+        const { diagnostics } = this.analyze(code, filePath);
+        this.reportDiagnostics(diagnostics, filePath);
+        return diagnostics.length ? ExitCodes.Failure : ExitCodes.Success;
+    };
+
+    private printTokens = (code: string, filePath: string): number => {
+        const { tokens, diagnostics } = new Lexer().tokenize(code);
+
+        tokens
+            .filter((token) => !layoutTokens.includes(token.type))
+            .forEach((token) => {
+                this._stdout.write(`${token.position.line}:${token.position.lineChar}\t${token.type}\t${JSON.stringify(token.value)}\n`);
+            });
+
+        this.reportDiagnostics(diagnostics, filePath);
+        return diagnostics.length ? ExitCodes.Failure : ExitCodes.Success;
+    };
+
+    private printAst = (code: string, filePath: string): number => {
+        const { ast, diagnostics } = QuackScript.parse(code);
+
+        this._stdout.write(`${JSON.stringify(ast, null, 2)}\n`);
+
+        this.reportDiagnostics(diagnostics, filePath);
+        return diagnostics.length ? ExitCodes.Failure : ExitCodes.Success;
+    };
+
+    /**
+     * Parses and type checks the code, imports are resolved from the file
+     */
+    private analyze = (code: string, filePath: string) => {
+        const { ast, diagnostics } = QuackScript.parse(code);
+        const typeChecker = new TypeChecker(this._readFile, FileSystemUtils.resolvePath);
+
+        return { ast, diagnostics: [...diagnostics, ...typeChecker.check(ast, filePath)] };
+    };
+
+    private reportDiagnostics = (diagnostics: Array<Diagnostic>, filePath: string) => {
+        const file = path.relative(process.cwd(), filePath);
+        diagnostics.forEach((diagnostic) => this.writeError(`${file}: ${formatDiagnostic(diagnostic)}`));
+    };
+
+    private writeError = (message: string) => {
+        this._stderr.write(`${message}\n`);
+    };
+}
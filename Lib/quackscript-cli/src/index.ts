@@ -0,0 +1,10 @@
+import C from './cli';
+import R from './repl';
+
+export { ExitCodes } from './cli';
+export { isInputComplete } from './repl';
+export { FileSystemUtils } from './utils/fileSystem/fileSystemUtils';
+export type { CliOptions } from './cli';
+
+export const QuackCli = C;
+export const QuackRepl = R;
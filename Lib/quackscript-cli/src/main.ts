@@ -0,0 +1,5 @@
+import QuackCli from './cli';
+
+new QuackCli().run(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+});
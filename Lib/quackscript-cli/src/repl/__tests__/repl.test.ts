@@ -0,0 +1,68 @@
+import { PassThrough } from 'stream';
+import QuackRepl, { isInputComplete } from '../';
+import { TestUtils } from '../../utils/test/testUtils';
+
+const runRepl = (input: string) => TestUtils.runCli([], {}, input);
+
+describe('Repl - ', () => {
+
+    test('declarations are kept between inputs', async () => {
+        const { exitCode, stdout } = await runRepl('quack count <- 1🦆\ncount <- count + 1🦆\nquackprint(count.toText())🦆\n');
+
+        expect(exitCode).toBe(0);
+        expect(stdout).toContain('2\n');
+    });
+
+    test('input spanning several lines runs once it is complete', async () => {
+        const { stdout } = await runRepl(`QUACK double <- (n: number) > {
+    return n * 2🦆
+}🦆
+quackprint(double(4).toText())🦆
+`);
+
+        expect(stdout).toContain('... ');
+        expect(stdout).toContain('8\n');
+    });
+
+    test('errors are reported and the session goes on', async () => {
+        const { stdout, stderr } = await runRepl('quack value <- 🦆\nquackprint(missing)🦆\nquackprint(\'still running\')🦆\n');
+
+        expect(stderr).toContain('QS2003');
+        expect(stderr).toContain('QS4001');
+        expect(stderr).toContain('Variable \'missing\' not in memory');
+        expect(stdout).toContain('still running\n');
+    });
+
+    test('the value of the last expression is shown', async () => {
+        const { stdout } = await runRepl('quack items <- [1, 2]🦆\nitems.length()🦆\nquackprint(\'nothing is shown\')🦆\n');
+
+        expect(stdout).toBe('🦆> 🦆> 2\n🦆> nothing is shown\n🦆> ');
+    });
+
+    test('an empty line runs incomplete input', async () => {
+        const { stderr } = await runRepl('quackprint(\'no terminator\')\n\n');
+
+        expect(stderr).toContain('Error QS');
+    });
+
+    test('input is complete once brackets, texts and comments are closed and it ends with a terminator', () => {
+        expect(isInputComplete('quack a <- 1🦆\n')).toBe(true);
+        expect(isInputComplete('quack a <- 1\n')).toBe(false);
+        expect(isInputComplete('QUACK f <- () > {\n')).toBe(false);
+        expect(isInputComplete('quack a <- [1,\n2]🦆\n')).toBe(true);
+        expect(isInputComplete('quack a <- `first line\n')).toBe(false);
+        expect(isInputComplete('/* comment\n')).toBe(false);
+        expect(isInputComplete('quack a <- 1🦆 // comment\n')).toBe(true);
+    });
+
+    test('a repl can be started on its own streams', async () => {
+        const stdin = new PassThrough();
+        const stdout = TestUtils.capture();
+        const stderr = TestUtils.capture();
+
+        stdin.end('quackprint(\'hi\')🦆\n');
+        await new QuackRepl(stdin, stdout.stream, stderr.stream).start();
+
+        expect(stdout.written()).toBe('🦆> hi\n🦆> ');
+    });
+});
@@ -0,0 +1,102 @@
+import readline from 'readline';
+import { Readable, Writable } from 'stream';
+import { formatDiagnostic, Interpreter, Lexer } from 'quackscript';
+import { FileSystemUtils } from '../utils/fileSystem/fileSystemUtils';
+
+const prompt = '🦆> ';
+const continuationPrompt = '... ';
+
+const openingBrackets = ['CURLY_BRACKET_OPEN', 'SQUARE_BRACKET_OPEN', 'BRACKET_OPEN'];
+const closingBrackets = ['CURLY_BRACKET_CLOSE', 'SQUARE_BRACKET_CLOSE', 'BRACKET_CLOSE'];
+const ignoredTokens = ['WHITESPACE', 'NEW_LINE', 'COMMENT_SHORT', 'COMMENT_LONG'];
+
+/**
+ * Checks if the input can be run or more lines are expected, it is complete once every bracket,
+ * multi-line text and comment is closed and the last statement ends with 🦆
+ */
+export const isInputComplete = (input: string): boolean => {
+    const { tokens, diagnostics } = new Lexer().tokenize(input);
+
+    const hasOpenText = diagnostics.some((diagnostic) => input.charAt(diagnostic.start.globalChar - 1) === '`');
+    // a /* without its */ is read as a division followed by a multiplication
+    const hasOpenComment = tokens.some((token, index) => (
+        token.type === 'DIVISION' && tokens[index + 1]?.type === 'MULTIPLICATION' &&
+        tokens[index + 1]?.position.globalChar === token.position.globalChar + 1
+    ));
+    if (hasOpenText || hasOpenComment) return false;
+
+    const depth = tokens.reduce((total, token) => {
+        if (openingBrackets.includes(token.type)) return total + 1;
+        if (closingBrackets.includes(token.type)) return total - 1;
+        return total;
+    }, 0);
+
+    const significantTokens = tokens.filter((token) => !ignoredTokens.includes(token.type));
+    const lastToken = significantTokens[significantTokens.length - 1];
+
+    return depth <= 0 && (!lastToken || lastToken.type === 'TERMINATOR');
+};
+
+/**
+ * Interactive session, every input is evaluated in the same session so declarations are kept between them
+ * and the value of its last expression is shown. Input spanning several lines runs once it is complete,
+ * an empty line runs it as it is
+ */
+export default class QuackRepl {
+    private _input: Readable;
+    private _output: Writable;
+    private _errorOutput: Writable;
+    private _interpreter: InstanceType<typeof Interpreter>;
+    private _buffer = '';
+
+    constructor(input: Readable, output: Writable, errorOutput: Writable, readFile = FileSystemUtils.readFile) {
+        this._input = input;
+        this._output = output;
+        this._errorOutput = errorOutput;
+        this._interpreter = new Interpreter(
+            (value) => this._output.write(`${value}\n`),
+            (value) => this._errorOutput.write(`${value}\n`),
+            readFile,
+            FileSystemUtils.resolvePath
+        );
+    }
+
+    /**
+     * @returns a promise resolved with the exit code once the input ends
+     */
+    public start = (): Promise<number> => new Promise((resolve) => {
+        const lines = readline.createInterface({ input: this._input, output: this._output, prompt });
+
+        lines.on('line', (line) => {
+            this._buffer += `${line}\n`;
+
+            if (line.trim() === '' || isInputComplete(this._buffer)) {
+                this.evaluate(this._buffer);
+                this._buffer = '';
+                lines.setPrompt(prompt);
+            } else {
+                lines.setPrompt(continuationPrompt);
+            }
+            lines.prompt();
+        });
+
+        lines.on('close', () => {
+            if (this._buffer.trim() !== '') this.evaluate(this._buffer);
+            resolve(0);
+        });
+
+        lines.prompt();
+    });
+
+    private evaluate = (input: string) => {
+        if (input.trim() === '') return;
+
+        try {
+            const { value, text, diagnostics } = this._interpreter.evaluate(input);
+            diagnostics.forEach((diagnostic) => this._errorOutput.write(`${formatDiagnostic(diagnostic)}\n`));
+            if (value && value.type !== 'Nothing') this._output.write(`${text}\n`);
+        } catch (error) {
+            this._errorOutput.write(`${String(error)}\n`);
+        }
+    };
+}
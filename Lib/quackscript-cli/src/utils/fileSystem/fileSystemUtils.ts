@@ -0,0 +1,16 @@
+import fs from 'fs';
+import path from 'path';
+
+const readFile = (filePath: string): string => fs.readFileSync(filePath, 'utf8');
+
+/**
+ * Imports are relative to the importing file, the ones typed in the repl are relative to the working directory
+ */
+const resolvePath = (importPath: string, importer: string | null): string => (
+    path.resolve(importer === null ? process.cwd() : path.dirname(importer), importPath)
+);
+
+export const FileSystemUtils = {
+    readFile,
+    resolvePath,
+};
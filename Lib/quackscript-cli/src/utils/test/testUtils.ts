@@ -0,0 +1,39 @@
+import { PassThrough } from 'stream';
+import QuackCli from '../../cli';
+
+/**
+ * Collects everything written to the stream
+ */
+const capture = () => {
+    const stream = new PassThrough();
+    let written = '';
+    stream.on('data', (chunk: Buffer) => {
+        written += chunk.toString('utf8');
+    });
+    return { stream, written: () => written };
+};
+
+/**
+ * Runs the command with the files kept in memory instead of the disk
+ * @param input text typed into stdin, it is closed afterwards
+ */
+const runCli = async (args: Array<string>, files: Record<string, string> = {}, input = '') => {
+    const stdin = new PassThrough();
+    const stdout = capture();
+    const stderr = capture();
+    const readFile = (filePath: string) => {
+        const file = files[filePath];
+        if (file === undefined) throw new Error(`ENOENT: no such file '${filePath}'`);
+        return file;
+    };
+
+    stdin.end(input);
+    const exitCode = await new QuackCli({ stdin, stdout: stdout.stream, stderr: stderr.stream, readFile }).run(args);
+
+    return { exitCode, stdout: stdout.written(), stderr: stderr.written() };
+};
+
+export const TestUtils = {
+    capture,
+    runCli,
+};
@@ -0,0 +1,26 @@
+/*
+ * For a detailed explanation regarding each configuration property and type check, visit:
+ * https://jestjs.io/docs/configuration
+ */
+
+export default {
+    // Automatically clear mock calls, instances, contexts and results before every test
+    clearMocks: true,
+
+    // Indicates whether the coverage information should be collected while executing the test
+    collectCoverage: false,
+
+    // The directory where Jest should output its coverage files
+    coverageDirectory: 'coverage',
+
+    // Indicates which provider should be used to instrument code for coverage
+    coverageProvider: 'v8',
+
+    // The library is used from its typescript sources
+    moduleNameMapper: {
+        '^quackscript$': '<rootDir>/../quackscript/src',
+    },
+
+    // A preset that is used as a base for Jest's configuration
+    preset: 'ts-jest',
+};
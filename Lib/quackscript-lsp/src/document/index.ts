@@ -0,0 +1,174 @@
+import QuackScript, { Diagnostic, IdentifierNode, Lexer, Position, SymbolTable, Token, TypeChecker, TypeScope, TypeSymbol } from 'quackscript';
+import { LspPosition } from '../protocol/types';
+
+export interface SymbolReference {
+    identifier: IdentifierNode,
+    symbol: TypeSymbol
+}
+
+/**
+ * Finds the } closing every block
+ * @returns the position of each } by the position of its {, both as global chars
+ */
+const findBlockEnds = (tokens: Array<Token>): Map<number, number> => {
+    const blockEnds = new Map<number, number>();
+    const openBlocks: Array<number> = [];
+
+    tokens.forEach((token) => {
+        if (token.type === 'CURLY_BRACKET_OPEN') openBlocks.push(token.position.globalChar);
+        if (token.type !== 'CURLY_BRACKET_CLOSE') return;
+
+        const blockStart = openBlocks.pop();
+        if (blockStart !== undefined) blockEnds.set(blockStart, token.position.globalChar);
+    });
+
+    return blockEnds;
+};
+
+const isBefore = (position: Position | null, globalChar: number) => (
+    position === null || position.globalChar < globalChar
+);
+
+const getOwnSymbol = (scope: TypeScope, name: string): TypeSymbol | null => (
+    Object.prototype.hasOwnProperty.call(scope.symbols, name) ? scope.symbols[name] ?? null : null
+);
+
+/**
+ * A version of an open file, it is parsed and type checked once so every request is answered from the same result
+ */
+export default class QuackDocument {
+    public uri: string;
+    public version: number;
+    public text: string;
+    public diagnostics: Array<Diagnostic>;
+    private _symbolTable: SymbolTable;
+    private _blockEnds: Map<number, number>;
+    // global char of the first character of every line
+    private _lineStarts: Array<number>;
+
+    /**
+     * @param filePath path of the file on disk, used to resolve its imports
+     */
+    constructor(uri: string, version: number, text: string, typeChecker = new TypeChecker(), filePath?: string) {
+        this.uri = uri;
+        this.version = version;
+        this.text = text;
+
+        const { ast, diagnostics } = QuackScript.parse(text);
+        this.diagnostics = [...diagnostics, ...typeChecker.check(ast, filePath)];
+        this._symbolTable = typeChecker.getSymbolTable();
+        this._blockEnds = findBlockEnds(new Lexer().tokenize(text).tokens);
+
+        this._lineStarts = [1];
+        for (let index = 0; index < text.length; index++) {
+            if (text.charAt(index) === '\n') this._lineStarts.push(index + 2);
+        }
+    }
+
+    public toPosition = (position: LspPosition): Position => ({
+        line: position.line + 1,
+        lineChar: position.character + 1,
+        globalChar: (this._lineStarts[position.line] ?? this.text.length + 1) + position.character
+    });
+
+    /**
+     * Finds the declared or used identifier at the position, the position right after an identifier is part of it
+     */
+    public getSymbolAt = (position: Position): SymbolReference | null => {
+        for (const [identifier, symbol] of this._symbolTable.identifiers) {
+            const start = identifier.position.globalChar;
+            if (start <= position.globalChar && position.globalChar <= start + identifier.value.length) {
+                return { identifier, symbol };
+            }
+        }
+        return null;
+    };
+
+    /**
+     * Gets the declaration and every use of the symbol sorted by position
+     */
+    public getReferences = (symbol: TypeSymbol): Array<IdentifierNode> => (
+        [...this._symbolTable.identifiers]
+            .filter(([, identifierSymbol]) => identifierSymbol === symbol)
+            .map(([identifier]) => identifier)
+            .sort((a, b) => a.position.globalChar - b.position.globalChar)
+    );
+
+    /**
+     * @returns null for the standard library and symbols declared in imported files
+     */
+    public getDeclaration = (symbol: TypeSymbol): IdentifierNode | null => (
+        this.getReferences(symbol).find((identifier) => identifier.position.globalChar === symbol.position?.globalChar) ?? null
+    );
+
+    public getDeclarations = (): Array<SymbolReference> => (
+        [...this._symbolTable.identifiers]
+            .filter(([identifier, symbol]) => identifier.position.globalChar === symbol.position?.globalChar)
+            .map(([identifier, symbol]) => ({ identifier, symbol }))
+            .sort((a, b) => a.identifier.position.globalChar - b.identifier.position.globalChar)
+    );
+
+    /**
+     * Gets the symbols that can be used at the position by their name, like Memory inner scopes hide the outer ones
+     */
+    public getVisibleSymbols = (position: Position): Record<string, TypeSymbol> => {
+        const symbols: Record<string, TypeSymbol> = {};
+
+        let scope: TypeScope | null = this.getScopeAt(position);
+        while (scope !== null) {
+            Object.entries(scope.symbols).forEach(([name, symbol]) => {
+                if (!(name in symbols) && isBefore(symbol.position, position.globalChar)) symbols[name] = symbol;
+            });
+            scope = scope.parent;
+        }
+
+        return symbols;
+    };
+
+    /**
+     * Finds another symbol with the name in the scope the symbol is declared in or in the scopes enclosing it,
+     * the symbol couldn't be renamed to the name without redeclaring or hiding it.
+     * The blocks between a use of the symbol and its declaration are checked too, their symbols would hide the use
+     */
+    public findConflict = (symbol: TypeSymbol, name: string): TypeSymbol | null => {
+        const declarationScope = this._symbolTable.scopes.find((scope) => Object.values(scope.symbols).includes(symbol)) ?? null;
+
+        for (const identifier of this.getReferences(symbol)) {
+            let scope = this.getScopeAt(identifier.position);
+            while (scope !== null && scope !== declarationScope) {
+                const conflict = getOwnSymbol(scope, name);
+                if (conflict) return conflict;
+                scope = scope.parent;
+            }
+        }
+
+        let scope = declarationScope;
+        while (scope !== null) {
+            const conflict = getOwnSymbol(scope, name);
+            if (conflict && conflict !== symbol) return conflict;
+            scope = scope.parent;
+        }
+        return null;
+    };
+
+    /**
+     * Finds the innermost block containing the position, the global scope when it isn't inside any block
+     */
+    private getScopeAt = (position: Position): TypeScope | null => {
+        let innermostScope: TypeScope | null = this._symbolTable.scopes[0] ?? null;
+        let innermostStart = 0;
+
+        this._symbolTable.scopes.forEach((scope) => {
+            if (!scope.block) return;
+
+            const start = scope.block.position.globalChar;
+            const end = this._blockEnds.get(start) ?? Infinity;
+            if (start < position.globalChar && position.globalChar <= end && start > innermostStart) {
+                innermostScope = scope;
+                innermostStart = start;
+            }
+        });
+
+        return innermostScope;
+    };
+}
@@ -0,0 +1,24 @@
+import { ResponseError } from '../rpc/types';
+
+/**
+ * Thrown by request handlers, it is sent to the client as the error of the response
+ */
+export class ResponseException {
+
+    public code: number;
+
+    public message: string;
+
+    constructor(code: number, message: string) {
+        this.code = code;
+        this.message = message;
+    }
+
+    toString() {
+        return `Response Error: ${this.code} \n ${this.message}`;
+    }
+
+    toResponseError(): ResponseError {
+        return { code: this.code, message: this.message };
+    }
+}
@@ -0,0 +1,9 @@
+import S from './server';
+import D from './document';
+
+export { Connection } from './rpc/connection';
+export { ResponseException } from './exception/ResponseException';
+export type { ServerOptions } from './server';
+
+export const QuackLanguageServer = S;
+export const QuackDocument = D;
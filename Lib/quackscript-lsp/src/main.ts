@@ -0,0 +1,9 @@
+import { Connection } from './rpc/connection';
+import QuackLanguageServer from './server';
+
+// stdout is used to talk to the editor, logs are written to stderr instead
+console.log = console.error;
+
+new QuackLanguageServer(new Connection(process.stdin, process.stdout), {
+    exit: (code) => process.exit(code)
+}).listen();
@@ -0,0 +1,136 @@
+/**
+ * Subset of the Language Server Protocol types used by the server.
+ * Lines and characters start at 0 and characters are counted in UTF-16 code units
+ */
+
+export interface LspPosition {
+    line: number,
+    character: number
+}
+
+export interface Range {
+    start: LspPosition,
+    end: LspPosition
+}
+
+export interface Location {
+    uri: string,
+    range: Range
+}
+
+export interface TextDocumentIdentifier {
+    uri: string
+}
+
+export interface TextDocumentItem {
+    uri: string,
+    languageId: string,
+    version: number,
+    text: string
+}
+
+export interface TextDocumentPositionParams {
+    textDocument: TextDocumentIdentifier,
+    position: LspPosition
+}
+
+export interface DidOpenTextDocumentParams {
+    textDocument: TextDocumentItem
+}
+
+export interface DidChangeTextDocumentParams {
+    textDocument: TextDocumentIdentifier & { version: number },
+    // the server only asks for full syncs so the last change holds the whole text
+    contentChanges: Array<{ text: string }>
+}
+
+export interface DidCloseTextDocumentParams {
+    textDocument: TextDocumentIdentifier
+}
+
+export interface ReferenceParams extends TextDocumentPositionParams {
+    context: { includeDeclaration: boolean }
+}
+
+export interface RenameParams extends TextDocumentPositionParams {
+    newName: string
+}
+
+export interface DocumentSymbolParams {
+    textDocument: TextDocumentIdentifier
+}
+
+export const DiagnosticSeverity = {
+    Error: 1,
+    Warning: 2,
+    Information: 3,
+} as const;
+
+export interface LspDiagnostic {
+    range: Range,
+    severity: number,
+    code: string,
+    source: string,
+    message: string,
+    relatedInformation?: Array<{ location: Location, message: string }>
+}
+
+export interface PublishDiagnosticsParams {
+    uri: string,
+    version?: number,
+    diagnostics: Array<LspDiagnostic>
+}
+
+export const CompletionItemKind = {
+    Method: 2,
+    Function: 3,
+    Field: 5,
+    Variable: 6,
+    Keyword: 14,
+    Constant: 21,
+} as const;
+
+export interface CompletionItem {
+    label: string,
+    kind: number,
+    detail?: string
+}
+
+export interface Hover {
+    contents: { kind: 'markdown', value: string },
+    range: Range
+}
+
+export const SymbolKind = {
+    Function: 12,
+    Variable: 13,
+    Constant: 14,
+} as const;
+
+export interface SymbolInformation {
+    name: string,
+    kind: number,
+    location: Location
+}
+
+export interface TextEdit {
+    range: Range,
+    newText: string
+}
+
+export interface WorkspaceEdit {
+    changes: Record<string, Array<TextEdit>>
+}
+
+export const TextDocumentSyncKind = {
+    Full: 1,
+} as const;
+
+export const MessageType = {
+    Error: 1,
+} as const;
+
+export interface LogMessageParams {
+    type: number,
+    message: string
+}
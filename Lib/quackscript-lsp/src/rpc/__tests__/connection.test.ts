@@ -0,0 +1,58 @@
+import { ErrorCodes } from '../types';
+import { TestUtils } from '../../utils/test/testUtils';
+
+describe('Connection - ', () => {
+
+    test('messages split between chunks are read once complete', async () => {
+        const client = TestUtils.createClient();
+        const message = TestUtils.frame({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+
+        await client.send(message.substring(0, 10));
+        await client.send(message.substring(10, 40));
+        expect(client.messages()).toHaveLength(0);
+
+        await client.send(message.substring(40));
+        expect(client.messages()).toEqual([expect.objectContaining({ id: 1, result: expect.objectContaining({ capabilities: expect.anything() }) })]);
+    });
+
+    test('the length is counted in bytes', async () => {
+        const client = TestUtils.createClient();
+        await client.request('initialize', { rootUri: 'file:///🦆' });
+
+        expect((await client.request('shutdown')).result).toBeNull();
+    });
+
+    test('unknown methods are answered with an error', async () => {
+        const client = TestUtils.createClient();
+
+        expect((await client.request('quack/unknown')).error).toEqual({
+            code: ErrorCodes.MethodNotFound,
+            message: 'Unhandled method quack/unknown'
+        });
+    });
+
+    test('requests can\'t be made before initializing', async () => {
+        const client = TestUtils.createClient();
+
+        expect((await client.request('textDocument/hover')).error?.code).toBe(ErrorCodes.ServerNotInitialized);
+    });
+
+    test('invalid json is answered with a parse error', async () => {
+        const client = TestUtils.createClient();
+        await client.send('Content-Length: 5\r\n\r\n{oops');
+
+        expect(client.messages()).toEqual([{ jsonrpc: '2.0', id: null, error: { code: ErrorCodes.ParseError, message: 'Invalid JSON' } }]);
+        expect((await client.request('shutdown')).result).toBeNull();
+    });
+
+    test('the exit code depends on the server being shut down first', async () => {
+        const exit = jest.fn();
+        const client = TestUtils.createClient({ exit });
+
+        await client.notify('exit');
+        await client.request('shutdown');
+        await client.notify('exit');
+
+        expect(exit.mock.calls).toEqual([[1], [0]]);
+    });
+});
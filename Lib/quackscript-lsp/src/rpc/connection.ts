@@ -0,0 +1,121 @@
+import { Readable, Writable } from 'stream';
+import { ResponseException } from '../exception/ResponseException';
+import {
+    ErrorCodes, Message, MessageId, NotificationHandler, NotificationMessage, RequestHandler, RequestMessage, ResponseError
+} from './types';
+
+const HEADER_SEPARATOR = '\r\n\r\n';
+
+const isRequest = (message: Message): message is RequestMessage => (
+    'method' in message && 'id' in message && message.id !== undefined
+);
+
+const isNotification = (message: Message): message is NotificationMessage => (
+    'method' in message && !('id' in message)
+);
+
+/**
+ * Reads and writes JSON-RPC messages framed with a Content-Length header, the way language servers talk over stdio
+ */
+export class Connection {
+    private _input: Readable;
+    private _output: Writable;
+    private _buffer: Buffer;
+    private _requestHandlers: Record<string, RequestHandler>;
+    private _notificationHandlers: Record<string, NotificationHandler>;
+
+    constructor(input: Readable, output: Writable) {
+        this._input = input;
+        this._output = output;
+        this._buffer = Buffer.alloc(0);
+        this._requestHandlers = {};
+        this._notificationHandlers = {};
+    }
+
+    public listen = () => {
+        this._input.on('data', this.read);
+    };
+
+    public onRequest = (method: string, handler: RequestHandler) => {
+        this._requestHandlers[method] = handler;
+    };
+
+    public onNotification = (method: string, handler: NotificationHandler) => {
+        this._notificationHandlers[method] = handler;
+    };
+
+    public sendNotification = (method: string, params: unknown) => {
+        this.write({ jsonrpc: '2.0', method, params });
+    };
+
+    /**
+     * Adds the chunk to what has been read so far and handles every message that is complete
+     */
+    private read = (chunk: Buffer | string) => {
+        this._buffer = Buffer.concat([this._buffer, typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk]);
+
+        let headerEnd = this._buffer.indexOf(HEADER_SEPARATOR);
+        while (headerEnd !== -1) {
+            const header = this._buffer.subarray(0, headerEnd).toString('ascii');
+            const contentLength = /Content-Length: *(\d+)/i.exec(header)?.[1];
+            const bodyStart = headerEnd + HEADER_SEPARATOR.length;
+
+            if (contentLength === undefined) {
+                // a message without length can't be read, everything up to the next header is dropped
+                this._buffer = this._buffer.subarray(bodyStart);
+                this.respond(null, undefined, { code: ErrorCodes.ParseError, message: 'Missing Content-Length header' });
+            } else {
+                const bodyEnd = bodyStart + parseInt(contentLength, 10);
+                if (this._buffer.length < bodyEnd) return;
+
+                const body = this._buffer.subarray(bodyStart, bodyEnd).toString('utf8');
+                this._buffer = this._buffer.subarray(bodyEnd);
+                this.handle(body);
+            }
+
+            headerEnd = this._buffer.indexOf(HEADER_SEPARATOR);
+        }
+    };
+
+    private handle = (body: string) => {
+        let message: Message;
+        try {
+            message = JSON.parse(body) as Message;
+        } catch {
+            this.respond(null, undefined, { code: ErrorCodes.ParseError, message: 'Invalid JSON' });
+            return;
+        }
+
+        if (isRequest(message)) {
+            this.handleRequest(message);
+        } else if (isNotification(message)) {
+            this._notificationHandlers[message.method]?.(message.params);
+        }
+    };
+
+    private handleRequest = (request: RequestMessage) => {
+        const handler = this._requestHandlers[request.method];
+        if (!handler) {
+            this.respond(request.id, undefined, { code: ErrorCodes.MethodNotFound, message: `Unhandled method ${request.method}` });
+            return;
+        }
+
+        try {
+            this.respond(request.id, handler(request.params) ?? null);
+        } catch (err) {
+            const error = err instanceof ResponseException ?
+                err.toResponseError() :
+                { code: ErrorCodes.InternalError, message: err instanceof Error ? err.message : String(err) };
+            this.respond(request.id, undefined, error);
+        }
+    };
+
+    private respond = (id: MessageId | null, result: unknown, error?: ResponseError) => {
+        this.write(error ? { jsonrpc: '2.0', id, error } : { jsonrpc: '2.0', id, result });
+    };
+
+    private write = (message: Message) => {
+        const body = JSON.stringify(message);
+        this._output.write(`Content-Length: ${Buffer.byteLength(body, 'utf8')}${HEADER_SEPARATOR}${body}`);
+    };
+}
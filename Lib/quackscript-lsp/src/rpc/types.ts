@@ -0,0 +1,43 @@
+export type MessageId = number | string;
+
+export interface RequestMessage {
+    jsonrpc: '2.0',
+    id: MessageId,
+    method: string,
+    params?: unknown
+}
+
+export interface NotificationMessage {
+    jsonrpc: '2.0',
+    method: string,
+    params?: unknown
+}
+
+export interface ResponseError {
+    code: number,
+    message: string
+}
+
+export interface ResponseMessage {
+    jsonrpc: '2.0',
+    // null when the id of the request couldn't be read
+    id: MessageId | null,
+    result?: unknown,
+    error?: ResponseError
+}
+
+export type Message = RequestMessage | NotificationMessage | ResponseMessage;
+
+export const ErrorCodes = {
+    ParseError: -32700,
+    InvalidRequest: -32600,
+    MethodNotFound: -32601,
+    InvalidParams: -32602,
+    InternalError: -32603,
+    ServerNotInitialized: -32002,
+    RequestFailed: -32803,
+} as const;
+
+export type RequestHandler = (params: unknown) => unknown;
+
+export type NotificationHandler = (params: unknown) => void;
@@ -0,0 +1,200 @@
+import { CompletionItem, Hover, Location, PublishDiagnosticsParams, SymbolInformation, SymbolKind, WorkspaceEdit } from '../../protocol/types';
+import { ErrorCodes } from '../../rpc/types';
+import { TestUtils } from '../../utils/test/testUtils';
+
+const uri = 'file:///project/main.quack';
+
+const code = `QUACK greet <- (name: text) > {
+    quack message <- 'hello ' + name🦆
+    quackprint(message)🦆
+}🦆
+quack count <- 1🦆
+greet('duck')🦆
+count <- count + 1🦆
+`;
+
+const at = (line: number, character: number) => ({ textDocument: { uri }, position: { line, character } });
+
+const labels = (items: unknown) => (items as Array<CompletionItem>).map((item) => item.label);
+
+describe('Language server - ', () => {
+
+    test('diagnostics are published when a document is opened and changed', async () => {
+        const client = await TestUtils.openDocument('quack value: number <- \'text\'🦆');
+        await client.notify('textDocument/didChange', {
+            textDocument: { uri, version: 2 },
+            contentChanges: [{ text: 'quack value <- 🦆\nquackprint(value)🦆' }]
+        });
+
+        const published = client.notifications('textDocument/publishDiagnostics').map((message) => message.params as PublishDiagnosticsParams);
+        expect(published).toHaveLength(2);
+        expect(published[0]?.diagnostics).toEqual([{
+            range: { start: { line: 0, character: 23 }, end: { line: 0, character: 29 } },
+            severity: 1,
+            code: 'QS3001',
+            source: 'quackscript',
+            message: 'Tried to assign text to number'
+        }]);
+        expect(published[1]).toMatchObject({ uri, version: 2 });
+        expect(published[1]?.diagnostics.map((diagnostic) => diagnostic.code)).toEqual(['QS2003']);
+    });
+
+    test('closing a document clears its diagnostics', async () => {
+        const client = await TestUtils.openDocument('quack value <- 🦆');
+        await client.notify('textDocument/didClose', { textDocument: { uri } });
+
+        const published = client.notifications('textDocument/publishDiagnostics');
+        expect(published[published.length - 1]?.params).toEqual({ uri, diagnostics: [] });
+        expect((await client.request('textDocument/hover', at(0, 7))).error?.code).toBe(ErrorCodes.InvalidParams);
+    });
+
+    test('completion offers the variables in scope and keywords', async () => {
+        const client = await TestUtils.openDocument(code);
+
+        const insideFunction = labels((await client.request('textDocument/completion', at(2, 4))).result);
+        expect(insideFunction).toEqual(expect.arrayContaining(['name', 'message', 'greet', 'quackprint', 'quack', 'while']));
+        expect(insideFunction).not.toContain('count');
+
+        const outsideFunction = labels((await client.request('textDocument/completion', at(6, 0))).result);
+        expect(outsideFunction).toEqual(expect.arrayContaining(['greet', 'count']));
+        expect(outsideFunction).not.toContain('name');
+        expect(outsideFunction).not.toContain('message');
+    });
+
+    test('completion after a dot offers the attributes of the type', async () => {
+        const client = await TestUtils.openDocument(`QUACK numbers <- [1, 2]🦆
+QUACK position <- vector2(1, 2)🦆
+QUACK duck <- { name: 'duck', age: 3 }🦆
+numbers.
+position.
+duck.a`);
+
+        expect(labels((await client.request('textDocument/completion', at(3, 8))).result))
+            .toEqual(['length', 'push', 'pop', 'map', 'filter', 'reduce', 'contains', 'slice', 'toText']);
+        expect(labels((await client.request('textDocument/completion', at(4, 9))).result))
+            .toEqual(['x', 'y', 'length', 'normalize', 'dot', 'toText']);
+        expect(labels((await client.request('textDocument/completion', at(5, 6))).result)).toEqual(['name', 'age', 'toText']);
+    });
+
+    test('hover shows the inferred type', async () => {
+        const client = await TestUtils.openDocument(code);
+
+        const hover = (await client.request('textDocument/hover', at(5, 2))).result as Hover;
+        expect(hover.contents.value).toBe('```quackscript\nQUACK greet: func<(text) > nothing>\n```');
+        expect(hover.range).toEqual({ start: { line: 5, character: 0 }, end: { line: 5, character: 5 } });
+
+        expect(((await client.request('textDocument/hover', at(6, 10))).result as Hover).contents.value).toContain('quack count: number');
+        expect(((await client.request('textDocument/hover', at(1, 33))).result as Hover).contents.value).toContain('(argument) name: text');
+        expect((await client.request('textDocument/hover', at(4, 16))).result).toBeNull();
+    });
+
+    test('go to definition finds declarations and parameters', async () => {
+        const client = await TestUtils.openDocument(code);
+
+        expect((await client.request('textDocument/definition', at(6, 10))).result).toEqual({
+            uri,
+            range: { start: { line: 4, character: 6 }, end: { line: 4, character: 11 } }
+        });
+        expect(((await client.request('textDocument/definition', at(1, 33))).result as Location).range.start).toEqual({ line: 0, character: 16 });
+        expect((await client.request('textDocument/definition', at(2, 6))).result).toBeNull();
+    });
+
+    test('references include the declaration when asked for', async () => {
+        const client = await TestUtils.openDocument(code);
+        const lines = (result: unknown) => (result as Array<Location>).map((location) => location.range.start);
+
+        expect(lines((await client.request('textDocument/references', { ...at(4, 8), context: { includeDeclaration: true } })).result))
+            .toEqual([{ line: 4, character: 6 }, { line: 6, character: 0 }, { line: 6, character: 9 }]);
+        expect(lines((await client.request('textDocument/references', { ...at(4, 8), context: { includeDeclaration: false } })).result))
+            .toEqual([{ line: 6, character: 0 }, { line: 6, character: 9 }]);
+    });
+
+    test('document symbols list the declarations', async () => {
+        const client = await TestUtils.openDocument(code);
+        const symbols = (await client.request('textDocument/documentSymbol', { textDocument: { uri } })).result as Array<SymbolInformation>;
+
+        expect(symbols.map((symbol) => [symbol.name, symbol.kind])).toEqual([
+            ['greet', SymbolKind.Function],
+            ['message', SymbolKind.Variable],
+            ['count', SymbolKind.Variable],
+        ]);
+    });
+
+    test('rename changes the declaration and every use', async () => {
+        const client = await TestUtils.openDocument(code);
+        const rename = await client.request('textDocument/rename', { ...at(0, 18), newName: 'who' });
+
+        expect((rename.result as WorkspaceEdit).changes[uri]).toEqual([
+            { range: { start: { line: 0, character: 16 }, end: { line: 0, character: 20 } }, newText: 'who' },
+            { range: { start: { line: 1, character: 32 }, end: { line: 1, character: 36 } }, newText: 'who' },
+        ]);
+    });
+
+    test('rename rejects invalid names and the standard library', async () => {
+        const client = await TestUtils.openDocument(code);
+
+        expect((await client.request('textDocument/rename', { ...at(4, 8), newName: 'quack' })).error?.code).toBe(ErrorCodes.InvalidParams);
+        expect((await client.request('textDocument/rename', { ...at(2, 6), newName: 'print' })).error?.code).toBe(ErrorCodes.RequestFailed);
+    });
+
+    test('rename rejects names declared in the same or an enclosing scope', async () => {
+        const client = await TestUtils.openDocument(code);
+        const renameError = async (line: number, character: number, newName: string) => (
+            (await client.request('textDocument/rename', { ...at(line, character), newName })).error
+        );
+
+        expect(await renameError(1, 10, 'name')).toEqual({ code: ErrorCodes.RequestFailed, message: '\'name\' is already declared in this scope' });
+        expect((await renameError(1, 10, 'count'))?.code).toBe(ErrorCodes.RequestFailed);
+        expect((await renameError(4, 8, 'greet'))?.code).toBe(ErrorCodes.RequestFailed);
+        expect((await renameError(4, 8, 'quackprint'))?.code).toBe(ErrorCodes.RequestFailed);
+        expect(await renameError(4, 8, 'message')).toBeUndefined();
+    });
+
+    test('rename rejects names that would hide the symbol where it is used', async () => {
+        const client = await TestUtils.openDocument('quack x <- 1🦆\nQUACK f <- () > {\n    quack y <- 2🦆\n    return x + y🦆\n}🦆');
+        const rename = (newName: string) => client.request('textDocument/rename', { ...at(0, 6), newName });
+
+        expect((await rename('y')).error).toEqual({ code: ErrorCodes.RequestFailed, message: '\'y\' is already declared in this scope' });
+        expect((await rename('z')).result).toBeDefined();
+    });
+
+    test('errors handling notifications are logged and the server keeps working', async () => {
+        const client = await TestUtils.openDocument(code);
+        await client.notify('textDocument/didOpen', {
+            textDocument: { uri: 'file://remote/project/main.quack', languageId: 'quackscript', version: 1, text: code }
+        });
+
+        expect(client.notifications('window/logMessage').map((message) => message.params)).toEqual([{
+            type: 1,
+            message: expect.stringContaining('Failed to handle textDocument/didOpen')
+        }]);
+        expect(((await client.request('textDocument/hover', at(4, 8))).result as Hover).contents.value).toContain('quack count: number');
+    });
+
+    test('code with syntax errors is still analyzed', async () => {
+        const client = await TestUtils.openDocument(`quack count <- 1🦆
+quack broken <- 🦆
+count <- count + 🦆
+cou`);
+
+        expect(labels((await client.request('textDocument/completion', at(3, 3))).result)).toContain('count');
+        expect(((await client.request('textDocument/hover', at(0, 8))).result as Hover).contents.value).toContain('quack count: number');
+    });
+
+    test('functions missing their } are still analyzed', async () => {
+        const client = await TestUtils.openDocument('QUACK f <- (a: number) > {\n    quack y <- a🦆\n    ');
+
+        expect(labels((await client.request('textDocument/completion', at(2, 4))).result)).toEqual(expect.arrayContaining(['a', 'y', 'f']));
+        expect(((await client.request('textDocument/hover', at(0, 6))).result as Hover).contents.value).toContain('QUACK f: func<(number) >');
+    });
+
+    test('imports are read relative to the importing file', async () => {
+        const readFile = jest.fn(() => 'export QUACK pi <- 3.14🦆');
+        const client = await TestUtils.openDocument('import \'./math.quack\'🦆\nquack value: text <- pi🦆', uri, { readFile });
+
+        expect(readFile).toHaveBeenCalledWith('/project/math.quack');
+        const published = client.notifications('textDocument/publishDiagnostics')[0]?.params as PublishDiagnosticsParams;
+        expect(published.diagnostics.map((diagnostic) => diagnostic.message)).toEqual(['Tried to assign number to text']);
+        expect((await client.request('textDocument/definition', at(1, 22))).result).toBeNull();
+    });
+});
@@ -0,0 +1,285 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { DataTypeNode, getStaticFunctionNames, RecordLiteralType, TypeChecker, TypeSymbol } from 'quackscript';
+import QuackDocument from '../document';
+import { ResponseException } from '../exception/ResponseException';
+import {
+    CompletionItem, CompletionItemKind, DidChangeTextDocumentParams, DidCloseTextDocumentParams, DidOpenTextDocumentParams,
+    DocumentSymbolParams, Hover, Location, LogMessageParams, MessageType, ReferenceParams, RenameParams, SymbolInformation, SymbolKind,
+    TextDocumentPositionParams, TextDocumentSyncKind, WorkspaceEdit
+} from '../protocol/types';
+import { Connection } from '../rpc/connection';
+import { ErrorCodes, NotificationHandler, RequestHandler } from '../rpc/types';
+import { ProtocolUtils } from '../utils/protocol/protocolUtils';
+
+const keywords = [
+    'quack', 'QUACK', 'if', 'then', 'else', 'while', 'for', 'break', 'continue', 'when', 'type', 'return', 'import', 'export', 'try', 'catch', 'finally',
+    'true', 'false', 'nothing', 'text', 'number', 'boolean', 'list', 'optional', 'record', 'func', 'vector2', 'vector3',
+];
+
+const vectorComponents: Record<string, Array<string>> = {
+    vector2: ['x', 'y'],
+    vector3: ['x', 'y', 'z'],
+};
+
+// identifier followed by a dot and the part of the attribute typed so far
+const attributeAccess = /([a-zA-Z_][a-zA-Z0-9_]*)\.[a-zA-Z0-9_]*$/;
+
+const validIdentifier = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+export interface ServerOptions {
+    // reads the files imported by the open documents
+    readFile?: (filePath: string) => string,
+    // called on the exit notification with the code the process should end with
+    exit?: (code: number) => void
+}
+
+/**
+ * Language server for .quack files, every open document is parsed and type checked each time it changes
+ */
+export default class QuackLanguageServer {
+    private _connection: Connection;
+    private _documents: Record<string, QuackDocument>;
+    private _readFile: (filePath: string) => string;
+    private _exit: (code: number) => void;
+    private _isInitialized = false;
+    private _isShutdown = false;
+
+    constructor(connection: Connection, options: ServerOptions = {}) {
+        this._connection = connection;
+        this._documents = {};
+        this._readFile = options.readFile ?? ((filePath) => fs.readFileSync(filePath, 'utf8'));
+        this._exit = options.exit ?? (() => undefined);
+
+        connection.onRequest('initialize', this.initialize);
+        connection.onRequest('shutdown', this.shutdown);
+        connection.onNotification('exit', () => this._exit(this._isShutdown ? 0 : 1));
+        this.onNotification('textDocument/didOpen', (params) => this.didOpen(params as DidOpenTextDocumentParams));
+        this.onNotification('textDocument/didChange', (params) => this.didChange(params as DidChangeTextDocumentParams));
+        this.onNotification('textDocument/didClose', (params) => this.didClose(params as DidCloseTextDocumentParams));
+
+        this.onRequest('textDocument/completion', (params) => this.completion(params as TextDocumentPositionParams));
+        this.onRequest('textDocument/hover', (params) => this.hover(params as TextDocumentPositionParams));
+        this.onRequest('textDocument/definition', (params) => this.definition(params as TextDocumentPositionParams));
+        this.onRequest('textDocument/references', (params) => this.references(params as ReferenceParams));
+        this.onRequest('textDocument/documentSymbol', (params) => this.documentSymbol(params as DocumentSymbolParams));
+        this.onRequest('textDocument/rename', (params) => this.rename(params as RenameParams));
+    }
+
+    public listen = () => {
+        this._connection.listen();
+    };
+
+    /**
+     * Registers a request that can only be made once the server has been initialized
+     */
+    private onRequest = (method: string, handler: RequestHandler) => {
+        this._connection.onRequest(method, (params) => {
+            if (!this._isInitialized) {
+                throw new ResponseException(ErrorCodes.ServerNotInitialized, 'The server has not been initialized');
+            }
+            return handler(params);
+        });
+    };
+
+    /**
+     * Registers a notification whose errors are logged to the client, notifications have no response to send them in
+     */
+    private onNotification = (method: string, handler: NotificationHandler) => {
+        this._connection.onNotification(method, (params) => {
+            try {
+                handler(params);
+            } catch (err) {
+                const log: LogMessageParams = {
+                    type: MessageType.Error,
+                    message: `Failed to handle ${method}: ${err instanceof Error ? err.message : String(err)}`
+                };
+                this._connection.sendNotification('window/logMessage', log);
+            }
+        });
+    };
+
+    private initialize = () => {
+        this._isInitialized = true;
+        return {
+            capabilities: {
+                textDocumentSync: TextDocumentSyncKind.Full,
+                completionProvider: { triggerCharacters: ['.'] },
+                hoverProvider: true,
+                definitionProvider: true,
+                referencesProvider: true,
+                documentSymbolProvider: true,
+                renameProvider: true
+            },
+            serverInfo: { name: 'quackscript-lsp', version: '1.0.0' }
+        };
+    };
+
+    private shutdown = () => {
+        this._isShutdown = true;
+        return null;
+    };
+
+    private didOpen = ({ textDocument }: DidOpenTextDocumentParams) => {
+        this.update(textDocument.uri, textDocument.version, textDocument.text);
+    };
+
+    private didChange = ({ textDocument, contentChanges }: DidChangeTextDocumentParams) => {
+        const change = contentChanges[contentChanges.length - 1];
+        if (change) this.update(textDocument.uri, textDocument.version, change.text);
+    };
+
+    private didClose = ({ textDocument }: DidCloseTextDocumentParams) => {
+        delete this._documents[textDocument.uri];
+        this._connection.sendNotification('textDocument/publishDiagnostics', { uri: textDocument.uri, diagnostics: [] });
+    };
+
+    private update = (uri: string, version: number, text: string) => {
+        const typeChecker = new TypeChecker(this.loadFile, this.resolvePath);
+        const document = new QuackDocument(uri, version, text, typeChecker, uri.startsWith('file:') ? fileURLToPath(uri) : undefined);
+        this._documents[uri] = document;
+
+        this._connection.sendNotification('textDocument/publishDiagnostics', {
+            uri,
+            version,
+            diagnostics: document.diagnostics.map((diagnostic) => ProtocolUtils.toLspDiagnostic(diagnostic, uri))
+        });
+    };
+
+    /**
+     * The text of open documents is used over the one saved
+     */
+    private loadFile = (filePath: string): string => (
+        this._documents[pathToFileURL(filePath).href]?.text ?? this._readFile(filePath)
+    );
+
+    /**
+     * Imports are relative to the importing file, documents that aren't saved can't import files
+     */
+    private resolvePath = (importPath: string, importer: string | null): string => {
+        if (importer === null) throw new Error(`Unable to resolve ${importPath} from a document that isn't saved`);
+        return path.resolve(path.dirname(importer), importPath);
+    };
+
+    private getDocument = (uri: string): QuackDocument => {
+        const document = this._documents[uri];
+        if (!document) throw new ResponseException(ErrorCodes.InvalidParams, `Document ${uri} is not open`);
+        return document;
+    };
+
+    private completion = ({ textDocument, position }: TextDocumentPositionParams): Array<CompletionItem> => {
+        const document = this.getDocument(textDocument.uri);
+        const quackPosition = document.toPosition(position);
+        const symbols = document.getVisibleSymbols(quackPosition);
+
+        const lineStart = quackPosition.globalChar - quackPosition.lineChar;
+        const attribute = attributeAccess.exec(document.text.substring(lineStart, quackPosition.globalChar - 1));
+        if (attribute) {
+            const dataType = symbols[attribute[1] ?? '']?.dataType;
+            return dataType ? this.getAttributeCompletions(dataType) : [];
+        }
+
+        return [
+            ...Object.entries(symbols).map(([name, symbol]) => ({
+                label: name,
+                kind: this.getCompletionKind(symbol),
+                detail: ProtocolUtils.describeSymbol(name, symbol)
+            })),
+            ...keywords.map((keyword) => ({ label: keyword, kind: CompletionItemKind.Keyword }))
+        ];
+    };
+
+    private getAttributeCompletions = (dataType: DataTypeNode): Array<CompletionItem> => {
+        if (dataType.value === 'record' && 'fields' in dataType) {
+            return [
+                ...Object.keys((dataType as RecordLiteralType).fields).map((field) => ({ label: field, kind: CompletionItemKind.Field })),
+                ...getStaticFunctionNames('record').map((name) => ({ label: name, kind: CompletionItemKind.Method }))
+            ];
+        }
+
+        return [
+            ...(vectorComponents[dataType.value] ?? []).map((component) => ({ label: component, kind: CompletionItemKind.Field })),
+            ...getStaticFunctionNames(dataType.value).map((name) => ({ label: name, kind: CompletionItemKind.Method }))
+        ];
+    };
+
+    private getCompletionKind = (symbol: TypeSymbol) => {
+        if (symbol.dataType?.value === 'func') return CompletionItemKind.Function;
+        return symbol.declarationType === 'constant' ? CompletionItemKind.Constant : CompletionItemKind.Variable;
+    };
+
+    private hover = ({ textDocument, position }: TextDocumentPositionParams): Hover | null => {
+        const document = this.getDocument(textDocument.uri);
+        const reference = document.getSymbolAt(document.toPosition(position));
+        if (!reference) return null;
+
+        return {
+            contents: {
+                kind: 'markdown',
+                value: `\`\`\`quackscript\n${ProtocolUtils.describeSymbol(reference.identifier.value, reference.symbol)}\n\`\`\``
+            },
+            range: ProtocolUtils.toIdentifierRange(reference.identifier)
+        };
+    };
+
+    private definition = ({ textDocument, position }: TextDocumentPositionParams): Location | null => {
+        const document = this.getDocument(textDocument.uri);
+        const reference = document.getSymbolAt(document.toPosition(position));
+        const declaration = reference ? document.getDeclaration(reference.symbol) : null;
+        if (!declaration) return null;
+
+        return { uri: document.uri, range: ProtocolUtils.toIdentifierRange(declaration) };
+    };
+
+    private references = ({ textDocument, position, context }: ReferenceParams): Array<Location> => {
+        const document = this.getDocument(textDocument.uri);
+        const reference = document.getSymbolAt(document.toPosition(position));
+        if (!reference) return [];
+
+        const declaration = document.getDeclaration(reference.symbol);
+        return document.getReferences(reference.symbol)
+            .filter((identifier) => context.includeDeclaration || identifier !== declaration)
+            .map((identifier) => ({ uri: document.uri, range: ProtocolUtils.toIdentifierRange(identifier) }));
+    };
+
+    private documentSymbol = ({ textDocument }: DocumentSymbolParams): Array<SymbolInformation> => {
+        const document = this.getDocument(textDocument.uri);
+
+        return document.getDeclarations()
+            .filter(({ symbol }) => symbol.declarationType !== 'argument')
+            .map(({ identifier, symbol }) => ({
+                name: identifier.value,
+                kind: symbol.dataType?.value === 'func' ?
+                    SymbolKind.Function :
+                    symbol.declarationType === 'constant' ? SymbolKind.Constant : SymbolKind.Variable,
+                location: { uri: document.uri, range: ProtocolUtils.toIdentifierRange(identifier) }
+            }));
+    };
+
+    private rename = ({ textDocument, position, newName }: RenameParams): WorkspaceEdit => {
+        const document = this.getDocument(textDocument.uri);
+        const reference = document.getSymbolAt(document.toPosition(position));
+        if (!reference) {
+            throw new ResponseException(ErrorCodes.RequestFailed, 'There is no variable to rename at this position');
+        }
+        if (!document.getDeclaration(reference.symbol)) {
+            throw new ResponseException(ErrorCodes.RequestFailed, `'${reference.identifier.value}' is not declared in this file`);
+        }
+        if (!validIdentifier.test(newName) || keywords.includes(newName)) {
+            throw new ResponseException(ErrorCodes.InvalidParams, `'${newName}' is not a valid identifier`);
+        }
+        if (document.findConflict(reference.symbol, newName)) {
+            throw new ResponseException(ErrorCodes.RequestFailed, `'${newName}' is already declared in this scope`);
+        }
+
+        return {
+            changes: {
+                [document.uri]: document.getReferences(reference.symbol).map((identifier) => ({
+                    range: ProtocolUtils.toIdentifierRange(identifier),
+                    newText: newName
+                }))
+            }
+        };
+    };
+}
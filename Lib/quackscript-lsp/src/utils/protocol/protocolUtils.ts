@@ -0,0 +1,65 @@
+import { Diagnostic, DiagnosticSeverity as QuackSeverity, formatType, IdentifierNode, Position, TypeSymbol } from 'quackscript';
+import { DiagnosticSeverity, LspDiagnostic, LspPosition, Range } from '../../protocol/types';
+
+const severities: Record<QuackSeverity, number> = {
+    error: DiagnosticSeverity.Error,
+    warning: DiagnosticSeverity.Warning,
+    information: DiagnosticSeverity.Information
+};
+
+const declarationKeywords: Record<TypeSymbol['declarationType'], string> = {
+    constant: 'QUACK',
+    variable: 'quack',
+    argument: '(argument)',
+    internal: '(function)'
+};
+
+/**
+ * QuackScript positions start at 1, protocol positions at 0
+ */
+const toLspPosition = (position: Position): LspPosition => ({
+    line: position.line - 1,
+    character: position.lineChar - 1
+});
+
+const toRange = (start: Position, end: Position): Range => ({
+    start: toLspPosition(start),
+    end: toLspPosition(end)
+});
+
+const toIdentifierRange = (identifier: IdentifierNode): Range => {
+    const start = toLspPosition(identifier.position);
+    return {
+        start,
+        end: { line: start.line, character: start.character + identifier.value.length }
+    };
+};
+
+const toLspDiagnostic = (diagnostic: Diagnostic, uri: string): LspDiagnostic => ({
+    range: toRange(diagnostic.start, diagnostic.end),
+    severity: severities[diagnostic.severity],
+    code: diagnostic.code,
+    source: 'quackscript',
+    message: diagnostic.message,
+    ...(diagnostic.related ? {
+        relatedInformation: diagnostic.related.map((related) => ({
+            location: { uri, range: toRange(related.start, related.end) },
+            message: related.message
+        }))
+    } : {})
+});
+
+/**
+ * Describes a symbol the way it is declared, like QUACK name: text
+ */
+const describeSymbol = (name: string, symbol: TypeSymbol): string => (
+    `${declarationKeywords[symbol.declarationType]} ${name}: ${symbol.dataType ? formatType(symbol.dataType) : 'unknown'}`
+);
+
+export const ProtocolUtils = {
+    toLspPosition,
+    toRange,
+    toIdentifierRange,
+    toLspDiagnostic,
+    describeSymbol,
+};
@@ -0,0 +1,81 @@
+import { PassThrough } from 'stream';
+import { Connection } from '../../rpc/connection';
+import { Message, NotificationMessage, ResponseMessage } from '../../rpc/types';
+import QuackLanguageServer, { ServerOptions } from '../../server';
+
+const frame = (message: object) => {
+    const body = JSON.stringify(message);
+    return `Content-Length: ${Buffer.byteLength(body, 'utf8')}\r\n\r\n${body}`;
+};
+
+/**
+ * Splits everything the server wrote into messages
+ */
+const readMessages = (output: string): Array<Message> => {
+    const messages: Array<Message> = [];
+    let remaining = Buffer.from(output, 'utf8');
+    let headerEnd = remaining.indexOf('\r\n\r\n');
+    while (headerEnd !== -1) {
+        const length = parseInt(/Content-Length: (\d+)/.exec(remaining.subarray(0, headerEnd).toString())?.[1] ?? '0', 10);
+        const bodyStart = headerEnd + 4;
+        messages.push(JSON.parse(remaining.subarray(bodyStart, bodyStart + length).toString('utf8')) as Message);
+        remaining = remaining.subarray(bodyStart + length);
+        headerEnd = remaining.indexOf('\r\n\r\n');
+    }
+    return messages;
+};
+
+const waitForServer = () => new Promise((resolve) => setImmediate(resolve));
+
+/**
+ * Starts a server talking through in memory streams, the way an editor would through stdio
+ */
+const createClient = (options: ServerOptions = {}) => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    let written = '';
+    output.on('data', (chunk: Buffer) => {
+        written += chunk.toString('utf8');
+    });
+    new QuackLanguageServer(new Connection(input, output), options).listen();
+
+    let nextId = 1;
+    const messages = () => readMessages(written);
+
+    const send = async (raw: string) => {
+        input.write(raw);
+        await waitForServer();
+    };
+
+    const request = async (method: string, params?: unknown): Promise<ResponseMessage> => {
+        const id = nextId++;
+        await send(frame({ jsonrpc: '2.0', id, method, params }));
+        const response = messages().find((message) => 'id' in message && message.id === id && !('method' in message));
+        if (!response) throw new Error(`No response to ${method}`);
+        return response as ResponseMessage;
+    };
+
+    const notify = (method: string, params?: unknown) => send(frame({ jsonrpc: '2.0', method, params }));
+
+    const notifications = (method: string) => messages()
+        .filter((message): message is NotificationMessage => 'method' in message && message.method === method);
+
+    return { send, request, notify, notifications, messages };
+};
+
+/**
+ * Creates a client for an initialized server with the code open
+ */
+const openDocument = async (text: string, uri = 'file:///project/main.quack', options: ServerOptions = {}) => {
+    const client = createClient(options);
+    await client.request('initialize', { capabilities: {} });
+    await client.notify('initialized', {});
+    await client.notify('textDocument/didOpen', { textDocument: { uri, languageId: 'quackscript', version: 1, text } });
+    return client;
+};
+
+export const TestUtils = {
+    frame,
+    createClient,
+    openDocument,
+};
@@ -0,0 +1,176 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { TestUtils } from '../utils/test/testUtils';
+
+const samplesPath = join(__dirname, 'samples');
+const samples = readdirSync(samplesPath).filter((file) => file.endsWith('.quack'));
+
+describe('Conformance - ', () => {
+
+    test.each(samples)('%s has the same output when interpreted and compiled', (sample) => {
+        const code = readFileSync(join(samplesPath, sample), 'utf8');
+        const interpreted = TestUtils.run(code);
+        const compiled = TestUtils.runCompiled(code);
+
+        expect(interpreted.stdout.length + interpreted.stderr.length).toBeGreaterThan(0);
+        expect(compiled).toEqual(interpreted);
+    });
+
+    test.each([
+        'quack value <- 1🦆\nvalue <- \'one\'🦆',
+        'QUACK value <- 1🦆\nvalue <- 2🦆',
+        'quack value <- 1🦆\nquack value <- 2🦆',
+        'quack values <- [1]🦆\nvalues <- vector2(1, 2)🦆',
+    ])('variable errors are reported the same way when compiled: %s', (code) => {
+        const interpreted = TestUtils.run(code);
+
+        expect(interpreted.stderr).toHaveLength(1);
+        expect(TestUtils.runCompiled(code)).toEqual(interpreted);
+    });
+
+    test.each([
+        'quackprint(5)🦆',
+        'QUACK values <- [1, 2]🦆\nvalues.push(\'three\')🦆',
+        'QUACK duck <- { speak: (times: number) > { return times🦆 } }🦆\nduck.speak(\'loud\')🦆',
+        'QUACK add <- (a: number, b: number) > { return a + b🦆 }🦆\nadd(1)🦆',
+    ])('argument errors are reported at the same position when compiled: %s', (code) => {
+        const interpreted = TestUtils.run(code);
+
+        expect(interpreted.stderr).toHaveLength(1);
+        expect(TestUtils.runCompiled(code)).toEqual(interpreted);
+    });
+
+    test.each([
+        'QUACK values <- [1, \'two\']🦆',
+        'QUACK values <- [[1], [\'two\']]🦆',
+        'QUACK values: list<text> <- [1, 2]🦆',
+        'quack values: list<text> <- []🦆\nvalues <- [1]🦆',
+        'QUACK values <- [1]🦆\nvalues[\'first\']🦆',
+        'QUACK values <- [1]🦆\nvalues[5]🦆',
+        'QUACK values <- [1]🦆\nvalues[0.5]🦆',
+        'QUACK value <- 1🦆\nvalue[0]🦆',
+        'quack values <- [1]🦆\nvalues[0] <- \'one\'🦆',
+        'quack values <- [1]🦆\nvalues[3] <- 2🦆',
+        'QUACK values <- [[1]]🦆\nvalues[0][0] <- \'one\'🦆',
+        'QUACK value <- 1🦆\nvalue[0] <- 1🦆',
+        'QUACK values: list<number> <- []🦆\nvalues.pop()🦆',
+        'QUACK values <- [1, 2]🦆\nvalues.filter((value: number) > { return 1🦆 })🦆',
+        'QUACK values <- [1, 2]🦆\nvalues.reduce((total: number, value: number) > { return \'sum\'🦆 }, 0)🦆',
+    ])('list errors are reported the same way when compiled: %s', (code) => {
+        const interpreted = TestUtils.run(code);
+
+        expect(interpreted.stderr).toHaveLength(1);
+        expect(TestUtils.runCompiled(code)).toEqual(interpreted);
+    });
+
+    test.each([
+        'QUACK Duck <- type { name: text, age: number }🦆\nQUACK duck: Duck <- { name: \'duck\' }🦆',
+        'QUACK Duck <- type { name: text }🦆\nQUACK duck: Duck <- { name: \'duck\', age: 1 }🦆',
+        'QUACK Duck <- type { name: text }🦆\nQUACK duck: Duck <- { name: 1 }🦆',
+        'QUACK Duck <- type { name: text }🦆\nquack duck: Duck <- { name: \'duck\' }🦆\nduck <- { name: 1 }🦆',
+        'QUACK duck: Goose <- { name: \'duck\' }🦆',
+        'QUACK duck <- { age: 1 }🦆\nduck.name🦆',
+        'QUACK duck <- { age: 1 }🦆\nduck.age <- \'old\'🦆',
+        'QUACK duck <- { age: 1 }🦆\nduck.name <- \'duck\'🦆',
+        'QUACK duck <- { age: 1 }🦆\nduck.age.years <- 1🦆',
+        'QUACK duck <- { age: 1 }🦆\nduck.age()🦆',
+    ])('record errors are reported the same way when compiled: %s', (code) => {
+        const interpreted = TestUtils.run(code);
+
+        expect(interpreted.stderr).toHaveLength(1);
+        expect(TestUtils.runCompiled(code)).toEqual(interpreted);
+    });
+
+    test.each([
+        'QUACK double <- ():number > {\n    return \'duck\'🦆\n}🦆\ndouble()🦆',
+        'QUACK double <- ():number > {\n    quack result <- 1🦆\n}🦆\ndouble()🦆',
+        'QUACK double <- ():number > {\n    when (1) { 1 -> { return \'duck\'🦆 } }🦆\n    return 1🦆\n}🦆\ndouble()🦆',
+        'QUACK Duck <- type { name: text }🦆\nQUACK create <- ():Duck > { return { name: 1 }🦆 }🦆\ncreate()🦆',
+        'QUACK value <- 1🦆\nvalue()🦆',
+        'QUACK update <- (value: number) > { value <- 2🦆 }🦆\nupdate(1)🦆',
+        'quack operation: func<(number) > number> <- (value: text) > { return value🦆 }🦆',
+        'QUACK stop <- () > { fail(\'boom\')🦆 }🦆\nstop()🦆',
+    ])('function errors are reported the same way when compiled: %s', (code) => {
+        const interpreted = TestUtils.run(code);
+
+        expect(interpreted.stderr).toHaveLength(1);
+        expect(TestUtils.runCompiled(code)).toEqual(interpreted);
+    });
+
+    test.each([
+        '1 - \'one\'🦆',
+        '\'one\' - 1🦆',
+        '1 + true🦆',
+        '1 < \'one\'🦆',
+        'true && 1🦆',
+        '!5🦆',
+        '-\'one\'🦆',
+        'if (1) { quackprint(\'one\')🦆 }🦆',
+        '1 ? 2 : 3🦆',
+        'vector2(1, 2) + 1🦆',
+        'vector2(1, \'two\')🦆',
+    ])('operator errors are reported the same way when compiled: %s', (code) => {
+        const interpreted = TestUtils.run(code);
+
+        expect(interpreted.stderr).toHaveLength(1);
+        expect(TestUtils.runCompiled(code)).toEqual(interpreted);
+    });
+
+    test.each([
+        'missing🦆',
+        'missing <- 1🦆',
+        'missing()🦆',
+        'quackprint(missing)🦆',
+        'if (true) { QUACK value <- 1🦆 }🦆\nvalue🦆',
+        'QUACK read <- () > { return later🦆 }🦆\nread()🦆',
+        'QUACK update <- () > { later <- 1🦆 }🦆\nupdate()🦆',
+        'QUACK read <- ():number > { return later🦆 }🦆\nread()🦆\nQUACK later <- 1🦆',
+        'QUACK update <- () > { later <- 2🦆 }🦆\nQUACK later <- 1🦆\nupdate()🦆',
+        'QUACK update <- () > { later <- \'two\'🦆 }🦆\nquack later <- 1🦆\nupdate()🦆',
+    ])('undeclared variables are reported the same way when compiled: %s', (code) => {
+        const interpreted = TestUtils.run(code);
+
+        expect(interpreted.stderr).toHaveLength(1);
+        expect(TestUtils.runCompiled(code)).toEqual(interpreted);
+    });
+
+    test.each([
+        'QUACK name <- \'duck\'🦆\nquack age: number <- name🦆',
+        'quack age <- 1🦆\nQUACK name <- \'duck\'🦆\nage <- name🦆',
+        'QUACK name <- \'duck\'🦆\nQUACK ages <- [1, name]🦆',
+        'QUACK name <- \'duck\'🦆\nquack ages <- [1]🦆\nages[0] <- name🦆',
+        'QUACK name <- \'duck\'🦆\nQUACK ages <- [1]🦆\nages.push(name)🦆',
+        'QUACK name <- \'duck\'🦆\nQUACK double <- (value: number) > { return value🦆 }🦆\ndouble(name)🦆',
+        'QUACK name <- \'duck\'🦆\nQUACK age <- ():number > { return name🦆 }🦆\nage()🦆',
+        'QUACK Duck <- type { name: text }🦆\nQUACK age <- 1🦆\nQUACK duck: Duck <- { name: age }🦆',
+        'QUACK Duck <- type { name: text }🦆\nQUACK goose <- { name: 1 }🦆\nQUACK duck: Duck <- goose🦆',
+        'QUACK duck <- { age: 1 }🦆\nQUACK name <- \'duck\'🦆\nduck.age <- name🦆',
+        'quack age: optional<number> <- nothing🦆\nQUACK name <- \'duck\'🦆\nage <- name🦆',
+    ])('values of variables are reported where they are used when compiled: %s', (code) => {
+        const interpreted = TestUtils.run(code);
+
+        expect(interpreted.stderr).toHaveLength(1);
+        expect(TestUtils.runCompiled(code)).toEqual(interpreted);
+    });
+
+    test('functions can use variables declared after them and call themselves when compiled', () => {
+        const code = `QUACK count <- () > { total <- total + 1🦆 }🦆
+quack total <- 1🦆
+count()🦆
+total🦆
+QUACK depth <- (value: number) > {
+    QUACK inner <- (rest: number):number > { return rest < 1 ? 0 : inner(rest - 1) + 1🦆 }🦆
+    return inner(value)🦆
+}🦆
+depth(3)🦆
+try {
+    missing🦆
+} catch (err) {
+    quackprint(err.message)🦆
+}🦆`;
+        const interpreted = TestUtils.run(code);
+
+        expect(interpreted).toEqual({ stdout: ['2', '3', 'Variable \'missing\' not in memory'], stderr: [] });
+        expect(TestUtils.runCompiled(code)).toEqual(interpreted);
+    });
+});
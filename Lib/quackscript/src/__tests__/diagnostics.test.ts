@@ -0,0 +1,202 @@
+import QuackScript from '..';
+import Interpreter from '../interpreter';
+import { DeclarationNode, FuncDeclarationNode } from '../parser/types';
+import TypeChecker from '../typeChecker';
+import { Diagnostic, DiagnosticCodes } from '../types/Diagnostic';
+
+describe('Diagnostics - ', () => {
+
+    test('invalid characters are reported with their range', () => {
+        const { ast, diagnostics } = QuackScript.parse('quack value <- 1 ## 2🦆');
+
+        expect(ast.statements.map((statement) => statement.body.type)).toEqual(['Error']);
+        expect(diagnostics[0]).toEqual({
+            start: { line: 1, lineChar: 18, globalChar: 18 },
+            end: { line: 1, lineChar: 20, globalChar: 20 },
+            severity: 'error',
+            code: 'QS1001',
+            message: 'Invalid character \'##\''
+        });
+    });
+
+    test('parse errors have the position of the token they were found at', () => {
+        const { ast, diagnostics } = QuackScript.parse(`quackprint('first')🦆
+if (true {
+}🦆
+quackprint('last')🦆`);
+
+        expect(ast.statements.map((statement) => statement.body.type)).toEqual(['Expression', 'Error', 'Expression']);
+        expect(diagnostics).toEqual([{
+            start: { line: 2, lineChar: 10, globalChar: 32 },
+            end: { line: 2, lineChar: 11, globalChar: 33 },
+            severity: 'error',
+            code: 'QS2001',
+            message: 'Expected ) but found {'
+        }]);
+    });
+
+    test('every statement with errors is reported', () => {
+        const { diagnostics } = QuackScript.parse(`QUACK value🦆
+1 + 🦆
+while (true) {
+    quackprint('loop')🦆
+}🦆
+break🦆`);
+
+        expect(diagnostics.map((diagnostic) => diagnostic.code)).toEqual(['QS2003', 'QS2002', 'QS2005']);
+        expect(diagnostics.map((diagnostic) => diagnostic.start.line)).toEqual([1, 2, 6]);
+    });
+
+    test('errors inside a block don\'t affect the statements after the block', () => {
+        const { ast, diagnostics } = QuackScript.parse(`QUACK greet <- (name: text) > {
+    quack message <- 🦆
+    quackprint(name)🦆
+}🦆
+greet('duck')🦆`);
+
+        expect(diagnostics).toHaveLength(1);
+        expect(diagnostics[0]?.start.line).toBe(2);
+        expect(ast.statements.map((statement) => statement.body.type)).toEqual(['Declaration', 'Expression']);
+
+        const declaration = ast.statements[0]?.body as DeclarationNode;
+        const func = declaration.assignmentNode.expression.body as FuncDeclarationNode;
+        expect(func.body.body.map((statement) => statement.body.type)).toEqual(['Error', 'Expression']);
+    });
+
+    test('a statement missing its terminator stops at the next statement', () => {
+        const { ast, diagnostics } = QuackScript.parse(`quack value <- 1
+quack other <- 2🦆
+if (value > other) {
+    quackprint('bigger')🦆
+}🦆`);
+
+        expect(diagnostics.map((diagnostic) => diagnostic.message)).toEqual(['Expected \'🦆\' but found \'quack\'']);
+        expect(ast.statements.map((statement) => statement.body.type)).toEqual(['Error', 'Declaration', 'IfStatement']);
+    });
+
+    test('brackets opened by a statement with errors are skipped', () => {
+        const { ast, diagnostics } = QuackScript.parse(`quack duck <- { name: }🦆
+}🦆
+quackprint('quack')🦆`);
+
+        expect(diagnostics.map((diagnostic) => diagnostic.start.line)).toEqual([1, 2]);
+        expect(ast.statements.map((statement) => statement.body.type)).toEqual(['Error', 'Error', 'Expression']);
+    });
+
+    test('a block missing its } is closed at the end of the file or at a bracket closing the expression it is in', () => {
+        const { ast, diagnostics } = QuackScript.parse(`quackprint((a: number) > {
+    quack y <- a🦆
+)🦆
+QUACK f <- (a: number) > {
+    quack y <- a🦆`);
+
+        expect(diagnostics).toEqual([
+            expect.objectContaining({ message: 'Expected } but found )', start: expect.objectContaining({ line: 3, lineChar: 1 }) }),
+            expect.objectContaining({ message: 'Expected } but found EOF', start: expect.objectContaining({ line: 5, lineChar: 17 }) }),
+        ]);
+        expect(ast.statements.map((statement) => statement.body.type)).toEqual(['Expression', 'Declaration']);
+
+        const declaration = ast.statements[1]?.body as DeclarationNode;
+        const func = declaration.assignmentNode.expression.body as FuncDeclarationNode;
+        expect(func.body.body.map((statement) => statement.body.type)).toEqual(['Declaration']);
+    });
+
+    test('the partial tree can be type checked', () => {
+        const { ast } = QuackScript.parse(`quack value <- 1🦆
+quack broken <- 🦆
+value <- 'text'🦆
+quackprint(broken)🦆`);
+
+        expect(new TypeChecker().check(ast).map((diagnostic) => diagnostic.code)).toEqual([DiagnosticCodes.TypeMismatch]);
+    });
+
+    test('texts report the position of invalid escape sequences', () => {
+        const { diagnostics } = QuackScript.parse('quackprint(\'a\\qb\')🦆');
+
+        expect(diagnostics[0]).toMatchObject({
+            code: 'QS2004',
+            start: { line: 1, lineChar: 14 },
+            message: 'Invalid escape sequence \'\\q\''
+        });
+    });
+
+    test('only declarations at the top of the file can be exported', () => {
+        const { ast, diagnostics } = QuackScript.parse(`export QUACK first <- 1🦆
+if (true) {
+    export QUACK second <- 2🦆
+}🦆`);
+
+        expect((ast.statements[0]?.body as DeclarationNode).isExported).toBe(true);
+        expect(diagnostics).toEqual([expect.objectContaining({
+            code: DiagnosticCodes.MisplacedExport,
+            message: 'Only declarations at the top of the file can be exported',
+            start: expect.objectContaining({ line: 3, lineChar: 5 })
+        })]);
+    });
+
+    test('a try without catch or finally is reported', () => {
+        const { diagnostics } = QuackScript.parse(`try {
+    quackprint('quack')🦆
+}🦆`);
+
+        expect(diagnostics).toEqual([expect.objectContaining({
+            message: 'Expected catch or finally but found 🦆',
+            start: expect.objectContaining({ line: 3, lineChar: 2 })
+        })]);
+    });
+
+    test('code without errors has no diagnostics', () => {
+        const { ast, diagnostics } = QuackScript.parse('quackprint(\'quack\')🦆');
+
+        expect(ast.statements).toHaveLength(1);
+        expect(diagnostics).toEqual([]);
+    });
+
+    test('the interpreter returns the runtime error', () => {
+        const code = `quack value <- 5🦆
+if (value) {
+}🦆`;
+        const stderr: Array<string> = [];
+        const diagnostics = new Interpreter(() => null, (value) => stderr.push(value))
+            .execute(QuackScript.parse(code).ast, code);
+
+        expect(stderr).toHaveLength(1);
+        expect(diagnostics).toEqual([expect.objectContaining({
+            code: 'QS4001',
+            message: 'Invalid boolean expression',
+            start: expect.objectContaining({ line: 2, lineChar: 5 }),
+            end: expect.objectContaining({ line: 2, lineChar: 10 })
+        })]);
+    });
+
+    test.each([
+        ['quack value <- 1🦆\nvalue <- \'one\'🦆', 'Tried to assign text to number', 2, 10, 15],
+        ['QUACK value <- 1🦆\nvalue <- 2🦆', 'Tried to update constant \'value\'', 2, 1, 6],
+        ['quack value <- 1🦆\nquack value <- 2🦆', 'Variable \'value\' already exists', 2, 7, 12],
+        ['quackprint(missing)🦆', 'Variable \'missing\' not in memory', 1, 12, 19],
+    ])('variable errors are runtime errors: %s', (code, message, line, lineChar, endLineChar) => {
+        const stderr: Array<string> = [];
+        const diagnostics = new Interpreter(() => null, (value) => stderr.push(value))
+            .execute(QuackScript.parse(code).ast, code);
+
+        expect(stderr[0]).toContain(code.split('\n')[line - 1]);
+        expect(diagnostics).toEqual([expect.objectContaining({
+            code: 'QS4001',
+            message,
+            start: expect.objectContaining({ line, lineChar }),
+            end: expect.objectContaining({ line, lineChar: endLineChar })
+        })]);
+    });
+
+    test('errors span the code they are about', () => {
+        const code = 'quack xs <- [1, 2]🦆\nquack total <- vector2(1, 2) + xs[0]🦆';
+        const range = (diagnostic: Diagnostic | undefined) => diagnostic && [
+            diagnostic.start.line, diagnostic.start.lineChar, diagnostic.end.line, diagnostic.end.lineChar
+        ];
+        const execute = (code: string) => new Interpreter(() => null, () => null).execute(QuackScript.parse(code).ast, code);
+
+        expect(range(new TypeChecker().check(QuackScript.parse(code).ast)[0])).toEqual([2, 16, 2, 37]);
+        expect(range(execute(code)[0])).toEqual([2, 16, 2, 37]);
+        expect(range(execute('quack xs <- [1, 2]🦆\nxs[xs.length()]🦆')[0])).toEqual([2, 4, 2, 15]);
+    });
+});
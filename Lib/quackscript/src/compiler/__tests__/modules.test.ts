@@ -0,0 +1,46 @@
+import { TestUtils } from '../../utils/test/testUtils';
+
+const files: Record<string, string> = {
+    'base.quack': 'export QUACK start <- 10🦆',
+    'counter.quack': `import 'base.quack'🦆
+quackprint('counter loaded')🦆
+export quack count <- start🦆
+export QUACK increase <- () > { count <- count + 1🦆 }🦆
+QUACK hidden <- 1🦆`,
+    'first.quack': 'import { increase } from \'counter.quack\'🦆\nincrease()🦆',
+    '/project/lib/math.quack': 'import \'../constants.quack\'🦆\nexport QUACK double <- (value: number) > { return value * two🦆 }🦆',
+    '/project/constants.quack': 'quackprint(\'constants loaded\')🦆\nexport QUACK two <- 2🦆',
+};
+
+describe('Compiler Modules - ', () => {
+
+    test('imported modules run once and share their exports like in the interpreter', () => {
+        const code = `import 'first.quack'🦆
+import 'counter.quack' as counter🦆
+import { count } from 'counter.quack'🦆
+counter.increase()🦆
+count🦆
+counter.count <- 0🦆
+count🦆`;
+
+        expect(TestUtils.runCompiled(code, files)).toEqual(TestUtils.run(code, files));
+        expect(TestUtils.runCompiled(code, files).stdout).toEqual(['counter loaded', '12', '0']);
+    });
+
+    test('imports are resolved from the folder of the file importing them', () => {
+        const code = `import './lib/math.quack'🦆
+import { two } from 'constants.quack'🦆
+double(two)🦆`;
+
+        expect(TestUtils.runCompiled(code, files, '/project/main.quack')).toEqual(TestUtils.run(code, files, '/project/main.quack'));
+        expect(TestUtils.runCompiled(code, files, '/project/main.quack')).toEqual({ stdout: ['constants loaded', '4'], stderr: [] });
+    });
+
+    test('names that are not exported can\'t be imported', () => {
+        const { compile } = TestUtils.createCompiler(files);
+
+        expect(() => compile('import { hidden } from \'counter.quack\'🦆')).toThrow(expect.objectContaining({
+            message: '\'hidden\' is not exported by counter.quack'
+        }));
+    });
+});
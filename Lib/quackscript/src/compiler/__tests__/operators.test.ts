@@ -0,0 +1,45 @@
+import { TestUtils } from '../../utils/test/testUtils';
+
+const compile = (code: string) => TestUtils.createCompiler().compile(code, { sourceName: 'main.quack', outputName: 'main.js' }).code;
+
+describe('Compiler Operators - ', () => {
+
+    test('operations between values of known types are emitted as javascript operators', () => {
+        const code = `quack total <- 0🦆
+for (quack i <- 0🦆 i < 10🦆 i <- i + 1) {
+    if (i % 2 == 0 && !(i > 6)) {
+        total <- total + -i🦆
+    }🦆
+}🦆
+QUACK greet <- (name: text, loud: boolean):text > {
+    return loud ? \`\${name}!\` : 'hi ' + name🦆
+}🦆
+total🦆
+greet('duck', total < 0)🦆`;
+        const compiled = compile(code);
+
+        expect(compiled).toContain('for (; (i < 10); i = (i + 1))');
+        expect(compiled).toContain('if ((((i % 2) === 0) && (! (i > 6))))');
+        expect(compiled).toContain('total = (total + (- i));');
+        expect(compiled).toContain('return (loud ? `${name}!` : (\'hi \' + name));');
+        expect(compiled).not.toMatch(/\$\.(binary|unary|assign|isTrue|condition|toText)\(/);
+        expect(TestUtils.runCompiled(code)).toEqual(TestUtils.run(code));
+        expect(TestUtils.run(code)).toEqual({ stdout: ['-12', 'duck!'], stderr: [] });
+    });
+
+    test('operations on values of unknown or different types keep the checks of the runtime', () => {
+        const code = `QUACK add <- (a: number, b: text) > {
+    return a + b🦆
+}🦆
+QUACK duck <- { age: 1 }🦆
+quack age <- duck.age🦆
+age <- age + 1🦆
+add(age, 'duck')🦆`;
+        const compiled = compile(code);
+
+        expect(compiled).toContain('return $.binary(\'+\', a, b, 2, 12);');
+        expect(compiled).toContain('age = $.assign(age, $.binary(\'+\', age, 1, 6, 8), null, 6, 8);');
+        expect(TestUtils.runCompiled(code)).toEqual(TestUtils.run(code));
+        expect(TestUtils.run(code).stderr[0]).toContain('Operator \'+\' can\'t be used between number and text');
+    });
+});
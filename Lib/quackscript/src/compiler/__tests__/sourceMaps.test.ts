@@ -0,0 +1,75 @@
+import { SourceMapUtils } from '../../utils/sourceMap/sourceMapUtils';
+import { TestUtils } from '../../utils/test/testUtils';
+
+const compile = (code: string, files: Record<string, string> = {}) => (
+    TestUtils.createCompiler(files).compile(code, { sourceName: 'main.quack', outputName: 'main.js' })
+);
+
+/**
+ * Finds the source position of the first segment of the generated line containing the text
+ */
+const findSourcePosition = (compiled: ReturnType<typeof compile>, text: string) => {
+    const generatedLine = compiled.code.split('\n').findIndex((line) => line.includes(text));
+    const mapping = SourceMapUtils.decodeMappings(compiled.sourceMap.mappings)
+        .find((segment) => segment.generatedLine === generatedLine);
+    return mapping && {
+        source: compiled.sourceMap.sources[mapping.source],
+        line: mapping.line + 1,
+        lineChar: mapping.column + 1
+    };
+};
+
+describe('Compiler Source Maps - ', () => {
+
+    test('mappings encode and decode back', () => {
+        const mappings = [
+            { generatedLine: 0, generatedColumn: 4, source: 0, line: 0, column: 0 },
+            { generatedLine: 0, generatedColumn: 20, source: 0, line: 0, column: 12 },
+            { generatedLine: 2, generatedColumn: 0, source: 1, line: 40, column: 3 },
+            { generatedLine: 3, generatedColumn: 8, source: 0, line: 2, column: 1 },
+        ];
+        expect(SourceMapUtils.decodeMappings(SourceMapUtils.encodeMappings(mappings))).toEqual(mappings);
+    });
+
+    test('the compiled module references its source map', () => {
+        const compiled = compile('quackprint(\'hi\')🦆');
+        expect(compiled.code).toContain('//# sourceMappingURL=main.js.map');
+        expect(compiled.sourceMap).toMatchObject({
+            version: 3,
+            file: 'main.js',
+            sources: ['main.quack'],
+            sourcesContent: ['quackprint(\'hi\')🦆']
+        });
+    });
+
+    test('generated statements point at their quackscript position', () => {
+        const compiled = compile([
+            'quack count <- 1🦆',
+            'QUACK add <- (a:number, b:number) > {',
+            '    return a + b🦆',
+            '}🦆',
+            'count <- add(count, 2)🦆',
+        ].join('\n'));
+
+        expect(findSourcePosition(compiled, 'let count')).toEqual({ source: 'main.quack', line: 1, lineChar: 1 });
+        expect(findSourcePosition(compiled, 'return')).toEqual({ source: 'main.quack', line: 3, lineChar: 5 });
+        expect(findSourcePosition(compiled, 'count = $.assign')).toEqual({ source: 'main.quack', line: 5, lineChar: 1 });
+    });
+
+    test('imported modules are sources of the source map', () => {
+        const files: Record<string, string> = {
+            'math.quack': '\nexport QUACK double <- (value:number) > {\n    return value * 2🦆\n}🦆'
+        };
+        const compiled = compile('import \'math.quack\'🦆\ndouble(2)🦆', files);
+
+        expect(compiled.sourceMap.sources).toEqual(['main.quack', 'math.quack']);
+        expect(compiled.sourceMap.sourcesContent[1]).toEqual(files['math.quack']);
+        expect(findSourcePosition(compiled, 'return')).toEqual({ source: 'math.quack', line: 3, lineChar: 5 });
+        expect(findSourcePosition(compiled, 'double, [2]')).toEqual({ source: 'main.quack', line: 2, lineChar: 1 });
+    });
+
+    test('texts keep characters used to mark positions', () => {
+        const { stdout } = TestUtils.runCompiled('quackprint(\'qu\uE0000\uE001ack\')🦆 `${1}\uE001`🦆');
+        expect(stdout).toEqual(['qu\uE0000\uE001ack', '1\uE001']);
+    });
+});
@@ -0,0 +1,81 @@
+import { ModuleNode } from '../parser/types';
+import { System } from '../system';
+import { SourceMap, SourceMapUtils } from '../utils/sourceMap/sourceMapUtils';
+import JsEmitter from './jsEmitter';
+import { createRuntime, Runtime } from './runtime';
+import { CompiledModule, CompileOptions, EmittedModule } from './types';
+
+// module the compiled code imports the runtime helpers from
+const RUNTIME_MODULE = 'quackscript';
+
+// new Function places the body after a line with its parameters
+const FUNCTION_HEADER_LINES = 2;
+
+export default class Compiler {
+
+    private _system: System;
+    private _emitter: JsEmitter;
+
+    public constructor(
+        stdout?: System['stdout'],
+        stderr?: System['stderr'],
+        loadFile?: System['loadFile'],
+        resolvePath?: System['resolvePath']
+    ){
+        this._system = new System(stdout, stderr, loadFile, resolvePath);
+        this._emitter = new JsEmitter(this._system.loadFile, this._system.resolvePath);
+    }
+
+    /**
+     * Compiles the tree to an ES module, its default export runs the program writing to the given System
+     * @returns the module and its source map, the module references the map as <outputName>.map
+     */
+    public compile(tree: ModuleNode, options: CompileOptions = {}): CompiledModule {
+        const outputName = options.outputName ?? 'module.js';
+        const header = [
+            `import { createRuntime } from '${RUNTIME_MODULE}';`,
+            '',
+            'export default ($system) => createRuntime($system).run(($) => {'
+        ];
+        const emittedModule = this._emitter.emitModule(tree, { ...options, indent: 1 });
+
+        return {
+            code: [...header, emittedModule.code, '});', `//# sourceMappingURL=${outputName}.map`, ''].join('\n'),
+            sourceMap: this.createSourceMap(outputName, emittedModule, header.length)
+        };
+    }
+
+    /**
+     * Compiles and runs the tree, output and runtime errors are written like the interpreter does.
+     * The source map is inlined so devtools show the quackscript code
+     * @param filePath path of the compiled file, its imports are resolved from it
+     */
+    public execute(tree: ModuleNode, code?: string, filePath?: string) {
+        const emittedModule = this._emitter.emitModule(tree, {
+            ...(code === undefined ? {} : { code }),
+            ...(filePath === undefined ? {} : { filePath })
+        });
+        const sourceMap = this.createSourceMap('module.js', emittedModule, FUNCTION_HEADER_LINES);
+        const body = `${emittedModule.code}\n//# sourceMappingURL=${SourceMapUtils.toDataUrl(sourceMap)}`;
+
+        const program = new Function('$', body) as (runtime: Omit<Runtime, 'run'>) => void;
+        createRuntime(this._system, code).run(program);
+    }
+
+    /**
+     * @param lineOffset lines placed before the emitted code
+     */
+    private createSourceMap(file: string, emittedModule: EmittedModule, lineOffset: number): SourceMap {
+        return {
+            version: 3,
+            file,
+            sources: emittedModule.sources.map((source) => source.name),
+            sourcesContent: emittedModule.sources.map((source) => source.content),
+            names: [],
+            mappings: SourceMapUtils.encodeMappings(emittedModule.mappings.map((mapping) => ({
+                ...mapping,
+                generatedLine: mapping.generatedLine + lineOffset
+            })))
+        };
+    }
+}
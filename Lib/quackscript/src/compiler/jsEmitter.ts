@@ -0,0 +1,893 @@
+import { CompileException } from '../exception/CompileException';
+import Lexer from '../lexer';
+import Parser from '../parser';
+import {
+    AccessorExpressionNode, AssignmentNode, BinaryExpressionNode, BooleanLiteralNode, CallExpressionNode, CodeBlockNode, ConditionalExpressionNode,
+    DataTypeNode, DataTypes, DeclarationNode, ExpressionNode, FieldAssignmentNode, ForStatementNode, FuncCallNode, FuncDeclarationNode, IdentifierNode,
+    IfStatementNode, ImportStatementNode, IndexAssignmentNode, IndexExpressionNode, ListLiteralNode, ModuleNode, Node,
+    NumberLiteralNode, OperatorTypes, OptionalDataType, RecordLiteralNode, RecordTypeNode, StatementNode, TextLiteralNode, TextTemplateNode,
+    TryStatementNode, UnaryExpressionNode, Vector2LiteralNode, Vector3LiteralNode, VectorConstructorNode, WhenCaseNode,
+    WhenExpressionNode, WhileStatementNode
+} from '../parser/types';
+import { System } from '../system';
+import { DataTypeUtils } from '../utils/dataTypes/dataTypeUtils';
+import { SourceMapping } from '../utils/sourceMap/sourceMapUtils';
+import { EmitOptions, EmittedModule, EmittedSource } from './types';
+
+// types of values the emitted code uses javascript operators on, without the checks of the runtime
+type PlainType = Extract<DataTypes, 'number' | 'text' | 'boolean'>;
+
+interface Declaration {
+    declarationType: 'constant' | 'variable' | 'argument' | 'internal',
+    // emitted data type the assignments are checked against, null when inferred from the value
+    dataType: string | null,
+    // variables that can only hold numbers, texts or booleans are read and updated without the runtime
+    plainType?: PlainType | null,
+    // object of the imported module the declaration is read from, so its value is shared with the module
+    module?: string
+}
+
+interface EmitContext {
+    // return leaves a compiled function
+    isInFunction: boolean,
+    // values returned from a function with a declared return type are checked where they are returned
+    returnType: DataTypeNode | null,
+    // break and continue apply to a loop of the same compiled function
+    isInLoop: boolean,
+    // when cases are compiled to functions of their own, returning from them must go through the runtime
+    isInWhen: boolean,
+    // a loop outside of the when expression can't be controlled from its cases
+    isLoopOutsideWhen: boolean
+}
+
+const INDENTATION = '    ';
+
+// functions of the standard library the compiled code gets from the runtime
+const LIBRARY_FUNCTIONS = ['quackprint', 'fail'];
+
+// the emitted code marks where each node starts, the markers are replaced by source mappings once the module is emitted
+const MARKER_START = '\uE000';
+const MARKER_END = '\uE001';
+const MARKER_REGEX = /\uE000(\d+)\uE001/g;
+
+const RESERVED_WORDS = new Set([
+    'arguments', 'await', 'case', 'catch', 'class', 'const', 'debugger', 'default', 'delete', 'do', 'enum', 'eval',
+    'export', 'extends', 'finally', 'function', 'implements', 'in', 'instanceof', 'interface', 'let', 'new', 'null',
+    'package', 'private', 'protected', 'public', 'static', 'super', 'switch', 'this', 'throw', 'try', 'typeof',
+    'undefined', 'var', 'void', 'with', 'yield', 'NaN', 'Infinity'
+]);
+
+// expressions that never evaluate to a value the runtime has to check when declared without a type
+const PLAIN_EXPRESSIONS: Array<ExpressionNode['body']['type']> = [
+    'TextLiteral', 'NumberLiteral', 'BooleanLiteral', 'NothingLiteral', 'Vector2Literal', 'Vector3Literal',
+    'TextTemplate', 'BinaryExpression', 'UnaryExpression', 'FuncDeclaration', 'VectorConstructor'
+];
+
+const PLAIN_TYPES: Array<PlainType> = ['number', 'text', 'boolean'];
+
+const MATHEMATICAL_OPERATORS: Array<OperatorTypes> = ['+', '-', '*', '/', '%'];
+const COMPARISON_OPERATORS: Array<OperatorTypes> = ['==', '!=', '<', '<=', '>', '>='];
+
+// quackscript operators written differently in javascript
+const JS_OPERATORS: Partial<Record<OperatorTypes, string>> = { '==': '===', '!=': '!==' };
+
+const toPlainType = (dataType: DataTypeNode): PlainType | null => PLAIN_TYPES.find((type) => type === dataType.value) ?? null;
+
+/**
+ * Type of a binary expression between values of known types, null when the runtime has to check the operands
+ */
+const getBinaryType = (operator: OperatorTypes, left: PlainType | null, right: PlainType | null): PlainType | null => {
+    if (left === null || left !== right) return null;
+    if (operator === '==' || operator === '!=') return 'boolean';
+
+    switch (left) {
+    case 'number':
+        if (MATHEMATICAL_OPERATORS.includes(operator)) return 'number';
+        return COMPARISON_OPERATORS.includes(operator) ? 'boolean' : null;
+    case 'text':
+        return operator === '+' ? 'text' : null;
+    case 'boolean':
+        return operator === '&&' || operator === '||' ? 'boolean' : null;
+    }
+};
+
+const escapeMarker = (marker: string) => `\\u${marker.charCodeAt(0).toString(16).toUpperCase()}`;
+
+const quote = (text: string) => `'${text
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, '\\\'')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029')
+    .replace(/[\uE000\uE001]/g, escapeMarker)}'`;
+
+const position = (node: Node) => `${node.position.line}, ${node.position.lineChar}`;
+
+/**
+ * QuackScript identifiers can't contain $ so prefixing javascript reserved words can't clash with other variables
+ */
+const toJsIdentifier = (identifier: string) => RESERVED_WORDS.has(identifier) ? `$${identifier}` : identifier;
+
+const toPropertyName = (name: string) => name === '__proto__' ? `[${quote(name)}]` : name;
+
+/**
+ * Emits the javascript of a module, the quackscript checks the interpreter does are done by the runtime helpers in $.
+ * Operations on numbers, texts and booleans known while emitting can't fail and are emitted as javascript operators
+ */
+export default class JsEmitter {
+
+    private _lexer: Lexer;
+    private _parser: Parser;
+    private _loadFile: System['loadFile'];
+    private _resolvePath: System['resolvePath'];
+    private _indent = 0;
+    // indentation of the top level of the emitted code
+    private _baseIndent = 0;
+    private _scopes: Array<Map<string, Declaration>> = [];
+    private _context: EmitContext = { isInFunction: false, returnType: null, isInLoop: false, isInWhen: false, isLoopOutsideWhen: false };
+    private _sources: Array<EmittedSource> = [];
+    private _currentSource = 0;
+    private _markedPositions: Array<Omit<SourceMapping, 'generatedLine' | 'generatedColumn'>> = [];
+    // objects of the imported modules by their path, every module is emitted once
+    private _modules: Map<string, { name: string, exports: Array<DeclarationNode> }> = new Map();
+    // imported modules emitted before the code of the module, a module is placed after the modules it imports
+    private _moduleLines: Array<string> = [];
+    // paths of the modules being emitted
+    private _importChain: Array<string> = [];
+    // path of the module being emitted, its imports are resolved from it
+    private _filePath: string | null = null;
+    // top level declarations of the module being emitted, functions can use the ones declared after them
+    private _moduleDeclarations: Map<string, Declaration> = new Map();
+
+    public constructor(loadFile?: System['loadFile'], resolvePath?: System['resolvePath']) {
+        const system = new System(undefined, undefined, loadFile, resolvePath);
+        this._lexer = new Lexer();
+        this._parser = new Parser();
+        this._loadFile = system.loadFile;
+        this._resolvePath = system.resolvePath;
+    }
+
+    /**
+     * Emits the body of the compiled program, it expects the runtime helpers in a variable named $
+     * @returns the code and where each of its segments comes from, imported modules are sources of their own
+     */
+    public emitModule = (moduleNode: ModuleNode, options: EmitOptions = {}): EmittedModule => {
+        this._indent = options.indent ?? 0;
+        this._baseIndent = this._indent;
+        this._scopes = [this.createLibraryScope()];
+        this._context = { isInFunction: false, returnType: null, isInLoop: false, isInWhen: false, isLoopOutsideWhen: false };
+        this._sources = [{ name: options.sourceName ?? 'module.quack', content: options.code ?? null }];
+        this._currentSource = 0;
+        this._markedPositions = [];
+        this._modules = new Map();
+        this._moduleLines = [];
+        this._filePath = options.filePath ?? null;
+        this._importChain = options.filePath ? [options.filePath] : [];
+
+        const statements = this.emitModuleStatements(moduleNode);
+        const code = [
+            this.line(`const { ${LIBRARY_FUNCTIONS.join(', ')} } = $.library;`),
+            '',
+            ...this._moduleLines,
+            ...statements
+        ].join('\n');
+        return { ...this.resolveMarkers(code), sources: this._sources };
+    };
+
+    /**
+     * Removes the markers from the code
+     * @returns the code and the position in the code of every marked node
+     */
+    private resolveMarkers = (markedCode: string): Pick<EmittedModule, 'code' | 'mappings'> => {
+        const mappings: Array<SourceMapping> = [];
+        let code = '';
+        let lastIndex = 0;
+
+        for (const match of markedCode.matchAll(MARKER_REGEX)) {
+            code += markedCode.slice(lastIndex, match.index);
+            lastIndex = (match.index ?? 0) + match[0].length;
+
+            const lines = code.split('\n');
+            const generatedLine = lines.length - 1;
+            const generatedColumn = lines[generatedLine]?.length ?? 0;
+            const markedPosition = this._markedPositions[Number(match[1])];
+            const previous = mappings[mappings.length - 1];
+            // nested nodes starting at the same place are mapped to the outermost one
+            if (!markedPosition || (previous?.generatedLine === generatedLine && previous.generatedColumn === generatedColumn)) {
+                continue;
+            }
+            mappings.push({ generatedLine, generatedColumn, ...markedPosition });
+        }
+        return { code: code + markedCode.slice(lastIndex), mappings };
+    };
+
+    private mark = (node: Node): string => {
+        this._markedPositions.push({
+            source: this._currentSource,
+            line: node.position.line - 1,
+            column: node.position.lineChar - 1
+        });
+        return `${MARKER_START}${this._markedPositions.length - 1}${MARKER_END}`;
+    };
+
+    private emitModuleStatements = (moduleNode: ModuleNode): Array<string> => {
+        const lines: Array<string> = [];
+        let isImportAllowed = true;
+        this._moduleDeclarations = new Map(moduleNode.statements.flatMap((statement) => (
+            statement.body.type === 'Declaration' ?
+                [[statement.body.assignmentNode.identifier.value, {
+                    declarationType: statement.body.declaratorType,
+                    dataType: this.getDeclaredType(statement.body)
+                }]] :
+                []
+        )));
+
+        for (const statement of moduleNode.statements) {
+            if (statement.body.type === 'ImportStatement' && isImportAllowed) {
+                lines.push(...this.emitImport(statement.body));
+                continue;
+            }
+            isImportAllowed = false;
+            lines.push(this.emitStatement(statement, true));
+        }
+        return lines;
+    };
+
+    /**
+     * Declares the exports of the imported module by their names or under the namespace of the import
+     * @throws CompileException when an imported name is not exported by the module
+     */
+    private emitImport = (node: ImportStatementNode): Array<string> => {
+        const path = this._resolvePath(node.value.value, this._filePath);
+        const module = this._modules.get(path) ?? this.emitImportedModule(path, node);
+        const importLine = this.line(`${this.mark(node)}// import ${quote(node.value.value)}`);
+
+        if (node.alias) {
+            if (this.currentScope().has(node.alias.value)) {
+                throw new CompileException(node.alias.position, `Variable '${node.alias.value}' already exists`);
+            }
+            this.currentScope().set(node.alias.value, { declarationType: 'constant', dataType: null });
+            return [importLine, this.line(`const ${toJsIdentifier(node.alias.value)} = $.namespace(${module.name});`)];
+        }
+
+        node.names?.forEach((name) => {
+            if (!module.exports.some(({ assignmentNode }) => assignmentNode.identifier.value === name.value)) {
+                throw new CompileException(name.position, `'${name.value}' is not exported by ${node.value.value}`);
+            }
+        });
+        const names = node.names?.map((name) => name.value);
+        module.exports
+            .filter(({ assignmentNode }) => !names || names.includes(assignmentNode.identifier.value))
+            .forEach(({ declaratorType, assignmentNode }) => {
+                const name = assignmentNode.identifier.value;
+                const declaration = this.currentScope().get(name);
+                if (declaration && declaration.module !== module.name) {
+                    throw new CompileException(node.position, `Variable '${name}' already exists`);
+                }
+                this.currentScope().set(name, { declarationType: declaratorType, dataType: null, module: module.name });
+            });
+        return [importLine];
+    };
+
+    /**
+     * Emits the module as a function that runs once in its own scope and returns its exports, shared through accessors
+     * @throws CompileException when the module is already being imported
+     */
+    private emitImportedModule = (path: string, node: ImportStatementNode): { name: string, exports: Array<DeclarationNode> } => {
+        if (this._importChain.includes(path)) {
+            throw new CompileException(node.position, `Circular import ${[...this._importChain, path].join(' -> ')}`);
+        }
+        const moduleCode = this._loadFile(path);
+        const tree = this._parser.parse(this._lexer.convertToTokens(moduleCode));
+        const exports = tree.statements.flatMap((statement) => (
+            statement.body.type === 'Declaration' && statement.body.isExported ? [statement.body] : []
+        ));
+
+        const previousSource = this._currentSource;
+        const previousScopes = this._scopes;
+        const previousIndent = this._indent;
+        const previousFilePath = this._filePath;
+        const previousDeclarations = this._moduleDeclarations;
+        this._sources.push({ name: path, content: moduleCode });
+        this._currentSource = this._sources.length - 1;
+        this._scopes = [this.createLibraryScope()];
+        this._indent = this._baseIndent + 1;
+        this._filePath = path;
+        this._importChain.push(path);
+        let lines: Array<string>;
+        try {
+            lines = this.emitModuleStatements(tree);
+        } finally {
+            this._importChain.pop();
+            this._moduleDeclarations = previousDeclarations;
+            this._filePath = previousFilePath;
+            this._indent = previousIndent;
+            this._scopes = previousScopes;
+            this._currentSource = previousSource;
+        }
+
+        const accessors = exports.flatMap(({ declaratorType, assignmentNode }) => {
+            const name = assignmentNode.identifier.value;
+            const getter = `get ${name}() { return ${toJsIdentifier(name)}; }`;
+            return declaratorType === 'constant' ? [getter] : [getter, `set ${name}(value) { ${toJsIdentifier(name)} = value; }`];
+        });
+        const module = { name: `$module${this._modules.size}`, exports };
+        const indentation = INDENTATION.repeat(this._baseIndent);
+        this._moduleLines.push(
+            `${indentation}const ${module.name} = (() => {`,
+            ...lines,
+            `${indentation}${INDENTATION}return ${accessors.length ? `{ ${accessors.join(', ')} }` : '{}'};`,
+            `${indentation}})();`
+        );
+        this._modules.set(path, module);
+        return module;
+    };
+
+    /**
+     * Reads the variable from the module it was imported from
+     */
+    private reference = (name: string): string => {
+        const module = this.resolve(name)?.module;
+        return module ? `${module}.${name}` : toJsIdentifier(name);
+    };
+
+    /**
+     * Variables that are not declared fail where they are used like in the interpreter. Functions can use variables
+     * declared after them, the ones not known when the function is emitted are looked up when it runs
+     */
+    private emitIdentifier = (node: IdentifierNode): string => {
+        if (this.resolve(node.value)) return this.reference(node.value);
+        if (this._context.isInFunction) {
+            return `$.lookup(() => ${toJsIdentifier(node.value)}, ${quote(node.value)}, ${position(node)})`;
+        }
+        return `$.fail(${quote(`Variable '${node.value}' not in memory`)}, ${position(node)})`;
+    };
+
+    private emitStatement = (statement: StatementNode, isTopLevel = false): string => {
+        const marker = this.mark(statement);
+        return this.emitStatementBody(statement, isTopLevel).replace(/^ */, (indentation) => `${indentation}${marker}`);
+    };
+
+    private emitStatementBody = (statement: StatementNode, isTopLevel: boolean): string => {
+        const body = statement.body;
+        switch (body.type) {
+        case 'Declaration':
+            return this.line(this.emitDeclaration(body));
+        case 'Assignment':
+            return this.line(`${this.emitAssignment(body)};`);
+        case 'Expression':
+            // like in the interpreter the values of top level expressions are printed
+            return this.line(isTopLevel ? `$.printResult(${this.emitExpression(body)});` : `${this.emitExpression(body)};`);
+        case 'ReturnStatement':
+            return this.line(this.emitReturn(body.value, isTopLevel));
+        case 'IfStatement':
+            return this.line(this.emitIfStatement(body));
+        case 'WhileStatement':
+            return this.line(this.emitWhileStatement(body));
+        case 'ForStatement':
+            return this.emitForStatement(body);
+        case 'TryStatement':
+            return this.line(this.emitTryStatement(body));
+        case 'BreakStatement':
+        case 'ContinueStatement':
+            return this.line(this.emitLoopControl(body));
+        case 'IndexAssignment':
+            return this.line(`${this.emitIndexAssignment(body)};`);
+        case 'FieldAssignment':
+            return this.line(`${this.emitFieldAssignment(body)};`);
+        case 'ImportStatement':
+            return this.line(`$.fail('Import statements must be at the top of the file', ${position(statement)});`);
+        case 'Error':
+            return this.line(`$.fail(${quote(body.message)}, ${position(body)});`);
+        }
+    };
+
+    private emitDeclaration = (node: DeclarationNode): string => {
+        const name = node.assignmentNode.identifier.value;
+        const expression = node.assignmentNode.expression;
+        const dataType = this.getDeclaredType(node);
+        const plainType = this.getDeclaredPlainType(node);
+        const scope = this.currentScope();
+        const isRedeclared = scope.has(name);
+        // functions can call themselves, they are declared before their body is emitted
+        if (!isRedeclared && expression.body.type === 'FuncDeclaration') {
+            scope.set(name, { declarationType: node.declaratorType, dataType });
+        }
+        const value = this.emitExpressionOfType(expression, dataType);
+
+        if (isRedeclared) {
+            return `$.fail(${quote(`Variable '${name}' already exists`)}, ${position(node.assignmentNode.identifier)});`;
+        }
+        scope.set(name, { declarationType: node.declaratorType, dataType, plainType });
+
+        const keyword = node.declaratorType === 'constant' ? 'const' : 'let';
+        const isPlainValue = dataType === null ?
+            PLAIN_EXPRESSIONS.includes(expression.body.type) :
+            plainType !== null && this.getPlainType(expression) === plainType;
+        if (isPlainValue) {
+            return `${keyword} ${toJsIdentifier(name)} = ${value};`;
+        }
+        return `${keyword} ${toJsIdentifier(name)} = $.declare(${quote(name)}, ${value}, ${dataType ?? 'null'}, ${position(node)}, [${
+            position(expression)}]);`;
+    };
+
+    /**
+     * Declarations without a type take the one of their value, optional declarations can also hold nothing
+     */
+    private getDeclaredPlainType = (node: DeclarationNode): PlainType | null => {
+        if (node.isOptional) return null;
+        return node.dataType ? toPlainType(node.dataType) : this.getPlainType(node.assignmentNode.expression);
+    };
+
+    /**
+     * Optional declarations are emitted as optional<type>, without a type the runtime infers it from the value
+     */
+    private getDeclaredType = (node: DeclarationNode): string | null => {
+        if (!node.isOptional) return node.dataType ? this.emitDataType(node.dataType) : null;
+        if (!node.dataType) return '{ value: \'optional\' }';
+
+        const internalType = (node.dataType as OptionalDataType).internalType ?? node.dataType.value;
+        return `{ value: 'optional', internalType: ${quote(internalType)} }`;
+    };
+
+    private emitAssignment = (node: AssignmentNode): string => {
+        const name = node.identifier.value;
+        const identifier = this.reference(name);
+        const value = this.emitExpression(node.expression);
+        // functions can update variables of the module declared after them
+        const declaration = this.resolve(name) ?? (this._context.isInFunction ? this._moduleDeclarations.get(name) : null);
+
+        if (declaration?.declarationType === 'constant' || declaration?.declarationType === 'argument') {
+            const kind = declaration.declarationType === 'constant' ? 'constant' : 'argument';
+            return `$.fail(${quote(`Tried to update ${kind} '${name}'`)}, ${position(node.identifier)})`;
+        }
+        if (declaration?.plainType && declaration.plainType === this.getPlainType(node.expression)) {
+            return `${identifier} = ${value}`;
+        }
+        return `${identifier} = $.assign(${this.emitIdentifier(node.identifier)}, ${value}, ${declaration?.dataType ?? 'null'}, ${position(node.expression)})`;
+    };
+
+    private emitReturn = (value: ExpressionNode, isTopLevel: boolean): string => {
+        const emittedValue = this.emitExpression(value);
+        // the interpreter prints values returned from the top level like any other expression
+        if (isTopLevel) return `$.printResult(${emittedValue});`;
+
+        const returnType = this._context.returnType;
+        const plainReturnType = returnType && toPlainType(returnType);
+        // values known to be of the plain return type are returned without the check
+        const isChecked = returnType !== null && (plainReturnType === null || plainReturnType !== this.getPlainType(value));
+        const returnValue = isChecked ?
+            `$return(${emittedValue}, ${position(value)})` :
+            emittedValue;
+        if (this._context.isInFunction && !this._context.isInWhen) return `return ${returnValue};`;
+        return `$.earlyReturn(${returnValue});`;
+    };
+
+    private emitLoopControl = (node: Node<'BreakStatement' | 'ContinueStatement'>): string => {
+        const keyword = node.type === 'BreakStatement' ? 'break' : 'continue';
+        if (this._context.isInLoop) return `${keyword};`;
+        if (this._context.isLoopOutsideWhen) {
+            throw new CompileException(node.position, `'${keyword}' can't be used inside a when expression`);
+        }
+        return `$.fail(${quote(`'${keyword}' used outside of a loop`)}, ${position(node)});`;
+    };
+
+    private emitIfStatement = (node: IfStatementNode): string => {
+        const condition = `if (${this.emitCondition(node.condition, 'isTrue')}) ${this.emitBlock(node.trueExpression)}`;
+        if (node.falseExpression === null) return condition;
+        if (node.falseExpression.type === 'IfStatement') {
+            return `${condition} else ${this.emitIfStatement(node.falseExpression)}`;
+        }
+        return `${condition} else ${this.emitBlock(node.falseExpression)}`;
+    };
+
+    /**
+     * Conditions known to be booleans don't need the check of the runtime
+     * @param check the runtime helper checking the condition, if statements and loops accept nothing as false
+     */
+    private emitCondition = (node: ExpressionNode, check: 'isTrue' | 'condition'): string => {
+        const condition = this.emitExpression(node);
+        return this.getPlainType(node) === 'boolean' ? condition : `$.${check}(${condition}, ${position(node)})`;
+    };
+
+    private emitWhileStatement = (node: WhileStatementNode): string => {
+        const condition = this.emitCondition(node.condition, 'isTrue');
+        return `while (${condition}) ${this.withContext({ isInLoop: true }, () => this.emitBlock(node.body))}`;
+    };
+
+    /**
+     * The initializer is declared in a block around the loop, like in the interpreter
+     * every iteration sees the same variable
+     */
+    private emitForStatement = (node: ForStatementNode): string => {
+        this._scopes.push(new Map());
+        const initializer = node.initializer?.type === 'Declaration' ?
+            `${this.mark(node.initializer)}${this.emitDeclaration(node.initializer)}` :
+            node.initializer && `${this.emitAssignment(node.initializer)};`;
+        const condition = node.condition ? this.emitCondition(node.condition, 'isTrue') : '';
+        const increment = node.increment?.type === 'Assignment' ?
+            this.emitAssignment(node.increment) :
+            node.increment && this.emitExpression(node.increment);
+        const loop = (): string => (
+            `for (; ${condition}; ${increment ?? ''}) ${this.withContext({ isInLoop: true }, () => this.emitBlock(node.body))}`
+        );
+
+        try {
+            if (!initializer) return this.line(loop());
+
+            this._indent++;
+            const lines = [this.line(initializer), this.line(loop())];
+            this._indent--;
+            return [this.line('{'), ...lines, this.line('}')].join('\n');
+        } finally {
+            this._scopes.pop();
+        }
+    };
+
+    private emitTryStatement = (node: TryStatementNode): string => {
+        let code = `try ${this.emitBlock(node.body)}`;
+        if (node.catchBlock && node.errorIdentifier) {
+            code += ` catch ($error) ${this.emitCatchBlock(node.catchBlock, node.errorIdentifier)}`;
+        }
+        return node.finallyBlock ? `${code} finally ${this.emitBlock(node.finallyBlock)}` : code;
+    };
+
+    /**
+     * The error is declared in the scope of the block, only runtime errors are caught by it
+     */
+    private emitCatchBlock = (block: CodeBlockNode, identifier: IdentifierNode): string => {
+        this._scopes.push(new Map([[identifier.value, { declarationType: 'constant', dataType: null }]]));
+        this._indent++;
+        const lines = [
+            this.line(`const ${toJsIdentifier(identifier.value)} = $.caught($error);`),
+            ...block.body.map((statement) => this.emitStatement(statement))
+        ];
+        this._indent--;
+        this._scopes.pop();
+
+        return ['{', ...lines, this.line('}')].join('\n');
+    };
+
+    private emitIndexAssignment = (node: IndexAssignmentNode): string => {
+        const list = this.emitExpression(node.target.expression);
+        const index = this.emitExpression(node.target.index);
+        return `$.setIndex(${list}, ${index}, ${this.emitExpression(node.expression)}, ${position(node.target)}, [${
+            position(node.target.index)}], [${position(node.expression)}])`;
+    };
+
+    private emitFieldAssignment = (node: FieldAssignmentNode): string => {
+        const record = this.emitExpression(node.target.expression);
+        const field = (node.target.value as IdentifierNode).value;
+        return `$.setField(${record}, ${quote(field)}, ${this.emitExpression(node.expression)}, ${position(node.target)}, [${
+            position(node.target.value)}], [${position(node.expression)}])`;
+    };
+
+    /**
+     * Emits the statements of a block in a new scope
+     * @param returnsLastExpression used by when cases, the value of the last expression is returned
+     */
+    private emitBlock = (block: CodeBlockNode, returnsLastExpression = false): string => {
+        this._scopes.push(new Map());
+        this._indent++;
+        const lastStatement = block.body[block.body.length - 1];
+        const lines = block.body.map((statement) => (
+            returnsLastExpression && statement === lastStatement && statement.body.type === 'Expression' ?
+                this.line(`return ${this.emitExpression(statement.body)};`) :
+                this.emitStatement(statement)
+        ));
+        this._indent--;
+        this._scopes.pop();
+
+        return lines.length ? ['{', ...lines, this.line('}')].join('\n') : '{}';
+    };
+
+    private emitExpression = (node: ExpressionNode): string => `${this.mark(node.body)}${this.emitExpressionBody(node)}`;
+
+    private emitExpressionBody = (node: ExpressionNode): string => {
+        const body = node.body;
+        switch (body.type) {
+        case 'TextLiteral':
+            return quote((body as TextLiteralNode).value);
+        case 'NumberLiteral':
+            return (body as NumberLiteralNode).value.toString();
+        case 'BooleanLiteral':
+            return (body as BooleanLiteralNode).value ? 'true' : 'false';
+        case 'NothingLiteral':
+            return 'null';
+        case 'Vector2Literal':
+        case 'Vector3Literal': {
+            const vector = body as Vector2LiteralNode | Vector3LiteralNode;
+            const components = 'z' in vector ? [vector.x, vector.y, vector.z] : [vector.x, vector.y];
+            const vectorType = DataTypeUtils.literalToDataType(vector.type);
+            return `$.vector('${vectorType}', [${components.map((component) => component.value).join(', ')}], ${position(body)})`;
+        }
+        case 'Identifier':
+            return this.emitIdentifier(body);
+        case 'FuncCallNode':
+            return this.emitFunctionCall(body);
+        case 'FuncDeclaration':
+            return this.emitFunction(body);
+        case 'BinaryExpression':
+            return this.emitBinaryExpression(body);
+        case 'UnaryExpression':
+            return this.emitUnaryExpression(body);
+        case 'ConditionalExpression':
+            return this.emitConditionalExpression(body);
+        case 'WhenExpression':
+            return this.emitWhenExpression(body);
+        case 'TextTemplate':
+            return this.emitTextTemplate(body);
+        case 'AccessorExpression':
+            return this.emitAccessorExpression(body);
+        case 'ListLiteral':
+            return this.emitListLiteral(body);
+        case 'IndexExpression':
+            return this.emitIndexExpression(body);
+        case 'CallExpression':
+            return this.emitCallExpression(body);
+        case 'VectorConstructor':
+            return this.emitVectorConstructor(body);
+        case 'RecordLiteral':
+            return this.emitRecordLiteral(body);
+        case 'RecordType':
+            return this.emitRecordType(body);
+        }
+    };
+
+    private emitArgs = (args: Array<ExpressionNode>) => args.map(this.emitExpression).join(', ');
+
+    // errors of an argument are reported where it is written
+    private emitArgPositions = (args: Array<ExpressionNode>) => `[${args.map((arg) => `[${position(arg)}]`).join(', ')}]`;
+
+    private emitFunctionCall = (node: FuncCallNode): string => {
+        const args = node.params?.args ?? [];
+        const name = node.identifier.value;
+        return `$.callVariable(${quote(name)}, ${this.emitIdentifier(node.identifier)}, [${this.emitArgs(args)}], ${position(node)}, ${this.emitArgPositions(args)})`;
+    };
+
+    private emitCallExpression = (node: CallExpressionNode): string => {
+        const args = node.params?.args ?? [];
+        return `$.call(${this.emitExpression(node.expression)}, [${this.emitArgs(args)}], ${position(node)}, ${this.emitArgPositions(args)})`;
+    };
+
+    private emitFunction = (node: FuncDeclarationNode): string => {
+        const params = node.parameters?.params ?? [];
+        const parameters = params.map((param) => (
+            `{ name: ${quote(param.identifier.value)}, dataType: ${this.emitDataType(param.dataType)} }`
+        ));
+        const returnType = node.returnType ? this.emitDataType(node.returnType) : 'null';
+
+        // arguments and the variables of the body share the scope of the call
+        this._scopes.push(new Map(params.map((param) => [param.identifier.value, {
+            declarationType: 'argument',
+            dataType: null,
+            plainType: toPlainType(param.dataType)
+        }])));
+        const context = {
+            isInFunction: true, returnType: node.returnType, isInLoop: false, isInWhen: false, isLoopOutsideWhen: false
+        };
+        const body = this.withContext(context, () => this.emitStatements(node.body));
+        this._scopes.pop();
+
+        const argNames = params.map((param) => toJsIdentifier(param.identifier.value)).join(', ');
+        const bodyParams = node.returnType ? `[${argNames}], $call, $return` : `[${argNames}]`;
+        return `$.func([${parameters.join(', ')}], ${returnType}, (${bodyParams}) => ${body}, ${position(node)})`;
+    };
+
+    /**
+     * Emits the statements of a block in the current scope
+     */
+    private emitStatements = (block: CodeBlockNode): string => {
+        this._indent++;
+        const lines = block.body.map((statement) => this.emitStatement(statement));
+        this._indent--;
+        return lines.length ? ['{', ...lines, this.line('}')].join('\n') : '{}';
+    };
+
+    private emitBinaryExpression = (node: BinaryExpressionNode): string => {
+        const left = this.emitExpression(node.left);
+        const right = this.emitExpression(node.right);
+
+        // operands of known types can't fail, they use the javascript operator
+        if (getBinaryType(node.operator, this.getPlainType(node.left), this.getPlainType(node.right))) {
+            return `(${left} ${JS_OPERATORS[node.operator] ?? node.operator} ${right})`;
+        }
+
+        // logical operators don't evaluate the right side when the left side decides the outcome
+        if (node.operator === '&&' || node.operator === '||') {
+            return `$.logical('${node.operator}', ${left}, () => ${right}, ${position(node)})`;
+        }
+        return `$.binary('${node.operator}', ${left}, ${right}, ${position(node)})`;
+    };
+
+    private emitUnaryExpression = (node: UnaryExpressionNode): string => {
+        const value = this.emitExpression(node.value);
+        if (this.getUnaryType(node) !== null) return `(${node.operator} ${value})`;
+        return `$.unary('${node.operator}', ${value}, ${position(node)})`;
+    };
+
+    /**
+     * Type of the value of an expression when it is known while emitting, null when only the runtime knows it
+     */
+    private getPlainType = (node: ExpressionNode): PlainType | null => {
+        const body = node.body;
+        switch (body.type) {
+        case 'NumberLiteral':
+            return 'number';
+        case 'TextLiteral':
+        case 'TextTemplate':
+            return 'text';
+        case 'BooleanLiteral':
+            return 'boolean';
+        case 'Identifier':
+            return this.resolve(body.value)?.plainType ?? null;
+        case 'BinaryExpression':
+            return getBinaryType(body.operator, this.getPlainType(body.left), this.getPlainType(body.right));
+        case 'UnaryExpression':
+            return this.getUnaryType(body);
+        case 'ConditionalExpression': {
+            const trueType = this.getPlainType(body.trueExpression);
+            return trueType === this.getPlainType(body.falseExpression) ? trueType : null;
+        }
+        default:
+            return null;
+        }
+    };
+
+    private getUnaryType = (node: UnaryExpressionNode): PlainType | null => {
+        const valueType = this.getPlainType(node.value);
+        if (node.operator === '!') return valueType === 'boolean' ? 'boolean' : null;
+        return valueType === 'number' ? 'number' : null;
+    };
+
+    private emitConditionalExpression = (node: ConditionalExpressionNode): string => {
+        const condition = this.emitCondition(node.condition, 'condition');
+        return `(${condition} ? ${this.emitExpression(node.trueExpression)} : ${this.emitExpression(node.falseExpression)})`;
+    };
+
+    private emitWhenExpression = (node: WhenExpressionNode): string => {
+        const value = this.emitExpression(node.value);
+        this._indent++;
+        const cases = node.cases.map((whenCase) => this.line(this.emitWhenCase(whenCase)));
+        this._indent--;
+        return `$.when(${value}, [\n${cases.join(',\n')}\n${this.line('])')}`;
+    };
+
+    private emitWhenCase = (node: WhenCaseNode): string => {
+        const context: Partial<EmitContext> = {
+            isInLoop: false,
+            isInWhen: true,
+            isLoopOutsideWhen: this._context.isInLoop || this._context.isLoopOutsideWhen
+        };
+        const body = this.withContext(context, () => (
+            node.body.type === 'CodeBlock' ? this.emitBlock(node.body, true) : this.emitExpression(node.body)
+        ));
+
+        if (node.pattern === null) return `{ body: () => ${body} }`;
+        if (node.pattern.type === 'DataType') {
+            return `{ dataType: ${this.emitDataType(node.pattern)}, body: () => ${body} }`;
+        }
+
+        const pattern = this.emitExpression({ type: 'Expression', body: node.pattern, position: node.pattern.position });
+        return `{ equals: ${pattern}, body: () => ${body} }`;
+    };
+
+    private emitTextTemplate = (node: TextTemplateNode): string => {
+        const parts = node.parts.map((part) => (
+            part.type === 'TextLiteral' ?
+                part.value.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${').replace(/[\uE000\uE001]/g, escapeMarker) :
+                this.emitTemplatePart(part)
+        ));
+        return `\`${parts.join('')}\``;
+    };
+
+    // numbers, texts and booleans are written the same way by javascript
+    private emitTemplatePart = (node: ExpressionNode): string => (
+        this.getPlainType(node) === null ? `\${$.toText(${this.emitExpression(node)})}` : `\${${this.emitExpression(node)}}`
+    );
+
+    private emitAccessorExpression = (node: AccessorExpressionNode): string => {
+        const value = this.emitExpression(node.expression);
+        if (node.value.type === 'FuncCallNode') {
+            const args = node.value.params?.args ?? [];
+            return `$.callMember(${value}, ${quote(node.value.identifier.value)}, [${this.emitArgs(args)}], ${position(node.value)}, ${
+                this.emitArgPositions(args)})`;
+        }
+        return `$.member(${value}, ${quote(node.value.value)}, ${position(node.value)})`;
+    };
+
+    private emitListLiteral = (node: ListLiteralNode): string => (
+        `$.list([${this.emitArgs(node.elements)}], ${position(node)}, ${this.emitArgPositions(node.elements)})`
+    );
+
+    private emitIndexExpression = (node: IndexExpressionNode): string => (
+        `$.index(${this.emitExpression(node.expression)}, ${this.emitExpression(node.index)}, ${position(node)}, [${position(node.index)}])`
+    );
+
+    private emitVectorConstructor = (node: VectorConstructorNode): string => (
+        `$.vector('${node.vectorType}', [${this.emitArgs(node.components)}], ${position(node)}, ${this.emitArgPositions(node.components)})`
+    );
+
+    /**
+     * Record literals of a declared record type give their fields the declared types before storing them
+     * @param dataType the emitted data type, the types of the fields are looked up from it at runtime
+     */
+    private emitExpressionOfType = (node: ExpressionNode, dataType: string | null): string => (
+        node.body.type === 'RecordLiteral' && dataType !== null ?
+            `${this.mark(node.body)}${this.emitRecordLiteral(node.body as RecordLiteralNode, dataType)}` :
+            this.emitExpression(node)
+    );
+
+    private emitRecordLiteral = (node: RecordLiteralNode, dataType: string | null = null): string => {
+        const fields = node.fields.map((field) => {
+            const name = field.identifier.value;
+            const fieldType = dataType && `$.fieldType(${dataType}, ${quote(name)}, ${position(node)})`;
+            return `${toPropertyName(name)}: ${this.emitExpressionOfType(field.expression, fieldType)}`;
+        });
+        const typeArgument = dataType ? `, ${dataType}` : '';
+        return `$.record(${fields.length ? `{ ${fields.join(', ')} }` : '{}'}, ${position(node)}${typeArgument})`;
+    };
+
+    private emitRecordType = (node: RecordTypeNode): string => {
+        const fields = node.fields.map((field) => `${toPropertyName(field.identifier.value)}: ${this.emitDataType(field.dataType)}`);
+        return `$.recordType({ ${fields.join(', ')} })`;
+    };
+
+    /**
+     * Data types are emitted as objects, record types are looked up through the variable they were declared in
+     */
+    private emitDataType = (dataType: DataTypeNode): string => {
+        if (DataTypeUtils.isRecordDataType(dataType)) {
+            return `{ value: 'record', name: ${quote(dataType.name)}, recordType: () => ${this.reference(dataType.name)}, position: [${
+                position(dataType)}] }`;
+        }
+
+        if (DataTypeUtils.isFuncDataType(dataType)) {
+            const returnType = dataType.returnType ? this.emitDataType(dataType.returnType) : 'null';
+            return `{ value: 'func', parameters: [${dataType.parameters.map(this.emitDataType).join(', ')}], returnType: ${returnType} }`;
+        }
+
+        // lists of lists keep the full type of their elements
+        const elementType = DataTypeUtils.getElementType(dataType);
+        if (elementType && DataTypeUtils.isListDataType(elementType)) {
+            return `{ value: 'list', internalType: 'list', elementType: ${this.emitDataType(elementType)} }`;
+        }
+
+        const internalType = DataTypeUtils.getInternalType(dataType);
+        return internalType ?
+            `{ value: '${dataType.value}', internalType: '${internalType}' }` :
+            `{ value: '${dataType.value}' }`;
+    };
+
+    private withContext = <T>(context: Partial<EmitContext>, emit: () => T): T => {
+        const previousContext = this._context;
+        this._context = { ...previousContext, ...context };
+        try {
+            return emit();
+        } finally {
+            this._context = previousContext;
+        }
+    };
+
+    private createLibraryScope = (): Map<string, Declaration> => new Map(LIBRARY_FUNCTIONS.map((name) => (
+        [name, { declarationType: 'internal', dataType: null }]
+    )));
+
+    private currentScope = (): Map<string, Declaration> => {
+        const scope = this._scopes[this._scopes.length - 1];
+        if (!scope) throw new Error('internal error, no scope to declare in');
+        return scope;
+    };
+
+    private resolve = (identifier: string): Declaration | null => {
+        for (let i = this._scopes.length - 1; i >= 0; i--) {
+            const declaration = this._scopes[i]?.get(identifier);
+            if (declaration) return declaration;
+        }
+        return null;
+    };
+
+    private line = (code: string) => `${INDENTATION.repeat(this._indent)}${code}`;
+}
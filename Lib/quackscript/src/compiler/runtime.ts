@@ -0,0 +1,1173 @@
+import { RuntimeException } from '../exception/RuntimeException';
+import { DataTypes } from '../parser/types';
+import { OutputStream } from '../system';
+import { Position } from '../types/Position';
+import {
+    ReturnChecker, RuntimeDataType, RuntimeField, RuntimeFunc, RuntimeList, RuntimeMemberCall, RuntimeOptional, RuntimeParam,
+    RuntimePosition, RuntimeRecord, RuntimeRecordType, RuntimeSlot, RuntimeValue, RuntimeVector, RuntimeWhenCase
+} from './types';
+
+/**
+ * Thrown by a return inside a when expression, the compiled case body is a function of its own
+ * so the enclosing quackscript function catches it and returns the value
+ */
+class ReturnSignal {
+    public value: RuntimeValue;
+
+    constructor(value: RuntimeValue) {
+        this.value = value;
+    }
+}
+
+const positionAt = (line: number, lineChar: number): Position => ({ line, lineChar, globalChar: 0 });
+
+const fail = (message: string, line: number, lineChar: number): never => {
+    throw new RuntimeException(positionAt(line, lineChar), message);
+};
+
+// fields are read through this so names like 'constructor' are not taken from the object prototype
+const getOwn = <T>(data: Record<string, T>, name: string): T | undefined => (
+    Object.prototype.hasOwnProperty.call(data, name) ? data[name] : undefined
+);
+
+const isFunc = (value: RuntimeValue): value is RuntimeFunc => typeof value === 'function';
+
+const typeOf = (value: RuntimeValue): DataTypes => {
+    if (value === null) return 'nothing';
+    switch (typeof value) {
+    case 'boolean':
+        return 'boolean';
+    case 'number':
+        return 'number';
+    case 'string':
+        return 'text';
+    case 'function':
+        return 'func';
+    }
+    return value.type;
+};
+
+const isFuncDataType = (dataType: RuntimeDataType) => dataType.value === 'func' && dataType.parameters !== undefined;
+
+const isRecordDataType = (dataType: RuntimeDataType) => dataType.value === 'record' && dataType.name !== undefined;
+
+const getInternalType = (dataType: RuntimeDataType): DataTypes | null => (
+    dataType.value === 'optional' || dataType.value === 'list' ? dataType.internalType ?? null : null
+);
+
+const getElementType = (dataType: RuntimeDataType): RuntimeDataType | null => (
+    dataType.value === 'list' ? dataType.elementType ?? null : null
+);
+
+/**
+ * Gets the full type of a list value, null when the type of its elements is not known yet
+ */
+const getListType = (list: RuntimeList): RuntimeDataType | null => {
+    if (list.internalType === null) return null;
+    return { value: 'list', internalType: list.internalType, ...(list.elementType ? { elementType: list.elementType } : {}) };
+};
+
+const getFunctionSignature = (fn: RuntimeFunc): RuntimeDataType => ({
+    value: 'func',
+    parameters: fn.parameters.map((param) => param.dataType),
+    returnType: fn.returnType
+});
+
+const typeToText = (dataType: RuntimeDataType): string => {
+    if (isRecordDataType(dataType)) return dataType.name ?? 'record';
+
+    const elementType = getElementType(dataType);
+    if (elementType) return `list<${typeToText(elementType)}>`;
+
+    if (dataType.value === 'optional' || dataType.value === 'list') {
+        return `${dataType.value}<${dataType.internalType ?? 'unknown'}>`;
+    }
+
+    if (isFuncDataType(dataType)) {
+        const returnType = dataType.returnType ? typeToText(dataType.returnType) : 'unknown';
+        return `func<(${(dataType.parameters ?? []).map(typeToText).join(', ')}) > ${returnType}>`;
+    }
+
+    return dataType.value;
+};
+
+const valueTypeToText = (value: RuntimeValue): string => {
+    if (isFunc(value)) return typeToText(getFunctionSignature(value));
+    if (value === null || typeof value !== 'object') return typeOf(value);
+
+    switch (value.type) {
+    case 'list':
+        return value.elementType ? `list<${typeToText(value.elementType)}>` : `list<${value.internalType ?? 'unknown'}>`;
+    case 'optional':
+        return `optional<${value.internalType}>`;
+    case 'record':
+        return value.recordType?.name ?? 'record';
+    }
+    return value.type;
+};
+
+/**
+ * Checks if a data type can be used where the expected data type is declared,
+ * functions without a declared return type can be used for any return type
+ */
+const isSameType = (expected: RuntimeDataType, actual: RuntimeDataType): boolean => {
+    if (expected.value !== actual.value) return false;
+    if (getInternalType(expected) !== getInternalType(actual)) return false;
+
+    const expectedElementType = getElementType(expected);
+    const actualElementType = getElementType(actual);
+    if (expectedElementType && actualElementType && !isSameType(expectedElementType, actualElementType)) return false;
+    if (isRecordDataType(expected)) return isRecordDataType(actual) && expected.name === actual.name;
+    if (!isFuncDataType(expected)) return true;
+    if (!isFuncDataType(actual)) return false;
+
+    const expectedParameters = expected.parameters ?? [];
+    const actualParameters = actual.parameters ?? [];
+    if (expectedParameters.length !== actualParameters.length) return false;
+    const areParametersEqual = expectedParameters.every((parameter, i) => {
+        const actualParameter = actualParameters[i];
+        return actualParameter !== undefined && isSameType(parameter, actualParameter);
+    });
+
+    return areParametersEqual && (
+        !expected.returnType ||
+        !actual.returnType ||
+        isSameType(expected.returnType, actual.returnType)
+    );
+};
+
+const isValueOfType = (value: RuntimeValue, dataType: RuntimeDataType): boolean => {
+    const valueType = typeOf(value);
+
+    switch (dataType.value) {
+    case 'optional': {
+        const internalType = dataType.internalType;
+        if (valueType === 'optional') return (value as RuntimeOptional).internalType === internalType;
+        return valueType === 'nothing' || valueType === internalType;
+    }
+    case 'list': {
+        if (valueType !== 'list') return false;
+        const listValue = value as RuntimeList;
+        if (listValue.internalType === null) return true;
+        if (listValue.internalType !== dataType.internalType) return false;
+
+        // lists of lists check the full type of their elements
+        const elementType = getElementType(dataType);
+        if (!elementType) return true;
+        return (!listValue.elementType || isSameType(elementType, listValue.elementType)) &&
+            listValue.values.every((element) => isValueOfType(element, elementType));
+    }
+    case 'func':
+        if (!isFunc(value)) return false;
+        return !isFuncDataType(dataType) || isSameType(dataType, getFunctionSignature(value));
+    case 'record':
+        if (valueType !== 'record') return false;
+        return !isRecordDataType(dataType) || (value as RuntimeRecord).recordType?.name === dataType.name;
+    }
+
+    return valueType === dataType.value;
+};
+
+/**
+ * Converts values inside lists and records, texts are quoted and optionals show the value they hold
+ */
+const toNestedText = (value: RuntimeValue): string => {
+    const unwrappedValue = typeOf(value) === 'optional' ? (value as RuntimeOptional).value : value;
+    return typeof unwrappedValue === 'string' ? `'${unwrappedValue}'` : toText(unwrappedValue);
+};
+
+const toText = (value: RuntimeValue): string => {
+    if (value === null) return 'nothing';
+    if (isFunc(value)) {
+        const params = value.parameters.map((param) => `${param.name}:${typeToText(param.dataType)}`).join(', ');
+        const returnType = value.returnType ? `:${typeToText(value.returnType)}` : '';
+        return `(${params})${returnType} > { [function-body] }`;
+    }
+
+    switch (typeof value) {
+    case 'boolean':
+        return value ? 'true' : 'false';
+    case 'number':
+        return value.toString();
+    case 'string':
+        return value;
+    }
+
+    switch (value.type) {
+    case 'vector2':
+    case 'vector3':
+        return `${value.type}(${value.components.join(', ')})`;
+    case 'optional':
+        return `${toText(value.value)}:Optional<${value.internalType}>`;
+    case 'list':
+        return `[${value.values.map(toNestedText).join(', ')}]`;
+    case 'record': {
+        const fields = Object.entries(value.fields).map(([name, field]) => `${name}: ${toNestedText(field.value)}`);
+        return fields.length ? `{ ${fields.join(', ')} }` : '{}';
+    }
+    case 'type': {
+        const fields = Object.entries(value.fields).map(([name, dataType]) => `${name}: ${typeToText(dataType)}`);
+        return `type { ${fields.join(', ')} }`;
+    }
+    }
+};
+
+const isVector = (value: RuntimeValue): value is RuntimeVector => (
+    typeOf(value) === 'vector2' || typeOf(value) === 'vector3'
+);
+
+const toVector = (components: Array<number>): RuntimeVector => ({
+    type: components.length === 3 ? 'vector3' : 'vector2',
+    components
+});
+
+const dot = (left: RuntimeVector, right: RuntimeVector) => (
+    left.components.reduce((total, value, i) => total + value * (right.components[i] ?? 0), 0)
+);
+
+const isVectorEqual = (left: RuntimeVector, right: RuntimeVector) => (
+    left.type === right.type && left.components.every((value, i) => value === right.components[i])
+);
+
+/**
+ * Compares two values, lists, records and optionals are compared by their content, functions and types by reference
+ */
+const isEqual = (left: RuntimeValue, right: RuntimeValue): boolean => {
+    if (typeOf(left) !== typeOf(right)) return false;
+    if (left === null || typeof left !== 'object' || right === null || typeof right !== 'object') return left === right;
+
+    switch (left.type) {
+    case 'vector2':
+    case 'vector3':
+        return isVectorEqual(left, right as RuntimeVector);
+    case 'optional':
+        return isEqual(left.value, (right as RuntimeOptional).value);
+    case 'list': {
+        const rightValues = (right as RuntimeList).values;
+        return left.values.length === rightValues.length &&
+            left.values.every((item, i) => {
+                const rightItem = rightValues[i];
+                return rightItem !== undefined && isEqual(item, rightItem);
+            });
+    }
+    case 'record': {
+        const rightFields = (right as RuntimeRecord).fields;
+        const fields = Object.entries(left.fields);
+        return fields.length === Object.keys(rightFields).length &&
+            fields.every(([name, field]) => {
+                const rightField = rightFields[name];
+                return rightField !== undefined && isEqual(field.value, rightField.value);
+            });
+    }
+    }
+
+    return left === right;
+};
+
+/**
+ * Gives a list of the data type the type of its elements, empty lists adopt it and nested lists are typed the same way.
+ * Lists that are not of the type are left untouched
+ */
+const conformList = (list: RuntimeList, dataType: RuntimeDataType) => {
+    if (!isValueOfType(list, dataType)) return;
+
+    list.internalType = list.internalType ?? getInternalType(dataType);
+    const elementType = getElementType(dataType);
+    if (!elementType) return;
+
+    list.elementType = elementType;
+    list.values.forEach((element) => typeOf(element) === 'list' && conformList(element as RuntimeList, elementType));
+};
+
+const fromDataType = (dataType: RuntimeDataType): RuntimeSlot => ({
+    type: dataType.value,
+    internalType: getInternalType(dataType),
+    signature: isFuncDataType(dataType) || isRecordDataType(dataType) || getElementType(dataType) ? dataType : null
+});
+
+const fromValue = (value: RuntimeValue): RuntimeSlot => {
+    const slot: RuntimeSlot = { type: typeOf(value), internalType: null, signature: null };
+
+    if (isFunc(value)) {
+        slot.signature = getFunctionSignature(value);
+    } else if (value !== null && typeof value === 'object') {
+        if (value.type === 'optional' || value.type === 'list') {
+            slot.internalType = value.internalType;
+        }
+        if (value.type === 'list' && value.elementType) {
+            slot.signature = getListType(value);
+        }
+        if (value.type === 'record' && value.recordType?.name) {
+            slot.signature = { value: 'record', name: value.recordType.name };
+        }
+    }
+    return slot;
+};
+
+const slotToText = (slot: RuntimeSlot): string => {
+    if (slot.signature) return typeToText(slot.signature);
+    if (slot.type === 'optional' || slot.type === 'list') return `${slot.type}<${slot.internalType ?? 'unknown'}>`;
+    return slot.type;
+};
+
+/**
+ * Checks that the elements of the list match the declared type, empty lists adopt it.
+ * Lists of lists give their nested lists the declared type, their elements are checked with the signature
+ * @throws RuntimeException when the list is of a different type
+ */
+const checkListType = (list: RuntimeList, { internalType, signature }: RuntimeSlot, position: Position) => {
+    if (internalType === null) {
+        throw new RuntimeException(position, 'Lists must declare the type of their elements');
+    }
+
+    if (list.internalType === null) {
+        list.internalType = internalType;
+    } else if (list.internalType !== internalType) {
+        throw new RuntimeException(position, `Tried to assign list<${list.internalType}> to list<${internalType}>`);
+    }
+
+    if (signature) conformList(list, signature);
+};
+
+/**
+ * Checks a new value against the type of a variable, argument or field
+ * @returns the value to save, optionals are wrapped
+ */
+const store = (slot: RuntimeSlot, value: RuntimeValue, position: Position): RuntimeValue => {
+    // values that are already optional (returned from functions or passed as arguments) are unwrapped
+    const unwrappedValue = typeOf(value) === 'optional' ? (value as RuntimeOptional).value : value;
+    const valueType = typeOf(unwrappedValue);
+
+    if (slot.type === 'optional') {
+        const internalType = slot.internalType ?? valueType;
+        if (valueType !== 'nothing' && valueType !== internalType) {
+            throw new RuntimeException(position, `Tried to assign ${valueType} to optional<${internalType}>`);
+        }
+        return { type: 'optional', internalType, value: unwrappedValue };
+    }
+
+    if (slot.type !== valueType) {
+        throw new RuntimeException(position, `Tried to assign ${valueType} to ${slot.type}`);
+    }
+
+    if (valueType === 'list') {
+        checkListType(unwrappedValue as RuntimeList, slot, position);
+    }
+
+    if (slot.signature && !isValueOfType(unwrappedValue, slot.signature)) {
+        throw new RuntimeException(position,
+            `Tried to assign ${valueTypeToText(unwrappedValue)} to a ${typeToText(slot.signature)}`);
+    }
+    return unwrappedValue;
+};
+
+/**
+ * Checks the value that replaces the current value of a variable or field
+ * @returns the value to save, optionals are wrapped
+ */
+const update = (slot: RuntimeSlot, value: RuntimeValue, position: Position): RuntimeValue => {
+    const type = typeOf(value);
+
+    if (slot.type === 'optional' && slot.internalType !== null && (slot.internalType === type || type === 'nothing')) {
+        return { type: 'optional', internalType: slot.internalType, value };
+    }
+
+    if (slot.type !== type) throw new RuntimeException(position, `Tried to assign ${type} to ${slotToText(slot)}`);
+    if (type === 'list') {
+        checkListType(value as RuntimeList, slot, position);
+    }
+    if (slot.signature && !isValueOfType(value, slot.signature)) {
+        throw new RuntimeException(position, `Tried to assign ${valueTypeToText(value)} to a ${typeToText(slot.signature)}`);
+    }
+    return value;
+};
+
+const resolveRecordType = (dataType: RuntimeDataType, position: Position): RuntimeRecordType => {
+    let recordType: RuntimeValue = null;
+    try {
+        recordType = dataType.recordType?.() ?? null;
+    } catch {
+        // the record type was never declared
+    }
+
+    if (typeOf(recordType) !== 'type') {
+        const [line, lineChar] = dataType.position ?? [position.line, position.lineChar];
+        throw new RuntimeException(positionAt(line, lineChar), `'${dataType.name}' is not a record type`);
+    }
+    return recordType as RuntimeRecordType;
+};
+
+/**
+ * Gives records without a type the declared record type, their fields are checked against it.
+ * The record is typed in place so every reference to it sees the type
+ * @throws RuntimeException when the fields don't match the record type
+ */
+const conform = (value: RuntimeValue, dataType: RuntimeDataType | null, position: Position): RuntimeValue => {
+    if (!dataType || !isRecordDataType(dataType)) return value;
+    if (typeOf(value) !== 'record' || (value as RuntimeRecord).recordType !== null) return value;
+
+    const record = value as RuntimeRecord;
+    const recordType = resolveRecordType(dataType, position);
+    const fields: Record<string, RuntimeField> = Object.create(null);
+
+    for (const [name, fieldType] of Object.entries(recordType.fields)) {
+        const field = getOwn(record.fields, name);
+        if (!field && fieldType.value !== 'optional') {
+            throw new RuntimeException(position, `Missing field '${name}' of ${dataType.name}`);
+        }
+
+        const fieldValue = conform(field?.value ?? null, fieldType, position);
+        if (!isValueOfType(fieldValue, fieldType)) {
+            throw new RuntimeException(position,
+                `Field '${name}' of ${dataType.name} must be ${typeToText(fieldType)} but got ${valueTypeToText(fieldValue)}`);
+        }
+        const slot = fromDataType(fieldType);
+        fields[name] = { ...slot, value: store(slot, fieldValue, position) };
+    }
+
+    const unknownField = Object.keys(record.fields).find((name) => !getOwn(recordType.fields, name));
+    if (unknownField) {
+        throw new RuntimeException(position, `Field '${unknownField}' is not part of ${dataType.name}`);
+    }
+
+    record.fields = fields;
+    record.recordType = recordType;
+    return record;
+};
+
+/**
+ * Checks the returned value against the declared return type of the function
+ * @throws RuntimeException when the value doesn't match the return type
+ */
+const checkReturnValue = (returnType: RuntimeDataType | null, returnedValue: RuntimeValue, position: Position): RuntimeValue => {
+    if (!returnType) return returnedValue;
+
+    const value = conform(returnedValue, returnType, position);
+    if (!isValueOfType(value, returnType)) {
+        throw new RuntimeException(position,
+            `Expected function to return ${typeToText(returnType)} but got ${valueTypeToText(value)}`);
+    }
+
+    if (returnType.value === 'optional' && typeOf(value) !== 'optional') {
+        return { type: 'optional', internalType: returnType.internalType ?? 'nothing', value };
+    }
+
+    if (typeOf(value) === 'list') {
+        conformList(value as RuntimeList, returnType);
+    }
+    return value;
+};
+
+/**
+ * Wraps the compiled body of a function, arguments are checked on every call.
+ * Calls without a position, like the ones from JavaScript, report their errors at the declaration
+ * @param body receives the checked arguments, the position of the call and the check of the returned values,
+ * it is used by every return so errors are reported where the value is returned
+ */
+const func = (
+    parameters: Array<RuntimeParam>,
+    returnType: RuntimeDataType | null,
+    body: (args: Array<RuntimeValue>, call: Position, checkReturn: ReturnChecker) => RuntimeValue | void,
+    line: number,
+    lineChar: number
+): RuntimeFunc => {
+    const checkReturn: ReturnChecker = (value, returnLine, returnLineChar) => (
+        checkReturnValue(returnType, value, positionAt(returnLine, returnLineChar))
+    );
+    const invoke: RuntimeFunc['invoke'] = (args, [callLine, callLineChar], argPositions) => {
+        const callPosition = positionAt(callLine, callLineChar);
+        if (parameters.length !== args.length) {
+            throw new RuntimeException(callPosition, `Expecting ${parameters.length} arguments but got ${args.length} arguments`);
+        }
+
+        const boundArgs = parameters.map((param, i) => {
+            const [argLine, argLineChar] = argPositions[i] ?? [callLine, callLineChar];
+            const argPosition = positionAt(argLine, argLineChar);
+            const arg = conform(args[i] ?? null, param.dataType, argPosition);
+            if (!isValueOfType(arg, param.dataType)) {
+                throw new RuntimeException(argPosition,
+                    `Expected argument of type ${typeToText(param.dataType)} but got ${valueTypeToText(arg)}`);
+            }
+            return store(fromDataType(param.dataType), arg, argPosition);
+        });
+
+        try {
+            const returnedValue = body(boundArgs, callPosition, checkReturn);
+            // falling off the end of the function returns nothing from the call
+            return returnedValue === undefined ? checkReturnValue(returnType, null, callPosition) : returnedValue;
+        } catch (ex: unknown) {
+            if (ex instanceof ReturnSignal) return ex.value;
+            throw ex;
+        }
+    };
+    const fn = (...args: Array<RuntimeValue>): RuntimeValue => invoke(args, [line, lineChar], []);
+    return Object.assign(fn, { parameters, returnType, invoke });
+};
+
+/**
+ * Calls a function value, errors of the arguments are reported where they are written
+ * @param argPositions positions of the arguments, the position of the call is used for the missing ones
+ */
+const call = (
+    fn: RuntimeValue,
+    args: Array<RuntimeValue>,
+    line: number,
+    lineChar: number,
+    argPositions: Array<RuntimePosition> = []
+): RuntimeValue => {
+    if (fn === null) return fail('Tried to call \'nothing\' as a function', line, lineChar);
+    if (!isFunc(fn)) return fail(`Tried to call ${typeOf(fn)} as a function`, line, lineChar);
+    return fn.invoke(args, [line, lineChar], argPositions);
+};
+
+/**
+ * Reads a variable that was not declared when the function using it was compiled
+ */
+const lookup = (read: () => RuntimeValue, identifier: string, line: number, lineChar: number): RuntimeValue => {
+    try {
+        return read();
+    } catch (ex: unknown) {
+        if (ex instanceof ReferenceError) return fail(`Variable '${identifier}' not in memory`, line, lineChar);
+        throw ex;
+    }
+};
+
+/**
+ * Calls the function stored in a variable, values of other types are reported by the name of the variable
+ */
+const callVariable = (
+    identifier: string,
+    fn: RuntimeValue,
+    args: Array<RuntimeValue>,
+    line: number,
+    lineChar: number,
+    argPositions: Array<RuntimePosition> = []
+): RuntimeValue => {
+    if (!isFunc(fn)) return fail(`Tried to call variable '${identifier}' as a function`, line, lineChar);
+    return fn.invoke(args, [line, lineChar], argPositions);
+};
+
+const invalidOperator = (operator: string, left: RuntimeValue, right: RuntimeValue, line: number, lineChar: number): never => (
+    fail(`Operator '${operator}' can't be used between ${typeOf(left)} and ${typeOf(right)}`, line, lineChar)
+);
+
+const binary = (operator: string, left: RuntimeValue, right: RuntimeValue, line: number, lineChar: number): RuntimeValue => {
+    if (isFunc(left) || isFunc(right)) return invalidOperator(operator, left, right, line, lineChar);
+
+    if (typeof left === 'boolean' && typeof right === 'boolean') {
+        switch (operator) {
+        case '!=':
+            return left !== right;
+        case '&&':
+            return left && right;
+        case '==':
+            return left === right;
+        case '||':
+            return left || right;
+        }
+        return invalidOperator(operator, left, right, line, lineChar);
+    }
+
+    if (typeof left === 'number' && typeof right === 'number') {
+        switch (operator) {
+        case '!=':
+            return left !== right;
+        case '%':
+            return left % right;
+        case '*':
+            return left * right;
+        case '-':
+            return left - right;
+        case '+':
+            return left + right;
+        case '/':
+            return left / right;
+        case '<':
+            return left < right;
+        case '<=':
+            return left <= right;
+        case '>=':
+            return left >= right;
+        case '==':
+            return left === right;
+        case '>':
+            return left > right;
+        }
+    }
+
+    if (typeof left === 'string' && typeof right === 'string') {
+        switch (operator) {
+        case '!=':
+            return left !== right;
+        case '==':
+            return left === right;
+        case '+':
+            return left.concat(right);
+        }
+    }
+
+    if (isVector(left) || isVector(right)) {
+        return vectorBinary(operator, left, right, line, lineChar);
+    }
+
+    if (operator === '!=' || operator === '==') {
+        return isEqual(left, right) === (operator === '==');
+    }
+
+    return invalidOperator(operator, left, right, line, lineChar);
+};
+
+/**
+ * Vectors support element-wise + and -, scaling by a number with * and / and comparing with == and !=
+ */
+const vectorBinary = (operator: string, left: RuntimeValue, right: RuntimeValue, line: number, lineChar: number): RuntimeValue => {
+    if (isVector(left) && isVector(right)) {
+        if (operator === '==' || operator === '!=') {
+            return isVectorEqual(left, right) === (operator === '==');
+        }
+        if (left.type === right.type && operator === '+') {
+            return toVector(left.components.map((value, i) => value + (right.components[i] ?? 0)));
+        }
+        if (left.type === right.type && operator === '-') {
+            return toVector(left.components.map((value, i) => value - (right.components[i] ?? 0)));
+        }
+    }
+
+    if (isVector(left) && typeof right === 'number') {
+        if (operator === '*') return toVector(left.components.map((value) => value * right));
+        if (operator === '/') return toVector(left.components.map((value) => value / right));
+    }
+
+    if (typeof left === 'number' && isVector(right) && operator === '*') {
+        return toVector(right.components.map((value) => value * left));
+    }
+
+    if ((operator === '==' || operator === '!=') && isVector(left) !== isVector(right)) {
+        return operator === '!=';
+    }
+
+    return invalidOperator(operator, left, right, line, lineChar);
+};
+
+/**
+ * Logical operators don't evaluate the right side when the left side decides the outcome
+ */
+const logical = (operator: '&&' | '||', left: RuntimeValue, right: () => RuntimeValue, line: number, lineChar: number) => {
+    if (typeof left === 'boolean' && left === (operator === '||')) return left;
+    return binary(operator, left, right(), line, lineChar);
+};
+
+const unary = (operator: '!' | '-', value: RuntimeValue, line: number, lineChar: number): RuntimeValue => {
+    if (operator === '!' && typeof value === 'boolean') return !value;
+    if (operator === '-' && typeof value === 'number') return -value;
+    if (operator === '-' && isVector(value)) return toVector(value.components.map((component) => -component));
+
+    const expectedType = operator === '!' ? 'boolean' : 'number or vector';
+    return fail(`Operator '${operator}' can only be used on ${expectedType} but found ${typeOf(value)}`, line, lineChar);
+};
+
+/**
+ * Condition of if statements and loops, nothing is false
+ */
+const isTrue = (value: RuntimeValue, line: number, lineChar: number): boolean => {
+    if (typeof value === 'boolean') return value;
+    if (value === null) return false;
+    return fail('Invalid boolean expression', line, lineChar);
+};
+
+/**
+ * Condition of conditional expressions, only booleans are accepted
+ */
+const condition = (value: RuntimeValue, line: number, lineChar: number): boolean => {
+    if (typeof value === 'boolean') return value;
+    return fail(`Condition must be boolean but found ${valueTypeToText(value)}`, line, lineChar);
+};
+
+/**
+ * Checks the value of a declaration against its declared type, or infers the type from the value
+ * @param valuePosition where the value is written, a value of the wrong type is reported there
+ */
+const declare = (
+    identifier: string,
+    value: RuntimeValue,
+    dataType: RuntimeDataType | null,
+    line: number,
+    lineChar: number,
+    [valueLine, valueLineChar]: RuntimePosition
+): RuntimeValue => {
+    const position = positionAt(valueLine, valueLineChar);
+    const conformedValue = conform(value, dataType, position);
+    if (typeOf(conformedValue) === 'type' && (conformedValue as RuntimeRecordType).name === null) {
+        (conformedValue as RuntimeRecordType).name = identifier;
+    }
+
+    if (dataType?.value === 'optional') {
+        return store({
+            type: 'optional',
+            internalType: dataType.internalType ?? typeOf(conformedValue),
+            signature: null
+        }, conformedValue, position);
+    }
+
+    if (dataType) return store(fromDataType(dataType), conformedValue, position);
+
+    const slot = fromValue(conformedValue);
+    if (slot.type === 'list' && slot.internalType === null) {
+        return fail(`Unable to infer the type of '${identifier}', declare it as list<type>`, line, lineChar);
+    }
+    return store(slot, conformedValue, position);
+};
+
+/**
+ * Checks the new value of a variable against its declared type or, when it was inferred, the type of its current value
+ */
+const assign = (
+    current: RuntimeValue,
+    value: RuntimeValue,
+    dataType: RuntimeDataType | null,
+    line: number,
+    lineChar: number
+): RuntimeValue => {
+    const position = positionAt(line, lineChar);
+    const slot = dataType ? fromDataType(dataType) : fromValue(current);
+    return update(slot, conform(value, slot.signature, position), position);
+};
+
+/**
+ * @param componentPositions components that are not numbers are reported where they are written
+ */
+const vector = (
+    vectorType: 'vector2' | 'vector3',
+    components: Array<RuntimeValue>,
+    line: number,
+    lineChar: number,
+    componentPositions: Array<RuntimePosition> = []
+): RuntimeVector => (
+    toVector(components.map((component, i) => {
+        if (typeof component === 'number') return component;
+        const [componentLine, componentLineChar] = componentPositions[i] ?? [line, lineChar];
+        return fail(`${vectorType} components must be numbers but found ${typeOf(component)}`, componentLine, componentLineChar);
+    }))
+);
+
+/**
+ * @param elementPositions elements of another type are reported where they are written
+ */
+const list = (values: Array<RuntimeValue>, line: number, lineChar: number, elementPositions: Array<RuntimePosition> = []): RuntimeList => {
+    const [firstValue] = values;
+    const internalType = values.length ? typeOf(firstValue ?? null) : null;
+    // lists of lists check the full type of their elements
+    const elementType = internalType === 'list' ? getListType(firstValue as RuntimeList) : null;
+
+    values.forEach((value, i) => {
+        const type = typeOf(value);
+        const [elementLine, elementLineChar] = elementPositions[i] ?? [line, lineChar];
+        if (type !== internalType) {
+            fail(`List elements must be of the same type, expected ${internalType} but found ${type}`, elementLine, elementLineChar);
+        }
+        if (elementType && !isValueOfType(value, elementType)) {
+            fail(`List elements must be of the same type, expected ${typeToText(elementType)} but found ${valueTypeToText(value)}`,
+                elementLine, elementLineChar);
+        }
+    });
+
+    // empty lists among the elements take the type of the others
+    if (elementType) values.forEach((value) => conformList(value as RuntimeList, elementType));
+    return { type: 'list', values, internalType, elementType };
+};
+
+/**
+ * @param indexPosition where the index is written, indexes that are not numbers or out of bounds are reported there
+ * @throws RuntimeException when the value is not a list or the index is out of bounds
+ */
+const checkIndex = (
+    value: RuntimeValue,
+    index: RuntimeValue,
+    line: number,
+    lineChar: number,
+    [indexLine, indexLineChar]: RuntimePosition
+): [RuntimeList, number] => {
+    if (typeOf(value) !== 'list') {
+        return fail(`Tried to index ${typeOf(value)}, only lists can be indexed`, line, lineChar);
+    }
+    if (typeof index !== 'number') {
+        return fail(`List index must be a number but found ${typeOf(index)}`, indexLine, indexLineChar);
+    }
+
+    const listValue = value as RuntimeList;
+    if (!Number.isInteger(index) || index < 0 || index >= listValue.values.length) {
+        return fail(`Index ${index} is out of bounds for a list of length ${listValue.values.length}`, indexLine, indexLineChar);
+    }
+    return [listValue, index];
+};
+
+const index = (value: RuntimeValue, indexValue: RuntimeValue, line: number, lineChar: number, indexPosition: RuntimePosition): RuntimeValue => {
+    const [listValue, i] = checkIndex(value, indexValue, line, lineChar, indexPosition);
+    return listValue.values[i] ?? null;
+};
+
+/**
+ * Updates an element of a list, the new value is type checked at the position of its expression
+ */
+const setIndex = (
+    value: RuntimeValue,
+    indexValue: RuntimeValue,
+    newValue: RuntimeValue,
+    line: number,
+    lineChar: number,
+    indexPosition: RuntimePosition,
+    [valueLine, valueLineChar]: RuntimePosition
+) => {
+    const [listValue, i] = checkIndex(value, indexValue, line, lineChar, indexPosition);
+    const type = typeOf(newValue);
+    if (listValue.internalType !== null && listValue.internalType !== type) {
+        fail(`Tried to assign ${type} to an element of list<${listValue.internalType}>`, valueLine, valueLineChar);
+    }
+    if (listValue.elementType && !isValueOfType(newValue, listValue.elementType)) {
+        fail(`Tried to assign ${valueTypeToText(newValue)} to an element of ${valueTypeToText(listValue)}`, valueLine, valueLineChar);
+    }
+    if (listValue.elementType && type === 'list') {
+        conformList(newValue as RuntimeList, listValue.elementType);
+    }
+    listValue.values[i] = newValue;
+};
+
+/**
+ * Gets the declared type of a field of a record type, used by record literals nested in a record of a declared type
+ */
+const fieldType = (dataType: RuntimeDataType | null, name: string, line: number, lineChar: number): RuntimeDataType | null => {
+    if (!dataType || !isRecordDataType(dataType)) return null;
+    return getOwn(resolveRecordType(dataType, positionAt(line, lineChar)).fields, name) ?? null;
+};
+
+/**
+ * Empty lists in the fields of the declared record type take the type of their elements from the field
+ */
+const record = (
+    values: Record<string, RuntimeValue>,
+    line: number,
+    lineChar: number,
+    dataType: RuntimeDataType | null = null
+): RuntimeRecord => {
+    const position = positionAt(line, lineChar);
+    const fields: Record<string, RuntimeField> = Object.create(null);
+    for (const [name, value] of Object.entries(values)) {
+        const declaredType = fieldType(dataType, name, line, lineChar);
+        if (typeOf(value) === 'list' && declaredType) {
+            conformList(value as RuntimeList, declaredType);
+        }
+        const slot = fromValue(value);
+        fields[name] = { ...slot, value: store(slot, value, position) };
+    }
+    return { type: 'record', fields, recordType: null };
+};
+
+const recordType = (fields: Record<string, RuntimeDataType>): RuntimeRecordType => ({ type: 'type', name: null, fields });
+
+/**
+ * Record of the exports of an imported module, its fields read and update the variables of the module
+ */
+const namespace = (exports: Record<string, RuntimeValue>): RuntimeRecord => {
+    const fields: Record<string, RuntimeField> = Object.create(null);
+    for (const name of Object.keys(exports)) {
+        const field = fromValue(exports[name] ?? null) as RuntimeField;
+        fields[name] = Object.defineProperty(field, 'value', {
+            get: () => exports[name],
+            set: Object.getOwnPropertyDescriptor(exports, name)?.set,
+            enumerable: true
+        });
+    }
+    return { type: 'record', fields, recordType: null };
+};
+
+const getField = (value: RuntimeRecord, name: string, line: number, lineChar: number): RuntimeField => (
+    getOwn(value.fields, name) ?? fail(`Field '${name}' is not part of ${valueTypeToText(value)}`, line, lineChar)
+);
+
+/**
+ * Updates a field of a record, unknown fields are reported where they are named
+ * and the new value is type checked at the position of its expression
+ */
+const setField = (
+    value: RuntimeValue,
+    name: string,
+    newValue: RuntimeValue,
+    line: number,
+    lineChar: number,
+    [fieldLine, fieldLineChar]: RuntimePosition,
+    [valueLine, valueLineChar]: RuntimePosition
+) => {
+    if (typeOf(value) !== 'record') {
+        fail(`Tried to assign field '${name}' of ${valueTypeToText(value)}`, line, lineChar);
+    }
+
+    const valuePosition = positionAt(valueLine, valueLineChar);
+    const recordValue = value as RuntimeRecord;
+    const conformedValue = conform(newValue, getOwn(recordValue.fields, name)?.signature ?? null, valuePosition);
+    const field = getField(recordValue, name, fieldLine, fieldLineChar);
+    field.value = update(field, conformedValue, valuePosition);
+};
+
+/**
+ * Reads a field of a record or a non function attribute of a primitive value like the components of a vector
+ */
+const member = (value: RuntimeValue, name: string, line: number, lineChar: number): RuntimeValue => {
+    if (typeOf(value) === 'record') return getField(value as RuntimeRecord, name, line, lineChar).value;
+
+    if (isVector(value)) {
+        const component = ['x', 'y', 'z'].indexOf(name);
+        const componentValue = value.components[component];
+        if (componentValue !== undefined) return componentValue;
+    }
+    return fail(`Attribute '${name}' is not part of ${typeOf(value)}`, line, lineChar);
+};
+
+const staticFunctions: Partial<Record<DataTypes, Array<string>>> = {
+    list: ['length', 'push', 'pop', 'map', 'filter', 'reduce', 'contains', 'slice'],
+    optional: ['unwrap'],
+    vector2: ['length', 'normalize', 'dot'],
+    vector3: ['length', 'normalize', 'dot', 'cross'],
+};
+
+/**
+ * Checks the arguments of an attribute function, errors of an argument are reported where it is written
+ */
+const getArgs = (name: string, memberCall: RuntimeMemberCall, expectedTypes: Array<DataTypes | null>) => {
+    const { args, line, lineChar, argPositions } = memberCall;
+    if (args.length !== expectedTypes.length) {
+        fail(`'${name}' expects ${expectedTypes.length} arguments but got ${args.length} arguments`, line, lineChar);
+    }
+
+    args.forEach((arg, i) => {
+        const expectedType = expectedTypes[i];
+        const type = typeOf(arg);
+        if (expectedType && expectedType !== type) {
+            const [argLine, argLineChar] = argPositions[i] ?? [line, lineChar];
+            fail(`Expected argument of type ${expectedType} but got ${type}`, argLine, argLineChar);
+        }
+    });
+    return args;
+};
+
+const callListFunction = (name: string, listValue: RuntimeList, memberCall: RuntimeMemberCall): RuntimeValue => {
+    const { line, lineChar } = memberCall;
+    switch (name) {
+    case 'length':
+        getArgs(name, memberCall, []);
+        return listValue.values.length;
+    case 'push': {
+        const [value = null] = getArgs(name, memberCall, [listValue.internalType]);
+        if (listValue.elementType && !isValueOfType(value, listValue.elementType)) {
+            const [argLine, argLineChar] = memberCall.argPositions[0] ?? [line, lineChar];
+            fail(`Expected argument of type ${typeToText(listValue.elementType)} but got ${valueTypeToText(value)}`, argLine, argLineChar);
+        }
+
+        listValue.internalType = listValue.internalType ?? typeOf(value);
+        if (typeOf(value) === 'list') {
+            if (listValue.elementType) conformList(value as RuntimeList, listValue.elementType);
+            else listValue.elementType = getListType(value as RuntimeList);
+        }
+        listValue.values.push(value);
+        return null;
+    }
+    case 'pop': {
+        getArgs(name, memberCall, []);
+        if (!listValue.values.length) return fail('Tried to pop from an empty list', line, lineChar);
+        return listValue.values.pop() ?? null;
+    }
+    case 'map': {
+        const [fn = null] = getArgs(name, memberCall, ['func']);
+        const values = listValue.values.map((item) => call(fn, [item], line, lineChar));
+        const internalType = values.length ? typeOf(values[0] ?? null) : null;
+        if (values.some((item) => typeOf(item) !== internalType)) {
+            return fail('\'map\' must return values of the same type', line, lineChar);
+        }
+        const elementType = internalType === 'list' ? getListType(values[0] as RuntimeList) : null;
+        return { type: 'list', values, internalType, elementType };
+    }
+    case 'filter': {
+        const [fn = null] = getArgs(name, memberCall, ['func']);
+        const values = listValue.values.filter((item) => {
+            const result = call(fn, [item], line, lineChar);
+            if (typeof result !== 'boolean') return fail('\'filter\' must return a boolean', line, lineChar);
+            return result;
+        });
+        return { type: 'list', values, internalType: listValue.internalType, elementType: listValue.elementType };
+    }
+    case 'reduce': {
+        const [fn = null, initialValue = null] = getArgs(name, memberCall, ['func', null]);
+        return listValue.values.reduce((accumulator, item) => call(fn, [accumulator, item], line, lineChar), initialValue);
+    }
+    case 'contains': {
+        const [value = null] = getArgs(name, memberCall, [null]);
+        return listValue.values.some((item) => isEqual(item, value));
+    }
+    case 'slice': {
+        const [start, end] = getArgs(name, memberCall, ['number', 'number']) as [number, number];
+        return {
+            type: 'list',
+            values: listValue.values.slice(start, end),
+            internalType: listValue.internalType,
+            elementType: listValue.elementType
+        };
+    }
+    }
+    return fail(`Attribute '${name}' is not part of list`, line, lineChar);
+};
+
+const callVectorFunction = (name: string, vectorValue: RuntimeVector, memberCall: RuntimeMemberCall): RuntimeValue => {
+    const { line, lineChar } = memberCall;
+    switch (name) {
+    case 'length':
+        getArgs(name, memberCall, []);
+        return Math.sqrt(dot(vectorValue, vectorValue));
+    case 'normalize': {
+        getArgs(name, memberCall, []);
+        const length = Math.sqrt(dot(vectorValue, vectorValue));
+        if (length === 0) return fail('Tried to normalize a vector of length 0', line, lineChar);
+        return toVector(vectorValue.components.map((value) => value / length));
+    }
+    case 'dot': {
+        const [other] = getArgs(name, memberCall, [vectorValue.type]) as [RuntimeVector];
+        return dot(vectorValue, other);
+    }
+    case 'cross': {
+        if (vectorValue.type !== 'vector3') break;
+        const [other] = getArgs(name, memberCall, ['vector3']) as [RuntimeVector];
+        const [x = 0, y = 0, z = 0] = vectorValue.components;
+        const [otherX = 0, otherY = 0, otherZ = 0] = other.components;
+        return toVector([y * otherZ - z * otherY, z * otherX - x * otherZ, x * otherY - y * otherX]);
+    }
+    }
+    return fail(`Attribute '${name}' is not part of ${vectorValue.type}`, line, lineChar);
+};
+
+/**
+ * Calls a function stored in a record field or an attribute function of a primitive value
+ */
+const callMember = (
+    value: RuntimeValue,
+    name: string,
+    args: Array<RuntimeValue>,
+    line: number,
+    lineChar: number,
+    argPositions: Array<RuntimePosition> = []
+): RuntimeValue => {
+    const type = typeOf(value);
+    // records without a field of the name fall back to the attributes every value has, like toText
+    if (type === 'record' && (name !== 'toText' || getOwn((value as RuntimeRecord).fields, name))) {
+        return call(getField(value as RuntimeRecord, name, line, lineChar).value, args, line, lineChar, argPositions);
+    }
+
+    if (name === 'toText') return toText(value);
+    if (!staticFunctions[type]?.includes(name)) return fail(`Attribute '${name}' is not part of ${type}`, line, lineChar);
+
+    if (type === 'optional') {
+        const optional = value as RuntimeOptional;
+        if (optional.value === null) return fail('Unwrapped a optional with nothing inside', line, lineChar);
+        return optional.value;
+    }
+    const memberCall = { args, line, lineChar, argPositions };
+    if (type === 'list') return callListFunction(name, value as RuntimeList, memberCall);
+    return callVectorFunction(name, value as RuntimeVector, memberCall);
+};
+
+/**
+ * Runs the first case matching the value, yields nothing when no case matches
+ */
+const when = (value: RuntimeValue, cases: Array<RuntimeWhenCase>): RuntimeValue => {
+    // optionals are matched by the value they hold
+    const valueToMatch = typeOf(value) === 'optional' ? (value as RuntimeOptional).value : value;
+
+    const matchingCase = cases.find((whenCase) => {
+        if ('equals' in whenCase) return isEqual(valueToMatch, whenCase.equals ?? null);
+        if (whenCase.dataType) return isValueOfType(valueToMatch, whenCase.dataType);
+        return true;
+    });
+    return matchingCase?.body() ?? null;
+};
+
+const earlyReturn = (value: RuntimeValue): never => {
+    throw new ReturnSignal(value);
+};
+
+/**
+ * Gets the runtime error caught by a catch block as a record with its message, line and column. Anything else thrown,
+ * like the signal of an early return, is thrown again
+ */
+const caught = (thrown: unknown): RuntimeRecord => {
+    if (!(thrown instanceof RuntimeException)) throw thrown;
+    const { line, lineChar } = thrown.position;
+    return record({ message: thrown.message, line, column: lineChar }, line, lineChar);
+};
+
+/**
+ * Creates the helpers the compiled code runs with
+ * @param system where quackprint writes and runtime errors are reported
+ * @param code source code shown together with runtime errors
+ */
+export const createRuntime = (system: { stdout: OutputStream, stderr: OutputStream }, code?: string) => {
+    // functions of the standard library, fail throws the error at the position of its call
+    const library = {
+        quackprint: func([{ name: 'value', dataType: { value: 'text' } }], { value: 'nothing' }, ([value]) => {
+            system.stdout(value as string);
+        }, 1, 1),
+        fail: func([{ name: 'message', dataType: { value: 'text' } }], { value: 'nothing' }, ([message], { line, lineChar }) => (
+            fail(message as string, line, lineChar)
+        ), 1, 1),
+    };
+
+    const runtime = {
+        library,
+        toText,
+        fail,
+        earlyReturn,
+        func,
+        call,
+        callVariable,
+        lookup,
+        binary,
+        logical,
+        unary,
+        isTrue,
+        condition,
+        declare,
+        assign,
+        vector,
+        list,
+        index,
+        setIndex,
+        record,
+        fieldType,
+        recordType,
+        namespace,
+        setField,
+        member,
+        callMember,
+        when,
+        caught,
+        // top level expressions print their value like the interpreter does
+        printResult: (value: RuntimeValue) => {
+            if (value !== null) system.stdout(toText(value));
+        }
+    };
+
+    /**
+     * Runs the compiled program reporting runtime errors to stderr
+     */
+    const run = (program: (helpers: typeof runtime) => void) => {
+        try {
+            program(runtime);
+        } catch (er) {
+            if (er instanceof RuntimeException) {
+                system.stderr(new RuntimeException(er.position, er.message, code).toString());
+                return;
+            }
+            throw er;
+        }
+    };
+
+    return { ...runtime, run };
+};
+
+export type Runtime = ReturnType<typeof createRuntime>;
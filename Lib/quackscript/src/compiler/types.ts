@@ -0,0 +1,150 @@
+import { DataTypes } from '../parser/types';
+import { SourceMap, SourceMapping } from '../utils/sourceMap/sourceMapUtils';
+
+/**
+ * Data type as written in the compiled code, the same shape as the parser data types without positions but the ones of record types
+ */
+export interface RuntimeDataType {
+    value: DataTypes,
+    // optional<type> and list<type>, optionals without a type infer it from the value
+    internalType?: DataTypes | null,
+    // only present in lists of lists, list<list<number>> has list<number> elements
+    elementType?: RuntimeDataType,
+    // only present in func<(...) > type> signatures
+    parameters?: Array<RuntimeDataType>,
+    returnType?: RuntimeDataType | null,
+    // record types are referenced by name and resolved when a record is typed
+    name?: string,
+    recordType?: () => RuntimeValue,
+    // where the record type is named, it is reported there when it is not a record type
+    position?: RuntimePosition
+}
+
+export interface RuntimeParam {
+    name: string,
+    dataType: RuntimeDataType
+}
+
+// line and char of a node in the quackscript code
+export type RuntimePosition = [number, number];
+
+/**
+ * Call of an attribute function of a primitive value, like list.push(value)
+ */
+export interface RuntimeMemberCall {
+    args: Array<RuntimeValue>,
+    line: number,
+    lineChar: number,
+    argPositions: Array<RuntimePosition>
+}
+
+// checks a value returned by a function against its return type, errors are reported at the given line and char
+export type ReturnChecker = (value: RuntimeValue, line: number, lineChar: number) => RuntimeValue;
+
+export type RuntimeFunc = ((...args: Array<RuntimeValue>) => RuntimeValue) & {
+    parameters: Array<RuntimeParam>,
+    returnType: RuntimeDataType | null,
+    // calls the function reporting errors of the arguments where they are written, errors without one at the call
+    invoke: (args: Array<RuntimeValue>, call: RuntimePosition, argPositions: Array<RuntimePosition>) => RuntimeValue
+};
+
+export interface RuntimeOptional {
+    type: 'optional',
+    internalType: DataTypes,
+    value: RuntimeValue
+}
+
+export interface RuntimeList {
+    type: 'list',
+    values: Array<RuntimeValue>,
+    // null until the type of an empty list is known
+    internalType: DataTypes | null,
+    // only lists of lists have it, their elements are checked against the full type like list<number>
+    elementType: RuntimeDataType | null
+}
+
+export interface RuntimeVector {
+    type: 'vector2' | 'vector3',
+    components: Array<number>
+}
+
+/**
+ * Type information checked when a variable, argument or field is assigned
+ */
+export interface RuntimeSlot {
+    type: DataTypes,
+    internalType: DataTypes | null,
+    // declared signature of func values, type of record values and of lists of lists
+    signature: RuntimeDataType | null
+}
+
+export interface RuntimeField extends RuntimeSlot {
+    value: RuntimeValue
+}
+
+export interface RuntimeRecord {
+    type: 'record',
+    fields: Record<string, RuntimeField>,
+    // null until the record is assigned to a record type
+    recordType: RuntimeRecordType | null
+}
+
+export interface RuntimeRecordType {
+    type: 'type',
+    // null until the type is assigned to a variable
+    name: string | null,
+    fields: Record<string, RuntimeDataType>
+}
+
+/**
+ * Values of the compiled code, primitives are plain javascript values and nothing is null
+ */
+export type RuntimeValue = boolean | number | string | null | RuntimeFunc | RuntimeOptional | RuntimeList |
+    RuntimeVector | RuntimeRecord | RuntimeRecordType;
+
+export interface RuntimeWhenCase {
+    // literal the value is compared with
+    equals?: RuntimeValue,
+    // data type the value is checked against
+    dataType?: RuntimeDataType,
+    body: () => RuntimeValue | void
+}
+
+export interface EmitOptions {
+    // indentation level of the emitted statements
+    indent?: number,
+    // name of the compiled file in the source map
+    sourceName?: string,
+    // source code included in the source map
+    code?: string,
+    // path of the compiled file, its imports are resolved from it
+    filePath?: string
+}
+
+export interface EmittedSource {
+    name: string,
+    content: string | null
+}
+
+export interface EmittedModule {
+    code: string,
+    // the module and every imported module
+    sources: Array<EmittedSource>,
+    mappings: Array<SourceMapping>
+}
+
+export interface CompileOptions {
+    // name of the compiled .quack file
+    sourceName?: string,
+    // name of the generated javascript file
+    outputName?: string,
+    // source code included in the source map
+    code?: string,
+    // path of the compiled file, its imports are resolved from it
+    filePath?: string
+}
+
+export interface CompiledModule {
+    code: string,
+    sourceMap: SourceMap
+}
@@ -0,0 +1,17 @@
+import { Position } from '../types/Position';
+
+export class CompileException {
+
+    public position: Position;
+
+    public message: string;
+
+    constructor(position: Position, message:string){
+        this.position = position;
+        this.message = message;
+    }
+
+    toString() {
+        return `Compile Error: In line ${this.position.line} at char ${this.position.lineChar} \n ${this.message}`;
+    }
+}
@@ -1,4 +1,5 @@
 import { Value } from '../interpreter/types';
+import { Position } from '../types/Position';
 
 export type ControlFlowType = 'Break' | 'Return' | 'Continue';
 
@@ -9,11 +10,14 @@ export class ControlFlowException {
 
     public type: ControlFlowType;
     public data: Value;
+    // where the returned value is written, errors about the returned value are reported there
+    public position: Position | null;
 
-    constructor (type: ControlFlowType, data?: Value | null | void) {
+    constructor (type: ControlFlowType, data?: Value | null | void, position: Position | null = null) {
         this.type = type;
         this.data = data ?? {
-            type: 'NothingLiteral',
+            type: 'Nothing',
         } as Value;
+        this.position = position;
     }
 }
\ No newline at end of file
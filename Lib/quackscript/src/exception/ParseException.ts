@@ -1,17 +1,30 @@
+import { Diagnostic, DiagnosticCode, DiagnosticCodes } from '../types/Diagnostic';
 import { Position } from '../types/Position';
+import { DiagnosticUtils } from '../utils/diagnostic/diagnosticUtils';
 
 export class ParseException {
 
     public placement: Position;
 
+    // position after the token the error is about
+    public end: Position;
+
     public message: string;
 
-    constructor(placement: Position, message:string){
+    public errorCode: DiagnosticCode;
+
+    constructor(placement: Position, message:string, errorCode: DiagnosticCode = DiagnosticCodes.UnexpectedToken, end?: Position){
         this.placement = placement;
         this.message = message;
+        this.errorCode = errorCode;
+        this.end = end ?? placement;
     }
 
     toString() {
         return `Parse Error: In line ${this.placement.line} at char ${this.placement.lineChar} \n ${this.message}`;
     }
-}
\ No newline at end of file
+
+    toDiagnostic(): Diagnostic {
+        return DiagnosticUtils.create(this.placement, this.end, this.errorCode, this.message);
+    }
+}
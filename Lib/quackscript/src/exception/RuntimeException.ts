@@ -1,4 +1,8 @@
+import Lexer from '../lexer';
+import { Diagnostic, DiagnosticCodes } from '../types/Diagnostic';
 import { Position } from '../types/Position';
+import { DiagnosticUtils } from '../utils/diagnostic/diagnosticUtils';
+import { TextUtils } from '../utils/text/textUtils';
 
 export class RuntimeException {
 
@@ -8,17 +12,20 @@ export class RuntimeException {
 
     public message: string;
 
-    constructor(position: Position, message:string, code?: string | null){
+    // position right after the code the error is about, null to use the end of the token at the position
+    public end: Position | null;
+
+    constructor(position: Position, message:string, code?: string | null, end?: Position){
         this.position = position;
         this.message = message;
         this.code = code ?? null;
+        this.end = end ?? null;
     }
 
     toString() {
         let msg = `Runtime Error: In line ${this.position.line} at char ${this.position.lineChar}\n  ${this.message}`;
 
         if (this.code !== null) {
-            console.log(this.position);
             const line = this.code.split('\n')[this.position.line - 1];
             if (line) {
                 msg += `\n${line}\n`;
@@ -27,4 +34,18 @@ export class RuntimeException {
         }
         return msg;
     }
-}
\ No newline at end of file
+
+    toDiagnostic(): Diagnostic {
+        return DiagnosticUtils.create(this.position, this.end ?? this.getTokenEnd(), DiagnosticCodes.RuntimeError, this.message);
+    }
+
+    /**
+     * Finds the end of the token starting at the position, errors without a token there are placed at the position
+     */
+    private getTokenEnd(): Position {
+        if (this.code === null) return this.position;
+
+        const token = new Lexer().tokenize(this.code).tokens.find((token) => token.position.globalChar === this.position.globalChar);
+        return token ? TextUtils.advancePosition(token.position, token.value) : this.position;
+    }
+}
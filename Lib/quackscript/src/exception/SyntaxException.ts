@@ -1,17 +1,27 @@
+import { Diagnostic, DiagnosticCodes } from '../types/Diagnostic';
 import { Position } from '../types/Position';
+import { DiagnosticUtils } from '../utils/diagnostic/diagnosticUtils';
 
 export class SyntaxException {
 
     public placement: Position;
 
+    // position after the invalid characters
+    public end: Position;
+
     public message: string;
 
-    constructor(placement: Position, message:string){
+    constructor(placement: Position, message:string, end?: Position){
         this.placement = placement;
         this.message = message;
+        this.end = end ?? placement;
     }
 
     toString() {
         return `Syntax Error: In line ${this.placement.line} at char ${this.placement.lineChar} \n ${this.message}`;
     }
-}
\ No newline at end of file
+
+    toDiagnostic(): Diagnostic {
+        return DiagnosticUtils.create(this.placement, this.end, DiagnosticCodes.InvalidCharacter, this.message);
+    }
+}
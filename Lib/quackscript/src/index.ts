@@ -1,12 +1,55 @@
 import P from './parser';
 import I from './interpreter';
 import L from './lexer';
+import C from './compiler';
+import E from './compiler/jsEmitter';
+import T from './typeChecker';
+import { ParseResult } from './parser/types';
+import { StaticPrimitiveAttributes } from './interpreter/staticPrimitiveAttributes';
+import { DataTypeUtils } from './utils/dataTypes/dataTypeUtils';
+import { DiagnosticUtils } from './utils/diagnostic/diagnosticUtils';
+
+export { createRuntime } from './compiler/runtime';
+export { RuntimeException } from './exception/RuntimeException';
+export { DiagnosticCodes } from './types/Diagnostic';
+export type { Diagnostic, DiagnosticCode, DiagnosticLocation, DiagnosticSeverity } from './types/Diagnostic';
+export type { CodeBlockNode, DataTypeNode, IdentifierNode, ModuleNode, ParseResult } from './parser/types';
+export type {
+    EvaluationResult, GlobalDeclaration, QBoolean, QFunction, QInternalFunction, QList, QNothing, QNumber, QOptional, QRecord, QRecordType,
+    QText, QVector2, QVector3, Value
+} from './interpreter/types';
+export type { Library } from './stdLibrary/library';
+export type { HostCallContext, HostFunction, HostFunctionDefinition, HostParam } from './stdLibrary/types';
+export type { JsFunction, JsRecord, JsValue } from './types/JsValue';
+export type { Position } from './types/Position';
+export type { Token } from './types/Token';
+export type { RecordLiteralType, StaticType, SymbolTable, TypeScope, TypeSymbol } from './typeChecker/types';
 
 export const Parser = P;
 export const Interpreter = I;
 export const Lexer = L;
+export const Compiler = C;
+export const JsEmitter = E;
+export const TypeChecker = T;
+export const formatDiagnostic = DiagnosticUtils.toText;
+export const formatType = DataTypeUtils.typeToText;
+export const getStaticFunctionNames = StaticPrimitiveAttributes.getStaticFunctionNames;
+
+/**
+ * Lexes and parses the code, invalid characters and statements are left out of the tree and returned as diagnostics
+ */
+const parse = (code: string): ParseResult => {
+    const { tokens, diagnostics } = new L().tokenize(code);
+    const { ast, diagnostics: parseDiagnostics } = new P().parseModule(tokens);
+
+    return {
+        ast,
+        diagnostics: DiagnosticUtils.sort([...diagnostics, ...parseDiagnostics])
+    };
+};
 
 const QuackScript = {
+    parse
 };
 
-export default QuackScript;
\ No newline at end of file
+export default QuackScript;
@@ -0,0 +1,73 @@
+import { TestUtils } from '../../utils/test/testUtils';
+
+describe('Interpreter Closures - ', () => {
+
+    test('returned functions keep access to their outer variables', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK makeCounter <- () > {
+                quack count <- 0🦆
+                return () > {
+                    count <- count + 1🦆
+                    return count🦆
+                }🦆
+            }🦆
+            QUACK first <- makeCounter()🦆
+            QUACK second <- makeCounter()🦆
+            first()🦆
+            first()🦆
+            second()🦆
+        `);
+        expect(stdout).toEqual(['1', '2', '1']);
+    });
+
+    test('adder factory', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK makeAdder <- (amount:number) > {
+                return (value:number) > {
+                    return value + amount🦆
+                }🦆
+            }🦆
+            QUACK addFive <- makeAdder(5)🦆
+            addFive(10)🦆
+            [1, 2].map(makeAdder(1))🦆
+        `);
+        expect(stdout).toEqual(['15', '[2, 3]']);
+    });
+
+    test('called functions can\'t see the caller\'s variables', () => {
+        expect(TestUtils.run(`
+            QUACK readSecret <- () > {
+                return secret🦆
+            }🦆
+            QUACK caller <- () > {
+                QUACK secret <- 'duck'🦆
+                return readSecret()🦆
+            }🦆
+            caller()🦆
+        `).stderr[0]).toContain('Variable \'secret\' not in memory');
+    });
+
+    test('functions see globals declared after them and can recurse', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK factorial <- (n:number) > {
+                if (n <= 1) {
+                    return 1🦆
+                }🦆
+                return n * factorial(n - 1)🦆
+            }🦆
+            factorial(5)🦆
+        `);
+        expect(stdout).toEqual(['120']);
+    });
+
+    test('variables declared in a code block are not visible outside of it', () => {
+        const { stdout } = TestUtils.run(`
+            if (true) {
+                QUACK inner <- 1🦆
+            }🦆
+            QUACK inner <- 2🦆
+            inner🦆
+        `);
+        expect(stdout).toEqual(['2']);
+    });
+});
@@ -0,0 +1,113 @@
+import { TestUtils } from '../../utils/test/testUtils';
+
+describe('Interpreter Conditionals - ', () => {
+
+    test.each([
+        [1, 'one'],
+        [2, 'two'],
+        [3, 'many'],
+    ])('else if chain with %s', (value, expected) => {
+        const { stdout } = TestUtils.run(`
+            QUACK value <- ${value}🦆
+            if (value == 1) {
+                quackprint('one')🦆
+            } else if (value == 2) {
+                quackprint('two')🦆
+            } else {
+                quackprint('many')🦆
+            }🦆
+        `);
+        expect(stdout).toEqual([expected]);
+    });
+
+    test('else if chain without else', () => {
+        const { stdout } = TestUtils.run(`
+            if (false) {
+                quackprint('first')🦆
+            } else if (false) {
+                quackprint('second')🦆
+            }🦆
+            quackprint('done')🦆
+        `);
+        expect(stdout).toEqual(['done']);
+    });
+
+    test('when matches literals', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK describe <- (value:number) > {
+                when (value) {
+                    1 -> {
+                        quackprint('one')🦆
+                    },
+                    2 -> {
+                        quackprint('two')🦆
+                    },
+                    else -> {
+                        quackprint('many')🦆
+                    }
+                }🦆
+            }🦆
+            describe(1)🦆
+            describe(2)🦆
+            describe(7)🦆
+        `);
+        expect(stdout).toEqual(['one', 'two', 'many']);
+    });
+
+    test('when is an expression', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK sound <- 'duck'🦆
+            QUACK noise <- when (sound) {
+                'duck' -> 'quack',
+                'cow' -> 'moo',
+                else -> '...'
+            }🦆
+            noise🦆
+            when (2) {
+                1 -> 'one',
+                2 -> {
+                    QUACK word <- 'tw'🦆
+                    word + 'o'🦆
+                }
+            }🦆
+        `);
+        expect(stdout).toEqual(['quack', 'two']);
+    });
+
+    test('when matches nothing and type names', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK describe <- (value:optional<number>) > {
+                return when (value) {
+                    nothing -> 'empty',
+                    number -> 'number'
+                }🦆
+            }🦆
+            describe(nothing)🦆
+            describe(3)🦆
+            when ([1, 2]) {
+                text -> 'text',
+                list<number> -> 'numbers'
+            }🦆
+        `);
+        expect(stdout).toEqual(['empty', 'number', 'numbers']);
+    });
+
+    test('when without a matching case yields nothing', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK result <- when (3) {
+                1 -> 'one'
+            }🦆
+            result == nothing🦆
+        `);
+        expect(stdout).toEqual(['true']);
+    });
+
+    test('else must be the last case', () => {
+        expect(() => TestUtils.run(`
+            when (1) {
+                else -> 'a',
+                1 -> 'b'
+            }🦆
+        `)).toThrow('The else case must be the last case of when');
+    });
+});
@@ -0,0 +1,168 @@
+import Interpreter from '../../interpreter';
+import Lexer from '../../lexer';
+import Parser from '../../parser';
+import { TestUtils } from '../../utils/test/testUtils';
+
+describe('Interpreter Errors - ', () => {
+
+    test('catch receives the message and position of the error', () => {
+        const { stdout, stderr } = TestUtils.run(`
+            try {
+                QUACK maybe: optional<number> <- nothing🦆
+                maybe.unwrap()🦆
+            } catch (err) {
+                quackprint(\`\${err.message} at \${err.line.toText()}:\${err.column.toText()}\`)🦆
+            }🦆
+            quackprint('after')🦆
+        `);
+        expect(stderr).toEqual([]);
+        expect(stdout).toEqual(['Unwrapped a optional with nothing inside at 4:23', 'after']);
+    });
+
+    test('fail throws an error with the given message', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK divide <- (a: number, b: number) > {
+                if (b == 0) {
+                    fail('division by zero')🦆
+                }🦆
+                return a / b🦆
+            }🦆
+            try {
+                divide(1, 0)🦆
+                quackprint('not printed')🦆
+            } catch (err) {
+                quackprint(err.message)🦆
+            }🦆
+        `);
+        expect(stdout).toEqual(['division by zero']);
+    });
+
+    test('errors outside of a try end the run', () => {
+        const code = 'quackprint(\'before\')🦆\nfail(\'broken\')🦆\nquackprint(\'after\')🦆';
+        const stdout: Array<string> = [];
+        const interpreter = new Interpreter((value) => stdout.push(value), () => undefined);
+
+        const diagnostics = interpreter.execute(new Parser().parse(new Lexer().convertToTokens(code)), code);
+
+        expect(stdout).toEqual(['before']);
+        expect(diagnostics[0]).toMatchObject({ message: 'broken', start: { line: 2, lineChar: 1 } });
+    });
+
+    const backends = [['interpreted', TestUtils.run], ['compiled', TestUtils.runCompiled]] as const;
+
+    test.each(backends)('%s, assigning a value of another type can be caught', (_, run) => {
+        const { stdout, stderr } = run(`
+            quack count <- 1🦆
+            try {
+                count <- 'many'🦆
+            } catch (err) {
+                quackprint(\`\${err.message} at \${err.line.toText()}:\${err.column.toText()}\`)🦆
+            }🦆
+            count🦆
+        `);
+        expect(stderr).toEqual([]);
+        expect(stdout).toEqual(['Tried to assign text to number at 4:26', '1']);
+    });
+
+    test.each(backends)('%s, updating a constant can be caught', (_, run) => {
+        const { stdout, stderr } = run(`
+            QUACK limit <- 1🦆
+            try {
+                limit <- 2🦆
+            } catch (err) {
+                quackprint(err.message)🦆
+            }🦆
+            limit🦆
+        `);
+        expect(stderr).toEqual([]);
+        expect(stdout).toEqual(['Tried to update constant \'limit\'', '1']);
+    });
+
+    test.each(backends)('%s, fail checks its message is a text', (_, run) => {
+        const { stdout, stderr } = run(`
+            try {
+                fail(1)🦆
+            } catch (err) {
+                quackprint(\`\${err.message} at \${err.line.toText()}:\${err.column.toText()}\`)🦆
+            }🦆
+        `);
+        expect(stderr).toEqual([]);
+        expect(stdout).toEqual(['Expected argument of type text but got number at 3:22']);
+    });
+
+    test('finally runs after the body returns from the function', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK read <- () > {
+                try {
+                    return 'value'🦆
+                } finally {
+                    quackprint('closed')🦆
+                }🦆
+            }🦆
+            quackprint(read())🦆
+        `);
+        expect(stdout).toEqual(['closed', 'value']);
+    });
+
+    test('finally runs after break and continue without stopping the loop', () => {
+        const { stdout } = TestUtils.run(`
+            for (quack i <- 0🦆 i < 5🦆 i <- i + 1) {
+                try {
+                    if (i == 1) { continue🦆 }🦆
+                    if (i == 3) { break🦆 }🦆
+                    quackprint(i.toText())🦆
+                } finally {
+                    quackprint(\`finally \${i.toText()}\`)🦆
+                }🦆
+            }🦆
+        `);
+        expect(stdout).toEqual(['0', 'finally 0', 'finally 1', '2', 'finally 2', 'finally 3']);
+    });
+
+    test('errors of the catch block are thrown after finally runs', () => {
+        const { stdout, stderr } = TestUtils.run(`
+            try {
+                fail('first')🦆
+            } catch (err) {
+                fail(\`again after \${err.message}\`)🦆
+            } finally {
+                quackprint('finally')🦆
+            }🦆
+            quackprint('not printed')🦆
+        `);
+        expect(stdout).toEqual(['finally']);
+        expect(stderr.join('\n')).toContain('again after first');
+    });
+
+    test('try without catch still throws the error after finally', () => {
+        const { stdout, stderr } = TestUtils.run(`
+            try {
+                fail('broken')🦆
+            } finally {
+                quackprint('finally')🦆
+            }🦆
+        `);
+        expect(stdout).toEqual(['finally']);
+        expect(stderr.join('\n')).toContain('broken');
+    });
+
+    test('errors thrown by host functions can be caught', () => {
+        const stdout: Array<string> = [];
+        const interpreter = new Interpreter((value) => stdout.push(value), () => undefined);
+        interpreter.registerFunction('load', [], 'nothing', () => {
+            throw new Error('Level not found');
+        });
+
+        interpreter.evaluate('try { load()🦆 } catch (err) { quackprint(err.message)🦆 }🦆');
+
+        expect(stdout).toEqual(['Level not found']);
+    });
+
+    test('the error is only declared inside the catch block', () => {
+        const interpreter = new Interpreter(() => undefined, () => undefined);
+        interpreter.evaluate('try { fail(\'broken\')🦆 } catch (err) { }🦆');
+
+        expect(interpreter.evaluate('err🦆').diagnostics.map((diagnostic) => diagnostic.message))
+            .toEqual(['Variable \'err\' not in memory']);
+    });
+});
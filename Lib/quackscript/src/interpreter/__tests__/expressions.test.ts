@@ -0,0 +1,148 @@
+import { TestUtils } from '../../utils/test/testUtils';
+
+describe('Interpreter Expressions - ', () => {
+
+    test.each([
+        ['2 * 3 + 4', '10'],
+        ['2 + 3 * 4', '14'],
+        ['10 - 2 - 3', '5'],
+        ['100 / 10 / 5', '2'],
+        ['(2 + 3) * 4', '20'],
+        ['2 * (3 + 4)', '14'],
+        ['((1))', '1'],
+        ['10 % 4 * 2', '4'],
+        ['1 + 2 < 2 * 2', 'true'],
+        ['1 < 2 == 2 < 3', 'true'],
+        ['true || false && false', 'true'],
+        ['(true || false) && false', 'false'],
+        ['\'a\' + \'b\' == \'ab\'', 'true'],
+        ['nothing == nothing', 'true'],
+        ['[1, 2] == [1, 2]', 'true'],
+        ['-5', '-5'],
+        ['-2 * 3 + 1', '-5'],
+        ['2 - -3', '5'],
+        ['--4', '4'],
+        ['-(1 + 2)', '-3'],
+        ['-vector2(1, -2)', 'vector2(-1, 2)'],
+        ['!true', 'false'],
+        ['!false && false', 'false'],
+        ['!(1 > 2)', 'true'],
+        ['!!true', 'true'],
+    ])('evaluates \'%s\'', (expression, expected) => {
+        const { stdout, stderr } = TestUtils.run(`${expression}🦆`);
+        expect(stderr).toEqual([]);
+        expect(stdout).toEqual([expected]);
+    });
+
+    test('any expression can be on either side of an operator', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK add <- (a:number, b:number) > {
+                return a + b🦆
+            }🦆
+            QUACK xs <- [1, 2, 3]🦆
+            add(1, 2) + 3🦆
+            xs[0] + xs[1] * xs.length()🦆
+            (add(1, 1) + xs[2]) * 2🦆
+        `);
+        expect(stdout).toEqual(['6', '7', '10']);
+    });
+
+    test('functions returned by calls and indexes can be called', () => {
+        const code = `QUACK makeAdder <- (amount:number) > {
+    return (value:number) > { return value + amount🦆 }🦆
+}🦆
+QUACK adders <- [makeAdder(1), makeAdder(10)]🦆
+QUACK duck <- { adder: makeAdder }🦆
+makeAdder(2)(3)🦆
+adders[1](5) * 2🦆
+duck.adder(100)(1)🦆
+adders[0]('one')🦆`;
+        const interpreted = TestUtils.run(code);
+
+        expect(interpreted.stdout).toEqual(['5', '30', '101']);
+        expect(interpreted.stderr[0]).toContain('Expected argument of type number but got text');
+        expect(TestUtils.runCompiled(code)).toEqual(interpreted);
+    });
+
+    test('only functions can be called', () => {
+        const code = 'QUACK numbers <- [1, 2]🦆\nnumbers[0](1)🦆';
+
+        expect(TestUtils.run(code).stderr[0]).toContain('Runtime Error: In line 2 at char 11\n  Tried to call number as a function');
+        expect(TestUtils.runCompiled(code)).toEqual(TestUtils.run(code));
+    });
+
+    test('logical operators short circuit', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK shout <- () > {
+                quackprint('evaluated')🦆
+                return true🦆
+            }🦆
+            false && shout()🦆
+            true || shout()🦆
+        `);
+        expect(stdout).toEqual(['false', 'true']);
+    });
+
+    test('unary operators apply to the postfix expression', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK xs <- [1, 2, 3]🦆
+            quack done <- false🦆
+            -xs.length()🦆
+            !done🦆
+        `);
+        expect(stdout).toEqual(['-3', 'true']);
+    });
+
+    test.each([
+        ['!1🦆', 'Operator \'!\' can only be used on boolean but found number'],
+        ['-true🦆', 'Operator \'-\' can only be used on number or vector but found boolean'],
+        ['-\'a\'🦆', 'Operator \'-\' can only be used on number or vector but found text'],
+    ])('unary operators are type checked: \'%s\'', (code, error) => {
+        const { stderr } = TestUtils.run(code);
+        expect(stderr[0]).toContain(error);
+    });
+
+    test('missing right side is a parse error', () => {
+        expect(() => TestUtils.run('1 + 🦆')).toThrow('Expected expression after \'+\'');
+    });
+
+    test('ternary expression picks a branch', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK age <- 3🦆
+            QUACK label <- age > 2 ? 'adult' : 'duckling'🦆
+            label🦆
+            age < 2 ? 'duckling' : age < 5 ? 'young' : 'old'🦆
+        `);
+        expect(stdout).toEqual(['adult', 'young']);
+    });
+
+    test('if then else expression picks a branch', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK size <- if (2 > 1) then 'big' else 'small'🦆
+            size🦆
+            if (false) then 1 else 2 + 3🦆
+        `);
+        expect(stdout).toEqual(['big', '5']);
+    });
+
+    test('only the chosen branch is evaluated', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK shout <- (value:text) > {
+                quackprint(value)🦆
+                return value🦆
+            }🦆
+            QUACK first <- true ? shout('yes') : shout('no')🦆
+            QUACK second <- if (false) then shout('yes') else shout('no')🦆
+        `);
+        expect(stdout).toEqual(['yes', 'no']);
+    });
+
+    test('conditions must be boolean', () => {
+        const { stderr } = TestUtils.run('1 ? \'a\' : \'b\'🦆');
+        expect(stderr[0]).toContain('Condition must be boolean but found number');
+    });
+
+    test('ternary without else branch is a parse error', () => {
+        expect(() => TestUtils.run('true ? 1🦆')).toThrow('Expected :');
+    });
+});
@@ -0,0 +1,108 @@
+import { TestUtils } from '../../utils/test/testUtils';
+
+describe('Interpreter Functions - ', () => {
+
+    test('function with a declared return type', () => {
+        const { stdout, stderr } = TestUtils.run(`
+            QUACK double <- (value:number):number > {
+                return value * 2🦆
+            }🦆
+            double(4)🦆
+        `);
+        expect(stderr).toEqual([]);
+        expect(stdout).toEqual(['8']);
+    });
+
+    test('returning a value of the wrong type fails', () => {
+        const { stderr } = TestUtils.run(`
+            QUACK double <- (value:number):number > {
+                return 'duck'🦆
+            }🦆
+            double(4)🦆
+        `);
+        expect(stderr[0]).toContain('Expected function to return number but got text');
+    });
+
+    test('returning a value of the wrong type is reported at the return statement like the type checker', () => {
+        const code = `
+            QUACK name <- 'duck'🦆
+            QUACK double <- (value:number):number > {
+                return name🦆
+            }🦆
+            double(4)🦆
+        `;
+        expect(TestUtils.check(code)[0]?.start).toEqual(expect.objectContaining({ line: 4, lineChar: 24 }));
+        expect(TestUtils.run(code).stderr[0]).toContain('In line 4 at char 24\n  Expected function to return number but got text');
+        expect(TestUtils.runCompiled(code)).toEqual(TestUtils.run(code));
+    });
+
+    test('falling off a function with a return type fails', () => {
+        const { stderr } = TestUtils.run(`
+            QUACK double <- (value:number):number > {
+                quack result <- value * 2🦆
+            }🦆
+            double(4)🦆
+        `);
+        expect(stderr[0]).toContain('Expected function to return number but got nothing');
+    });
+
+    test('optional return type accepts nothing and values', () => {
+        const { stdout, stderr } = TestUtils.run(`
+            QUACK find <- (value:number):optional<number> > {
+                if (value > 2) {
+                    return value🦆
+                }🦆
+                return nothing🦆
+            }🦆
+            find(1)🦆
+            find(3)🦆
+        `);
+        expect(stderr).toEqual([]);
+        expect(stdout).toEqual(['nothing:Optional<number>', '3:Optional<number>']);
+    });
+
+    test('function type declaration', () => {
+        const { stdout, stderr } = TestUtils.run(`
+            QUACK apply <- (fn:func<(number) > number>, value:number):number > {
+                return fn(value)🦆
+            }🦆
+            QUACK increment:func<(number) > number> <- (value:number):number > {
+                return value + 1🦆
+            }🦆
+            apply(increment, 1)🦆
+        `);
+        expect(stderr).toEqual([]);
+        expect(stdout).toEqual(['2']);
+    });
+
+    test('passing a function with the wrong signature fails', () => {
+        const { stderr } = TestUtils.run(`
+            QUACK apply <- (fn:func<(number) > number>, value:number):number > {
+                return fn(value)🦆
+            }🦆
+            apply((value:text):text > { return value🦆 }, 1)🦆
+        `);
+        expect(stderr[0]).toContain('Expected argument of type func<(number) > number> but got func<(text) > text>');
+    });
+
+    test('assigning a function with the wrong signature fails', () => {
+        const { stderr } = TestUtils.run(`
+            quack operation:func<(number, number) > boolean> <- (a:number, b:number):boolean > {
+                return a > b🦆
+            }🦆
+            operation <- (a:number):number > { return a🦆 }🦆
+        `);
+        expect(stderr[0]).toContain('Tried to assign func<(number) > number> to a func<(number, number) > boolean>');
+    });
+
+    test('functions without a return type are accepted by any function type', () => {
+        const { stdout, stderr } = TestUtils.run(`
+            QUACK apply <- (fn:func<(number) > number>, value:number) > {
+                return fn(value)🦆
+            }🦆
+            apply((value:number) > { return value * 3🦆 }, 2)🦆
+        `);
+        expect(stderr).toEqual([]);
+        expect(stdout).toEqual(['6']);
+    });
+});
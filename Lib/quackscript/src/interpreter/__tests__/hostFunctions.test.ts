@@ -0,0 +1,127 @@
+import { RuntimeException } from '../../exception/RuntimeException';
+import Lexer from '../../lexer';
+import Parser from '../../parser';
+import { HostCallContext } from '../../stdLibrary/types';
+import TypeChecker from '../../typeChecker';
+import { TestUtils } from '../../utils/test/testUtils';
+
+describe('Interpreter Host Functions - ', () => {
+
+    test('registered functions receive and return JavaScript values', () => {
+        const { interpreter, stdout, execute } = TestUtils.createInterpreter();
+        const damage = jest.fn((health: number, amount: number) => Math.max(health - amount, 0));
+        interpreter.registerFunction('damage', [
+            { identifier: 'health', dataType: 'number' },
+            { identifier: 'amount', dataType: 'number' },
+        ], 'number', damage);
+
+        execute('quackprint(damage(10, 4).toText())🦆');
+
+        expect(damage).toHaveBeenCalledWith(10, 4, expect.objectContaining({ position: expect.objectContaining({ line: 1 }) }));
+        expect(stdout).toEqual(['6']);
+    });
+
+    test('lists and optionals are converted both ways', () => {
+        const { interpreter, stdout, execute } = TestUtils.createInterpreter();
+        interpreter.registerFunction('names', [{ identifier: 'prefix', dataType: 'optional<text>' }], 'list<text>',
+            (prefix?: string) => ['duck', 'goose'].map((name) => `${prefix ?? ''}${name}`));
+        interpreter.registerFunction('total', [{ identifier: 'values', dataType: 'list<number>' }], 'optional<number>',
+            (values: Array<number>) => values.length ? values.reduce((a, b) => a + b) : undefined);
+
+        execute(`quackprint(names(nothing).toText())🦆
+quackprint(names('big ')[1])🦆
+quackprint(total([1, 2, 3]).toText())🦆
+quackprint(total([]).toText())🦆`);
+
+        expect(stdout).toEqual(['[\'duck\', \'goose\']', 'big goose', '6:Optional<number>', 'nothing:Optional<number>']);
+    });
+
+    test('arguments are checked against the parameters before the function is called', () => {
+        const { interpreter, stderr, execute } = TestUtils.createInterpreter();
+        const heal = jest.fn();
+        interpreter.registerFunction('heal', [{ identifier: 'amount', dataType: 'number' }], 'nothing', heal);
+
+        execute('heal(\'a lot\')🦆');
+
+        expect(heal).not.toHaveBeenCalled();
+        expect(stderr[0]).toContain('Expected argument of type number but got text');
+    });
+
+    test('errors thrown by host functions are reported at the call', () => {
+        const { interpreter, stderr, execute } = TestUtils.createInterpreter();
+        interpreter.registerFunction('spawn', [{ identifier: 'name', dataType: 'text' }], 'nothing',
+            (name: string, context: HostCallContext) => {
+                throw new RuntimeException(context.position, `Unknown enemy '${name}'`);
+            });
+        interpreter.registerFunction('load', [], 'nothing', () => {
+            throw new Error('Level not found');
+        });
+
+        const diagnostics = execute('quack count <- 1🦆\n    spawn(\'dragon\')🦆');
+        expect(diagnostics[0]).toMatchObject({ message: 'Unknown enemy \'dragon\'', start: { line: 2, lineChar: 5 } });
+        expect(stderr[0]).toContain('    spawn(\'dragon\')🦆');
+
+        expect(execute('load()🦆')[0]).toMatchObject({ message: 'Level not found', start: { line: 1, lineChar: 1 } });
+    });
+
+    test('values of the wrong type returned by host functions are reported', () => {
+        const { interpreter, execute } = TestUtils.createInterpreter();
+        interpreter.registerFunction('score', [], 'number', () => 'high');
+
+        expect(execute('score()🦆')[0]?.message).toBe('Expected number but got text');
+    });
+
+    test('modules group functions under a namespace', () => {
+        const { interpreter, stdout, execute } = TestUtils.createInterpreter();
+        interpreter.registerModule('game', {
+            add: {
+                params: [{ identifier: 'a', dataType: 'number' }, { identifier: 'b', dataType: 'number' }],
+                returnType: 'number',
+                implementation: (a: number, b: number) => a + b
+            },
+            title: { params: [], returnType: 'text', implementation: () => 'Duck Quest' },
+        });
+
+        execute('quackprint(game.title())🦆\nquackprint(game.add(1, 2).toText())🦆');
+        expect(stdout).toEqual(['Duck Quest', '3']);
+
+        expect(execute('game.title <- () > { return \'other\'🦆 }🦆')[0]?.message).toBe('Tried to update constant field \'title\'');
+    });
+
+    test('registered functions are kept when the memory is cleared', () => {
+        const { interpreter, stdout, execute } = TestUtils.createInterpreter();
+        interpreter.registerFunction('answer', [], 'number', () => 42);
+
+        interpreter.reset();
+        execute('quackprint(answer().toText())🦆');
+
+        expect(stdout).toEqual(['42']);
+    });
+
+    test('names and types are validated when registering', () => {
+        const { interpreter } = TestUtils.createInterpreter();
+
+        expect(() => interpreter.registerFunction('quackprint', [], 'nothing', () => undefined))
+            .toThrow('\'quackprint\' is already declared');
+        expect(() => interpreter.registerFunction('bad name', [], 'nothing', () => undefined))
+            .toThrow('\'bad name\' is not a valid identifier');
+        expect(() => interpreter.registerFunction('sum', [{ identifier: 'values', dataType: 'list<' }], 'number', () => 0))
+            .toThrow('\'list<\' is not a valid data type');
+    });
+
+    test('the type checker knows the registered functions of the library', () => {
+        const { interpreter } = TestUtils.createInterpreter();
+        interpreter.registerFunction('damage', [{ identifier: 'amount', dataType: 'number' }], 'number', (amount: number) => amount);
+        interpreter.registerModule('game', { title: { params: [], returnType: 'text', implementation: () => 'Duck Quest' } });
+
+        const code = 'quack health: text <- damage(1)🦆\nquack title: number <- game.title()🦆\ngame.missing()🦆';
+        const diagnostics = new TypeChecker(undefined, undefined, interpreter.getLibrary())
+            .check(new Parser().parse(new Lexer().convertToTokens(code)));
+
+        expect(diagnostics.map((diagnostic) => diagnostic.message)).toEqual([
+            'Tried to assign number to text',
+            'Tried to assign text to number',
+            'Field \'missing\' is not part of record',
+        ]);
+    });
+});
@@ -0,0 +1,99 @@
+import { TestUtils } from '../../utils/test/testUtils';
+import { Value } from '../types';
+
+describe('Interpreter JavaScript values - ', () => {
+
+    test('values of the code are converted to JavaScript', () => {
+        const { interpreter, valueOf } = TestUtils.createInterpreter();
+        interpreter.evaluate('quack maybe: optional<number> <- nothing🦆');
+
+        expect(interpreter.toJs(valueOf('1.5🦆'))).toBe(1.5);
+        expect(interpreter.toJs(valueOf('true🦆'))).toBe(true);
+        expect(interpreter.toJs(valueOf('\'duck\'🦆'))).toBe('duck');
+        expect(interpreter.toJs(valueOf('nothing🦆'))).toBeUndefined();
+        expect(interpreter.toJs(valueOf('maybe🦆'))).toBeUndefined();
+        expect(interpreter.toJs(valueOf('[[1], [2, 3]]🦆'))).toEqual([[1], [2, 3]]);
+        expect(interpreter.toJs(valueOf('vector3(1, 2, 3)🦆'))).toEqual({ x: 1, y: 2, z: 3 });
+        expect(interpreter.toJs(valueOf('{ name: \'duck\', position: vector2(1, 2), tags: [\'small\'] }🦆')))
+            .toEqual({ name: 'duck', position: { x: 1, y: 2 }, tags: ['small'] });
+    });
+
+    test('JavaScript values are converted to the expected type', () => {
+        const { interpreter } = TestUtils.createInterpreter();
+
+        expect(interpreter.fromJs(3, 'number')).toMatchObject({ type: 'Number', value: 3 });
+        expect(interpreter.fromJs(undefined, 'optional<text>')).toMatchObject({ type: 'Optional', value: { type: 'Nothing' } });
+        expect(interpreter.fromJs(['a', 'b'], 'list<text>')).toMatchObject({ type: 'List', internalType: 'text' });
+        expect(interpreter.fromJs({ x: 1, y: 2 }, 'vector2')).toMatchObject({ type: 'Vector2', x: 1, y: 2 });
+        expect(interpreter.toJs(interpreter.fromJs({ name: 'duck', scores: [1, 2] }, 'record'))).toEqual({ name: 'duck', scores: [1, 2] });
+    });
+
+    test('records are given the record types declared in the code', () => {
+        const { interpreter, stdout } = TestUtils.createInterpreter();
+        interpreter.evaluate('QUACK Duck <- type { name: text, age: optional<number> }🦆');
+        interpreter.registerFunction('describe', [{ identifier: 'duck', dataType: 'Duck' }], 'text',
+            (duck: { name: string, age?: number }) => `${duck.name} is ${duck.age ?? 'ageless'}`);
+        interpreter.registerFunction('hatch', [], 'Duck', () => ({ name: 'duckling', age: 0 }));
+
+        interpreter.evaluate('quackprint(describe({ name: \'duck\', age: 3 }))🦆');
+        interpreter.evaluate('quack baby: Duck <- hatch()🦆');
+        interpreter.evaluate('quackprint(describe(baby))🦆');
+
+        expect(stdout).toEqual(['duck is 3', 'duckling is 0']);
+        expect(interpreter.fromJs({ name: 'goose' }, 'Duck')).toMatchObject({ type: 'Record', recordType: { name: 'Duck' } });
+    });
+
+    test('functions of the code can be called from JavaScript', () => {
+        const { interpreter, valueOf } = TestUtils.createInterpreter();
+        const code = '(a: number, b: number): number > { return a + b🦆 }🦆';
+        const add = interpreter.toJs(valueOf(code)) as (a: number, b: number) => number;
+
+        expect(add(1, 2)).toBe(3);
+        expect(() => add(1, 'two' as never)).toThrow(expect.objectContaining({ message: 'Expected number at argument 2 but got text' }));
+    });
+
+    test('errors of functions called from JavaScript show the code', () => {
+        const { interpreter, valueOf } = TestUtils.createInterpreter();
+        interpreter.evaluate('QUACK half <- (value: number) > { return value / 2🦆 }🦆');
+        const halfOfTwo = interpreter.toJs(valueOf('() > { return half(\'two\')🦆 }🦆')) as () => number;
+
+        expect(() => halfOfTwo()).toThrow(expect.objectContaining({
+            message: 'Expected argument of type number but got text',
+            code: '() > { return half(\'two\')🦆 }🦆'
+        }));
+    });
+
+    test('JavaScript callbacks are func values', () => {
+        const { interpreter, stdout } = TestUtils.createInterpreter();
+        interpreter.registerFunction('makeDoubler', [], 'func<(number) > number>', () => (value: number) => value * 2);
+        interpreter.registerFunction('applyTwice', [
+            { identifier: 'fn', dataType: 'func<(number) > number>' },
+            { identifier: 'value', dataType: 'number' },
+        ], 'number', (fn: (value: number) => number, value: number) => fn(fn(value)));
+
+        interpreter.evaluate(`QUACK double <- makeDoubler()🦆
+quackprint(double(4).toText())🦆
+quackprint(applyTwice((value: number): number > { return value + 10🦆 }, 1).toText())🦆
+quackprint([1, 2].map(double).toText())🦆`);
+
+        expect(stdout).toEqual(['8', '21', '[2, 4]']);
+    });
+
+    test('mismatches explain what was expected and where', () => {
+        const { interpreter } = TestUtils.createInterpreter();
+        interpreter.evaluate('QUACK Duck <- type { name: text }🦆');
+
+        expect(() => interpreter.fromJs('3', 'number')).toThrow(expect.objectContaining({ message: 'Expected number but got text' }));
+        expect(() => interpreter.fromJs([1, 'two'], 'list<number>'))
+            .toThrow(expect.objectContaining({ message: 'Expected number at [1] but got text' }));
+        expect(() => interpreter.fromJs({ x: 1 }, 'vector2'))
+            .toThrow(expect.objectContaining({ message: 'Expected vector2 but got record' }));
+        expect(() => interpreter.fromJs({}, 'Duck')).toThrow(expect.objectContaining({ message: 'Missing field \'name\' of Duck' }));
+        expect(() => interpreter.fromJs({ name: 'duck', age: 1 }, 'Duck'))
+            .toThrow(expect.objectContaining({ message: 'Field \'age\' is not part of Duck' }));
+        expect(() => interpreter.fromJs(() => 1, 'func'))
+            .toThrow(expect.objectContaining({ message: 'Functions need a declared type like func<(number) > number> to be converted' }));
+        expect(() => interpreter.toJs(interpreter.evaluate('Duck🦆').value as Value))
+            .toThrow(expect.objectContaining({ message: 'type can\'t be converted to JavaScript' }));
+    });
+});
@@ -0,0 +1,95 @@
+import { TestUtils } from '../../utils/test/testUtils';
+
+describe('Interpreter Lists - ', () => {
+
+    test('list literals can be indexed and printed', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK xs <- [1, 2, 3]🦆
+            xs[1]🦆
+            xs🦆
+            ['a', 'b']🦆
+        `);
+        expect(stdout).toEqual(['2', '[1, 2, 3]', '[\'a\', \'b\']']);
+    });
+
+    test('list elements can be written', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK xs: list<number> <- [1, 2, 3]🦆
+            xs[0] <- 10🦆
+            xs🦆
+        `);
+        expect(stdout).toEqual(['[10, 2, 3]']);
+    });
+
+    test('empty lists take the declared type', () => {
+        const { stdout } = TestUtils.run(`
+            quack xs: list<text> <- []🦆
+            xs.push('duck')🦆
+            xs.length()🦆
+            xs.pop()🦆
+            xs.length()🦆
+        `);
+        expect(stdout).toEqual(['1', 'duck', '0']);
+    });
+
+    test('list attributes', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK xs <- [1, 2, 3, 4]🦆
+            xs.map((x:number) > { return x * 2🦆 })🦆
+            xs.filter((x:number) > { return x > 2🦆 })🦆
+            xs.reduce((total:number, x:number) > { return total + x🦆 }, 0)🦆
+            xs.contains(3)🦆
+            xs.contains(5)🦆
+            xs.slice(1, 3)🦆
+        `);
+        expect(stdout).toEqual(['[2, 4, 6, 8]', '[3, 4]', '10', 'true', 'false', '[2, 3]']);
+    });
+
+    test('lists can be passed to functions', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK first <- (xs: list<number>) > {
+                return xs[0]🦆
+            }🦆
+            first([7, 8])🦆
+        `);
+        expect(stdout).toEqual(['7']);
+    });
+
+    test.each([
+        ['QUACK xs: list<number> <- [\'a\']🦆', 'Tried to assign list<text> to list<number>'],
+        ['QUACK xs <- [1, \'a\']🦆', 'List elements must be of the same type'],
+        ['QUACK xs <- [1]🦆 xs[1]🦆', 'Index 1 is out of bounds'],
+        ['QUACK xs <- [1]🦆 xs[0] <- \'a\'🦆', 'Tried to assign text to an element of list<number>'],
+        ['QUACK xs <- [1]🦆 xs.push(true)🦆', 'Expected argument of type number but got boolean'],
+        ['QUACK xs <- []🦆', 'Unable to infer the type of \'xs\''],
+    ])('type errors are reported: \'%s\'', (code, error) => {
+        const { stderr } = TestUtils.run(code);
+        expect(stderr[0]).toContain(error);
+    });
+
+    test('lists of lists keep the type of their nested lists', () => {
+        const code = `quack grid: list<list<number>> <- [[1, 2], []]🦆
+grid[1].push(3)🦆
+grid.push([4])🦆
+grid🦆
+grid.map((row: list<number>) > { return row.slice(0, 1)🦆 })🦆`;
+        const interpreted = TestUtils.run(code);
+
+        expect(interpreted).toEqual({ stdout: ['[[1, 2], [3], [4]]', '[[1], [3], [4]]'], stderr: [] });
+        expect(TestUtils.runCompiled(code)).toEqual(interpreted);
+        expect(TestUtils.check(code)).toEqual([]);
+    });
+
+    test.each([
+        ['quack grid: list<list<number>> <- [[\'a\']]🦆', 'Tried to assign list<list<text>> to'],
+        ['quack grid: list<list<number>> <- [[1]]🦆\ngrid[0] <- [true]🦆', 'Tried to assign list<boolean> to an element of list<list<number>>'],
+        ['quack grid: list<list<number>> <- [[1]]🦆\ngrid.push([\'a\'])🦆', 'Expected argument of type list<number> but got list<text>'],
+        ['quack grid <- [[1], [\'a\']]🦆', 'List elements must be of the same type, expected list<number> but found list<text>'],
+    ])('the element type of nested lists is checked: \'%s\'', (code, error) => {
+        const interpreted = TestUtils.run(code);
+
+        expect(interpreted.stderr[0]).toContain(error);
+        expect(TestUtils.runCompiled(code)).toEqual(interpreted);
+        expect(TestUtils.check(code)).toEqual([expect.objectContaining({ message: expect.stringContaining(error) })]);
+    });
+});
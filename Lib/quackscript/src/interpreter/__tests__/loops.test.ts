@@ -0,0 +1,67 @@
+import { TestUtils } from '../../utils/test/testUtils';
+
+describe('Interpreter Loops - ', () => {
+
+    test('while loop runs until the condition is false', () => {
+        const { stdout } = TestUtils.run(`
+            quack i <- 0🦆
+            while (i < 3) {
+                quackprint(i.toText())🦆
+                i <- i + 1🦆
+            }🦆
+        `);
+        expect(stdout).toEqual(['0', '1', '2']);
+    });
+
+    test('for loop counts and scopes its initializer', () => {
+        const { stdout } = TestUtils.run(`
+            for (quack i <- 0🦆 i < 3🦆 i <- i + 1) {
+                QUACK double <- i + i🦆
+                quackprint(double.toText())🦆
+            }🦆
+            for (quack i <- 10🦆 i < 11🦆 i <- i + 1) {
+                quackprint(i.toText())🦆
+            }🦆
+        `);
+        expect(stdout).toEqual(['0', '2', '4', '10']);
+    });
+
+    test('break and continue control the nearest loop', () => {
+        const { stdout } = TestUtils.run(`
+            for (quack i <- 0🦆 i < 10🦆 i <- i + 1) {
+                if (i == 1) {
+                    continue🦆
+                }🦆
+                if (i == 4) {
+                    break🦆
+                }🦆
+                quackprint(i.toText())🦆
+            }🦆
+        `);
+        expect(stdout).toEqual(['0', '2', '3']);
+    });
+
+    test('return inside a loop exits the function', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK firstOver <- (limit:number) > {
+                quack i <- 0🦆
+                while (true) {
+                    if (i > limit) {
+                        return i🦆
+                    }🦆
+                    i <- i + 1🦆
+                }🦆
+            }🦆
+            firstOver(5)🦆
+        `);
+        expect(stdout).toEqual(['6']);
+    });
+
+    test.each([
+        'break🦆',
+        'continue🦆',
+        'while (true) { QUACK fn <- () > { break🦆 }🦆 }🦆',
+    ])('loop control outside a loop is a parse error: \'%s\'', (code) => {
+        expect(() => TestUtils.run(code)).toThrow('can only be used inside a loop');
+    });
+});
@@ -0,0 +1,192 @@
+import Lexer from '../../lexer';
+import Parser from '../../parser';
+import { TestUtils } from '../../utils/test/testUtils';
+
+const parse = (code: string) => new Parser().parse(new Lexer().convertToTokens(code));
+
+describe('Interpreter Modules - ', () => {
+
+    test('a parsed module can be executed many times with the same output', () => {
+        const code = `
+            quack total <- 0🦆
+            QUACK items <- [1, 2, 3]🦆
+            quack maybe: optional<number> <- nothing🦆
+            for (quack i <- 0🦆 i < items.length()🦆 i <- i + 1) {
+                total <- total + items[i]🦆
+            }🦆
+            items.push(4)🦆
+            maybe <- total🦆
+            total🦆
+            items🦆
+            maybe🦆
+        `;
+        const tree = parse(code);
+        const { interpreter, stdout } = TestUtils.createInterpreter();
+
+        interpreter.execute(tree, code);
+        interpreter.execute(tree, code);
+
+        const output = ['6', '[1, 2, 3, 4]', '6:Optional<number>'];
+        expect(stdout).toEqual([...output, ...output]);
+    });
+
+    test('executing a module leaves its tree unchanged', () => {
+        const code = `
+            import 'math.quack'🦆
+            QUACK Duck <- type { name: text, age: optional<number> }🦆
+            quack duck: Duck <- { name: 'Donald' }🦆
+            duck.age <- 3🦆
+            QUACK greet <- (value: Duck) > { return \`quack \${value.name}\`🦆 }🦆
+            greet(duck)🦆
+            vector2(1, 2) + vector2(3, 4)🦆
+            double(2)🦆
+        `;
+        const tree = parse(code);
+        const treeBefore = JSON.parse(JSON.stringify(tree));
+        const { interpreter, stdout, stderr } = TestUtils.createInterpreter({
+            'math.quack': 'export QUACK double <- (value: number) > { return value * 2🦆 }🦆'
+        });
+
+        interpreter.execute(tree, code);
+
+        expect(stderr).toEqual([]);
+        expect(stdout).toEqual(['quack Donald', 'vector2(4, 6)', '4']);
+        expect(JSON.parse(JSON.stringify(tree))).toEqual(treeBefore);
+    });
+
+    test('values are created from literals so changing them never changes the tree', () => {
+        const code = `
+            QUACK makeList <- () > { return [1, 2]🦆 }🦆
+            QUACK first <- makeList()🦆
+            first[0] <- 10🦆
+            makeList()🦆
+        `;
+        const { stdout, execute } = TestUtils.createInterpreter();
+
+        execute(code);
+
+        expect(stdout).toEqual(['[1, 2]']);
+    });
+
+    test('imports are resolved from the folder of the file importing them', () => {
+        const code = 'import \'./lib/math.quack\'🦆\ndouble(2)🦆';
+        const { stdout, stderr, execute } = TestUtils.createInterpreter({
+            '/project/lib/math.quack': 'import \'../constants.quack\'🦆\nexport QUACK double <- (value: number) > { return value * two🦆 }🦆',
+            '/project/constants.quack': 'export QUACK two <- 2🦆',
+        });
+
+        execute(code, '/project/main.quack');
+
+        expect(stderr).toEqual([]);
+        expect(stdout).toEqual(['4']);
+    });
+
+    test('a module imported by several files runs once and its declarations are shared', () => {
+        const code = `
+            import 'counter.quack'🦆
+            import 'first.quack'🦆
+            import 'second.quack'🦆
+            increase()🦆
+            count🦆
+        `;
+        const { stdout, stderr, execute } = TestUtils.createInterpreter({
+            'counter.quack': 'quackprint(\'counter loaded\')🦆\nexport quack count <- 0🦆\nexport QUACK increase <- () > { count <- count + 1🦆 }🦆',
+            'first.quack': 'import \'./counter.quack\'🦆\nincrease()🦆',
+            'second.quack': 'import \'counter.quack\'🦆\nincrease()🦆',
+        });
+
+        execute(code);
+
+        expect(stderr).toEqual([]);
+        expect(stdout).toEqual(['counter loaded', '3']);
+    });
+
+    test('circular imports are reported with the chain of imports', () => {
+        const code = 'import \'./a.quack\'🦆';
+        const { stderr, execute } = TestUtils.createInterpreter({
+            '/project/a.quack': 'import \'./b.quack\'🦆',
+            '/project/b.quack': 'import \'./a.quack\'🦆',
+        });
+
+        const diagnostics = execute(code, '/project/main.quack');
+
+        expect(diagnostics.map((diagnostic) => diagnostic.message)).toEqual([
+            'Circular import /project/main.quack -> /project/a.quack -> /project/b.quack -> /project/a.quack'
+        ]);
+        expect(stderr[0]).toContain('import \'./a.quack\'🦆');
+    });
+
+    test('imported modules run in their own scope', () => {
+        const { interpreter } = TestUtils.createInterpreter({
+            'secret.quack': 'quackprint(secret)🦆',
+        });
+        interpreter.evaluate('QUACK secret <- \'hidden\'🦆');
+
+        expect(interpreter.evaluate('import \'secret.quack\'🦆').diagnostics.map((diagnostic) => diagnostic.message))
+            .toEqual(['Variable \'secret\' not in memory']);
+    });
+
+    test('declarations of an imported module can\'t be declared again by the importer', () => {
+        const code = 'import \'math.quack\'🦆\nimport \'other.quack\'🦆';
+        const { execute } = TestUtils.createInterpreter({
+            'math.quack': 'export QUACK double <- (value: number) > { return value * 2🦆 }🦆',
+            'other.quack': 'export QUACK double <- 2🦆',
+        });
+
+        const diagnostics = execute(code);
+
+        expect(diagnostics.map((diagnostic) => diagnostic.message)).toEqual(['Variable \'double\' already exists']);
+        expect(diagnostics[0]?.start.line).toEqual(2);
+    });
+
+    test('only the exported declarations of a module can be used by the importer', () => {
+        const { interpreter } = TestUtils.createInterpreter({
+            'math.quack': 'QUACK factor <- 2🦆\nexport QUACK double <- (value: number) > { return value * factor🦆 }🦆',
+        });
+
+        expect(interpreter.evaluate('import \'math.quack\'🦆\ndouble(3)🦆').text).toEqual('6');
+        expect(interpreter.evaluate('factor🦆').diagnostics.map((diagnostic) => diagnostic.message))
+            .toEqual(['Variable \'factor\' not in memory']);
+    });
+
+    test('named imports only declare the names they list', () => {
+        const { interpreter } = TestUtils.createInterpreter({
+            'math.quack': 'export QUACK add <- (a: number, b: number) > { return a + b🦆 }🦆\nexport QUACK sub <- (a: number, b: number) > { return a - b🦆 }🦆',
+        });
+
+        expect(interpreter.evaluate('import { add } from \'math.quack\'🦆\nadd(1, 2)🦆').text).toEqual('3');
+        expect(interpreter.evaluate('sub(1, 2)🦆').diagnostics.map((diagnostic) => diagnostic.message))
+            .toEqual(['Variable \'sub\' not in memory']);
+    });
+
+    test('namespace imports share the exports of the module', () => {
+        const code = `
+            import 'counter.quack' as counter🦆
+            counter.increase()🦆
+            counter.increase()🦆
+            counter.count🦆
+        `;
+        const { stdout, stderr, execute } = TestUtils.createInterpreter({
+            'counter.quack': 'export quack count <- 0🦆\nexport QUACK increase <- () > { count <- count + 1🦆 }🦆',
+        });
+
+        execute(code);
+
+        expect(stderr).toEqual([]);
+        expect(stdout).toEqual(['2']);
+    });
+
+    test('names that are not exported are reported before any module runs', () => {
+        const code = 'import \'logger.quack\'🦆\nimport { add, missing } from \'math.quack\'🦆';
+        const { stdout, execute } = TestUtils.createInterpreter({
+            'logger.quack': 'quackprint(\'logger loaded\')🦆',
+            'math.quack': 'quackprint(\'math loaded\')🦆\nexport QUACK add <- (a: number, b: number) > { return a + b🦆 }🦆',
+        });
+
+        const diagnostics = execute(code);
+
+        expect(stdout).toEqual([]);
+        expect(diagnostics.map((diagnostic) => diagnostic.message)).toEqual(['\'missing\' is not exported by math.quack']);
+        expect(diagnostics[0]?.start).toEqual(expect.objectContaining({ line: 2, lineChar: 15 }));
+    });
+});
@@ -0,0 +1,184 @@
+import { TestUtils } from '../../utils/test/testUtils';
+
+describe('Interpreter Records - ', () => {
+
+    test('record literals', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK duck <- { name: 'duck', age: 3 }🦆
+            duck🦆
+            duck.name🦆
+            duck.age + 1🦆
+            {}🦆
+        `);
+        expect(stdout).toEqual(['{ name: \'duck\', age: 3 }', 'duck', '4', '{}']);
+    });
+
+    test('fields can be updated with a value of the same type', () => {
+        const { stdout, stderr } = TestUtils.run(`
+            QUACK duck <- { name: 'duck', age: 3 }🦆
+            duck.age <- duck.age + 1🦆
+            duck.age🦆
+        `);
+        expect(stderr).toEqual([]);
+        expect(stdout).toEqual(['4']);
+        expect(TestUtils.run(`
+            QUACK duck <- { name: 'duck', age: 3 }🦆
+            duck.age <- 'old'🦆
+        `).stderr[0]).toContain('Tried to assign text to number');
+    });
+
+    test('fields must exist', () => {
+        const { stderr } = TestUtils.run(`
+            QUACK duck <- { name: 'duck' }🦆
+            duck.age🦆
+        `);
+        expect(stderr[0]).toContain('Field \'age\' is not part of record');
+    });
+
+    test('nested access and assignment', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK pond <- { duck: { name: 'duck', position: vector2(1, 2) }, ducks: [1, 2] }🦆
+            pond.duck.position.x🦆
+            pond.duck.name <- 'goose'🦆
+            pond.duck.name🦆
+            pond.ducks[1]🦆
+        `);
+        expect(stdout).toEqual(['1', 'goose', '2']);
+    });
+
+    test('records are shared by reference', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK rename <- (duck:record) > {
+                duck.name <- 'renamed'🦆
+            }🦆
+            QUACK duck <- { name: 'duck' }🦆
+            rename(duck)🦆
+            duck.name🦆
+        `);
+        expect(stdout).toEqual(['renamed']);
+    });
+
+    test('fields holding functions can be called', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK duck <- { speak: () > { return 'quack'🦆 } }🦆
+            duck.speak()🦆
+        `);
+        expect(stdout).toEqual(['quack']);
+    });
+
+    test('named record types', () => {
+        const { stdout, stderr } = TestUtils.run(`
+            QUACK Duck <- type { name: text, age: number, nickname: optional<text> }🦆
+            quack duck:Duck <- { name: 'duck', age: 3 }🦆
+            duck.nickname🦆
+            duck.nickname <- 'ducky'🦆
+            duck🦆
+            Duck🦆
+        `);
+        expect(stderr).toEqual([]);
+        expect(stdout).toEqual([
+            'nothing:Optional<text>',
+            '{ name: \'duck\', age: 3, nickname: \'ducky\' }',
+            'type { name: text, age: number, nickname: optional<text> }',
+        ]);
+    });
+
+    test.each([
+        ['{ name: \'duck\' }', 'Missing field \'age\' of Duck'],
+        ['{ name: \'duck\', age: \'3\' }', 'Field \'age\' of Duck must be number but got text'],
+        ['{ name: \'duck\', age: 3, legs: 2 }', 'Field \'legs\' is not part of Duck'],
+    ])('record type checks %s', (record, error) => {
+        const { stderr } = TestUtils.run(`
+            QUACK Duck <- type { name: text, age: number }🦆
+            QUACK duck:Duck <- ${record}🦆
+        `);
+        expect(stderr[0]).toContain(error);
+    });
+
+    test('record types in functions and nested records', () => {
+        const { stdout, stderr } = TestUtils.run(`
+            QUACK Owner <- type { name: text }🦆
+            QUACK Duck <- type { name: text, owner: Owner }🦆
+            QUACK adopt <- (name:text, owner:Owner):Duck > {
+                return { name: name, owner: owner }🦆
+            }🦆
+            QUACK duck <- adopt('duck', { name: 'ana' })🦆
+            duck.owner.name🦆
+            when (duck) {
+                Owner -> 'owner',
+                Duck -> 'duck'
+            }🦆
+        `);
+        expect(stderr).toEqual([]);
+        expect(stdout).toEqual(['ana', 'duck']);
+    });
+
+    test('empty lists in fields of a record type take the type of the field', () => {
+        const code = `QUACK Tags <- type { names: list<text> }🦆
+QUACK Duck <- type { age: number, tags: list<text>, nested: Tags }🦆
+quack duck: Duck <- { age: 1, tags: [], nested: { names: [] } }🦆
+duck.tags.push('yellow')🦆
+duck.nested.names.push('ducky')🦆
+\`\${duck.tags[0]} \${duck.nested.names[0]}\`🦆
+duck.tags.push(1)🦆`;
+        const interpreted = TestUtils.run(code);
+
+        expect(interpreted.stdout).toEqual(['yellow ducky']);
+        expect(interpreted.stderr[0]).toContain('Expected argument of type text but got number');
+        expect(TestUtils.runCompiled(code)).toEqual(interpreted);
+        expect(TestUtils.check(code)).toEqual([expect.objectContaining({ message: 'Expected argument of type text but got number' })]);
+    });
+
+    test('records without a field of the name fall back to the attributes every value has', () => {
+        const code = `QUACK Duck <- type { name: text }🦆
+QUACK duck: Duck <- { name: 'duck' }🦆
+QUACK custom <- { toText: () > { return 'custom'🦆 } }🦆
+QUACK description: text <- duck.toText()🦆
+description🦆
+{ age: 3 }.toText()🦆
+custom.toText()🦆`;
+        const interpreted = TestUtils.run(code);
+
+        expect(interpreted).toEqual({ stdout: ['{ name: \'duck\' }', '{ age: 3 }', 'custom'], stderr: [] });
+        expect(TestUtils.runCompiled(code)).toEqual(interpreted);
+        expect(TestUtils.check(code)).toEqual([]);
+    });
+
+    test('record types are checked on assignment', () => {
+        const { stderr } = TestUtils.run(`
+            QUACK Duck <- type { name: text }🦆
+            QUACK Goose <- type { name: text }🦆
+            QUACK goose:Goose <- { name: 'goose' }🦆
+            quack duck:Duck <- { name: 'duck' }🦆
+            duck <- goose🦆
+        `);
+        expect(stderr[0]).toContain('Tried to assign Goose to a Duck');
+    });
+
+    test('fields of a record type are checked on update and the error can be caught', () => {
+        const code = `QUACK Duck <- type { name: text, age: optional<number> }🦆
+QUACK duck:Duck <- { name: 'duck' }🦆
+try {
+    duck.age <- 'old'🦆
+} catch (err) {
+    quackprint(\`\${err.message} at \${err.line.toText()}:\${err.column.toText()}\`)🦆
+}🦆
+duck.name <- 5🦆`;
+        const interpreted = TestUtils.run(code);
+
+        expect(interpreted.stdout).toEqual(['Tried to assign text to optional<number> at 4:17']);
+        expect(interpreted.stderr[0]).toContain('Runtime Error: In line 8 at char 14\n  Tried to assign number to text');
+        expect(TestUtils.runCompiled(code)).toEqual(interpreted);
+    });
+
+    test('unknown record types', () => {
+        const { stderr } = TestUtils.run(`
+            QUACK duck:Duck <- { name: 'duck' }🦆
+        `);
+        expect(stderr[0]).toContain('\'Duck\' is not a record type');
+    });
+
+    test('duplicate fields are a parse error', () => {
+        expect(() => TestUtils.run('QUACK duck <- { name: \'a\', name: \'b\' }🦆')).toThrow('Duplicate field \'name\'');
+    });
+});
@@ -0,0 +1,82 @@
+import { TestUtils } from '../../utils/test/testUtils';
+
+describe('Interpreter Session - ', () => {
+
+    test('declarations are kept between evaluations', () => {
+        const { interpreter } = TestUtils.createInterpreter();
+        interpreter.evaluate('quack count <- 1🦆');
+        interpreter.evaluate('QUACK increase <- (amount: number) > { count <- count + amount🦆 }🦆');
+        interpreter.evaluate('increase(2)🦆');
+
+        expect(interpreter.evaluate('count🦆')).toMatchObject({ type: 'number', text: '3', diagnostics: [] });
+    });
+
+    test('the value of the last expression is returned instead of printed', () => {
+        const { interpreter, stdout } = TestUtils.createInterpreter();
+        const result = interpreter.evaluate(`quackprint('printed')🦆
+[1, 2].map((value: number) > { return value * 2🦆 })🦆`);
+
+        expect(stdout).toEqual(['printed']);
+        expect(result.value?.type).toBe('List');
+        expect(result.type).toBe('list<number>');
+        expect(result.text).toBe('[2, 4]');
+    });
+
+    test('statements that are not expressions have no value', () => {
+        const { interpreter } = TestUtils.createInterpreter();
+
+        expect(interpreter.evaluate('quack name <- \'duck\'🦆')).toEqual({ value: null, type: null, text: null, diagnostics: [] });
+    });
+
+    test('errors are returned as diagnostics and the session can go on', () => {
+        const { interpreter } = TestUtils.createInterpreter();
+        interpreter.evaluate('quack items <- [1]🦆');
+
+        expect(interpreter.evaluate('quack broken <- 🦆').diagnostics.map((diagnostic) => diagnostic.code)).toEqual(['QS2003']);
+        const runtimeError = interpreter.evaluate('\nitems[4]🦆').diagnostics[0];
+        expect(runtimeError).toMatchObject({ code: 'QS4001', start: { line: 2, lineChar: 7 } });
+        expect(interpreter.evaluate('items.length()🦆').text).toBe('1');
+    });
+
+    test('undeclared variables, redeclarations and wrong assignments are returned as diagnostics', () => {
+        const { interpreter } = TestUtils.createInterpreter();
+        interpreter.evaluate('quack count <- 1🦆\nQUACK limit <- 2🦆');
+        const diagnosticOf = (source: string) => interpreter.evaluate(source).diagnostics[0];
+
+        expect(diagnosticOf('missing🦆')).toMatchObject({ message: 'Variable \'missing\' not in memory', start: { line: 1, lineChar: 1 } });
+        expect(diagnosticOf('quack count <- 2🦆')).toMatchObject({ message: 'Variable \'count\' already exists' });
+        expect(diagnosticOf('count <- \'one\'🦆')).toMatchObject({ message: 'Tried to assign text to number', start: { lineChar: 10 } });
+        expect(diagnosticOf('limit <- 3🦆')).toMatchObject({ message: 'Tried to update constant \'limit\'' });
+        expect(interpreter.evaluate('count + limit🦆').text).toBe('3');
+    });
+
+    test('globals list the declarations with their types and constness', () => {
+        const { interpreter } = TestUtils.createInterpreter();
+        interpreter.evaluate(`QUACK name <- 'duck'🦆
+quack age: optional<number> <- nothing🦆
+quack scores: list<number> <- []🦆
+QUACK greet <- (who: text): text > { return 'hi ' + who🦆 }🦆
+QUACK shout <- (who: text) > { return who + '!'🦆 }🦆
+QUACK log <- (who: text) > { quackprint(who)🦆 }🦆
+if (true) { quack hidden <- 1🦆 }🦆`);
+
+        expect(interpreter.inspectGlobals().map(({ identifier, type, isConstant }) => ({ identifier, type, isConstant }))).toEqual([
+            { identifier: 'name', type: 'text', isConstant: true },
+            { identifier: 'age', type: 'optional<number>', isConstant: false },
+            { identifier: 'scores', type: 'list<number>', isConstant: false },
+            { identifier: 'greet', type: 'func<(text) > text>', isConstant: true },
+            { identifier: 'shout', type: 'func<(text) > text>', isConstant: true },
+            { identifier: 'log', type: 'func<(text) > nothing>', isConstant: true },
+        ]);
+    });
+
+    test('reset clears the declarations', () => {
+        const { interpreter } = TestUtils.createInterpreter();
+        interpreter.evaluate('QUACK name <- \'duck\'🦆');
+        interpreter.reset();
+
+        expect(interpreter.inspectGlobals()).toEqual([]);
+        expect(interpreter.evaluate('QUACK name <- \'goose\'🦆').diagnostics).toEqual([]);
+        expect(interpreter.evaluate('name🦆').text).toBe('goose');
+    });
+});
@@ -0,0 +1,62 @@
+import { TestUtils } from '../../utils/test/testUtils';
+
+describe('Interpreter Texts - ', () => {
+
+    test.each([
+        ['"it\'s"', 'it\'s'],
+        ['\'say "quack"\'', 'say "quack"'],
+        ['\'it\\\'s\'', 'it\'s'],
+        ['"say \\"quack\\""', 'say "quack"'],
+        ['\'first\\nsecond\'', 'first\nsecond'],
+        ['\'a\\tb\'', 'a\tb'],
+        ['\'back\\\\slash\'', 'back\\slash'],
+        ['\'\\u{1F986}\'', '🦆'],
+        ['\'${name}\'', '${name}'],
+    ])('text %s', (code, expected) => {
+        const { stdout } = TestUtils.run(`${code}🦆`);
+        expect(stdout).toEqual([expected]);
+    });
+
+    test.each([
+        ['\'\\q\'', 'Invalid escape sequence \'\\q\''],
+        ['\'\\u{zz}\'', 'Invalid unicode escape sequence'],
+        ['`${1 + }`', 'Expected expression after \'+\''],
+        ['`${}`', 'Expected expression inside ${}'],
+        ['`${1 2}`', 'Unexpected 2 inside ${}'],
+        ['`${1`', 'Expected } to close the interpolation'],
+    ])('invalid text %s', (code, error) => {
+        expect(() => TestUtils.run(`${code}🦆`)).toThrow(error);
+    });
+
+    test('backtick texts can span multiple lines', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK poem <- \`quack
+quack\`🦆
+            poem🦆
+        `);
+        expect(stdout).toEqual(['quack\nquack']);
+    });
+
+    test('interpolation', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK name <- 'duck'🦆
+            QUACK legs <- [1, 2]🦆
+            \`the \${name} has \${legs.length()} legs\`🦆
+            \`\${legs} \${vector2(1, 2)} \${true} \${nothing}\`🦆
+            \`\${name == 'duck' ? 'a ' + name : '}'}\`🦆
+            \`\\\${name}\`🦆
+        `);
+        expect(stdout).toEqual([
+            'the duck has 2 legs',
+            '[1, 2] vector2(1, 2) true nothing',
+            'a duck',
+            '${name}',
+        ]);
+    });
+
+    test('interpolated expressions report their position', () => {
+        const { stderr } = TestUtils.run(`QUACK name <- 'duck'🦆
+\`\${-name}\`🦆`);
+        expect(stderr[0]).toContain('In line 2 at char 4');
+    });
+});
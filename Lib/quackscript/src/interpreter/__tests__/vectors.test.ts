@@ -0,0 +1,68 @@
+import { TestUtils } from '../../utils/test/testUtils';
+
+describe('Interpreter Vectors - ', () => {
+
+    test('vectors can be constructed and their components read', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK position: vector2 <- vector2(1, 2 + 3)🦆
+            position🦆
+            position.x🦆
+            position.y🦆
+            vector3(1, 2, 3).z🦆
+        `);
+        expect(stdout).toEqual(['vector2(1, 5)', '1', '5', '3']);
+    });
+
+    test('vector arithmetic', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK a <- vector2(1, 2)🦆
+            QUACK b <- vector2(3, 4)🦆
+            a + b🦆
+            a - b🦆
+            a * 2🦆
+            2 * a🦆
+            b / 2🦆
+            a == vector2(1, 2)🦆
+            a != b🦆
+        `);
+        expect(stdout).toEqual([
+            'vector2(4, 6)', 'vector2(-2, -2)', 'vector2(2, 4)', 'vector2(2, 4)', 'vector2(1.5, 2)', 'true', 'true'
+        ]);
+    });
+
+    test('vector attributes', () => {
+        const { stdout } = TestUtils.run(`
+            QUACK a <- vector2(3, 4)🦆
+            a.length()🦆
+            a.normalize()🦆
+            a.dot(vector2(1, 1))🦆
+            vector3(1, 0, 0).cross(vector3(0, 1, 0))🦆
+        `);
+        expect(stdout).toEqual(['5', 'vector2(0.6, 0.8)', '7', 'vector3(0, 0, 1)']);
+    });
+
+    test.each([
+        ['QUACK a <- vector2(1, 2)🦆 a + vector3(1, 2, 3)🦆', 'Operator \'+\' can\'t be used between vector2 and vector3'],
+        ['QUACK a <- vector2(1, \'a\')🦆', 'vector2 components must be numbers'],
+        ['QUACK a <- vector2(1, 2)🦆 a.z🦆', 'Attribute \'z\' is not part of vector2'],
+        ['QUACK a <- vector2(0, 0)🦆 a.normalize()🦆', 'Tried to normalize a vector of length 0'],
+        ['QUACK a <- vector2(1, 0)🦆 a.cross(vector2(0, 1))🦆', 'Attribute \'cross\' is not part of vector2'],
+    ])('invalid vector usage is reported: \'%s\'', (code, error) => {
+        const { stderr } = TestUtils.run(code);
+        expect(stderr[0]).toContain(error);
+        expect(TestUtils.runCompiled(code).stderr).toEqual(stderr);
+    });
+
+    test.each([
+        'QUACK a <- vector2(1, 0)🦆\na.cross(a)🦆',
+        'QUACK a <- vector2(1, 0)🦆\na.z🦆',
+    ])('unknown attributes are reported at the attribute: \'%s\'', (code) => {
+        expect(TestUtils.check(code)[0]?.start).toEqual(expect.objectContaining({ line: 2, lineChar: 3 }));
+        expect(TestUtils.run(code).stderr[0]).toContain('In line 2 at char 3');
+        expect(TestUtils.runCompiled(code).stderr[0]).toContain('In line 2 at char 3');
+    });
+
+    test('vector literals expect the right amount of components', () => {
+        expect(() => TestUtils.run('vector3(1, 2)🦆')).toThrow('vector3 expects 3 components but got 2');
+    });
+});
@@ -5,102 +5,377 @@ import Lexer from '../lexer';
 import Parser from '../parser';
 import { 
     AccessorExpressionNode,
-    AssignmentNode, BinaryExpressionNode, BooleanLiteralNode, CodeBlockNode,  DeclarationNode, ExpressionNode,
-    FuncCallNode, FuncDeclarationNode, GenericFuncDeclarationNode, IdentifierNode,
+    AssignmentNode, BinaryExpressionNode, CallExpressionNode, CodeBlockNode,  DeclarationNode, ErrorNode, ExpressionNode,
+    FuncCallNode, IdentifierNode,
     IfStatementNode,
     ImportStatementNode,
-    InternalFuncDeclarationNode, ModuleNode, NothingLiteralNode, NumberLiteralNode, OptionalDataType, ReturnStatementNode,
+    ModuleNode, OptionalDataType, ReturnStatementNode,
     StatementNode, 
-    TextLiteralNode} from '../parser/types';
+    WhileStatementNode,
+    ForStatementNode,
+    TryStatementNode,
+    ListLiteralNode,
+    IndexExpressionNode,
+    IndexAssignmentNode,
+    ListDataType,
+    DataTypes,
+    VectorConstructorNode,
+    UnaryExpressionNode,
+    ConditionalExpressionNode,
+    WhenExpressionNode,
+    WhenCaseNode,
+    TextTemplateNode,
+    RecordLiteralNode,
+    RecordTypeNode,
+    RecordDataType,
+    FieldAssignmentNode,
+    DataTypeNode} from '../parser/types';
+import { Library } from '../stdLibrary/library';
 import { executeInternalFunc } from '../stdLibrary/standardLibrary';
+import { HostFunction, HostFunctionDefinition, HostParam } from '../stdLibrary/types';
 import { System } from '../system';
+import TypeChecker from '../typeChecker';
+import { Diagnostic } from '../types/Diagnostic';
+import { JsValue } from '../types/JsValue';
+import { Position } from '../types/Position';
+import { DiagnosticUtils } from '../utils/diagnostic/diagnosticUtils';
 import { Memory } from './memory';
 import { State } from './state';
-import { OptionalMemoryValue, Value } from './types';
+import {
+    EvaluationResult, FunctionCaller, GlobalDeclaration, ImportedModule, JsConversionContext, MemoryValue, OptionalMemoryValue, QFunction,
+    QList, QOptional, QRecord, QRecordType, QText, Value
+} from './types';
+import { JsValueUtils } from '../utils/jsValue/jsValueUtils';
+import { MemoryUtils } from '../utils/memory/memoryUtils';
+import { NodeUtils } from '../utils/node/nodeUtils';
 import { StaticPrimitiveAttributes } from './staticPrimitiveAttributes';
+import { ValueUtils } from '../utils/value/valueUtils';
+import { VectorUtils, VectorValue } from '../utils/vector/vectorUtils';
 
 // TODO - make a stdout to output
 export default class Interpreter {
 
     public _memory;
+    private _library: Library;
     private _parser: Parser;
     private _lexer: Lexer;
     private _system: System;
     private _state: State;
     private _code: string | null = null;
+    // path of the file being executed, imports are resolved from it
+    private _filePath: string | null = null;
+    // modules imported in this run by their path, every module runs once
+    private _modules: Map<string, ImportedModule> = new Map();
+    // paths of the files whose imports are being executed, starting with the executed file
+    private _importChain: Array<string> = [];
 
     public constructor(
         stdout?:System['stdout'],
         stderr?:System['stderr'],
-        loadFile?: System['loadFile']
+        loadFile?: System['loadFile'],
+        resolvePath?: System['resolvePath']
     ){
         this._state = new State();
-        this._memory = new Memory();
-        this._system = new System(stdout, stderr, loadFile);
+        this._library = new Library();
+        this._memory = new Memory(this._library);
+        this._system = new System(stdout, stderr, loadFile, resolvePath);
         this._lexer = new Lexer();
         this._parser = new Parser();
     }
 
-    public execute(tree: ModuleNode, code?: string) {
+    /**
+     * Runs the module, runtime errors are written to stderr
+     * @param filePath path of the file the code was read from, used to resolve its imports
+     * @returns the runtime error that stopped the execution, if any
+     */
+    public execute(tree: ModuleNode, code?: string, filePath?: string): Array<Diagnostic> {
         this._memory.clearMemory();
+        this._modules.clear();
         this._code = code ?? null;
+        this._filePath = filePath ?? null;
+        this._importChain = filePath ? [filePath] : [];
         try {
             this.executeModule(tree);
         } catch (er) {
-            console.log(er);
             if (er instanceof RuntimeException) {
+                // exceptions thrown by host functions don't know the code
+                er.code ??= this._code;
                 this._system.stderr(er.toString());
-                return;
+                return [er.toDiagnostic()];
+            }
+            throw er;
+        }
+        return [];
+    }
+
+    /**
+     * Makes a JavaScript function callable from the code, its arguments are checked against the parameters and
+     * converted to JavaScript values. It also receives the context of the call, throwing a RuntimeException with
+     * its position or any error reports it at the call
+     * @param params parameters with their types written the same way as in code, like list<number>
+     * @param returnType the returned value is converted to this type, the value is ignored when it is nothing
+     * @throws Error when the name is taken or a type is not valid
+     */
+    public registerFunction(name: string, params: Array<HostParam>, returnType: string, implementation: HostFunction) {
+        this._memory.declareInternal(this._library.registerFunction(name, { params, returnType, implementation }));
+    }
+
+    /**
+     * Registers the functions under a namespace, they are called like name.function()
+     * @throws Error when the name is taken or a type is not valid
+     */
+    public registerModule(name: string, functions: Record<string, HostFunctionDefinition>) {
+        this._memory.declareInternal(this._library.registerModule(name, functions));
+    }
+
+    /**
+     * Gets the standard library with the registered functions, a TypeChecker created with it knows about them
+     */
+    public getLibrary(): Library {
+        return this._library;
+    }
+
+    /**
+     * Converts a value of the code to JavaScript, functions become JavaScript functions that run in this interpreter
+     * @throws RuntimeException for values without a JavaScript representation, like record types
+     */
+    public toJs(value: Value): JsValue {
+        return JsValueUtils.toJs(value, this.getConversionContext());
+    }
+
+    /**
+     * Converts a JavaScript value to a value of the code, records can be given a record type declared in the code
+     * @param expectedType written the same way as in code, like list<number>
+     * @throws RuntimeException when the value is not of the type
+     */
+    public fromJs(jsValue: unknown, expectedType: string): Value {
+        const dataType = this._library.parseDataType(expectedType);
+        return JsValueUtils.fromJs(jsValue, dataType, dataType.position, this.getConversionContext());
+    }
+
+    /**
+     * Runs the code in the memory left by the previous evaluations, so its declarations can be used.
+     * The value of the last statement is returned instead of printed, errors are returned as diagnostics
+     */
+    public evaluate(source: string): EvaluationResult {
+        const { tokens, diagnostics } = this._lexer.tokenize(source);
+        const { ast, diagnostics: parseDiagnostics } = this._parser.parseModule(tokens);
+        const syntaxDiagnostics = DiagnosticUtils.sort([...diagnostics, ...parseDiagnostics]);
+        if (syntaxDiagnostics.length) return { value: null, type: null, text: null, diagnostics: syntaxDiagnostics };
+
+        // only run to infer the return types of the functions the globals describe, errors are found when running
+        new TypeChecker(this._system.loadFile, this._system.resolvePath, this._library).check(ast);
+
+        this._code = source;
+        this._importChain = [];
+        try {
+            const value = this.executeStatements(ast);
+            return {
+                value,
+                type: value ? DataTypeUtils.valueTypeToText(value) : null,
+                text: value ? DataTypeUtils.convertValueToText(value).value : null,
+                diagnostics: []
+            };
+        } catch (er) {
+            if (er instanceof RuntimeException) {
+                return { value: null, type: null, text: null, diagnostics: [er.toDiagnostic()] };
             }
             throw er;
         }
-        this._memory.printMemory();
+    }
+
+    /**
+     * Clears every declaration of the session, the standard library is kept
+     */
+    public reset() {
+        this._memory.clearMemory();
+        this._modules.clear();
+        this._state.popToTopLevel();
+    }
+
+    /**
+     * Lists the variables and constants declared in the global scope in the order they were declared
+     */
+    public inspectGlobals(): Array<GlobalDeclaration> {
+        return Object.values(this._memory.getGlobalScope().data)
+            .filter((memoryValue) => memoryValue.declarationType === 'constant' || memoryValue.declarationType === 'variable')
+            .map((memoryValue) => ({
+                identifier: memoryValue.identifier,
+                type: MemoryUtils.typeToText(memoryValue),
+                isConstant: memoryValue.declarationType === 'constant',
+                value: memoryValue.value
+            }));
     }
 
     public executeModule(moduleNode: ModuleNode){
+        this.executeStatements(moduleNode, (output) => {
+            this._system.stdout(DataTypeUtils.convertValueToText(output).value);
+        });
+    }
+
+    /**
+     * Executes the imports of the module and then the rest of its statements, the tree is left as it is
+     * so the same module can be executed again. Every imported module is loaded and checked before any of them runs
+     * @param onOutput called with the value of every statement that isn't nothing
+     * @returns the value of the last statement when it is an expression
+     */
+    private executeStatements(moduleNode: ModuleNode, onOutput?: (value: Value) => void): Value | null {
+        this.loadImports(moduleNode);
         const modulesImported = this.executeAllTopImports(moduleNode);
-        const importedModulesCounts = modulesImported.length;
-        const statementsToExecute = moduleNode.statements.splice(importedModulesCounts);
+        const statementsToExecute = moduleNode.statements.slice(modulesImported.length);
 
+        let lastValue: Value | null = null;
         for (const statement of statementsToExecute) {
             const output = this.executeStatement(statement);
-            if (output && output.type !== 'NothingLiteral'){
-                this._system.stdout(DataTypeUtils.convertValueToText(output).value);
+            lastValue = statement.body.type === 'Expression' && output ? output : null;
+            if (output && output.type !== 'Nothing'){
+                onOutput?.(output);
             }
         }
+        return lastValue;
     }
 
     /**
-     * Executes all the import statements until if find a non import statement
+     * Gets the import statements at the top of the module
      */
-    public executeAllTopImports(moduleNode: ModuleNode): Array<ImportStatementNode>{
-        const importedModules:Array<ImportStatementNode> = [];
-
+    private getTopImports(moduleNode: ModuleNode): Array<ImportStatementNode> {
+        const imports: Array<ImportStatementNode> = [];
         for (const statement of moduleNode.statements) {
-            if (statement.body.type !== 'ImportStatement') {
-                return importedModules;
-            }
-            this.executeImportNode(statement.body as ImportStatementNode);
-            importedModules.push(statement.body as ImportStatementNode);
+            if (statement.body.type !== 'ImportStatement') break;
+            imports.push(statement.body);
         }
+        return imports;
+    }
 
+    /**
+     * Executes all the import statements until if find a non import statement
+     */
+    public executeAllTopImports(moduleNode: ModuleNode): Array<ImportStatementNode>{
+        const importedModules = this.getTopImports(moduleNode);
+        importedModules.forEach((importNode) => this.executeImportNode(importNode));
         return importedModules;
     }
 
+    /**
+     * Makes the exports of the imported module visible in the importer, by their names or under the namespace of the
+     * import. The module is executed the first time it is imported in the run
+     */
     public executeImportNode(importNode: ImportStatementNode) {
-        const moduleCode = this._system.loadFile(importNode.value.value);
-        const tokens = this._lexer.convertToTokens(moduleCode);
-        const tree = this._parser.parse(tokens);
-        this.executeModule(tree);
+        const filePath = this._system.resolvePath(importNode.value.value, this._filePath);
+        const module = this._modules.get(filePath) ?? this.loadImportedModule(filePath, importNode);
+        const moduleScope = module.scope ?? this.executeImportedModule(filePath, module);
+        const exports = module.exports.flatMap((name) => moduleScope.data[name] ?? []);
+
+        if (importNode.alias) {
+            const namespace: QRecord = { type: 'Record', fields: {}, recordType: null, position: importNode.alias.position };
+            exports.forEach((declaration) => namespace.fields[declaration.identifier] = declaration);
+            this._memory.bind(MemoryUtils.fromValue(importNode.alias.value, 'constant', namespace), importNode.alias.position);
+            return;
+        }
+
+        const names = importNode.names?.map((name) => name.value) ?? module.exports;
+        exports
+            .filter((declaration) => names.includes(declaration.identifier))
+            .forEach((declaration) => this._memory.bind(declaration, importNode.position));
+    }
+
+    /**
+     * Loads every module imported by the module and by the modules it imports, so errors in any of them are found before
+     * the code runs
+     * @throws RuntimeException for circular imports and for imported names the module doesn't export
+     */
+    private loadImports(moduleNode: ModuleNode) {
+        this.getTopImports(moduleNode).forEach((importNode) => {
+            const filePath = this._system.resolvePath(importNode.value.value, this._filePath);
+            const module = this.loadImportedModule(filePath, importNode);
+
+            importNode.names?.forEach((name) => {
+                if (!module.exports.includes(name.value)) {
+                    throw new RuntimeException(name.position,
+                        `'${name.value}' is not exported by ${importNode.value.value}`, this._code, NodeUtils.getEnd(name));
+                }
+            });
+        });
+    }
+
+    /**
+     * Parses the module and loads its imports, modules are cached by their path so they are loaded once
+     * @throws RuntimeException when the module is already being imported, showing the chain of imports that leads to it
+     */
+    private loadImportedModule(filePath: string, importNode: ImportStatementNode): ImportedModule {
+        if (this._importChain.includes(filePath)) {
+            throw new RuntimeException(importNode.position,
+                `Circular import ${[...this._importChain, filePath].join(' -> ')}`, this._code, NodeUtils.getEnd(importNode));
+        }
+        const cachedModule = this._modules.get(filePath);
+        if (cachedModule) return cachedModule;
+
+        const code = this._system.loadFile(filePath);
+        const tree = this._parser.parse(this._lexer.convertToTokens(code));
+        this.inModule(filePath, code, () => this.loadImports(tree));
+
+        const exports = tree.statements.flatMap((statement) => (
+            statement.body.type === 'Declaration' && statement.body.isExported ? [statement.body.assignmentNode.identifier.value] : []
+        ));
+        const module: ImportedModule = { tree, code, exports, scope: null };
+        this._modules.set(filePath, module);
+        return module;
+    }
+
+    /**
+     * Executes the module in its own scope and keeps the scope in the module
+     */
+    private executeImportedModule(filePath: string, module: ImportedModule) {
+        const importerScope = this._memory.getActiveScope();
+        this._memory.createModuleScope();
+        const moduleScope = this._memory.getActiveScope();
+        try {
+            this.inModule(filePath, module.code, () => this.executeModule(module.tree));
+        } finally {
+            this._memory.restoreScope(importerScope);
+        }
+
+        module.scope = moduleScope;
+        return moduleScope;
     }
 
-    public executeCodeBlock(block: CodeBlockNode) {
+    /**
+     * Runs the callback with the file and code of the imported module, so its imports and errors are resolved from it
+     */
+    private inModule(filePath: string, code: string, callback: () => void) {
+        const importerPath = this._filePath;
+        const importerCode = this._code;
+        this._filePath = filePath;
+        this._code = code;
+        this._importChain.push(filePath);
+        try {
+            callback();
+        } catch (er) {
+            // exceptions thrown outside of the interpreter don't know the code
+            if (er instanceof RuntimeException) er.code ??= code;
+            throw er;
+        } finally {
+            this._importChain.pop();
+            this._filePath = importerPath;
+            this._code = importerCode;
+        }
+    }
+
+    /**
+     * Executes the statements of the block
+     * @returns the value of the last statement when it is an expression, used by when cases
+     */
+    public executeCodeBlock(block: CodeBlockNode): Value | void {
+        let outcome: Value | void = undefined;
         for (const statement of block.body) {
-            const outcome = this.executeStatement(statement);
+            outcome = this.executeStatement(statement);
             if (statement.body.type === 'ReturnStatement') {
-                throw new ControlFlowException('Return', outcome);
+                throw new ControlFlowException('Return', outcome, (statement.body as ReturnStatementNode).value.position);
             }
         }
+
+        const lastStatement = block.body[block.body.length - 1];
+        return lastStatement?.body.type === 'Expression' ? outcome : undefined;
     }
 
     private executeStatement(statement: StatementNode): Value | void {
@@ -115,45 +390,160 @@ export default class Interpreter {
             return this.executeExpressionNode((statement.body as ReturnStatementNode).value);
         case 'IfStatement':
             return this.executeIfStatementNode(statement.body as IfStatementNode);
+        case 'WhileStatement':
+            return this.executeWhileStatementNode(statement.body as WhileStatementNode);
+        case 'ForStatement':
+            return this.executeForStatementNode(statement.body as ForStatementNode);
+        case 'TryStatement':
+            return this.executeTryStatementNode(statement.body as TryStatementNode);
+        case 'BreakStatement':
+            throw new ControlFlowException('Break');
+        case 'ContinueStatement':
+            throw new ControlFlowException('Continue');
+        case 'IndexAssignment':
+            return this.executeIndexAssignment(statement.body as IndexAssignmentNode);
+        case 'FieldAssignment':
+            return this.executeFieldAssignment(statement.body as FieldAssignmentNode);
         case 'ImportStatement':
-            throw new RuntimeException(statement.position, 'Import statements must be at the top of the file', this._code);
+            throw new RuntimeException(statement.position,
+                'Import statements must be at the top of the file', this._code, NodeUtils.getEnd(statement));
+        case 'Error':
+            throw new RuntimeException(statement.body.position, (statement.body as ErrorNode).message, this._code);
         }
     }
 
     private executeIfStatementNode = (node: IfStatementNode): void => {
-        const value = this.executeExpressionNode(node.condition);
-        let isConditionTrue = false;
-        switch (value.type){
-        case 'BooleanLiteral':
-            isConditionTrue = (value as BooleanLiteralNode).value;
-            break;
-        case 'NothingLiteral':
-            isConditionTrue = false;
-            break;
-        case 'FuncDeclaration':
-        case 'InternalFuncDeclaration':
-        case 'NumberLiteral':
-        case 'TextLiteral':
-        case 'Vector2Literal':
-        case 'Vector3Literal':
-            throw new RuntimeException(node.position, 'Invalid boolean expression', this._code);
-        }
-
-        if (isConditionTrue) {
-            this.executeCodeBlock(node.trueExpression);
+        if (this.isConditionTrue(node.condition)) {
+            this.executeScopedCodeBlock(node.trueExpression);
+        } else if (node.falseExpression?.type === 'IfStatement') {
+            this.executeIfStatementNode(node.falseExpression);
         } else if (node.falseExpression !== null) {
-            this.executeCodeBlock(node.falseExpression);
+            this.executeScopedCodeBlock(node.falseExpression);
         }
 
         return;
     };
 
+    private executeScopedCodeBlock = (block: CodeBlockNode): Value | void => {
+        this._memory.createScope();
+        try {
+            return this.executeCodeBlock(block);
+        } finally {
+            this._memory.clearScope();
+        }
+    };
+
+    private executeWhileStatementNode = (node: WhileStatementNode): void => {
+        this._state.push('while');
+        try {
+            while (this.isConditionTrue(node.condition)) {
+                if (this.executeLoopIteration(node.body) === 'Break') break;
+            }
+        } finally {
+            this._state.pop();
+        }
+    };
+
+    private executeForStatementNode = (node: ForStatementNode): void => {
+        this._state.push('for');
+        // the initializer lives in its own scope so it is only visible inside the loop
+        this._memory.createScope();
+        try {
+            if (node.initializer?.type === 'Declaration') {
+                this.executeDeclaration(node.initializer);
+            } else if (node.initializer?.type === 'Assignment') {
+                this.executeAssignment(node.initializer);
+            }
+
+            while (node.condition === null || this.isConditionTrue(node.condition)) {
+                if (this.executeLoopIteration(node.body) === 'Break') break;
+
+                if (node.increment?.type === 'Assignment') {
+                    this.executeAssignment(node.increment);
+                } else if (node.increment?.type === 'Expression') {
+                    this.executeExpressionNode(node.increment);
+                }
+            }
+        } finally {
+            this._memory.clearScope();
+            this._state.pop();
+        }
+    };
+
+    /**
+     * Executes the body of a loop in a new scope
+     * @returns the loop control flow that ended the iteration, if any
+     */
+    private executeLoopIteration = (body: CodeBlockNode): 'Break' | 'Continue' | null => {
+        try {
+            this.executeScopedCodeBlock(body);
+        } catch (ex: unknown) {
+            if (ex instanceof ControlFlowException && ex.type !== 'Return') {
+                return ex.type;
+            }
+            throw ex;
+        }
+        return null;
+    };
+
+    /**
+     * Runtime errors of the body are given to the catch block, the finally block runs after them even when they return,
+     * break or fail. Returns and loop control are not errors so they are never caught
+     */
+    private executeTryStatementNode = (node: TryStatementNode): void => {
+        try {
+            this.executeScopedCodeBlock(node.body);
+        } catch (ex: unknown) {
+            if (!(ex instanceof RuntimeException) || !node.catchBlock || !node.errorIdentifier) throw ex;
+            this.executeCatchBlock(node.catchBlock, node.errorIdentifier, ex);
+        } finally {
+            if (node.finallyBlock) this.executeScopedCodeBlock(node.finallyBlock);
+        }
+    };
+
+    /**
+     * Executes the catch block with the error declared as a record with its message, line and column
+     */
+    private executeCatchBlock = (block: CodeBlockNode, identifier: IdentifierNode, error: RuntimeException) => {
+        const position = identifier.position;
+        const errorRecord: QRecord = { type: 'Record', fields: {}, recordType: null, position };
+        this._memory.setField(errorRecord,
+            MemoryUtils.fromValue('message', 'constant', { type: 'Text', value: error.message, position }), position);
+        this._memory.setField(errorRecord,
+            MemoryUtils.fromValue('line', 'constant', { type: 'Number', value: error.position.line, position }), position);
+        this._memory.setField(errorRecord,
+            MemoryUtils.fromValue('column', 'constant', { type: 'Number', value: error.position.lineChar, position }), position);
+
+        this._memory.createScope();
+        try {
+            this._memory.set(identifier.value, MemoryUtils.fromValue(identifier.value, 'constant', errorRecord), identifier.position);
+            this.executeCodeBlock(block);
+        } finally {
+            this._memory.clearScope();
+        }
+    };
+
+    private isConditionTrue = (condition: ExpressionNode): boolean => {
+        const value = this.executeExpressionNode(condition);
+        switch (value.type){
+        case 'Boolean':
+            return value.value;
+        case 'Nothing':
+            return false;
+        }
+        throw new RuntimeException(condition.position, 'Invalid boolean expression', this._code, NodeUtils.getEnd(condition));
+    };
+
     private executeDeclaration = (node: DeclarationNode) => {
         const typeOfAssignment = node.declaratorType;
         const id = node.assignmentNode.identifier.value;
+        const { expression, identifier } = node.assignmentNode;
 
         // if we have a type declared assign it else we inferred it
-        const value = this.executeExpressionNode(node.assignmentNode.expression);
+        let value = this.conformToType(this.executeExpressionOfType(expression, node.dataType), node.dataType, expression.position);
+        if (value.type === 'RecordType' && value.name === null) {
+            value = { ...value, name: id };
+        }
         let type = node.dataType?.value ?? DataTypeUtils.valueToDataType(value.type);
 
         if (node.isOptional) {
@@ -167,9 +557,10 @@ export default class Interpreter {
                 identifier: id,
                 type: 'optional',
                 value,
-                internalType: type
+                internalType: type,
+                signature: null
             };
-            this._memory.set(id, memoryValue);
+            this._memory.set(id, memoryValue, identifier.position, expression.position);
             return;
         }
 
@@ -179,8 +570,30 @@ export default class Interpreter {
             identifier: id,
             type,
             value,
-            internalType: null
-        });
+            internalType: type === 'list' ? this.getListInternalType(node, value) : null,
+            signature: this.getSignature(node, value)
+        }, identifier.position, expression.position);
+    };
+
+    private getSignature = (node: DeclarationNode, value: Value): MemoryValue['signature'] => {
+        const identifier = node.assignmentNode.identifier.value;
+        return node.dataType ?
+            MemoryUtils.fromDataType(identifier, node.declaratorType, node.dataType, value).signature :
+            MemoryUtils.fromValue(identifier, node.declaratorType, value).signature;
+    };
+
+    private getListInternalType = (node: DeclarationNode, value: Value): DataTypes | null => {
+        if (node.dataType?.value === 'list') {
+            return (node.dataType as ListDataType).internalType;
+        }
+
+        if (value.type !== 'List') return null;
+        if (value.internalType === null) {
+            throw new RuntimeException(node.position,
+                `Unable to infer the type of '${node.assignmentNode.identifier.value}', declare it as list<type>`,
+                this._code, NodeUtils.getEnd(node));
+        }
+        return value.internalType;
     };
 
     private executeAssignment = (node: AssignmentNode) => {
@@ -194,143 +607,548 @@ export default class Interpreter {
 
         // TODO - non function returning value on expression evaluates to null;
         if (value === null) throw new Error('Internal error on assignment');
-        this._memory.update(id, value);
+        const { signature } = this._memory.get(id, node.identifier.position);
+        const valuePosition = node.expression.position;
+        this._memory.update(id, this.conformToType(value, signature, valuePosition), node.identifier.position, valuePosition);
     };
 
     private executeFunctionCall = (node: FuncCallNode): Value => {
         const id = node.identifier.value;
-        const memoryValue = this._memory.get(id);
+        const memoryValue = this._memory.get(id, node.identifier.position);
         if (memoryValue.type !== 'func' && memoryValue.type !== 'internalFunc'){
-            throw new RuntimeException(node.position, `Tried to call variable '${id}' as a function`, this._code);
+            throw new RuntimeException(node.position, `Tried to call variable '${id}' as a function`, this._code, NodeUtils.getEnd(node));
         }
 
-        if (memoryValue.value.type === 'NothingLiteral') {
-            throw new RuntimeException(node.position, 'Tried to call \'nothing\' as a function', this._code);
-        }
+        const args = (node.params?.args ?? []).map((arg) => this.executeExpressionNode(arg));
+        return this.callFunction(memoryValue.value, args, node.position, this.getArgPositions(node.params?.args));
+    };
 
-        const fn = (memoryValue.value as GenericFuncDeclarationNode);
-        this._state.push('function');
-        this._memory.createScope();
+    /**
+     * Calls the function returned by the expression, like fns[0]() or make()()
+     */
+    private executeCallExpression = (node: CallExpressionNode): Value => {
+        const fnValue = this.executeExpressionNode(node.expression);
+        const args = (node.params?.args ?? []).map((arg) => this.executeExpressionNode(arg));
+        return this.callFunction(fnValue, args, node.position, this.getArgPositions(node.params?.args));
+    };
+
+    // errors of an argument are reported where it is written
+    private getArgPositions = (args: Array<ExpressionNode> = []) => args.map((arg) => arg.position);
+
+    /**
+     * Calls a function value with already evaluated arguments
+     */
+    private callFunction: FunctionCaller = (fnValue, args, position, argPositions = []) => {
+        if (fnValue.type === 'Nothing') {
+            throw new RuntimeException(position, 'Tried to call \'nothing\' as a function', this._code);
+        }
+        if (fnValue.type !== 'Function' && fnValue.type !== 'InternalFunction') {
+            throw new RuntimeException(position, `Tried to call ${DataTypeUtils.valueToDataType(fnValue.type)} as a function`, this._code);
+        }
 
+        const fn = fnValue;
         const params = fn.parameters?.params ?? [];
-        const args = node.params?.args ?? [];
         if (params.length !== args.length) {
-            throw new RuntimeException(node.position, `Expecting ${params.length} arguments but got ${args.length} arguments`, this._code);
-        }
-        params.forEach((param, i) => {
-            const arg = args[i];
-            if (!arg) throw new Error('internal error, index out of bounds');
-            const argResult = this.executeExpressionNode(arg);
-            if (argResult === null) throw new Error('null as parameter not allowed yet');
-            const dataType = DataTypeUtils.valueToDataType(argResult.type);
-
-            // TODO - move to library
-            if (dataType !== param.dataType.value) {
-                throw new RuntimeException(argResult.position, 
-                    `Expected argument of type ${param.dataType.value} but got ${dataType}`);
-            }
+            throw new RuntimeException(position, `Expecting ${params.length} arguments but got ${args.length} arguments`, this._code);
+        }
+
+        // functions run in a child of the scope they were declared in, not the caller's
+        const callerScope = this._memory.getActiveScope();
+        this._state.push('function');
+        this._memory.createScope(fn.type === 'Function' ? fn.closure : this._memory.getGlobalScope());
+
+        try {
+            params.forEach((param, i) => {
+                const arg = args[i];
+                if (!arg) throw new Error('internal error, index out of bounds');
+                const argPosition = argPositions[i] ?? position;
+                const argResult = this.conformToType(arg, param.dataType, argPosition);
+
+                // TODO - move to library
+                if (!DataTypeUtils.isValueOfType(argResult, param.dataType)) {
+                    throw new RuntimeException(argPosition,
+                        `Expected argument of type ${DataTypeUtils.typeToText(param.dataType)} but got ${DataTypeUtils.valueTypeToText(argResult)}`,
+                        this._code);
+                }
 
-            this._memory.set(param.identifier.value, {
-                declarationType: 'argument',
-                identifier: param.identifier.value,
-                type: param.dataType.value,
-                value: argResult,
-                internalType: null,
+                this._memory.set(param.identifier.value,
+                    MemoryUtils.fromDataType(param.identifier.value, 'argument', param.dataType, argResult), param.identifier.position, argPosition);
             });
-        });
 
-        let returnedValue: Value = {
-            type: 'NothingLiteral'
-        } as NothingLiteralNode;
+            if (fn.type === 'InternalFunction'){
+                return executeInternalFunc(fn, this._memory,
+                    { ...this.getConversionContext(), position, system: this._system });
+            }
 
-        if (memoryValue.type === 'internalFunc'){
-            returnedValue = executeInternalFunc(fn as InternalFuncDeclarationNode, this._memory, this._system);
-        } else {
             try {
-                this.executeCodeBlock((fn as FuncDeclarationNode).body);
+                this.executeCodeBlock(fn.body);
             } catch (ex:unknown) {
                 if (ex instanceof ControlFlowException && ex.type === 'Return'){
-                    returnedValue = ex.data;
-                } else {
-                    throw ex;
+                    return this.checkReturnValue(fn, ex.data, ex.position ?? position);
+                } else if (ex instanceof ControlFlowException) {
+                    // loops outside of the function can't be controlled from its body
+                    throw new RuntimeException(position, `'${ex.type.toLowerCase()}' used outside of a loop`, this._code);
                 }
+                throw ex;
             }
+
+            return this.checkReturnValue(fn, ValueUtils.nothing(position), position);
+        } finally {
+            this._memory.restoreScope(callerScope);
+            this._state.pop();
+        }
+    };
+
+    /**
+     * Checks the returned value against the declared return type of the function
+     * @param position where the value is returned, the call when the function ends without returning
+     * @throws RuntimeException when the value doesn't match the return type
+     */
+    private checkReturnValue = (fn: QFunction, returnedValue: Value, position: Position): Value => {
+        const returnType = fn.returnType;
+        if (!returnType) return returnedValue;
+
+        const value = this.conformToType(returnedValue, returnType, position);
+        if (!DataTypeUtils.isValueOfType(value, returnType)) {
+            throw new RuntimeException(position,
+                `Expected function to return ${DataTypeUtils.typeToText(returnType)} but got ${DataTypeUtils.valueTypeToText(value)}`, this._code);
+        }
+
+        if (returnType.value === 'optional' && value.type !== 'Optional') {
+            const optional: QOptional = {
+                type: 'Optional',
+                internalType: (returnType as OptionalDataType).internalType,
+                value,
+                position: value.position
+            };
+            return optional;
+        }
+
+        if (value.type === 'List') {
+            DataTypeUtils.conformList(value, returnType);
         }
 
-        this._memory.clearScope();
-        this._state.pop();
-        return returnedValue;
+        return value;
     };
 
     private executeExpressionNode = (node:ExpressionNode): Value => {
         switch (node.body.type) {
-        case 'FuncDeclaration':
+        case 'FuncDeclaration': {
+            const fn: QFunction = {
+                type: 'Function',
+                parameters: node.body.parameters,
+                returnType: node.body.returnType,
+                inferredReturnType: node.body.inferredReturnType ?? null,
+                body: node.body.body,
+                closure: this._memory.getActiveScope(),
+                position: node.body.position
+            };
+            return fn;
+        }
         case 'TextLiteral':
         case 'BooleanLiteral':
         case 'NothingLiteral':
         case 'Vector2Literal':
         case 'Vector3Literal':
         case 'NumberLiteral':
-            console.log(node);
-            return node.body;
+            return ValueUtils.fromLiteral(node.body);
         case 'FuncCallNode':
             return this.executeFunctionCall(node.body as FuncCallNode);
         case 'Identifier':
-            return this._memory.get((node.body as IdentifierNode).value).value;
+            return this._memory.get((node.body as IdentifierNode).value, node.body.position).value;
         case 'BinaryExpression':
             return this.executeBinaryExpression(node.body as BinaryExpressionNode);
+        case 'UnaryExpression':
+            return this.executeUnaryExpression(node.body as UnaryExpressionNode);
+        case 'ConditionalExpression':
+            return this.executeConditionalExpression(node.body as ConditionalExpressionNode);
+        case 'WhenExpression':
+            return this.executeWhenExpression(node.body as WhenExpressionNode);
+        case 'TextTemplate':
+            return this.executeTextTemplate(node.body as TextTemplateNode);
         case 'AccessorExpression':
             return this.executeAccessorExpression(node.body as AccessorExpressionNode);
+        case 'ListLiteral':
+            return this.executeListLiteral(node.body as ListLiteralNode);
+        case 'IndexExpression':
+            return this.executeIndexExpression(node.body as IndexExpressionNode);
+        case 'CallExpression':
+            return this.executeCallExpression(node.body as CallExpressionNode);
+        case 'VectorConstructor':
+            return this.executeVectorConstructor(node.body as VectorConstructorNode);
+        case 'RecordLiteral':
+            return this.executeRecordLiteral(node.body as RecordLiteralNode);
+        case 'RecordType':
+            return this.executeRecordType(node.body as RecordTypeNode);
         }
     };
 
+    private executeVectorConstructor = (node: VectorConstructorNode): VectorValue => {
+        const components = node.components.map((component) => {
+            const value = this.executeExpressionNode(component);
+            if (value.type !== 'Number') {
+                throw new RuntimeException(component.position,
+                    `${node.vectorType} components must be numbers but found ${DataTypeUtils.valueToDataType(value.type)}`,
+                    this._code, NodeUtils.getEnd(component));
+            }
+            return value.value;
+        });
+
+        return VectorUtils.fromComponents(components, node.position);
+    };
+
+    private executeListLiteral = (node: ListLiteralNode): QList => {
+        const values = node.elements.map((element) => this.executeExpressionNode(element));
+        const [firstValue] = values;
+        const internalType = firstValue ? DataTypeUtils.valueToDataType(firstValue.type) : null;
+        // lists of lists check the full type of their elements
+        const elementType = firstValue?.type === 'List' ? DataTypeUtils.getListType(firstValue) : null;
+
+        values.forEach((value, i) => {
+            const element = node.elements[i] ?? node;
+            const end = NodeUtils.getEnd(element);
+            const type = DataTypeUtils.valueToDataType(value.type);
+            if (type !== internalType) {
+                throw new RuntimeException(element.position,
+                    `List elements must be of the same type, expected ${internalType} but found ${type}`, this._code, end);
+            }
+            if (elementType && !DataTypeUtils.isValueOfType(value, elementType)) {
+                throw new RuntimeException(element.position, `List elements must be of the same type, expected ${
+                    DataTypeUtils.typeToText(elementType)} but found ${DataTypeUtils.valueTypeToText(value)}`, this._code, end);
+            }
+        });
+
+        const list: QList = {
+            type: 'List',
+            values,
+            internalType,
+            elementType,
+            position: node.position
+        };
+        // empty lists among the elements take the type of the others
+        if (elementType) values.forEach((value) => value.type === 'List' && DataTypeUtils.conformList(value, elementType));
+        return list;
+    };
+
+    /**
+     * Evaluates the list and index of an index expression
+     * @throws RuntimeException when the value is not a list or the index is out of bounds
+     */
+    private resolveListIndex = (node: IndexExpressionNode): { list: QList, index: number } => {
+        const list = this.executeExpressionNode(node.expression);
+        if (list.type !== 'List') {
+            throw new RuntimeException(node.position,
+                `Tried to index ${DataTypeUtils.valueToDataType(list.type)}, only lists can be indexed`, this._code, NodeUtils.getEnd(node));
+        }
+
+        const index = this.executeExpressionNode(node.index);
+        if (index.type !== 'Number') {
+            throw new RuntimeException(node.index.position,
+                `List index must be a number but found ${DataTypeUtils.valueToDataType(index.type)}`, this._code, NodeUtils.getEnd(node.index));
+        }
+
+        const indexValue = index.value;
+        if (!Number.isInteger(indexValue) || indexValue < 0 || indexValue >= list.values.length) {
+            throw new RuntimeException(node.index.position,
+                `Index ${indexValue} is out of bounds for a list of length ${list.values.length}`, this._code, NodeUtils.getEnd(node.index));
+        }
+
+        return { list, index: indexValue };
+    };
+
+    private executeIndexExpression = (node: IndexExpressionNode): Value => {
+        const { list, index } = this.resolveListIndex(node);
+        // index has been bounds checked
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        return list.values[index]!;
+    };
+
+    private executeIndexAssignment = (node: IndexAssignmentNode) => {
+        const { list, index } = this.resolveListIndex(node.target);
+        const value = this.executeExpressionNode(node.expression);
+        const type = DataTypeUtils.valueToDataType(value.type);
+
+        if (list.internalType !== null && list.internalType !== type) {
+            throw new RuntimeException(node.expression.position,
+                `Tried to assign ${type} to an element of list<${list.internalType}>`, this._code, NodeUtils.getEnd(node.expression));
+        }
+        if (list.elementType && !DataTypeUtils.isValueOfType(value, list.elementType)) {
+            throw new RuntimeException(node.expression.position,
+                `Tried to assign ${DataTypeUtils.valueTypeToText(value)} to an element of ${DataTypeUtils.valueTypeToText(list)}`,
+                this._code, NodeUtils.getEnd(node.expression));
+        }
+        if (list.elementType && value.type === 'List') {
+            DataTypeUtils.conformList(value, list.elementType);
+        }
+        list.values[index] = value;
+    };
+
     private executeAccessorExpression = (node: AccessorExpressionNode): Value => {
         const expressionValue = this.executeExpressionNode(node.expression);
         const expressionDataType = DataTypeUtils.valueToDataType(expressionValue.type);
 
-        // we only have primitives yet, but once we add objects we need accessor logic
-        // TODO - add object accessor
+        if (expressionValue.type === 'Record') {
+            return this.executeRecordAccessor(node, expressionValue);
+        }
+
         if (node.value.type === 'FuncCallNode') {
-            return StaticPrimitiveAttributes
-                .executeStaticFunction(node.value.identifier, expressionValue);
+            const args = (node.value.params?.args ?? []).map((arg) => this.executeExpressionNode(arg));
+            return StaticPrimitiveAttributes.executeStaticFunction(
+                node.value.identifier, expressionValue, args, this.callFunction, this.getArgPositions(node.value.params?.args));
         }
 
-        throw new RuntimeException(node.position, `Attribute ${node.value} is not part ${expressionDataType}`);
+        const property = StaticPrimitiveAttributes.executeStaticProperty(node.value, expressionValue);
+        if (!property) {
+            throw new RuntimeException(node.value.position,
+                `Attribute '${node.value.value}' is not part of ${expressionDataType}`, this._code, NodeUtils.getEnd(node.value));
+        }
+        return property;
     };
 
-    private executeBinaryExpression = (node: BinaryExpressionNode): Value => {
-        const rightValue = this.executeExpressionNode(node.right);
-        if (rightValue === null) {
-            throw new Error('Internal error binary expression must have right value');
+    private executeRecordAccessor = (node: AccessorExpressionNode, record: QRecord): Value => {
+        const identifier = node.value.type === 'FuncCallNode' ? node.value.identifier : node.value;
+        const field = record.fields[identifier.value];
+        // records without a field of the name fall back to the attributes every value has, like toText
+        if (!field && node.value.type === 'FuncCallNode' && StaticPrimitiveAttributes.getStaticPrimitiveValue('record', identifier)) {
+            const args = (node.value.params?.args ?? []).map((arg) => this.executeExpressionNode(arg));
+            return StaticPrimitiveAttributes.executeStaticFunction(
+                identifier, record, args, this.callFunction, this.getArgPositions(node.value.params?.args));
+        }
+        if (!field) {
+            throw new RuntimeException(identifier.position,
+                `Field '${identifier.value}' is not part of ${DataTypeUtils.valueTypeToText(record)}`, this._code, NodeUtils.getEnd(identifier));
         }
 
-        if (
-            rightValue.type === 'FuncDeclaration' ||
-            rightValue.type === 'InternalFuncDeclaration'
-        ) {
-            throw new RuntimeException(node.position, 'Invalid binary expression', this._code);
+        if (node.value.type === 'FuncCallNode') {
+            const args = (node.value.params?.args ?? []).map((arg) => this.executeExpressionNode(arg));
+            return this.callFunction(field.value, args, node.value.position, this.getArgPositions(node.value.params?.args));
         }
+        return field.value;
+    };
+
+    /**
+     * Executes the expression, record literals of a declared record type give their fields the declared types before storing them
+     */
+    private executeExpressionOfType = (node: ExpressionNode, dataType: DataTypeNode | null): Value => (
+        node.body.type === 'RecordLiteral' ?
+            this.executeRecordLiteral(node.body as RecordLiteralNode, dataType) :
+            this.executeExpressionNode(node)
+    );
+
+    /**
+     * Empty lists in the fields of the declared record type take the type of their elements from the field
+     */
+    private executeRecordLiteral = (node: RecordLiteralNode, dataType: DataTypeNode | null = null): QRecord => {
+        const record: QRecord = {
+            type: 'Record',
+            fields: {},
+            recordType: null,
+            position: node.position
+        };
+        const fieldTypes = dataType && DataTypeUtils.isRecordDataType(dataType) ? this.resolveRecordType(dataType).fields : [];
+
+        for (const field of node.fields) {
+            const fieldType = fieldTypes.find((declared) => declared.identifier.value === field.identifier.value)?.dataType ?? null;
+            const value = this.executeExpressionOfType(field.expression, fieldType);
+            if (value.type === 'List' && fieldType) {
+                DataTypeUtils.conformList(value, fieldType);
+            }
+            this._memory.setField(record, MemoryUtils.fromValue(field.identifier.value, 'variable', value), field.expression.position);
+        }
+        return record;
+    };
+
+    private executeRecordType = (node: RecordTypeNode): QRecordType => ({
+        type: 'RecordType',
+        name: null,
+        fields: node.fields,
+        position: node.position
+    });
+
+    private executeFieldAssignment = (node: FieldAssignmentNode) => {
+        const record = this.executeExpressionNode(node.target.expression);
+        const field = node.target.value as IdentifierNode;
+        if (record.type !== 'Record') {
+            throw new RuntimeException(node.target.position,
+                `Tried to assign field '${field.value}' of ${DataTypeUtils.valueTypeToText(record)}`, this._code, NodeUtils.getEnd(node.target));
+        }
+
+        const value = this.executeExpressionNode(node.expression);
+        const signature = record.fields[field.value]?.signature ?? null;
+        const valuePosition = node.expression.position;
+        this._memory.updateField(record, field.value, this.conformToType(value, signature, valuePosition), field.position, valuePosition);
+    };
+
+    /**
+     * Gives records without a type the declared record type, their fields are checked against it.
+     * The record is typed in place so every reference to it sees the type
+     * @param position where the value is written, errors of its fields are reported there
+     * @throws RuntimeException when the fields don't match the record type
+     */
+    private conformToType = (value: Value, dataType: DataTypeNode | null, position: Position): Value => {
+        if (!dataType || !DataTypeUtils.isRecordDataType(dataType)) return value;
+        if (value.type !== 'Record' || value.recordType !== null) return value;
 
-        let leftValueUnwrapped: Value = { 
-            type: 'NothingLiteral',
-            position: node.left.position
+        const recordType = this.resolveRecordType(dataType);
+        const typedRecord: QRecord = {
+            type: 'Record',
+            fields: {},
+            recordType,
+            position: value.position
         };
 
-        if (node.left.type === 'Identifier') {
-            const valueFromMemory = this._memory.get(node.left.value);
-            if (valueFromMemory.type === 'func' ||
-                valueFromMemory.type === 'internalFunc') {
-                throw new RuntimeException(node.position, 'Invalid binary expression', this._code);
+        for (const field of recordType.fields) {
+            const name = field.identifier.value;
+            const fieldValue = value.fields[name]?.value ?? (field.dataType.value === 'optional' ? ValueUtils.nothing(value.position) : null);
+            if (!fieldValue) {
+                throw new RuntimeException(position, `Missing field '${name}' of ${dataType.name}`, this._code);
+            }
+
+            const conformedValue = this.conformToType(fieldValue, field.dataType, position);
+            if (!DataTypeUtils.isValueOfType(conformedValue, field.dataType)) {
+                throw new RuntimeException(position,
+                    `Field '${name}' of ${dataType.name} must be ${DataTypeUtils.typeToText(field.dataType)} but got ${DataTypeUtils.valueTypeToText(conformedValue)}`,
+                    this._code);
             }
-            leftValueUnwrapped = valueFromMemory.value;
-        } else {
-            leftValueUnwrapped = node.left;
+            this._memory.setField(typedRecord, MemoryUtils.fromDataType(name, 'variable', field.dataType, conformedValue), position);
+        }
+
+        const unknownField = Object.keys(value.fields)
+            .find((name) => !recordType.fields.some((field) => field.identifier.value === name));
+        if (unknownField) {
+            throw new RuntimeException(position, `Field '${unknownField}' is not part of ${dataType.name}`, this._code);
+        }
+
+        value.fields = typedRecord.fields;
+        value.recordType = recordType;
+        return value;
+    };
+
+    private getConversionContext = (): JsConversionContext => ({
+        callFunction: this.callFunction,
+        resolveRecordType: this.resolveRecordType,
+        conformToType: this.conformToType
+    });
+
+    private resolveRecordType = (dataType: RecordDataType): QRecordType => {
+        const memoryValue = this._memory.has(dataType.name) ? this._memory.get(dataType.name, dataType.position) : null;
+        if (memoryValue?.value.type !== 'RecordType') {
+            throw new RuntimeException(dataType.position, `'${dataType.name}' is not a record type`, this._code, NodeUtils.getEnd(dataType));
+        }
+        return memoryValue.value;
+    };
+
+    /**
+     * Evaluates only the branch chosen by the condition
+     * @throws RuntimeException when the condition is not a boolean
+     */
+    private executeConditionalExpression = (node: ConditionalExpressionNode): Value => {
+        const condition = this.executeExpressionNode(node.condition);
+        if (condition.type !== 'Boolean') {
+            throw new RuntimeException(node.condition.position,
+                `Condition must be boolean but found ${DataTypeUtils.valueTypeToText(condition)}`, this._code, NodeUtils.getEnd(node.condition));
+        }
+
+        return condition.value ?
+            this.executeExpressionNode(node.trueExpression) :
+            this.executeExpressionNode(node.falseExpression);
+    };
+
+    /**
+     * Executes the first case matching the value, yields nothing when no case matches
+     */
+    private executeWhenExpression = (node: WhenExpressionNode): Value => {
+        const value = this.executeExpressionNode(node.value);
+        // optionals are matched by the value they hold
+        const valueToMatch = value.type === 'Optional' ? value.value : value;
+
+        const matchingCase = node.cases.find((whenCase) => this.isWhenCaseMatch(whenCase, valueToMatch));
+        const nothing = ValueUtils.nothing(node.position);
+        if (!matchingCase) return nothing;
+
+        if (matchingCase.body.type === 'CodeBlock') {
+            return this.executeScopedCodeBlock(matchingCase.body) ?? nothing;
+        }
+        return this.executeExpressionNode(matchingCase.body);
+    };
+
+    private isWhenCaseMatch = (whenCase: WhenCaseNode, value: Value): boolean => {
+        const pattern = whenCase.pattern;
+        if (pattern === null) return true;
+        if (pattern.type === 'DataType') return DataTypeUtils.isValueOfType(value, pattern);
+        return DataTypeUtils.isEqual(value, ValueUtils.fromLiteral(pattern));
+    };
+
+    private executeTextTemplate = (node: TextTemplateNode): QText => {
+        const value = node.parts.map((part) => (
+            part.type === 'TextLiteral' ?
+                part.value :
+                DataTypeUtils.convertValueToText(this.executeExpressionNode(part)).value
+        )).join('');
+
+        return {
+            type: 'Text',
+            value,
+            position: node.position
+        };
+    };
+
+    private executeUnaryExpression = (node: UnaryExpressionNode): Value => {
+        const value = this.executeExpressionNode(node.value);
+
+        if (node.operator === '!' && value.type === 'Boolean') {
+            return {
+                type: 'Boolean',
+                value: !value.value,
+                position: node.position
+            };
+        }
+
+        if (node.operator === '-' && value.type === 'Number') {
+            return {
+                type: 'Number',
+                value: -value.value,
+                position: node.position
+            };
+        }
+
+        if (node.operator === '-' && VectorUtils.isVector(value)) {
+            return VectorUtils.scale(value, -1);
+        }
+
+        const expectedType = node.operator === '!' ? 'boolean' : 'number or vector';
+        throw new RuntimeException(node.position,
+            `Operator '${node.operator}' can only be used on ${expectedType} but found ${DataTypeUtils.valueToDataType(value.type)}`,
+            this._code, NodeUtils.getEnd(node));
+    };
+
+    private executeBinaryExpression = (node: BinaryExpressionNode): Value => {
+        const leftValueUnwrapped = this.executeExpressionNode(node.left);
+
+        // logical operators don't evaluate the right side when the left side decides the outcome
+        if (
+            leftValueUnwrapped.type === 'Boolean' &&
+            (node.operator === '&&' || node.operator === '||') &&
+            leftValueUnwrapped.value === (node.operator === '||')
+        ) {
+            return leftValueUnwrapped;
+        }
+
+        const rightValue = this.executeExpressionNode(node.right);
+
+        if (
+            leftValueUnwrapped.type === 'Function' ||
+            leftValueUnwrapped.type === 'InternalFunction' ||
+            rightValue.type === 'Function' ||
+            rightValue.type === 'InternalFunction'
+        ) {
+            throw this.invalidOperator(node, leftValueUnwrapped, rightValue);
         }
 
         // Both are boolean - binary expression
-        if (leftValueUnwrapped.type === 'BooleanLiteral' && rightValue.type === 'BooleanLiteral') {
-            const left = leftValueUnwrapped as BooleanLiteralNode;
-            const right = rightValue as BooleanLiteralNode;
+        if (leftValueUnwrapped.type === 'Boolean' && rightValue.type === 'Boolean') {
+            const left = leftValueUnwrapped;
+            const right = rightValue;
             let finalValue: boolean | null = null;
 
             switch (node.operator) {
@@ -348,19 +1166,17 @@ export default class Interpreter {
                 break;
             }
 
-            if (finalValue === null) {
-                throw new RuntimeException(node.position, 'Unable to parse binary expression', this._code);
-            }
+            if (finalValue === null) throw this.invalidOperator(node, left, right);
             return {
-                type: 'BooleanLiteral',
+                type: 'Boolean',
                 value: finalValue,
                 position: left.position
-            } as BooleanLiteralNode;
+            };
         }
 
-        if (leftValueUnwrapped.type === 'NumberLiteral' && rightValue.type === 'NumberLiteral') {
-            const left = leftValueUnwrapped as NumberLiteralNode;
-            const right = rightValue as NumberLiteralNode;
+        if (leftValueUnwrapped.type === 'Number' && rightValue.type === 'Number') {
+            const left = leftValueUnwrapped;
+            const right = rightValue;
             let finalValue: number | boolean | null = null;
 
             switch (node.operator) {
@@ -401,24 +1217,24 @@ export default class Interpreter {
 
             if (typeof finalValue === 'boolean') {
                 return {
-                    type: 'BooleanLiteral',
+                    type: 'Boolean',
                     value: finalValue,
                     position: left.position
-                } as BooleanLiteralNode;
+                };
             }
 
             if (typeof finalValue === 'number') {
                 return {
-                    type: 'NumberLiteral',
+                    type: 'Number',
                     value: finalValue,
                     position: left.position
-                } as NumberLiteralNode;
+                };
             }
         }
 
-        if (leftValueUnwrapped.type === 'TextLiteral' && rightValue.type === 'TextLiteral') {
-            const left = leftValueUnwrapped as TextLiteralNode;
-            const right = rightValue as TextLiteralNode;
+        if (leftValueUnwrapped.type === 'Text' && rightValue.type === 'Text') {
+            const left = leftValueUnwrapped;
+            const right = rightValue;
             let finalValue: string | boolean | null = null;
         
             switch (node.operator){
@@ -435,34 +1251,83 @@ export default class Interpreter {
         
             if (typeof finalValue === 'string') {
                 return {
-                    type: 'TextLiteral',
+                    type: 'Text',
                     value: finalValue,
                     position: left.position
-                } as TextLiteralNode;
+                };
             }
 
             if (typeof finalValue === 'boolean') {
                 return {
-                    type: 'BooleanLiteral',
+                    type: 'Boolean',
                     value: finalValue,
                     position: left.position
-                } as BooleanLiteralNode;
+                };
             }
         }
 
-        if (
-            leftValueUnwrapped.type !== rightValue.type &&
-            node.operator === '!=' ||
-            node.operator === '=='
-        ){
+        if (VectorUtils.isVector(leftValueUnwrapped) || VectorUtils.isVector(rightValue)) {
+            return this.executeVectorBinaryExpression(node, leftValueUnwrapped, rightValue);
+        }
+
+        if (node.operator === '!=' || node.operator === '==') {
             return {
-                type: 'BooleanLiteral',
+                type: 'Boolean',
+                value: DataTypeUtils.isEqual(leftValueUnwrapped, rightValue) === (node.operator === '=='),
+                position: node.position
+            };
+        }
+
+        throw this.invalidOperator(node, leftValueUnwrapped, rightValue);
+    };
+
+    private invalidOperator = (node: BinaryExpressionNode, left: Value, right: Value) => new RuntimeException(node.position,
+        `Operator '${node.operator}' can't be used between ${DataTypeUtils.valueToDataType(left.type)} and ${
+            DataTypeUtils.valueToDataType(right.type)}`, this._code, NodeUtils.getEnd(node));
+
+    /**
+     * Vectors support element-wise + and -, scaling by a number with * and / and comparing with == and !=
+     */
+    private executeVectorBinaryExpression = (node: BinaryExpressionNode, left: Value, right: Value): Value => {
+        const isLeftVector = VectorUtils.isVector(left);
+        const isRightVector = VectorUtils.isVector(right);
+
+        if (VectorUtils.isVector(left) && VectorUtils.isVector(right)) {
+            if (node.operator === '==' || node.operator === '!=') {
+                return {
+                    type: 'Boolean',
+                    value: VectorUtils.isEqual(left, right) === (node.operator === '=='),
+                    position: node.position
+                };
+            }
+
+            if (left.type === right.type && node.operator === '+') {
+                return VectorUtils.add(left, right);
+            }
+
+            if (left.type === right.type && node.operator === '-') {
+                return VectorUtils.subtract(left, right);
+            }
+        }
+
+        if (VectorUtils.isVector(left) && right.type === 'Number') {
+            const scalar = right.value;
+            if (node.operator === '*') return VectorUtils.scale(left, scalar);
+            if (node.operator === '/') return VectorUtils.divide(left, scalar);
+        }
+
+        if (left.type === 'Number' && VectorUtils.isVector(right) && node.operator === '*') {
+            return VectorUtils.scale(right, left.value);
+        }
+
+        if ((node.operator === '==' || node.operator === '!=') && isLeftVector !== isRightVector) {
+            return {
+                type: 'Boolean',
                 value: node.operator === '!=',
                 position: node.position
-            } as BooleanLiteralNode;
+            };
         }
 
-        // TODO - implement vectors
-        throw new RuntimeException(node.left.position, 'Unable to parse binary expression', this._code);
+        throw this.invalidOperator(node, left, right);
     };
 }
\ No newline at end of file
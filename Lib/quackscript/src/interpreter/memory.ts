@@ -1,43 +1,43 @@
 import { DataTypeUtils } from '../utils/dataTypes/dataTypeUtils';
-import standardLibrary from '../stdLibrary/standardLibrary';
-import { MemoryValue, OptionalMemoryValue, OptionalValueNode, Value } from './types';
+import { MemoryUtils } from '../utils/memory/memoryUtils';
+import { Library } from '../stdLibrary/library';
+import { MemoryValue, OptionalMemoryValue, QList, QOptional, QRecord, Scope, Value } from './types';
 import { RuntimeException } from '../exception/RuntimeException';
-
-export type Scope = {
-    subScope: Scope | null,
-    data: Record<string, MemoryValue>
-};
+import { Position } from '../types/Position';
 
 export class Memory {
 
-    private _memory: Scope;
+    private _globalScope: Scope;
+    private _activeScope: Scope;
+    private _library: Library;
 
-    constructor () {
-        this._memory = { subScope: null, data: {
-            ...standardLibrary
-        } };
+    /**
+     * @param library functions the global scope starts with
+     */
+    constructor (library: Library = new Library()) {
+        this._library = library;
+        this._globalScope = { parent: null, data: library.getDeclarations() };
+        this._activeScope = this._globalScope;
     }
 
     public clearMemory() {
-        this._memory = { subScope: null, data: {
-            ...standardLibrary
-        } };
+        this._globalScope = { parent: null, data: this._library.getDeclarations() };
+        this._activeScope = this._globalScope;
     }
 
-    public clearScope() {
-        let scope: Scope | null = this._memory;
-
-        if (scope.subScope === null) {
-            this.clearMemory();
-            return;
-        }
+    /**
+     * Adds a declaration of the library to the global scope
+     */
+    public declareInternal(declaration: MemoryValue) {
+        this._globalScope.data[declaration.identifier] = declaration;
+    }
 
-        do {
-            if (scope.subScope?.subScope === null) {
-                scope.subScope = null;
-            }
-            scope = scope.subScope;
-        } while (scope !== null);
+    /**
+     * Leaves the active scope returning to its parent, the global scope is never left
+     */
+    public clearScope() {
+        if (this._activeScope.parent === null) return;
+        this._activeScope = this._activeScope.parent;
     }
 
     public delete(identifier: string) {
@@ -49,27 +49,98 @@ export class Memory {
 
     /**
      * gets a value from memory
-     * @throws error when variable not in memory
+     * @param position where the variable is used, errors are reported there
+     * @throws RuntimeException when variable not in memory
      */
-    public get(identifier: string): MemoryValue {
-        const allScopes = this.getAllScopesInOrder().reverse();
-        for (const scope of allScopes) {
+    public get(identifier: string, position: Position): MemoryValue {
+        let scope: Scope | null = this._activeScope;
+        while (scope !== null) {
             const value = scope.data[identifier];
             if (value) return value;
+            scope = scope.parent;
         }
-        console.log(this._memory);
-        throw new Error(`Variable '${identifier}' not in memory`);
+        throw new RuntimeException(position, `Variable '${identifier}' not in memory`);
     }
 
-    public createScope() {
-        const scope = this.getActiveScope();
-        scope.subScope = { data: {}, subScope: null};
+    public has(identifier: string): boolean {
+        let scope: Scope | null = this._activeScope;
+        while (scope !== null) {
+            if (scope.data[identifier]) return true;
+            scope = scope.parent;
+        }
+        return false;
     }
 
-    public set(identifier: string, value: MemoryValue) {
-        const scope = this.getActiveScope();
-        const memorySlot = scope.data[identifier];
-        if (memorySlot) throw new Error(`Variable '${identifier}' already exists`);
+    /**
+     * Creates a new scope and makes it the active one
+     * @param parent scope the new scope can see, defaults to the active scope
+     */
+    public createScope(parent: Scope = this._activeScope) {
+        this._activeScope = { data: {}, parent };
+    }
+
+    public getActiveScope() {
+        return this._activeScope;
+    }
+
+    public getGlobalScope() {
+        return this._globalScope;
+    }
+
+    /**
+     * Creates the scope of an imported module and makes it the active one,
+     * modules only see the library and what they declare or import themselves
+     */
+    public createModuleScope() {
+        this._activeScope = { parent: { parent: null, data: this._library.getDeclarations() }, data: {} };
+    }
+
+    /**
+     * Makes a declaration of another scope visible in the active scope, both share it so updates are seen by both.
+     * Binding the same declaration again does nothing, like when two imported modules import the same file
+     * @throws RuntimeException when another declaration has the identifier in the active scope
+     */
+    public bind(declaration: MemoryValue, position: Position) {
+        const data = this.getActiveScope().data;
+        const boundDeclaration = data[declaration.identifier];
+        if (boundDeclaration === declaration) return;
+        if (boundDeclaration) {
+            throw new RuntimeException(position, `Variable '${declaration.identifier}' already exists`);
+        }
+        data[declaration.identifier] = declaration;
+    }
+
+    /**
+     * Makes a previously created scope the active one, used to return to the caller after a function call
+     */
+    public restoreScope(scope: Scope) {
+        this._activeScope = scope;
+    }
+
+    /**
+     * @param position where the variable is declared, a redeclaration is reported there
+     * @param valuePosition where the value is written, a value of the wrong type is reported there
+     */
+    public set(identifier: string, value: MemoryValue, position: Position, valuePosition: Position = position) {
+        this.assign(this.getActiveScope().data, identifier, value, position, valuePosition);
+    }
+
+    /**
+     * Adds a field to a record, fields are type checked the same way as variables
+     * @param position where the value of the field is written
+     */
+    public setField(record: QRecord, value: MemoryValue, position: Position) {
+        this.assign(record.fields, value.identifier, value, position, position);
+    }
+
+    private assign(data: Record<string, MemoryValue>, identifier: string, value: MemoryValue, position: Position, valuePosition: Position) {
+        const memorySlot = data[identifier];
+        if (memorySlot) throw new RuntimeException(position, `Variable '${identifier}' already exists`);
+
+        // values that are already optional (returned from functions or passed as arguments) are unwrapped
+        if (value.value.type === 'Optional') {
+            value = { ...value, value: value.value.value };
+        }
 
         const valueType = DataTypeUtils.valueToDataType(value.value.type);
 
@@ -77,77 +148,117 @@ export class Memory {
         if (dataNodeType === 'optional') {
             dataNodeType = (value as OptionalMemoryValue).internalType;
             if (dataNodeType === 'internalFunc'){
-                throw new RuntimeException(value.value.position, 'Tried to assign internal function');
+                throw new RuntimeException(valuePosition, 'Tried to assign internal function');
             }
 
             if (valueType !== 'nothing' && valueType !== dataNodeType){
-                throw new RuntimeException(value.value.position, `Tried to assign ${valueType} to optional<${dataNodeType}>`);
+                throw new RuntimeException(valuePosition, `Tried to assign ${valueType} to optional<${dataNodeType}>`);
             }
 
-            const valueToSave: OptionalValueNode = {
+            const valueToSave: QOptional = {
                 internalType: dataNodeType,
                 position: value.value.position,
-                type: 'OptionalValue',
+                type: 'Optional',
                 value: value.value
             };
 
-            scope.data[identifier] = {
+            data[identifier] = {
                 ...value,
                 value: valueToSave
             };
-            console.log(value.value);
             return;
         }
 
         if (dataNodeType !== valueType) {
-            throw new Error(`Tried to assign '${valueType}' to a '${dataNodeType}'`);
+            throw new RuntimeException(valuePosition, `Tried to assign ${valueType} to ${dataNodeType}`);
+        }
+
+        if (dataNodeType === 'list') {
+            this.checkListType(value.value as QList, value, valuePosition);
         }
 
-        scope.data[identifier] = value;
+        if (value.signature && !DataTypeUtils.isValueOfType(value.value, value.signature)) {
+            throw new RuntimeException(valuePosition,
+                `Tried to assign ${DataTypeUtils.valueTypeToText(value.value)} to a ${DataTypeUtils.typeToText(value.signature)}`);
+        }
+
+        data[identifier] = value;
     }
 
-    public update(identifier: string, value: Value) {
-        const memoryItem = this.get(identifier);
+    /**
+     * Updates a variable, the value is type checked against its declaration
+     * @param position where the variable is assigned, errors about the variable are reported there
+     * @param valuePosition where the value is written, a value of the wrong type is reported there
+     * @throws RuntimeException when the variable is not in memory, can't be updated or the value is of another type
+     */
+    public update(identifier: string, value: Value, position: Position, valuePosition: Position) {
+        const memoryItem = this.get(identifier, position);
 
-        if (!memoryItem) throw new Error(`variable '${identifier}' does not exists`);
-        if (memoryItem.declarationType === 'constant') throw new Error(`Tried to update constant '${identifier}'`);
-        if (memoryItem.declarationType === 'argument') throw new Error(`Tried to update argument '${identifier}'`);
+        if (memoryItem.declarationType === 'constant') throw new RuntimeException(position, `Tried to update constant '${identifier}'`);
+        if (memoryItem.declarationType === 'argument') throw new RuntimeException(position, `Tried to update argument '${identifier}'`);
+        this.updateValue(memoryItem, value, valuePosition);
+    }
+
+    /**
+     * Updates the field of a record, fields are type checked the same way as variables
+     * @param position where the field is named, errors about the field are reported there
+     * @param valuePosition where the value is written, a value of the wrong type is reported there
+     * @throws RuntimeException when the field is not part of the record or is constant
+     */
+    public updateField(record: QRecord, identifier: string, value: Value, position: Position, valuePosition: Position) {
+        const field = record.fields[identifier];
+        if (!field) {
+            throw new RuntimeException(position,
+                `Field '${identifier}' is not part of ${DataTypeUtils.valueTypeToText(record)}`);
+        }
+        // functions of host modules can't be replaced
+        if (field.declarationType === 'constant') {
+            throw new RuntimeException(position, `Tried to update constant field '${identifier}'`);
+        }
+        this.updateValue(field, value, valuePosition);
+    }
+
+    private updateValue(memoryItem: MemoryValue, value: Value, position: Position) {
         const type = DataTypeUtils.valueToDataType(value.type);
 
         if (memoryItem.type === 'optional' && 
             (memoryItem.internalType === type || type === 'nothing')
         ){
-            (memoryItem.value as OptionalValueNode).value = value;
+            // a new optional is saved, values in memory are never changed in place
+            memoryItem.value = { ...(memoryItem.value as QOptional), value };
             return;
         }
 
-        if (memoryItem.type !== type) throw new Error(`Tried to assign '${type}' to a '${memoryItem.type}'`);
+        if (memoryItem.type !== type) {
+            throw new RuntimeException(position, `Tried to assign ${type} to ${MemoryUtils.typeToText(memoryItem)}`);
+        }
+        if (memoryItem.type === 'list') {
+            this.checkListType(value as QList, memoryItem, position);
+        }
+        if (memoryItem.signature && !DataTypeUtils.isValueOfType(value, memoryItem.signature)) {
+            throw new RuntimeException(position,
+                `Tried to assign ${DataTypeUtils.valueTypeToText(value)} to a ${DataTypeUtils.typeToText(memoryItem.signature)}`);
+        }
         memoryItem.value = value;
     }
 
-    private getAllScopesInOrder() {
-        const allScopes:Array<Scope> = [];
-        let currentScope:Scope | null = this._memory;
-        while (currentScope !== null) {
-            allScopes.push(currentScope);
-            currentScope = currentScope.subScope;
+    /**
+     * Checks that the elements of the list match the declared type, empty lists adopt it.
+     * Lists of lists give their nested lists the declared type, their elements are checked with the signature
+     * @throws RuntimeException when the list is of a different type
+     */
+    private checkListType(list: QList, { internalType, signature }: MemoryValue, position: Position) {
+        if (internalType === null || internalType === 'internalFunc') {
+            throw new RuntimeException(position, 'Lists must declare the type of their elements');
         }
-        return allScopes;
-    }
 
-    private getActiveScope(){
-        let scope: Scope | null = this._memory;
-        do {
-            if (scope.subScope === null){
-                return scope;
-            }
-            scope = scope.subScope;
-        } while (scope !== null);
-        return scope;
-    }
+        if (list.internalType === null) {
+            list.internalType = internalType;
+        } else if (list.internalType !== internalType) {
+            throw new RuntimeException(position, `Tried to assign list<${list.internalType}> to list<${internalType}>`);
+        }
 
-    public printMemory() {
-        console.log(this._memory);
+        if (signature) DataTypeUtils.conformList(list, signature);
     }
 }
 
@@ -1,6 +1,5 @@
 export type StateType = 'topLevel' | 'function' | 'while' | 'for';
 
-// TODO - fix issue with nested function returns
 export class State {
     private _stateStack: Array<StateType>;
 
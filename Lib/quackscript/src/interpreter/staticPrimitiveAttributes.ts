@@ -1,8 +1,28 @@
 import { RuntimeException } from '../exception/RuntimeException';
 import { DataTypes, IdentifierNode } from '../parser/types';
+import { Position } from '../types/Position';
 import { DataTypeUtils } from '../utils/dataTypes/dataTypeUtils';
 import { MemoryUtils } from '../utils/memory/memoryUtils';
-import { MemoryValue, OptionalValueNode, Value } from './types';
+import { ValueUtils } from '../utils/value/valueUtils';
+import { VectorUtils, VectorValue } from '../utils/vector/vectorUtils';
+import { FunctionCaller, MemoryValue, QList, QNumber, QOptional, QVector3, Value } from './types';
+
+/**
+ * Describes a function of a primitive, they are executed by executeStaticFunction instead of their implementation
+ */
+const declareStaticFunction = (identifier: string, params: Array<{ identifier: string, dataType: DataTypes }>): MemoryValue => (
+    MemoryUtils.convertToInternalFunc({
+        identifier,
+        params: params.map((param) => ({
+            identifier: param.identifier,
+            dataType: { type: 'DataType', value: param.dataType, position: { globalChar: 1, line: 1, lineChar: 1 } }
+        })),
+        returnType: null,
+        implementation: () => {
+            throw new Error(`'${identifier}' is executed as a static function`);
+        }
+    })
+);
 
 const staticAttributeMap: Record<DataTypes, Record<string, MemoryValue>> = {
     'number': {
@@ -12,58 +32,252 @@ const staticAttributeMap: Record<DataTypes, Record<string, MemoryValue>> = {
     'func': {
     },
     'list': {
+        'length': declareStaticFunction('length', []),
+        'push': declareStaticFunction('push', []),
+        'pop': declareStaticFunction('pop', []),
+        'map': declareStaticFunction('map', []),
+        'filter': declareStaticFunction('filter', []),
+        'reduce': declareStaticFunction('reduce', []),
+        'contains': declareStaticFunction('contains', []),
+        'slice': declareStaticFunction('slice', []),
     },
     'nothing': {
     },
+    'record': {
+    },
+    'type': {
+    },
     'optional': {
-        'unwrap': MemoryUtils.convertToInternalFunc('unwrap', [])
+        'unwrap': declareStaticFunction('unwrap', [])
     },
     'text': {
     },
     'vector2': {
+        'length': declareStaticFunction('length', []),
+        'normalize': declareStaticFunction('normalize', []),
+        'dot': declareStaticFunction('dot', [{ identifier: 'other', dataType: 'vector2' }]),
     },
     'vector3': {
+        'length': declareStaticFunction('length', []),
+        'normalize': declareStaticFunction('normalize', []),
+        'dot': declareStaticFunction('dot', [{ identifier: 'other', dataType: 'vector3' }]),
+        'cross': declareStaticFunction('cross', [{ identifier: 'other', dataType: 'vector3' }]),
     },
 };
 
 const commonStaticAttributeMap: Record<string, MemoryValue> = {
-    'toText': MemoryUtils.convertToInternalFunc('toText', []),
+    'toText': declareStaticFunction('toText', []),
 };
 
-const executeStaticOptionalFunction = (identifier: IdentifierNode, value: OptionalValueNode):Value => {
+const executeStaticOptionalFunction = (identifier: IdentifierNode, value: QOptional):Value => {
     const dataType = DataTypeUtils.valueToDataType(value.type);
     switch (identifier.value){
     case 'unwrap':
-        if (value.value.type === 'NothingLiteral') {
-            throw new Error('Unwrapped a optional with nothing inside');
+        if (value.value.type === 'Nothing') {
+            throw new RuntimeException(identifier.position, 'Unwrapped a optional with nothing inside');
         }
         return value.value;
     }
     throw new RuntimeException(value.position, `Attribute '${identifier.value}' is not part of ${dataType}`);
 };
 
-const executeStaticFunction = (identifier: IdentifierNode, value: Value):Value => {
+/**
+ * Checks the arguments of an attribute function, errors of an argument are reported where it is written
+ */
+const getArgs = (identifier: IdentifierNode, args: Array<Value>, argPositions: Array<Position>, expectedTypes: Array<DataTypes | null>) => {
+    if (args.length !== expectedTypes.length) {
+        throw new RuntimeException(identifier.position,
+            `'${identifier.value}' expects ${expectedTypes.length} arguments but got ${args.length} arguments`);
+    }
+
+    args.forEach((arg, i) => {
+        const expectedType = expectedTypes[i];
+        const type = DataTypeUtils.valueToDataType(arg.type);
+        if (expectedType && expectedType !== type) {
+            throw new RuntimeException(argPositions[i] ?? identifier.position, `Expected argument of type ${expectedType} but got ${type}`);
+        }
+    });
+
+    return args;
+};
+
+const executeStaticListFunction = (
+    identifier: IdentifierNode,
+    list: QList,
+    args: Array<Value>,
+    argPositions: Array<Position>,
+    callFunction: FunctionCaller
+): Value => {
+    const position = identifier.position;
+
+    switch (identifier.value) {
+    case 'length':
+        getArgs(identifier, args, argPositions, []);
+        return { type: 'Number', value: list.values.length, position };
+    case 'push': {
+        const [value] = getArgs(identifier, args, argPositions, [list.internalType]) as [Value];
+        if (list.elementType && !DataTypeUtils.isValueOfType(value, list.elementType)) {
+            throw new RuntimeException(argPositions[0] ?? position, `Expected argument of type ${
+                DataTypeUtils.typeToText(list.elementType)} but got ${DataTypeUtils.valueTypeToText(value)}`);
+        }
+
+        list.internalType = list.internalType ?? DataTypeUtils.valueToDataType(value.type);
+        if (value.type === 'List') {
+            if (list.elementType) DataTypeUtils.conformList(value, list.elementType);
+            else list.elementType = DataTypeUtils.getListType(value);
+        }
+        list.values.push(value);
+        return ValueUtils.nothing(position);
+    }
+    case 'pop': {
+        getArgs(identifier, args, argPositions, []);
+        const value = list.values.pop();
+        if (!value) throw new RuntimeException(position, 'Tried to pop from an empty list');
+        return value;
+    }
+    case 'map': {
+        const [fn] = getArgs(identifier, args, argPositions, ['func']) as [Value];
+        const values = list.values.map((item) => callFunction(fn, [item], position));
+        const [firstValue] = values;
+        const internalType = firstValue ? DataTypeUtils.valueToDataType(firstValue.type) : null;
+        if (values.some((item) => DataTypeUtils.valueToDataType(item.type) !== internalType)) {
+            throw new RuntimeException(position, '\'map\' must return values of the same type');
+        }
+        const elementType = firstValue?.type === 'List' ? DataTypeUtils.getListType(firstValue) : null;
+        return { type: 'List', values, internalType, elementType, position };
+    }
+    case 'filter': {
+        const [fn] = getArgs(identifier, args, argPositions, ['func']) as [Value];
+        const values = list.values.filter((item) => {
+            const result = callFunction(fn, [item], position);
+            if (result.type !== 'Boolean') {
+                throw new RuntimeException(position, '\'filter\' must return a boolean');
+            }
+            return result.value;
+        });
+        return { type: 'List', values, internalType: list.internalType, elementType: list.elementType, position };
+    }
+    case 'reduce': {
+        const [fn, initialValue] = getArgs(identifier, args, argPositions, ['func', null]) as [Value, Value];
+        return list.values.reduce((accumulator, item) => callFunction(fn, [accumulator, item], position), initialValue);
+    }
+    case 'contains': {
+        const [value] = getArgs(identifier, args, argPositions, [null]) as [Value];
+        return {
+            type: 'Boolean',
+            value: list.values.some((item) => DataTypeUtils.isEqual(item, value)),
+            position
+        };
+    }
+    case 'slice': {
+        const [start, end] = getArgs(identifier, args, argPositions, ['number', 'number']) as [QNumber, QNumber];
+        return {
+            type: 'List',
+            values: list.values.slice(start.value, end.value),
+            internalType: list.internalType,
+            elementType: list.elementType,
+            position
+        };
+    }
+    }
+    throw new RuntimeException(position, `Attribute '${identifier.value}' is not part of list`);
+};
+
+const executeStaticVectorFunction = (
+    identifier: IdentifierNode,
+    vector: VectorValue,
+    args: Array<Value>,
+    argPositions: Array<Position>
+): Value => {
+    const position = identifier.position;
+    const dataType = DataTypeUtils.valueToDataType(vector.type);
+
+    switch (identifier.value) {
+    case 'length':
+        getArgs(identifier, args, argPositions, []);
+        return { type: 'Number', value: VectorUtils.length(vector), position };
+    case 'normalize': {
+        getArgs(identifier, args, argPositions, []);
+        const length = VectorUtils.length(vector);
+        if (length === 0) throw new RuntimeException(position, 'Tried to normalize a vector of length 0');
+        return VectorUtils.divide(vector, length);
+    }
+    case 'dot': {
+        const [other] = getArgs(identifier, args, argPositions, [dataType]) as [VectorValue];
+        return { type: 'Number', value: VectorUtils.dot(vector, other), position };
+    }
+    case 'cross': {
+        if (vector.type !== 'Vector3') break;
+        const [other] = getArgs(identifier, args, argPositions, ['vector3']) as [QVector3];
+        return VectorUtils.cross(vector, other);
+    }
+    }
+    throw new RuntimeException(position, `Attribute '${identifier.value}' is not part of ${dataType}`);
+};
+
+const executeStaticFunction = (
+    identifier: IdentifierNode,
+    value: Value,
+    args: Array<Value>,
+    callFunction: FunctionCaller,
+    argPositions: Array<Position> = []
+):Value => {
     const dataType = DataTypeUtils.valueToDataType(value.type);
     const fnSignature = getStaticPrimitiveValue(dataType, identifier);
-    if (!fnSignature) throw new RuntimeException(value.position, 'Invalid data type');
+    if (!fnSignature) throw new RuntimeException(identifier.position, `Attribute '${identifier.value}' is not part of ${dataType}`);
 
     switch (identifier.value) {
     case 'toText':
         return DataTypeUtils.convertValueToText(value);
     }
     
-    if (value.type === 'OptionalValue') {
+    if (value.type === 'Optional') {
         return executeStaticOptionalFunction(identifier, value);
     }
+    if (value.type === 'List') {
+        return executeStaticListFunction(identifier, value, args, argPositions, callFunction);
+    }
+    if (VectorUtils.isVector(value)) {
+        return executeStaticVectorFunction(identifier, value, args, argPositions);
+    }
     throw new RuntimeException(value.position, `Attribute '${identifier.value}' is not part of ${dataType}`);
 };
 
+/**
+ * Reads a non function attribute of a primitive value like the components of a vector
+ * @returns null when the value has no such attribute
+ */
+const executeStaticProperty = (identifier: IdentifierNode, value: Value): Value | null => {
+    if (!VectorUtils.isVector(value)) return null;
+
+    const position = value.position;
+    switch (identifier.value) {
+    case 'x':
+        return { type: 'Number', value: value.x, position };
+    case 'y':
+        return { type: 'Number', value: value.y, position };
+    case 'z':
+        return value.type === 'Vector3' ? { type: 'Number', value: value.z, position } : null;
+    }
+    return null;
+};
+
 const getStaticPrimitiveValue = (type: DataTypes, identifier: IdentifierNode) => (
     (commonStaticAttributeMap[identifier.value]) ??
     (staticAttributeMap[type][identifier.value])
 );
 
+/**
+ * Lists the functions every value of the type has, used for completion in editors
+ */
+const getStaticFunctionNames = (type: DataTypes): Array<string> => [
+    ...Object.keys(staticAttributeMap[type]),
+    ...Object.keys(commonStaticAttributeMap),
+];
+
 export const StaticPrimitiveAttributes = {
     getStaticPrimitiveValue,
-    executeStaticFunction
+    getStaticFunctionNames,
+    executeStaticFunction,
+    executeStaticProperty
 };
@@ -1,6 +1,56 @@
-import { Node, DataTypes, FuncDeclarationNode, InternalFuncDeclarationNode, LiteralNode } from '../parser/types';
+import { CodeBlockNode, DataTypeNode, DataTypes, FuncDataType, ListDataType, ModuleNode, ParamsNode, RecordDataType, RecordTypeFieldNode } from '../parser/types';
+import { Diagnostic } from '../types/Diagnostic';
+import { Position } from '../types/Position';
+import { System } from '../system';
 
-export type Value = LiteralNode | FuncDeclarationNode | InternalFuncDeclarationNode | OptionalValueNode;
+/**
+ * A value the code works with while it runs, values are created by the interpreter so running a module never changes its tree
+ */
+export type Value = QNumber | QText | QBoolean | QNothing | QVector2 | QVector3 | QOptional | QList | QRecord | QRecordType |
+    QFunction | QInternalFunction;
+
+export type Scope = {
+    parent: Scope | null,
+    data: Record<string, MemoryValue>
+};
+
+/**
+ * A module imported in the run, every module is loaded before any code runs and executed the first time it is imported
+ */
+export interface ImportedModule {
+    tree: ModuleNode,
+    code: string,
+    // names of the declarations other modules can import
+    exports: Array<string>,
+    // null until the module has been executed
+    scope: Scope | null
+}
+
+/**
+ * What converting values to and from JavaScript needs from the interpreter
+ */
+export interface JsConversionContext {
+    // runs QuackScript functions called from JavaScript
+    callFunction: FunctionCaller,
+    // gets the fields of a record type declared in the code
+    resolveRecordType: (dataType: RecordDataType) => QRecordType,
+    // gives records the record type they are used as, errors are reported at the position
+    conformToType: (value: Value, dataType: DataTypeNode, position: Position) => Value
+}
+
+/**
+ * Context an internal function is called with
+ */
+export interface InternalCallContext extends JsConversionContext {
+    // position of the call, errors point to it
+    position: Position,
+    system: System
+}
+
+/**
+ * Implementation of a function written in JavaScript, it is called with arguments already checked against its parameters
+ */
+export type InternalFunction = (args: Array<Value>, context: InternalCallContext) => Value;
 
 export interface MemoryValue {
     declarationType: 'constant' | 'variable' | 'argument' | 'internal'
@@ -8,6 +58,8 @@ export interface MemoryValue {
     identifier: string,
     value: Value,
     internalType: DataTypes | 'internalFunc' | null,
+    // declared signature of func values, type of record values and of lists of lists, checked on every assignment
+    signature: FuncDataType | RecordDataType | ListDataType | null,
 }
 
 export interface OptionalMemoryValue extends MemoryValue {
@@ -15,7 +67,107 @@ export interface OptionalMemoryValue extends MemoryValue {
     internalType: DataTypes | 'internalFunc',
 }
 
-export interface OptionalValueNode extends Node<'OptionalValue'> {
+interface RuntimeValue<T extends string> {
+    type: T,
+    // where the value was created, errors about the value point to it
+    position: Position
+}
+
+export interface QNumber extends RuntimeValue<'Number'> {
+    value: number
+}
+
+export interface QText extends RuntimeValue<'Text'> {
+    value: string
+}
+
+export interface QBoolean extends RuntimeValue<'Boolean'> {
+    value: boolean
+}
+
+export type QNothing = RuntimeValue<'Nothing'>;
+
+export interface QVector2 extends RuntimeValue<'Vector2'> {
+    x: number,
+    y: number
+}
+
+export interface QVector3 extends RuntimeValue<'Vector3'> {
+    x: number,
+    y: number,
+    z: number
+}
+
+export interface QOptional extends RuntimeValue<'Optional'> {
     value: Value,
     internalType: DataTypes
-}
\ No newline at end of file
+}
+
+export interface QList extends RuntimeValue<'List'> {
+    values: Array<Value>,
+    // null until the type of an empty list is known
+    internalType: DataTypes | null,
+    // only lists of lists have it, their elements are checked against the full type like list<number>
+    elementType: ListDataType | null
+}
+
+export interface QRecord extends RuntimeValue<'Record'> {
+    // fields are stored like variables so their types are checked on every assignment
+    fields: Record<string, MemoryValue>,
+    // null until the record is assigned to a record type
+    recordType: QRecordType | null
+}
+
+export interface QRecordType extends RuntimeValue<'RecordType'> {
+    // null until the type is assigned to a variable
+    name: string | null,
+    fields: Array<RecordTypeFieldNode>
+}
+
+/**
+ * A function declared in the code together with the scope it was declared in
+ */
+export interface QFunction extends RuntimeValue<'Function'> {
+    parameters: ParamsNode | null,
+    returnType: DataTypeNode | null,
+    // return type the type checker inferred when none is declared, only used to describe the function
+    inferredReturnType: DataTypeNode | null,
+    body: CodeBlockNode,
+    closure: Scope
+}
+
+/**
+ * A function of the standard library or registered by the host together with its implementation
+ */
+export interface QInternalFunction extends RuntimeValue<'InternalFunction'> {
+    identifier: string,
+    parameters: ParamsNode | null,
+    returnType: DataTypeNode | null,
+    implementation: InternalFunction
+}
+
+/**
+ * Calls a function value, errors of the arguments are reported at their positions or at the call when they have none
+ */
+export type FunctionCaller = (fn: Value, args: Array<Value>, position: Position, argPositions?: Array<Position>) => Value;
+/**
+ * Outcome of evaluating code in a session, the value is null when the last statement isn't an expression
+ */
+export interface EvaluationResult {
+    value: Value | null,
+    // type of the value the way it is written in code, like list<number>
+    type: string | null,
+    // the value the way quackprint shows it
+    text: string | null,
+    diagnostics: Array<Diagnostic>
+}
+
+/**
+ * A variable or constant declared in the global scope of a session
+ */
+export interface GlobalDeclaration {
+    identifier: string,
+    type: string,
+    isConstant: boolean,
+    value: Value
+}
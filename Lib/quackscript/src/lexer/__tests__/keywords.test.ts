@@ -16,12 +16,34 @@ describe('Keywords - ', () => {
         { value: 'thenA', expectedType: 'IDENTIFIER', isValid: true },
         { value: 'else', expectedType: 'ELSE', isValid: true },
         { value: 'elseA', expectedType: 'IDENTIFIER', isValid: true },
+        { value: 'while', expectedType: 'WHILE', isValid: true },
+        { value: 'whileA', expectedType: 'IDENTIFIER', isValid: true },
+        { value: 'for', expectedType: 'FOR', isValid: true },
+        { value: 'format', expectedType: 'IDENTIFIER', isValid: true },
+        { value: 'break', expectedType: 'BREAK', isValid: true },
+        { value: 'breakA', expectedType: 'IDENTIFIER', isValid: true },
+        { value: 'continue', expectedType: 'CONTINUE', isValid: true },
+        { value: 'continueA', expectedType: 'IDENTIFIER', isValid: true },
+        { value: 'try', expectedType: 'TRY', isValid: true },
+        { value: 'tryA', expectedType: 'IDENTIFIER', isValid: true },
+        { value: 'catch', expectedType: 'CATCH', isValid: true },
+        { value: 'catchA', expectedType: 'IDENTIFIER', isValid: true },
+        { value: 'finally', expectedType: 'FINALLY', isValid: true },
+        { value: 'finallyA', expectedType: 'IDENTIFIER', isValid: true },
+        { value: 'when', expectedType: 'WHEN', isValid: true },
+        { value: 'whenA', expectedType: 'IDENTIFIER', isValid: true },
+        { value: 'type', expectedType: 'TYPE', isValid: true },
+        { value: 'typeA', expectedType: 'IDENTIFIER', isValid: true },
+        { value: 'record', expectedType: 'RECORD_TYPE', isValid: true },
+        { value: 'recordA', expectedType: 'IDENTIFIER', isValid: true },
         { value: 'optional', expectedType: 'OPTIONAL_TYPE', isValid: true },
         { value: 'optionalA', expectedType: 'IDENTIFIER', isValid: true },
         { value: 'number', expectedType: 'NUMBER_TYPE', isValid: true },
         { value: 'numberA', expectedType: 'IDENTIFIER', isValid: true },
         { value: 'text', expectedType: 'TEXT_TYPE', isValid: true },
         { value: 'textA', expectedType: 'IDENTIFIER', isValid: true },
+        { value: 'list', expectedType: 'LIST_TYPE', isValid: true },
+        { value: 'listA', expectedType: 'IDENTIFIER', isValid: true },
         { value: 'boolean', expectedType: 'BOOLEAN_TYPE', isValid: true },
         { value: 'booleanA', expectedType: 'IDENTIFIER', isValid: true },
         { value: 'nothing', expectedType: 'NOTHING', isValid: true },
@@ -34,6 +56,8 @@ describe('Keywords - ', () => {
         { value: 'funcA', expectedType: 'IDENTIFIER', isValid: true },
         { value: 'import', expectedType: 'IMPORT', isValid: true },
         { value: 'importA', expectedType: 'IDENTIFIER', isValid: true },
+        { value: 'export', expectedType: 'EXPORT', isValid: true },
+        { value: 'exportA', expectedType: 'IDENTIFIER', isValid: true },
     ];
 
     test.each(keywordValuesToTest)('Keyword: \'%s\'', ({ value, isValid, expectedType }) => {
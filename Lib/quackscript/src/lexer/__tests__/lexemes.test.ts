@@ -32,8 +32,12 @@ describe('Lexemes - ', () => {
         { value: ']', expectedType: 'SQUARE_BRACKET_CLOSE' },
         { value: '{', expectedType: 'CURLY_BRACKET_OPEN' },
         { value: '}', expectedType: 'CURLY_BRACKET_CLOSE' },
-        { value: '\'test\'', expectedType: 'TEXT_VALUE', expectedParsedValue: 'test' },
-        { value: '"test"', expectedType: 'TEXT_VALUE', expectedParsedValue: 'test' },
+        { value: '\'test\'', expectedType: 'TEXT_VALUE' },
+        { value: '"test"', expectedType: 'TEXT_VALUE' },
+        { value: '"it\'s"', expectedType: 'TEXT_VALUE' },
+        { value: '\'it\\\'s\'', expectedType: 'TEXT_VALUE' },
+        { value: '`multi\nline`', expectedType: 'TEXT_VALUE' },
+        { value: '`${name}`', expectedType: 'TEXT_VALUE' },
         { value: ',', expectedType: 'COMMA' },
         { value: '&&', expectedType: 'AND' },
         { value: '||', expectedType: 'OR' },
@@ -42,13 +46,26 @@ describe('Lexemes - ', () => {
         { value: '>=', expectedType: 'GREATER_THAN_OR_EQUALS' },
         { value: '>', expectedType: 'GREATER_THAN' },
         { value: '!=', expectedType: 'NOT_EQUALS' },
+        { value: '!', expectedType: 'NOT' },
         { value: '==', expectedType: 'EQUALS' },
         { value: 'if', expectedType: 'IF' },
         { value: 'then', expectedType: 'THEN' },
         { value: 'else', expectedType: 'ELSE' },
+        { value: 'while', expectedType: 'WHILE' },
+        { value: 'for', expectedType: 'FOR' },
+        { value: 'try', expectedType: 'TRY' },
+        { value: 'catch', expectedType: 'CATCH' },
+        { value: 'finally', expectedType: 'FINALLY' },
+        { value: 'break', expectedType: 'BREAK' },
+        { value: 'continue', expectedType: 'CONTINUE' },
+        { value: 'when', expectedType: 'WHEN' },
+        { value: 'type', expectedType: 'TYPE' },
+        { value: 'record', expectedType: 'RECORD_TYPE' },
+        { value: '->', expectedType: 'ARROW' },
         { value: 'optional', expectedType: 'OPTIONAL_TYPE' },
         { value: 'number', expectedType: 'NUMBER_TYPE' },
         { value: 'text', expectedType: 'TEXT_TYPE' },
+        { value: 'list', expectedType: 'LIST_TYPE' },
         { value: 'true', expectedType: 'BOOLEAN_VALUE' },
         { value: 'false', expectedType: 'BOOLEAN_VALUE' },
         { value: 'boolean', expectedType: 'BOOLEAN_TYPE' },
@@ -57,6 +74,7 @@ describe('Lexemes - ', () => {
         { value: 'vector3', expectedType: 'VECTOR3' },
         { value: 'func', expectedType: 'FUNC_TYPE' },
         { value: 'import', expectedType: 'IMPORT' },
+        { value: 'export', expectedType: 'EXPORT' },
         { value: '.', expectedType: 'DOT' },
         { value: '?', expectedType: 'QUESTION_MARK' },
         { value: ':', expectedType: 'COLON' },
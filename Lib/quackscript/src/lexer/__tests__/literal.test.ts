@@ -41,4 +41,36 @@ describe('Lexer Literals - ', () => {
         );
         expect(isEqual).toBe(isValid);
     });
-});
\ No newline at end of file
+
+    const textValuesToTest: Array<{
+        value: string,
+        isValid: boolean
+    }> = [
+        { value: '\'it\\\'s\'', isValid: true },
+        { value: '"say \\"quack\\""', isValid: true },
+        { value: '`first\nsecond`', isValid: true },
+        { value: '\'first\nsecond\'', isValid: false },
+        { value: '\'unclosed', isValid: false },
+    ];
+    test.each(textValuesToTest)('Text Literal: \'%s\'', ({ value, isValid }) => {
+        const lexer = new Lexer();
+        const tokens = (() => {
+            try {
+                return lexer.convertToTokens(value);
+            } catch {
+                return [];
+            }
+        })();
+        const isEqual = (
+            tokens[0]?.type === 'TEXT_VALUE' &&
+            tokens[0]?.value === value
+        );
+        expect(isEqual).toBe(isValid);
+    });
+
+    test('tokens after a multi-line text keep their position', () => {
+        const lexer = new Lexer();
+        const outcome = lexer.convertToTokens('`first\nsecond` 🦆');
+        expect(outcome[2]?.position).toEqual({ line: 2, lineChar: 9, globalChar: 16 });
+    });
+});
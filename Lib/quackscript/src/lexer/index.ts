@@ -1,7 +1,10 @@
 import { SyntaxException } from '../exception/SyntaxException';
+import { Diagnostic } from '../types/Diagnostic';
 import { Lexemes } from '../types/Lexemes';
 import { Position } from '../types/Position';
 import { Token } from '../types/Token';
+import { DiagnosticUtils } from '../utils/diagnostic/diagnosticUtils';
+import { TextUtils } from '../utils/text/textUtils';
 import { tokenMap } from './tokenMap';
 
 class ErrorHandler {
@@ -14,12 +17,12 @@ class ErrorHandler {
 
     public pushError(position: Position, value: string) {
         if (this._currentError) {
-            this._currentError.endPosition = { ...position };
+            this._currentError.endPosition = TextUtils.advancePosition(position, value);
             this._currentError.value = this._currentError.value.concat(value);
             return;
         }
         this._currentError = {
-            endPosition: { ...position },
+            endPosition: TextUtils.advancePosition(position, value),
             startPosition: { ...position },
             value
         };
@@ -30,18 +33,23 @@ class ErrorHandler {
 
         this._errorStack.push(
             new SyntaxException(this._currentError.startPosition, 
-                `Invalid character '${this._currentError.value}'`
+                `Invalid character '${this._currentError.value}'`,
+                this._currentError.endPosition
             )
         );
 
         this._currentError = null;
     }
 
+    public getDiagnostics(): Array<Diagnostic> {
+        this.clearCurrentError();
+        return this._errorStack.map((error) => error.toDiagnostic());
+    }
+
     public combineErrors(): string | undefined {
         this.clearCurrentError();
         if (!this._errorStack.length) return;
-        console.log(this._errorStack);
-        return this._errorStack.join('\n\n');
+        return this._errorStack.map((error) => DiagnosticUtils.toText(error.toDiagnostic())).join('\n\n');
     }
 }
 
@@ -60,10 +68,36 @@ export default class Lexer {
         this._errorHandler = new ErrorHandler();
     }
 
-    public convertToTokens(code: string): Array<Token> {
+    /**
+     * @param startPosition position of the first character, used when the code is part of a bigger file
+     * @throws Error with every invalid character found
+     */
+    public convertToTokens(code: string, startPosition?: Position): Array<Token> {
+        this.readTokens(code, startPosition);
+
+        const errors = this._errorHandler.combineErrors();
+        if (errors) {
+            throw new Error(errors);
+        }
+
+        return this._tokens;
+    }
+
+    /**
+     * Same as convertToTokens but invalid characters are skipped and returned as diagnostics
+     */
+    public tokenize(code: string, startPosition?: Position): { tokens: Array<Token>, diagnostics: Array<Diagnostic> } {
+        this.readTokens(code, startPosition);
+        return {
+            tokens: this._tokens,
+            diagnostics: this._errorHandler.getDiagnostics()
+        };
+    }
+
+    private readTokens(code: string, startPosition?: Position) {
         this._errorHandler = new ErrorHandler();
         this._tokens = [];
-        this._position = {
+        this._position = startPosition ? { ...startPosition } : {
             lineChar: 1,
             line: 1,
             globalChar: 1
@@ -80,13 +114,8 @@ export default class Lexer {
                     value: result.value,
                     position: { ...this._position },
                 });
-                this._position.lineChar += result.value.length;
-                this._position.globalChar += result.value.length;
-
-                if (result.token === 'NEW_LINE') {
-                    this._position.lineChar = 1;
-                    this._position.line += 1;
-                }
+                // new lines, comments and multi-line texts can move the position to another line
+                this._position = TextUtils.advancePosition(this._position, result.value);
 
                 code = result.splicedCode;
                 continue tokenLoop;
@@ -100,13 +129,6 @@ export default class Lexer {
             }
             code = code.substring(1);
         }
-
-        const errors = this._errorHandler.combineErrors();
-        if (errors) {
-            throw new Error(errors);
-        }
-
-        return this._tokens;
     }
 
     private parseToken = (data: string, token: Lexemes) => {
@@ -116,10 +138,6 @@ export default class Lexer {
         const result = this.extractTokenWithRegex(data, regexToExecute);
         if (!result) return;
 
-        if (token === 'TEXT_VALUE' && result.matchedValue) {
-            result.matchedValue = result.matchedValue.replace(/'|"/g, '');
-        }
-
         return {
             token,
             value: result.matchedValue,
@@ -15,6 +15,8 @@ export const tokenMap: Record<Lexemes, Array<RegExp>> = {
 
     'TERMINATOR': [/^🦆/],
 
+    'ARROW': [/^->/],
+
     'SUBTRACTION': [/^-/],
 
     'MULTIPLICATION': [/^\*/],
@@ -44,8 +46,9 @@ export const tokenMap: Record<Lexemes, Array<RegExp>> = {
     'CURLY_BRACKET_CLOSE': [/^}/],
 
     'TEXT_VALUE': [
-        /^'.*?'/,
-        /^".*?"/,
+        /^'(?:[^'\\\n]|\\.)*'/,
+        /^"(?:[^"\\\n]|\\.)*"/,
+        /^`(?:[^`\\]|\\[\s\S])*`/,
     ],
 
     'COMMA': [/^,/],
@@ -64,6 +67,8 @@ export const tokenMap: Record<Lexemes, Array<RegExp>> = {
 
     'NOT_EQUALS': [/^!=/],
 
+    'NOT': [/^!/],
+
     'EQUALS': [/^==/],
 
     'IF': [/^if(?=[^a-zA-Z0-9]|$)/],
@@ -72,8 +77,30 @@ export const tokenMap: Record<Lexemes, Array<RegExp>> = {
 
     'ELSE': [/^else(?=[^a-z-A-Z0-9]|$)/],
 
+    'WHILE': [/^while(?=[^a-zA-Z0-9]|$)/],
+
+    'FOR': [/^for(?=[^a-zA-Z0-9]|$)/],
+
+    'BREAK': [/^break(?=[^a-zA-Z0-9]|$)/],
+
+    'CONTINUE': [/^continue(?=[^a-zA-Z0-9]|$)/],
+
+    'TRY': [/^try(?=[^a-zA-Z0-9]|$)/],
+
+    'CATCH': [/^catch(?=[^a-zA-Z0-9]|$)/],
+
+    'FINALLY': [/^finally(?=[^a-zA-Z0-9]|$)/],
+
+    'WHEN': [/^when(?=[^a-zA-Z0-9]|$)/],
+
+    'TYPE': [/^type(?=[^a-zA-Z0-9]|$)/],
+
     'OPTIONAL_TYPE': [/^optional(?=[^a-zA-Z0-9]|$)/],
 
+    'LIST_TYPE': [/^list(?=[^a-zA-Z0-9]|$)/],
+
+    'RECORD_TYPE': [/^record(?=[^a-zA-Z0-9]|$)/],
+
     'NUMBER_TYPE': [/^number(?=[^a-z-A-Z0-9]|$)/],
 
     'TEXT_TYPE': [/^text(?=[^a-zA-Z0-9]|$)/],
@@ -92,6 +119,8 @@ export const tokenMap: Record<Lexemes, Array<RegExp>> = {
 
     'IMPORT': [/^import(?=[^a-zA-Z0-9]|$)/],
 
+    'EXPORT': [/^export(?=[^a-zA-Z0-9]|$)/],
+
     'DOT': [/^\./],
 
     'QUESTION_MARK': [/^\?/],
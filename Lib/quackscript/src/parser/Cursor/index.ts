@@ -19,6 +19,13 @@ export class Cursor {
         return this._position;
     };
 
+    /**
+     * Moves the cursor back to a position previously returned by getPosition
+     */
+    public setPosition = (position: number) => {
+        this._position = position;
+    };
+
     public readCurrentToken = () => {
         return this._tokens[this._position];
     };
@@ -1,20 +1,40 @@
 import { ParseException } from '../../exception/ParseException';
-import { DataTypeLexemes } from '../../types/Lexemes';
+import { Diagnostic, DiagnosticCode, DiagnosticCodes } from '../../types/Diagnostic';
+import { DataTypeLexemes, Lexemes } from '../../types/Lexemes';
 import { Token } from '../../types/Token';
 import { DataTypeUtils } from '../../utils/dataTypes/dataTypeUtils';
+import { TextUtils } from '../../utils/text/textUtils';
 import { Cursor } from '../Cursor';
-import { AssignmentOperatorNode, BooleanLiteralNode, DataTypeNode, IdentifierNode, LiteralNode, MathematicalOperatorTypes, NothingLiteralNode, NumberLiteralNode, OptionalDataType, TerminatorNode, TextLiteralNode } from '../types';
+import { AssignmentOperatorNode, BooleanLiteralNode, DataTypeNode, FuncDataType, IdentifierNode, ListDataType, LiteralNode, Node, NothingLiteralNode, NumberLiteralNode, OperatorTypes, OptionalDataType, RecordDataType, TerminatorNode, TextLiteralNode } from '../types';
 
 export class TerminalParser {
 
     protected _cursor: Cursor;
-    protected _errors:Array<string>;
+    protected _errors:Array<Diagnostic>;
 
     constructor() {
         this._cursor = new Cursor([]);
         this._errors = [];
     }
 
+    /**
+     * Creates an error spanning the current token, or the last token when all of them have been read
+     */
+    protected errorAtCurrentToken = (message: string, code: DiagnosticCode = DiagnosticCodes.UnexpectedToken): ParseException => {
+        const token = this._cursor.readCurrentToken();
+        if (!token) return new ParseException(this._cursor.getCurrentPositionOrLastVisited(), message, code);
+        return new ParseException(token.position, message, code, TextUtils.advancePosition(token.position, token.value));
+    };
+
+    /**
+     * Marks the node as ending right after the last token read
+     */
+    protected endNode = <T extends Node | null>(node: T): T => {
+        const lastToken = this._cursor.lookAhead(-1);
+        if (node && lastToken) node.end = TextUtils.advancePosition(lastToken.position, lastToken.value);
+        return node;
+    };
+
     /*
         <terminator> := 🦆
     */
@@ -42,7 +62,7 @@ export class TerminalParser {
         
         if (this.isOperator(token)){ 
             this._cursor.advanceCursor(1);
-            return token.value as MathematicalOperatorTypes;
+            return token.value as OperatorTypes;
         }
 
         return null;
@@ -77,17 +97,22 @@ export class TerminalParser {
                 value: Number(token.value),
                 position: token.position,
             };
-            return value;
+            return this.endNode(value);
         }
 
         if (token.type === 'TEXT_VALUE'){
+            const segments = TextUtils.parseTextLiteral(token.value, token.position);
+            const [segment] = segments;
+            if (segments.length > 1 || segment?.type !== 'text') {
+                throw new ParseException(token.position, 'Interpolated text can only be used as an expression');
+            }
             this._cursor.advanceCursor(1);
             const value:TextLiteralNode = {
                 type: 'TextLiteral',
-                value: token.value,
+                value: segment.value,
                 position: token.position
             };
-            return value;
+            return this.endNode(value);
         }
 
         if (token.type === 'BOOLEAN_VALUE'){
@@ -103,7 +128,7 @@ export class TerminalParser {
                 value: value,
                 position: token.position
             };
-            return literalValue;
+            return this.endNode(literalValue);
         }
 
         if (token.type === 'NOTHING'){
@@ -112,10 +137,10 @@ export class TerminalParser {
                 type: 'NothingLiteral',
                 position: token.position
             };
-            return value;
+            return this.endNode(value);
         }
 
-        // TODO - add vector literals
+        // vector literals are parsed as expressions since their components can be any expression
 
         return null;
     };
@@ -133,11 +158,11 @@ export class TerminalParser {
             position: token.position
         };
         this._cursor.advanceCursor(1);
-        return node;
+        return this.endNode(node);
     };
 
-    // <optional-type> := <less-than> <data-type> <more-than>
-    protected optionalDataType = (): OptionalDataType | null => {
+    // <generic-type> := <less-than> <data-type> <more-than>
+    private genericType = (): DataTypeNode | null => {
         const lessThanToken = this._cursor.readCurrentToken();
         if (lessThanToken?.type !== 'LESS_THAN') return null;
         this._cursor.advanceCursor(1);
@@ -152,20 +177,112 @@ export class TerminalParser {
         this._cursor.advanceCursor(1);
 
         return {
-            internalType: type.value,
+            ...type,
             position: lessThanToken.position,
+        };
+    };
+
+    // <optional-type> := <optional> <generic-type>
+    protected optionalDataType = (): OptionalDataType | null => {
+        const type = this.genericType();
+        if (!type) return null;
+
+        return {
+            internalType: type.value,
+            position: type.position,
             type: 'DataType',
             value: 'optional'
         };
     };
 
+    // <list-type> := <list> <generic-type>
+    protected listDataType = (): ListDataType | null => {
+        const type = this.genericType();
+        if (!type) return null;
+
+        return {
+            internalType: type.value,
+            elementType: type,
+            position: type.position,
+            type: 'DataType',
+            value: 'list'
+        };
+    };
+
+    // <func-type> := <func> <less-than> <bracket-open> <data-type-list> <bracket-close> <more-than> <data-type> <more-than>
+    protected funcDataType = (): FuncDataType | null => {
+        const lessThanToken = this._cursor.readCurrentToken();
+        if (lessThanToken?.type !== 'LESS_THAN') return null;
+        this._cursor.advanceCursor(1);
+
+        this.expectToken('BRACKET_OPEN', '(');
+        const parameters: Array<DataTypeNode> = [];
+        while (this._cursor.readCurrentToken()?.type !== 'BRACKET_CLOSE') {
+            if (parameters.length) {
+                this.expectToken('COMMA', ',');
+            }
+            const parameter = this.dataType();
+            if (!parameter) {
+                throw new ParseException(this._cursor.getCurrentPositionOrLastVisited(),
+                    `Expected data type but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`);
+            }
+            parameters.push(parameter);
+        }
+        this.expectToken('BRACKET_CLOSE', ')');
+        this.expectToken('GREATER_THAN', '>');
+
+        const returnType = this.dataType();
+        if (!returnType) {
+            throw new ParseException(this._cursor.getCurrentPositionOrLastVisited(),
+                `Expected return type but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`);
+        }
+        this.expectToken('GREATER_THAN', '>');
+
+        return {
+            type: 'DataType',
+            value: 'func',
+            parameters,
+            returnType,
+            position: lessThanToken.position
+        };
+    };
+
+    protected expectToken = (type: Lexemes, value: string) => {
+        const token = this._cursor.readCurrentToken();
+        if (token?.type !== type) {
+            throw new ParseException(this._cursor.getCurrentPositionOrLastVisited(),
+                `Expected ${value} but found ${token?.value ?? 'EOF'}`);
+        }
+        this._cursor.advanceCursor(1);
+        return token;
+    };
+
     protected dataType = (): DataTypeNode | null => {
         const possibleDataType = this._cursor.readCurrentToken();
         if (!possibleDataType) return null;
 
         if (possibleDataType.type === 'OPTIONAL_TYPE'){
             this._cursor.advanceCursor(1);
-            return this.optionalDataType();
+            return this.endNode(this.optionalDataType());
+        }
+        if (possibleDataType.type === 'LIST_TYPE'){
+            this._cursor.advanceCursor(1);
+            return this.endNode(this.listDataType());
+        }
+        if (possibleDataType.type === 'FUNC_TYPE' && this._cursor.lookAhead(1)?.type === 'LESS_THAN'){
+            this._cursor.advanceCursor(1);
+            return this.endNode(this.funcDataType());
+        }
+        // identifiers reference record types declared with type { }
+        if (possibleDataType.type === 'IDENTIFIER'){
+            this._cursor.advanceCursor(1);
+            const recordDataType: RecordDataType = {
+                type: 'DataType',
+                value: 'record',
+                name: possibleDataType.value,
+                position: possibleDataType.position
+            };
+            return this.endNode(recordDataType);
         }
         if (!(possibleDataType.type in DataTypeUtils.lexemeToDataTypeMap)) {
             return null;
@@ -173,11 +290,11 @@ export class TerminalParser {
 
         this._cursor.advanceCursor(1);
         const dataType = DataTypeUtils.lexemeToDataTypeMap[possibleDataType.type as DataTypeLexemes];
-        return {
+        return this.endNode({
             type: 'DataType',
             value: dataType,
             position: possibleDataType.position
-        };
+        });
     };
 
     // <dataType> := <colon> <data-type> | <optional-type>
@@ -0,0 +1,56 @@
+import Parser from '..';
+import Lexer from '../../lexer';
+import { ExpressionNode } from '../types';
+
+const parseExpression = (code: string) => (
+    (new Parser().parse(new Lexer().convertToTokens(code)).statements[0]?.body as ExpressionNode).body
+);
+
+describe('Parser Call Expressions - ', () => {
+
+    test('functions returned by an index can be called', () => {
+        expect(parseExpression('fns[0](1)🦆')).toMatchObject({
+            type: 'CallExpression',
+            position: { line: 1, lineChar: 7 },
+            expression: { body: { type: 'IndexExpression', expression: { body: { type: 'Identifier', value: 'fns' } } } },
+            params: { args: [{ body: { type: 'NumberLiteral' } }] }
+        });
+    });
+
+    test('calls can be chained', () => {
+        expect(parseExpression('make()()(2)🦆')).toMatchObject({
+            type: 'CallExpression',
+            params: { args: [{ body: { type: 'NumberLiteral' } }] },
+            expression: {
+                body: {
+                    type: 'CallExpression',
+                    params: null,
+                    expression: { body: { type: 'FuncCallNode', identifier: { value: 'make' } } }
+                }
+            }
+        });
+    });
+
+    test('functions returned by the functions of a record can be called', () => {
+        expect(parseExpression('duck.make()()🦆')).toMatchObject({
+            type: 'CallExpression',
+            expression: { body: { type: 'AccessorExpression', value: { type: 'FuncCallNode' } } }
+        });
+    });
+
+    test('calls can be followed by indexes and accessors and used in other expressions', () => {
+        expect(parseExpression('1 + fns[0]()[1].length()🦆')).toMatchObject({
+            type: 'BinaryExpression',
+            right: {
+                body: {
+                    type: 'AccessorExpression',
+                    expression: { body: { type: 'IndexExpression', expression: { body: { type: 'CallExpression' } } } }
+                }
+            }
+        });
+    });
+
+    test('the arguments must be closed', () => {
+        expect(() => parseExpression('fns[0](1🦆')).toThrow('Expected ) but found 🦆');
+    });
+});
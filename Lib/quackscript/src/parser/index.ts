@@ -1,31 +1,120 @@
 import { ParseException } from '../exception/ParseException';
+import { Diagnostic, DiagnosticCodes } from '../types/Diagnostic';
+import Lexer from '../lexer';
+import { Lexemes } from '../types/Lexemes';
+import { Position } from '../types/Position';
 import { Token } from '../types/Token';
+import { DiagnosticUtils } from '../utils/diagnostic/diagnosticUtils';
+import { TextUtils } from '../utils/text/textUtils';
 import { Cursor } from './Cursor';
 import { TerminalParser } from './TerminalParser';
 import { 
-    AssignmentNode, BinaryExpressionNode, 
+    AssignmentNode, BinaryExpressionNode, DataTypeNode,
     DeclarationNode, ExpressionNode,
     FuncCallNode,
     ModuleNode,
+    ParseResult,
     ArgsNode,
     StatementNode, FuncDeclarationNode, CodeBlockNode, ParamsNode, ReturnStatementNode,
     TextLiteralNode, NothingLiteralNode, IfStatementNode,
     ImportStatementNode, 
     AccessorExpressionNode,
     ParamNode,
+    IdentifierNode,
+    WhileStatementNode,
+    ForStatementNode,
+    TryStatementNode,
+    BreakStatementNode,
+    ContinueStatementNode,
+    ListLiteralNode,
+    IndexExpressionNode,
+    CallExpressionNode,
+    IndexAssignmentNode,
+    VectorConstructorNode,
+    OperatorTypes,
+    UnaryExpressionNode,
+    ConditionalExpressionNode,
+    WhenExpressionNode,
+    WhenCaseNode,
+    TextTemplateNode,
+    RecordLiteralNode,
+    RecordFieldNode,
+    RecordTypeNode,
+    RecordTypeFieldNode,
+    FieldAssignmentNode,
 } from './types';
 
+const operatorPrecedence: Record<OperatorTypes, number> = {
+    '||': 1,
+    '&&': 2,
+    '==': 3,
+    '!=': 3,
+    '<': 4,
+    '<=': 4,
+    '>': 4,
+    '>=': 4,
+    '+': 5,
+    '-': 5,
+    '*': 6,
+    '/': 6,
+    '%': 6,
+};
+
+// tokens a statement can start with, used to find where the next statement starts after an error
+const statementKeywords: Array<Lexemes> = ['ASSIGNMENT_LET', 'ASSIGNMENT_CONST', 'IF', 'WHILE', 'FOR', 'BREAK', 'CONTINUE', 'RETURN', 'IMPORT', 'EXPORT', 'TRY'];
+
+const excludeIgnoredTokens = (tokens: Array<Token>) => tokens
+    .filter((t) => t.type !== 'WHITESPACE' && t.type !== 'NEW_LINE')
+    .filter((t) => t.type !== 'COMMENT_SHORT' && t.type !== 'COMMENT_LONG');
 
 export default class Parser extends TerminalParser {
 
-    public parse = (tokens: Array<Token>) => {
-        const excludedWhiteSpace = tokens
-            .filter((t) => t.type !== 'WHITESPACE' && t.type !== 'NEW_LINE')
-            .filter((t) => t.type !== 'COMMENT_SHORT' && t.type !== 'COMMENT_LONG');
+    // amount of loops wrapping the statement being parsed, reset when entering a function body
+    private _loopDepth = 0;
+
+    // amount of code blocks wrapping the statement being parsed, exports are only allowed outside of them
+    private _blockDepth = 0;
+
+    // cursor position where the last block missing its } was closed, the statement ending there doesn't need a 🦆
+    private _recoveredBlockEnd: number | null = null;
+
+    /**
+     * @throws Error with every parse error found
+     */
+    public parse = (tokens: Array<Token>): ModuleNode => {
+        const { ast, diagnostics } = this.parseModule(tokens);
+        if (diagnostics.length) {
+            throw new Error(diagnostics.map(DiagnosticUtils.toText).join('\n\n'));
+        }
+
+        return ast;
+    };
+
+    /**
+     * Parses a data type written the same way as in declarations, like list<number>
+     * @throws ParseException when the tokens are not a single data type
+     */
+    public parseDataType = (tokens: Array<Token>): DataTypeNode => {
+        this._cursor = new Cursor(excludeIgnoredTokens(tokens));
+
+        const dataType = this.dataType();
+        if (!dataType) throw this.errorAtCurrentToken(`Expected data type but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`);
+        if (this._cursor.readCurrentToken()) throw this.errorAtCurrentToken(`Unexpected ${this._cursor.readCurrentToken()?.value} after data type`);
+
+        return dataType;
+    };
+
+    /**
+     * Parses every statement it can, statements with errors are replaced by error nodes and returned as diagnostics
+     */
+    public parseModule = (tokens: Array<Token>): ParseResult => {
+        const excludedWhiteSpace = excludeIgnoredTokens(tokens);
 
-        console.log(excludedWhiteSpace);
         this._cursor = new Cursor(excludedWhiteSpace);
         this._errors = [];
+        this._loopDepth = 0;
+        this._blockDepth = 0;
+        this._recoveredBlockEnd = null;
 
         const module:ModuleNode = {
             type: 'Module',
@@ -38,48 +127,124 @@ export default class Parser extends TerminalParser {
         };
 
         while (!this._cursor.hasReachedEnd()) {
-            try {
-                const nextToken = this._cursor.readCurrentToken();
-                if (!nextToken) throw new Error(`Something has gone wrong handling the cursor at ${this._cursor.getPosition()}`);
-                const nextStatement = this.statement();
+            module.statements.push(this.statementOrError(false));
+        }
 
-                if (nextStatement) {
-                    module.statements.push(nextStatement);
-                } else {
-                    throw new ParseException(nextToken.position, 'Invalid statement');
+        return { ast: module, diagnostics: this._errors };
+    };
+
+    /**
+     * Parses the next statement, when it has errors they are reported and the cursor is moved to where the next statement
+     * should start
+     * @param isInsideBlock stops at the } closing the block being parsed
+     */
+    private statementOrError = (isInsideBlock: boolean): StatementNode => {
+        const statementStart = this._cursor.getPosition();
+        const position = this._cursor.getCurrentPositionOrLastVisited();
+        const declaredIdentifier = this.peekDeclaredIdentifier();
+
+        try {
+            const statement = this.statement();
+            if (!statement) throw this.errorAtCurrentToken('Invalid statement');
+            return statement;
+        } catch (err) {
+            const diagnostic = this.toDiagnostic(err);
+            this._errors.push(diagnostic);
+            this.synchronize(statementStart, isInsideBlock);
+
+            return {
+                type: 'Statement',
+                position,
+                body: {
+                    type: 'Error',
+                    message: diagnostic.message,
+                    identifier: declaredIdentifier,
+                    position: diagnostic.start
                 }
-            } catch (err) {
-                if (err instanceof Error) {
-                    this._errors.push(err.message);
-                } else if (err instanceof ParseException) {
-                    this._errors.push(err.toString());
-                } else {
-                    this._errors.push(JSON.stringify(err));
+            };
+        }
+    };
+
+    /**
+     * Reads the identifier of the declaration starting at the cursor without moving it
+     */
+    private peekDeclaredIdentifier = (): IdentifierNode | null => {
+        const offset = this._cursor.readCurrentToken()?.type === 'EXPORT' ? 1 : 0;
+        const declarator = this._cursor.lookAhead(offset);
+        const identifier = this._cursor.lookAhead(offset + 1);
+        if (declarator?.type !== 'ASSIGNMENT_LET' && declarator?.type !== 'ASSIGNMENT_CONST') return null;
+        if (identifier?.type !== 'IDENTIFIER') return null;
+
+        return { type: 'Identifier', value: identifier.value, position: identifier.position };
+    };
+
+    /**
+     * Moves the cursor past the statement with errors that started at statementStart. It stops after its 🦆, at a
+     * statement keyword starting a line or at the } closing the block. Brackets opened by the statement are skipped
+     * so the 🦆 and } inside of them don't stop it
+     */
+    private synchronize = (statementStart: number, isInsideBlock: boolean) => {
+        // at least one token is skipped so a statement can't fail at the same place forever
+        const errorPosition = Math.max(this._cursor.getPosition(), statementStart + 1);
+        this._cursor.setPosition(statementStart);
+
+        let depth = 0;
+        while (!this._cursor.hasReachedEnd()) {
+            const token = this._cursor.readCurrentToken();
+            if (!token) return;
+
+            if (depth === 0 && this._cursor.getPosition() >= errorPosition) {
+                if (token.type === 'TERMINATOR') {
+                    this._cursor.advanceCursor(1);
+                    return;
                 }
-                this._cursor.skipTo('TERMINATOR');
-                this._cursor.advanceCursor(1);
+                if (token.type === 'CURLY_BRACKET_CLOSE' && isInsideBlock) return;
+                if (statementKeywords.includes(token.type) && this.startsLine()) return;
             }
-        }
 
-        if (this._errors.length) {
-            throw new Error(this._errors.join('\n\n'));
+            if (token.type === 'CURLY_BRACKET_OPEN') depth++;
+            if (token.type === 'CURLY_BRACKET_CLOSE') depth = Math.max(depth - 1, 0);
+            this._cursor.advanceCursor(1);
         }
+    };
+
+    private startsLine = () => {
+        const previousToken = this._cursor.lookAhead(-1);
+        const token = this._cursor.readCurrentToken();
+        return !previousToken || !token || previousToken.position.line < token.position.line;
+    };
+
+    /**
+     * Errors without a position are placed at the token being parsed
+     */
+    private toDiagnostic = (err: unknown): Diagnostic => {
+        if (err instanceof ParseException) return err.toDiagnostic();
 
-        return module;
+        const message = err instanceof Error ? err.message : JSON.stringify(err);
+        return this.errorAtCurrentToken(message).toDiagnostic();
     };
 
     /*
         <statement> := <declaration> <terminator>
+                        | <export-declaration> <terminator>
                         | <assignment> <terminator>
+                        | <index-assignment> <terminator>
+                        | <field-assignment> <terminator>
                         | <expression> <terminator>
                         | <if-statement> <terminator>
+                        | <while-statement> <terminator>
+                        | <for-statement> <terminator>
+                        | <try-statement> <terminator>
+                        | <break-statement> <terminator>
+                        | <continue-statement> <terminator>
                         | <returnStatement> <terminator>
+                        | <import-statement> <terminator>
     */
     private statement = (): StatementNode | null => {
         const firstToken = this._cursor.readCurrentToken();
         if (!firstToken) return null;
 
-        const declaration = this.declaration();
+        const declaration = this.exportDeclaration() ?? this.declaration();
         let generatedNode:StatementNode | null = null;
 
         if (declaration) {
@@ -101,6 +266,39 @@ export default class Parser extends TerminalParser {
             }
         }
 
+        if (!generatedNode) {
+            const loopStatement = this.whileStatement() || this.forStatement();
+            if (loopStatement) {
+                generatedNode = {
+                    body: loopStatement,
+                    type: 'Statement',
+                    position: firstToken.position
+                };
+            }
+        }
+
+        if (!generatedNode) {
+            const tryStatement = this.tryStatement();
+            if (tryStatement) {
+                generatedNode = {
+                    body: tryStatement,
+                    type: 'Statement',
+                    position: firstToken.position
+                };
+            }
+        }
+
+        if (!generatedNode) {
+            const loopControlStatement = this.breakStatement() || this.continueStatement();
+            if (loopControlStatement) {
+                generatedNode = {
+                    body: loopControlStatement,
+                    type: 'Statement',
+                    position: firstToken.position
+                };
+            }
+        }
+
         if (!generatedNode) {
             const assignment = this.assignment();
             if (assignment) {
@@ -116,7 +314,7 @@ export default class Parser extends TerminalParser {
             const expression = this.expression();
             if (expression) {
                 generatedNode = {
-                    body: expression,
+                    body: this.indexAssignment(expression) ?? this.fieldAssignment(expression) ?? expression,
                     type: 'Statement',
                     position: firstToken.position
                 };
@@ -147,11 +345,11 @@ export default class Parser extends TerminalParser {
         }
 
         if (generatedNode) {
+            this.endNode(generatedNode.body);
+            this.endNode(generatedNode);
             const terminalNode = this.terminator();
-            if (!terminalNode) {
-                throw new ParseException(
-                    this._cursor.getCurrentPositionOrLastVisited(),
-                    `Expected '🦆' but found '${this._cursor.readCurrentToken()?.value ?? 'EOF'}'`);
+            if (!terminalNode && this._cursor.getPosition() !== this._recoveredBlockEnd) {
+                throw this.errorAtCurrentToken(`Expected '🦆' but found '${this._cursor.readCurrentToken()?.value ?? 'EOF'}'`);
             }
             return generatedNode;
         }
@@ -160,26 +358,88 @@ export default class Parser extends TerminalParser {
     };
 
     /*
-        <import-statement> := <import> <text-literal> <terminator>
+        <import-names> := <curly-bracket-open> <identifier> { <comma> <identifier> } <curly-bracket-close> from
+        <import-statement> := <import> <text-literal>
+                            | <import> <text-literal> as <identifier>
+                            | <import> <import-names> <text-literal>
     */
     private importStatement = (): ImportStatementNode | null => {
         const token = this._cursor.readCurrentToken();
         if (token?.type !== 'IMPORT') return null;
         this._cursor.advanceCursor(1);
+
+        const names = this.importNames();
         const literalNode = this.literal();
         if (literalNode?.type !== 'TextLiteral') {
-            throw new ParseException(
-                this._cursor.getCurrentPositionOrLastVisited(),
-                'Expected file to import');
+            throw this.errorAtCurrentToken('Expected file to import');
+        }
+
+        let alias: IdentifierNode | null = null;
+        if (!names && this.contextualKeyword('as')) {
+            alias = this.identifier();
+            if (!alias) throw this.errorAtCurrentToken(`Expected namespace name but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`);
         }
 
         return {
             type: 'ImportStatement',
             position: token.position,
-            value: literalNode as TextLiteralNode
+            value: literalNode as TextLiteralNode,
+            names,
+            alias,
         };
     };
 
+    private importNames = (): Array<IdentifierNode> | null => {
+        if (this._cursor.readCurrentToken()?.type !== 'CURLY_BRACKET_OPEN') return null;
+        this._cursor.advanceCursor(1);
+
+        const names: Array<IdentifierNode> = [];
+        while (this._cursor.readCurrentToken()?.type !== 'CURLY_BRACKET_CLOSE') {
+            if (names.length) {
+                this.expectToken('COMMA', ',');
+            }
+            const name = this.identifier();
+            if (!name) throw this.errorAtCurrentToken(`Expected name to import but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`);
+            names.push(name);
+        }
+        this.expectToken('CURLY_BRACKET_CLOSE', '}');
+
+        if (!names.length) throw this.errorAtCurrentToken('Expected at least one name to import');
+        if (!this.contextualKeyword('from')) {
+            throw this.errorAtCurrentToken(`Expected 'from' but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`);
+        }
+        return names;
+    };
+
+    /**
+     * Moves past the identifier when it has the value of the keyword, words like from and as are only keywords in
+     * imports so they can still be used as names
+     */
+    private contextualKeyword = (keyword: string): boolean => {
+        const token = this._cursor.readCurrentToken();
+        if (token?.type !== 'IDENTIFIER' || token.value !== keyword) return false;
+        this._cursor.advanceCursor(1);
+        return true;
+    };
+
+    /*
+        <export-declaration> := <export> <declaration>
+    */
+    private exportDeclaration = (): DeclarationNode | null => {
+        const token = this._cursor.readCurrentToken();
+        if (token?.type !== 'EXPORT') return null;
+        if (this._blockDepth > 0) {
+            throw new ParseException(token.position, 'Only declarations at the top of the file can be exported', DiagnosticCodes.MisplacedExport);
+        }
+        this._cursor.advanceCursor(1);
+
+        const declaration = this.declaration();
+        if (!declaration) {
+            throw this.errorAtCurrentToken(`Expected declaration after export but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`);
+        }
+        return { ...declaration, isExported: true };
+    };
+
     /*
         <code-block> := <curly-bracket-open> <statement> <curly-bracket-open>
     */
@@ -189,21 +449,23 @@ export default class Parser extends TerminalParser {
         this._cursor.advanceCursor(1);
 
         const body: Array<StatementNode> = [];
-        let nextStatement: StatementNode | null = null;
-        do {
-            nextStatement = this.statement();
-            if (nextStatement) {
-                body.push(nextStatement);
+        this._blockDepth += 1;
+        try {
+            while (!this.isBlockEnd()) {
+                body.push(this.statementOrError(true));
             }
-        } while (nextStatement !== null);
+        } finally {
+            this._blockDepth -= 1;
+        }
 
         const rightBracket = this._cursor.readCurrentToken();
-        if (rightBracket?.type !== 'CURLY_BRACKET_CLOSE') {
-            throw new ParseException(
-                this._cursor.getCurrentPositionOrLastVisited(),
-                `Expected } but found ${rightBracket?.value ?? 'EOF'}`);
+        if (rightBracket?.type === 'CURLY_BRACKET_CLOSE') {
+            this._cursor.advanceCursor(1);
+        } else {
+            // the block is closed where its } is missing so the statements it has are kept
+            this._errors.push(this.errorAtCurrentToken(`Expected } but found ${rightBracket?.value ?? 'EOF'}`).toDiagnostic());
+            this._recoveredBlockEnd = this._cursor.getPosition();
         }
-        this._cursor.advanceCursor(1);
 
         return {
             body,
@@ -212,6 +474,15 @@ export default class Parser extends TerminalParser {
         };
     };
 
+    /**
+     * Blocks end at their }, at the end of the file or at a bracket closing the expression they are in,
+     * which can't start a statement
+     */
+    private isBlockEnd = () => {
+        const token = this._cursor.readCurrentToken();
+        return !token || token.type === 'CURLY_BRACKET_CLOSE' || token.type === 'BRACKET_CLOSE' || token.type === 'SQUARE_BRACKET_CLOSE';
+    };
+
     /*
         <params> := <expression> <comma> <params> | <expression>
     */
@@ -232,7 +503,7 @@ export default class Parser extends TerminalParser {
         if (commaToken?.type === 'COMMA') {
             this._cursor.advanceCursor(1);
             const rightParam = this.args();
-            if (!rightParam) throw new Error('Expecting parameter');
+            if (!rightParam) throw this.errorAtCurrentToken('Expecting parameter', DiagnosticCodes.MissingExpression);
             paramNode.args = [...paramNode.args, ...rightParam.args];
         }
 
@@ -247,7 +518,7 @@ export default class Parser extends TerminalParser {
         if (!identifier) return null;
         const dataTypeNode = this.dataTypeDeclaration();
         if (!dataTypeNode) {
-            throw new ParseException(this._cursor.getCurrentPositionOrLastVisited(), 'Parameter must have a data type');
+            throw this.errorAtCurrentToken('Parameter must have a data type');
         }
         return {
             dataType: dataTypeNode,
@@ -285,34 +556,54 @@ export default class Parser extends TerminalParser {
     };
 
     /*
-        <func-declaration> := (:<params>:) :> <code-block>
+        <func-declaration> := (:<params>:) :> <code-block> | (:<params>:) <data-type-declaration> :> <code-block>
     */
     private funcDeclaration = (): FuncDeclarationNode | null => {
         const currentToken = this._cursor.readCurrentToken();
         if (currentToken?.type !== 'BRACKET_OPEN') return null;
+
+        // a bracket can also start a grouped expression, functions start with () or (<identifier>:
+        const firstParamToken = this._cursor.lookAhead(1);
+        const isFuncDeclaration = firstParamToken?.type === 'BRACKET_CLOSE' || (
+            firstParamToken?.type === 'IDENTIFIER' &&
+            this._cursor.lookAhead(2)?.type === 'COLON'
+        );
+        if (!isFuncDeclaration) return null;
     
         this._cursor.advanceCursor(1);
         const params = this.params();
         
         const rightBracket = this._cursor.readCurrentToken();
         if (rightBracket?.type !== 'BRACKET_CLOSE') {
-            throw new Error(`Expecting ) but found ${rightBracket?.value}`);
+            throw this.errorAtCurrentToken(`Expecting ) but found ${rightBracket?.value ?? 'EOF'}`);
         }
         this._cursor.advanceCursor(1);
 
+        const returnType = this.dataTypeDeclaration();
+
         const arrowFunctionOperator = this._cursor.readCurrentToken();
         if (arrowFunctionOperator?.type !== 'GREATER_THAN') {
-            throw new Error(`Expecting > but found ${arrowFunctionOperator?.value}`);
+            throw this.errorAtCurrentToken(`Expecting > but found ${arrowFunctionOperator?.value ?? 'EOF'}`);
         }
         this._cursor.advanceCursor(1);
 
-        const codeBlock = this.codeBlock();
+        // loops outside of the function can't be controlled from its body
+        const outerLoopDepth = this._loopDepth;
+        this._loopDepth = 0;
+        let codeBlock: CodeBlockNode | null = null;
+        try {
+            codeBlock = this.codeBlock();
+        } finally {
+            this._loopDepth = outerLoopDepth;
+        }
+
         if (!codeBlock) {
-            throw new Error(`Expected code block but found ${this._cursor.readCurrentToken()?.value}`);
+            throw this.errorAtCurrentToken(`Expected code block but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`);
         }
 
         return {
             parameters: params,
+            returnType,
             body: codeBlock,
             type: 'FuncDeclaration',
             position: currentToken.position
@@ -342,7 +633,7 @@ export default class Parser extends TerminalParser {
     
         const nextToken = this._cursor.readCurrentToken();
         if (nextToken?.type !== 'BRACKET_CLOSE') {
-            throw new Error(`Expected ) but found ${nextToken?.value}`);
+            throw this.errorAtCurrentToken(`Expected ) but found ${nextToken?.value ?? 'EOF'}`);
         }
         this._cursor.advanceCursor(1);
 
@@ -355,69 +646,522 @@ export default class Parser extends TerminalParser {
     };
 
     /*
-        this is used for binary expression terminal node
-        <terminal-expression> :== <literal> | <identifier>
+        <binary-expression> := <unary-expression> <operator> <binary-expression> | <unary-expression>
+        operators with a higher precedence bind first, operators with the same precedence are left associative
     */
-    private terminalExpression = () => {
-        return this.literal() || this.identifier();
+    private binaryExpression = (minPrecedence = 1): ExpressionNode | null => {
+        let left = this.unaryExpression();
+        if (!left) return null;
+
+        let operatorToken = this._cursor.readCurrentToken();
+        while (
+            operatorToken &&
+            this.isOperator(operatorToken) &&
+            operatorPrecedence[operatorToken.value as OperatorTypes] >= minPrecedence
+        ) {
+            const operator = this.operator();
+            if (!operator) break;
+
+            const right = this.binaryExpression(operatorPrecedence[operator] + 1);
+            if (!right) {
+                throw this.errorAtCurrentToken(`Expected expression after '${operator}' but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`, DiagnosticCodes.MissingExpression);
+            }
+
+            const binaryExpression: BinaryExpressionNode = this.endNode({
+                left,
+                right,
+                operator,
+                type: 'BinaryExpression',
+                position: left.position
+            });
+            left = this.endNode({
+                type: 'Expression',
+                body: binaryExpression,
+                position: left.position
+            });
+
+            operatorToken = this._cursor.readCurrentToken();
+        }
+
+        return left;
     };
 
     /*
-        <binary-expression> :== <terminal-expression> <operator> <expression>
+        <unary-operator> := ! | -
+        <unary-expression> := <unary-operator> <unary-expression> | <postfix-expression>
     */
-    private binaryExpression = (): BinaryExpressionNode | null => {
-        const firstToken = this._cursor.readCurrentToken();
-        const secondToken = this._cursor.lookAhead(1);
-        const thirdToken = this._cursor.lookAhead(2);
-        if (!firstToken || !secondToken || !thirdToken) return null;
+    private unaryExpression = (): ExpressionNode | null => {
+        const token = this._cursor.readCurrentToken();
+        if (token?.type !== 'NOT' && token?.type !== 'SUBTRACTION') {
+            return this.postfixExpression();
+        }
+        this._cursor.advanceCursor(1);
+
+        const value = this.unaryExpression();
+        if (!value) {
+            throw this.errorAtCurrentToken(`Expected expression after '${token.value}' but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`, DiagnosticCodes.MissingExpression);
+        }
+
+        const unaryExpression: UnaryExpressionNode = this.endNode({
+            type: 'UnaryExpression',
+            operator: token.type === 'NOT' ? '!' : '-',
+            value,
+            position: token.position
+        });
+
+        return this.endNode({
+            type: 'Expression',
+            body: unaryExpression,
+            position: token.position
+        });
+    };
+
+    /*
+        <grouped-expression> := <bracket-open> <expression> <bracket-close>
+    */
+    private groupedExpression = (): ExpressionNode['body'] | null => {
+        const token = this._cursor.readCurrentToken();
+        if (token?.type !== 'BRACKET_OPEN') return null;
+        this._cursor.advanceCursor(1);
 
-        if (!this.isOperator(secondToken)) return null;
+        const expression = this.expression();
+        if (!expression) {
+            throw this.errorAtCurrentToken(`Expected expression but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`, DiagnosticCodes.MissingExpression);
+        }
 
-        const parsedFirstToken = this.terminalExpression();
-        if (!parsedFirstToken) return null;
+        const closingBracket = this._cursor.readCurrentToken();
+        if (closingBracket?.type !== 'BRACKET_CLOSE') {
+            throw this.errorAtCurrentToken(`Expected ) but found ${closingBracket?.value ?? 'EOF'}`);
+        }
+        this._cursor.advanceCursor(1);
+
+        return expression.body;
+    };
+
+    /*
+        <list-literal> := <square-bracket-open> <args> <square-bracket-close> | <square-bracket-open> <square-bracket-close>
+    */
+    private listLiteral = (): ListLiteralNode | null => {
+        const token = this._cursor.readCurrentToken();
+        if (token?.type !== 'SQUARE_BRACKET_OPEN') return null;
+        this._cursor.advanceCursor(1);
 
-        const parsedSecondToken = this.operator(); // TODO - cursor has advanced revert back?
-        if (!parsedSecondToken) return null;
+        const args = this.args();
 
-        const parsedThirdToken = this.expression();
-        if (!parsedThirdToken) throw new Error(`expected literal found ${thirdToken.value}`);
+        const closingBracket = this._cursor.readCurrentToken();
+        if (closingBracket?.type !== 'SQUARE_BRACKET_CLOSE') {
+            throw this.errorAtCurrentToken(`Expected ] but found ${closingBracket?.value ?? 'EOF'}`);
+        }
+        this._cursor.advanceCursor(1);
 
-        const expression: BinaryExpressionNode = {
-            left: parsedFirstToken,
-            right: parsedThirdToken,
-            operator: parsedSecondToken,
-            type: 'BinaryExpression',
-            position: firstToken.position
+        return {
+            type: 'ListLiteral',
+            elements: args?.args ?? [],
+            position: token.position
         };
+    };
 
-        return expression;
+    /*
+        <vector-literal> := <vector2> <bracket-open> <args> <bracket-close> | <vector3> <bracket-open> <args> <bracket-close>
+    */
+    private vectorLiteral = (): VectorConstructorNode | null => {
+        const token = this._cursor.readCurrentToken();
+        if (token?.type !== 'VECTOR2' && token?.type !== 'VECTOR3') return null;
+        this._cursor.advanceCursor(1);
+
+        const vectorType = token.type === 'VECTOR2' ? 'vector2' : 'vector3';
+        const expectedComponents = token.type === 'VECTOR2' ? 2 : 3;
+
+        const openBracket = this._cursor.readCurrentToken();
+        if (openBracket?.type !== 'BRACKET_OPEN') {
+            throw this.errorAtCurrentToken(`Expected ( but found ${openBracket?.value ?? 'EOF'}`);
+        }
+        this._cursor.advanceCursor(1);
+
+        const components = this.args()?.args ?? [];
+
+        const closeBracket = this._cursor.readCurrentToken();
+        if (closeBracket?.type !== 'BRACKET_CLOSE') {
+            throw this.errorAtCurrentToken(`Expected ) but found ${closeBracket?.value ?? 'EOF'}`);
+        }
+        this._cursor.advanceCursor(1);
+
+        if (components.length !== expectedComponents) {
+            throw new ParseException(token.position,
+                `${vectorType} expects ${expectedComponents} components but got ${components.length}`);
+        }
+
+        return {
+            type: 'VectorConstructor',
+            vectorType,
+            components,
+            position: token.position
+        };
     };
 
     /*
-        <expression> := <binary-expression> | <literal> | <func-call> | <func-declaration> | <identifier> | <accessor-expression>
-        <accessor-expression> := <dot> <literal> | <dot> <func-call> | <dot> <literal> <expression> | <dot> <func-call> <expression>
+        <expression> := <ternary-expression> | <binary-expression>
+        <ternary-expression> := <binary-expression> ? <expression> : <expression>
     */
     private expression = (): ExpressionNode | null => {
-        const expressionNodeBody = (
-            this.binaryExpression() ||
-            this.funcCall() ||
-            this.funcDeclaration() ||
-            this.identifier() ||
-            this.literal()
-        );
+        const condition = this.binaryExpression();
+        if (!condition) return null;
+
+        const questionMark = this._cursor.readCurrentToken();
+        if (questionMark?.type !== 'QUESTION_MARK') return condition;
+        this._cursor.advanceCursor(1);
+
+        const trueExpression = this.expectExpression('?');
+        this.expectToken('COLON', ':');
+        const falseExpression = this.expectExpression(':');
+
+        const conditionalExpression: ConditionalExpressionNode = this.endNode({
+            type: 'ConditionalExpression',
+            condition,
+            trueExpression,
+            falseExpression,
+            position: condition.position
+        });
+
+        return this.endNode({
+            type: 'Expression',
+            body: conditionalExpression,
+            position: condition.position
+        });
+    };
+
+    /*
+        <if-expression> := if (<expression>) then <expression> else <expression>
+    */
+    private ifExpression = (): ConditionalExpressionNode | null => {
+        const token = this._cursor.readCurrentToken();
+        if (token?.type !== 'IF') return null;
+        this._cursor.advanceCursor(1);
+
+        this.expectToken('BRACKET_OPEN', '(');
+        const condition = this.expectExpression('if');
+        this.expectToken('BRACKET_CLOSE', ')');
+
+        this.expectToken('THEN', 'then');
+        const trueExpression = this.expectExpression('then');
+        this.expectToken('ELSE', 'else');
+        const falseExpression = this.expectExpression('else');
+
+        return {
+            type: 'ConditionalExpression',
+            condition,
+            trueExpression,
+            falseExpression,
+            position: token.position
+        };
+    };
+
+    /*
+        <when-expression> := when (<expression>) { <when-cases> }
+        <when-cases> := <when-case> <comma> <when-cases> | <when-case>
+        <when-case> := <when-pattern> <arrow> <code-block> | <when-pattern> <arrow> <expression>
+        <when-pattern> := <literal> | <data-type> | else
+    */
+    private whenExpression = (): WhenExpressionNode | null => {
+        const token = this._cursor.readCurrentToken();
+        if (token?.type !== 'WHEN') return null;
+        this._cursor.advanceCursor(1);
+
+        this.expectToken('BRACKET_OPEN', '(');
+        const value = this.expectExpression('when');
+        this.expectToken('BRACKET_CLOSE', ')');
+        this.expectToken('CURLY_BRACKET_OPEN', '{');
+
+        const cases: Array<WhenCaseNode> = [];
+        while (this._cursor.readCurrentToken()?.type !== 'CURLY_BRACKET_CLOSE') {
+            if (cases.length) {
+                this.expectToken('COMMA', ',');
+            }
+
+            const whenCase = this.whenCase();
+            if (cases[cases.length - 1]?.pattern === null) {
+                throw new ParseException(whenCase.position, 'The else case must be the last case of when');
+            }
+            cases.push(whenCase);
+        }
+        this.expectToken('CURLY_BRACKET_CLOSE', '}');
+
+        return {
+            type: 'WhenExpression',
+            value,
+            cases,
+            position: token.position
+        };
+    };
+
+    private whenCase = (): WhenCaseNode => {
+        const token = this._cursor.readCurrentToken();
+        if (!token) {
+            throw this.errorAtCurrentToken('Expected } but found EOF');
+        }
+
+        let pattern: WhenCaseNode['pattern'] = null;
+        if (token.type === 'ELSE') {
+            this._cursor.advanceCursor(1);
+        } else {
+            pattern = this.literal() ?? this.dataType();
+            if (!pattern) {
+                throw new ParseException(token.position, `Expected a literal, a data type or else but found ${token.value}`);
+            }
+        }
+
+        this.expectToken('ARROW', '->');
+        // a record literal also starts with {, it is not a code block
+        const body = (!this.isRecordLiteralStart() && this.codeBlock()) || this.expectExpression('->');
+
+        return {
+            type: 'WhenCase',
+            pattern,
+            body,
+            position: token.position
+        };
+    };
+
+    /*
+        <text-template> := <text> | ` <text> ${ <expression> } <text> `
+    */
+    private textTemplate = (): TextLiteralNode | TextTemplateNode | null => {
+        const token = this._cursor.readCurrentToken();
+        if (token?.type !== 'TEXT_VALUE') return null;
+
+        const segments = TextUtils.parseTextLiteral(token.value, token.position);
+        const [segment] = segments;
+        if (segments.length === 1 && segment?.type === 'text') {
+            return this.literal() as TextLiteralNode;
+        }
+        this._cursor.advanceCursor(1);
+
+        const parts: TextTemplateNode['parts'] = segments.map((textSegment) => {
+            if (textSegment.type === 'text') {
+                return { type: 'TextLiteral', value: textSegment.value, position: token.position };
+            }
+            return this.interpolation(textSegment.code, textSegment.position);
+        });
+
+        return {
+            type: 'TextTemplate',
+            parts,
+            position: token.position
+        };
+    };
+
+    /**
+     * Parses the code of an interpolation with its own cursor
+     */
+    private interpolation = (code: string, position: Position): ExpressionNode => {
+        const { tokens, diagnostics } = new Lexer().tokenize(code, position);
+        this._errors.push(...diagnostics);
+        const outerCursor = this._cursor;
+        this._cursor = new Cursor(excludeIgnoredTokens(tokens));
+
+        try {
+            if (this._cursor.hasReachedEnd()) {
+                throw new ParseException(position, 'Expected expression inside ${}', DiagnosticCodes.MissingExpression);
+            }
+            const expression = this.expectExpression('${');
+            const remainingToken = this._cursor.readCurrentToken();
+            if (remainingToken) {
+                throw new ParseException(remainingToken.position, `Unexpected ${remainingToken.value} inside \${}`);
+            }
+            return expression;
+        } finally {
+            this._cursor = outerCursor;
+        }
+    };
+
+    private isRecordLiteralStart = () => (
+        this._cursor.readCurrentToken()?.type === 'CURLY_BRACKET_OPEN' &&
+        this._cursor.lookAhead(1)?.type === 'IDENTIFIER' &&
+        this._cursor.lookAhead(2)?.type === 'COLON'
+    );
+
+    /*
+        <record-literal> := { <record-fields> } | { }
+        <record-fields> := <record-field> <comma> <record-fields> | <record-field>
+        <record-field> := <identifier> <colon> <expression>
+    */
+    private recordLiteral = (): RecordLiteralNode | null => {
+        const token = this._cursor.readCurrentToken();
+        if (token?.type !== 'CURLY_BRACKET_OPEN') return null;
+        this._cursor.advanceCursor(1);
+
+        const fields = this.recordFields((identifier): RecordFieldNode => {
+            this.expectToken('COLON', ':');
+            return {
+                type: 'RecordField',
+                identifier,
+                expression: this.expectExpression(':'),
+                position: identifier.position
+            };
+        });
+
+        return {
+            type: 'RecordLiteral',
+            fields,
+            position: token.position
+        };
+    };
+
+    /*
+        <record-type> := type { <record-type-fields> }
+        <record-type-fields> := <record-type-field> <comma> <record-type-fields> | <record-type-field>
+        <record-type-field> := <identifier> <data-type-declaration>
+    */
+    private recordType = (): RecordTypeNode | null => {
+        const token = this._cursor.readCurrentToken();
+        if (token?.type !== 'TYPE') return null;
+        this._cursor.advanceCursor(1);
+        this.expectToken('CURLY_BRACKET_OPEN', '{');
+
+        const fields = this.recordFields((identifier): RecordTypeFieldNode => {
+            const dataType = this.dataTypeDeclaration();
+            if (!dataType) {
+                throw this.errorAtCurrentToken(`Expected : but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`);
+            }
+            return {
+                type: 'RecordTypeField',
+                identifier,
+                dataType,
+                position: identifier.position
+            };
+        });
+
+        if (!fields.length) {
+            throw new ParseException(token.position, 'A record type must have at least one field');
+        }
+
+        return {
+            type: 'RecordType',
+            fields,
+            position: token.position
+        };
+    };
+
+    /**
+     * Parses comma separated fields until the closing }, the field names must be unique
+     */
+    private recordFields = <T extends { identifier: IdentifierNode }>(field: (identifier: IdentifierNode) => T): Array<T> => {
+        const fields: Array<T> = [];
+        while (this._cursor.readCurrentToken()?.type !== 'CURLY_BRACKET_CLOSE') {
+            if (fields.length) {
+                this.expectToken('COMMA', ',');
+            }
+
+            const identifier = this.identifier();
+            if (!identifier) {
+                throw this.errorAtCurrentToken(`Expected field name but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`);
+            }
+            if (fields.some((existingField) => existingField.identifier.value === identifier.value)) {
+                throw new ParseException(identifier.position, `Duplicate field '${identifier.value}'`, DiagnosticCodes.DuplicateField);
+            }
+            fields.push(field(identifier));
+        }
+        this.expectToken('CURLY_BRACKET_CLOSE', '}');
+
+        return fields;
+    };
+
+    private expectExpression = (previous: string): ExpressionNode => {
+        const expression = this.expression();
+        if (!expression) {
+            throw this.errorAtCurrentToken(`Expected expression after '${previous}' but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`, DiagnosticCodes.MissingExpression);
+        }
+        return expression;
+    };
+
+    /*
+        <primary-expression> := <literal> | <list-literal> | <vector-literal> | <func-call> | <func-declaration> | <identifier> | <grouped-expression> | <if-expression> | <when-expression> | <text-template>
+                                | <record-literal> | <record-type>
+    */
+    private primaryExpression = (): ExpressionNode['body'] | null => (
+        this.ifExpression() ||
+        this.whenExpression() ||
+        this.textTemplate() ||
+        this.recordLiteral() ||
+        this.recordType() ||
+        this.funcCall() ||
+        this.funcDeclaration() ||
+        this.identifier() ||
+        this.literal() ||
+        this.listLiteral() ||
+        this.vectorLiteral() ||
+        this.groupedExpression()
+    );
+
+    /*
+        <postfix-expression> := <primary-expression> | <accessor-expression> | <index-expression> | <call-expression>
+        <accessor-expression> := <postfix-expression> <dot> <identifier> | <postfix-expression> <dot> <func-call>
+        <index-expression> := <postfix-expression> <square-bracket-open> <expression> <square-bracket-close>
+        <call-expression> := <postfix-expression> <bracket-open> <params> <bracket-close>
+        only the functions returned by calls and indexes can be called, like fns[0]() or make()()
+    */
+    private postfixExpression = (): ExpressionNode | null => {
+        const expressionNodeBody = this.endNode(this.primaryExpression());
 
         if (!expressionNodeBody) return null;
 
-        const expressionNode:ExpressionNode = {
+        const expressionNode:ExpressionNode = this.endNode({
             type: 'Expression',
             body: expressionNodeBody,
             position: expressionNodeBody.position
-        };
+        });
 
         let nextToken = this._cursor.readCurrentToken();
-        while (nextToken?.type === 'DOT') {
+        while (nextToken?.type === 'DOT' || nextToken?.type === 'SQUARE_BRACKET_OPEN' || this.isCallSuffix(expressionNode, nextToken)) {
             this._cursor.advanceCursor(1);
-            const accessorValue = (
+
+            if (nextToken.type === 'BRACKET_OPEN') {
+                const params = this.args();
+                const closingBracket = this._cursor.readCurrentToken();
+                if (closingBracket?.type !== 'BRACKET_CLOSE') {
+                    throw this.errorAtCurrentToken(`Expected ) but found ${closingBracket?.value ?? 'EOF'}`);
+                }
+                this._cursor.advanceCursor(1);
+
+                const callExpression: CallExpressionNode = {
+                    expression: { ...expressionNode },
+                    type: 'CallExpression',
+                    position: nextToken.position,
+                    params
+                };
+
+                expressionNode.body = this.endNode(callExpression);
+                this.endNode(expressionNode);
+                nextToken = this._cursor.readCurrentToken();
+                continue;
+            }
+
+            if (nextToken.type === 'SQUARE_BRACKET_OPEN') {
+                const index = this.expression();
+                if (!index) {
+                    throw new ParseException(nextToken.position, 'Expected index', DiagnosticCodes.MissingExpression);
+                }
+
+                const closingBracket = this._cursor.readCurrentToken();
+                if (closingBracket?.type !== 'SQUARE_BRACKET_CLOSE') {
+                    throw this.errorAtCurrentToken(`Expected ] but found ${closingBracket?.value ?? 'EOF'}`);
+                }
+                this._cursor.advanceCursor(1);
+
+                const indexExpression: IndexExpressionNode = {
+                    expression: { ...expressionNode },
+                    type: 'IndexExpression',
+                    position: nextToken.position,
+                    index
+                };
+
+                expressionNode.body = this.endNode(indexExpression);
+                this.endNode(expressionNode);
+                nextToken = this._cursor.readCurrentToken();
+                continue;
+            }
+
+            const accessorValue = this.endNode(
                 this.funcCall() ||
                 this.identifier()
             );
@@ -433,7 +1177,8 @@ export default class Parser extends TerminalParser {
                 value: accessorValue
             };
 
-            expressionNode.body = accessorExpression;
+            expressionNode.body = this.endNode(accessorExpression);
+            this.endNode(expressionNode);
 
             nextToken = this._cursor.readCurrentToken();
         }
@@ -441,6 +1186,55 @@ export default class Parser extends TerminalParser {
         return expressionNode;
     };
 
+    /**
+     * Checks if the token opens the arguments of a call to the function the expression returns
+     */
+    private isCallSuffix = (expression: ExpressionNode, token: Token | undefined): token is Token => (
+        token?.type === 'BRACKET_OPEN' &&
+        ['FuncCallNode', 'CallExpression', 'IndexExpression', 'AccessorExpression'].includes(expression.body.type) &&
+        (expression.body.type !== 'AccessorExpression' || expression.body.value.type === 'FuncCallNode')
+    );
+
+    /*
+        xs[0] <- 1🦆
+        <index-assignment> := <index-expression> <assignment-operator> <expression>
+    */
+    private indexAssignment = (target: ExpressionNode): IndexAssignmentNode | null => {
+        if (target.body.type !== 'IndexExpression') return null;
+
+        const assignmentOperator = this.assignMentOperator();
+        if (!assignmentOperator) return null;
+
+        const expression = this.expression();
+        if (!expression) {
+            throw this.errorAtCurrentToken(`Expected expression but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`, DiagnosticCodes.MissingExpression);
+        }
+
+        return {
+            type: 'IndexAssignment',
+            target: target.body as IndexExpressionNode,
+            expression,
+            position: target.position
+        };
+    };
+
+    /*
+        duck.name <- 'quack'🦆
+        <field-assignment> := <accessor-expression> <assignment-operator> <expression>
+    */
+    private fieldAssignment = (target: ExpressionNode): FieldAssignmentNode | null => {
+        if (target.body.type !== 'AccessorExpression' || target.body.value.type !== 'Identifier') return null;
+
+        const assignmentOperator = this.assignMentOperator();
+        if (!assignmentOperator) return null;
+
+        return {
+            type: 'FieldAssignment',
+            target: target.body,
+            expression: this.expectExpression('<-'),
+            position: target.position
+        };
+    };
 
     /*
         test <- liter🦆
@@ -497,9 +1291,7 @@ export default class Parser extends TerminalParser {
         this._cursor.advanceCursor(1);
 
         const identifier = this.identifier();
-        if (!identifier) throw new ParseException(
-            this._cursor.getCurrentPositionOrLastVisited(),
-            'Expected declaration'
+        if (!identifier) throw this.errorAtCurrentToken('Expected declaration'
         );
 
         const nothingLiteral: NothingLiteralNode = {
@@ -528,6 +1320,7 @@ export default class Parser extends TerminalParser {
             dataType: null,
             position: assignment.position,
             isOptional: false,
+            isExported: false,
         };
 
         if (declarationExtras) {
@@ -549,7 +1342,8 @@ export default class Parser extends TerminalParser {
                 if (mustBeInitialized) {
                     throw new ParseException(
                         declarationNode.position,
-                        `${identifier.value} must be initialized`);
+                        `${identifier.value} must be initialized`,
+                        DiagnosticCodes.MissingInitializer);
                 } else {
                     return declarationNode;
                 }
@@ -560,7 +1354,7 @@ export default class Parser extends TerminalParser {
             if (expressionNode) {
                 declarationNode.assignmentNode.expression = expressionNode;
             } else if (mustBeInitialized) {
-                throw new Error(`${identifier.value} must be initialized`);
+                throw new ParseException(declarationNode.position, `${identifier.value} must be initialized`, DiagnosticCodes.MissingInitializer);
             }
         }
 
@@ -569,33 +1363,40 @@ export default class Parser extends TerminalParser {
 
     /*
         <if-statement-start> := <if> (: <expression> :) <code-block>
-        <if-statement> := <if-statement-start> | <if-statement-start> <else> <code-block>
+        <if-statement> := <if-statement-start> | <if-statement-start> <else> <code-block> | <if-statement-start> <else> <if-statement>
     */
     private ifStatement = (): IfStatementNode | null => {
         const token = this._cursor.readCurrentToken();
         if (token?.type !== 'IF') return null;
+        const startPosition = this._cursor.getPosition();
 
         this._cursor.advanceCursor(1);
         const possibleOpenBracket = this._cursor.readCurrentToken();
         if (possibleOpenBracket?.type !== 'BRACKET_OPEN'){
-            throw new Error(`Expected (: but found ${possibleOpenBracket?.value}`);
+            throw this.errorAtCurrentToken(`Expected ( but found ${possibleOpenBracket?.value ?? 'EOF'}`);
         }
 
         this._cursor.advanceCursor(1);
         const expression = this.expression();
         if (!expression) {
-            throw new Error('Expected expression after if');
+            throw this.errorAtCurrentToken('Expected expression after if', DiagnosticCodes.MissingExpression);
         }
 
         const possibleCloseBracket = this._cursor.readCurrentToken();
         if (possibleCloseBracket?.type !== 'BRACKET_CLOSE') {
-            throw new Error(`Expected ) but found ${possibleCloseBracket?.value}`);
+            throw this.errorAtCurrentToken(`Expected ) but found ${possibleCloseBracket?.value ?? 'EOF'}`);
         }
         this._cursor.advanceCursor(1);
 
+        // if (...) then ... else ... is an expression, let the expression parser handle it
+        if (this._cursor.readCurrentToken()?.type === 'THEN') {
+            this._cursor.setPosition(startPosition);
+            return null;
+        }
+
         const codeBlock = this.codeBlock();
         if (codeBlock === null) {
-            throw new Error('Expected code block');
+            throw this.errorAtCurrentToken('Expected code block');
         }
 
         const ifNode: IfStatementNode = {
@@ -609,9 +1410,15 @@ export default class Parser extends TerminalParser {
         const possibleElseNode = this._cursor.readCurrentToken();
         if (possibleElseNode?.type === 'ELSE') {
             this._cursor.advanceCursor(1);
+            const elseIfStatement = this.ifStatement();
+            if (elseIfStatement) {
+                ifNode.falseExpression = elseIfStatement;
+                return ifNode;
+            }
+
             const elseCodeBlock = this.codeBlock();
             if (elseCodeBlock === null) {
-                throw new Error('Expected code block after else');
+                throw this.errorAtCurrentToken('Expected code block after else');
             }
             ifNode.falseExpression = elseCodeBlock;
         }
@@ -628,10 +1435,15 @@ export default class Parser extends TerminalParser {
 
         this._cursor.advanceCursor(1);
         const expressionNode = this.expression();
-        if (!expressionNode) throw new Error(`Expecting expression but found ${this._cursor.readCurrentToken()?.value}`);
+        if (!expressionNode) {
+            throw this.errorAtCurrentToken(
+                `Expecting expression but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`, DiagnosticCodes.MissingExpression);
+        }
 
         const terminatorNode = this._cursor.readCurrentToken();
-        if (terminatorNode?.type !== 'TERMINATOR') throw new Error(`Expecting 🦆 but found ${this._cursor.readCurrentToken()?.value}`);
+        if (terminatorNode?.type !== 'TERMINATOR') {
+            throw this.errorAtCurrentToken(`Expecting 🦆 but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`);
+        }
         return {
             type: 'ReturnStatement',
             value: expressionNode,
@@ -639,6 +1451,178 @@ export default class Parser extends TerminalParser {
         };
     };
 
+    /*
+        <while-statement> := <while> (: <expression> :) <code-block>
+    */
+    private whileStatement = (): WhileStatementNode | null => {
+        const token = this._cursor.readCurrentToken();
+        if (token?.type !== 'WHILE') return null;
+        this._cursor.advanceCursor(1);
+
+        const possibleOpenBracket = this._cursor.readCurrentToken();
+        if (possibleOpenBracket?.type !== 'BRACKET_OPEN'){
+            throw this.errorAtCurrentToken(`Expected ( but found ${possibleOpenBracket?.value ?? 'EOF'}`);
+        }
+        this._cursor.advanceCursor(1);
+
+        const condition = this.expression();
+        if (!condition) {
+            throw this.errorAtCurrentToken('Expected expression after while', DiagnosticCodes.MissingExpression);
+        }
+
+        const possibleCloseBracket = this._cursor.readCurrentToken();
+        if (possibleCloseBracket?.type !== 'BRACKET_CLOSE') {
+            throw this.errorAtCurrentToken(`Expected ) but found ${possibleCloseBracket?.value ?? 'EOF'}`);
+        }
+        this._cursor.advanceCursor(1);
+
+        return {
+            type: 'WhileStatement',
+            condition,
+            body: this.loopBody(),
+            position: token.position
+        };
+    };
+
+    /*
+        <catch-clause> := <catch> (: <identifier> :) <code-block>
+        <try-statement> := <try> <code-block> <catch-clause>
+                        | <try> <code-block> <catch-clause> <finally> <code-block>
+                        | <try> <code-block> <finally> <code-block>
+    */
+    private tryStatement = (): TryStatementNode | null => {
+        const token = this._cursor.readCurrentToken();
+        if (token?.type !== 'TRY') return null;
+        this._cursor.advanceCursor(1);
+
+        const body = this.codeBlock();
+        if (!body) throw this.errorAtCurrentToken(`Expected { but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`);
+
+        let errorIdentifier: IdentifierNode | null = null;
+        let catchBlock: CodeBlockNode | null = null;
+        if (this._cursor.readCurrentToken()?.type === 'CATCH') {
+            this._cursor.advanceCursor(1);
+            this.expectToken('BRACKET_OPEN', '(');
+            errorIdentifier = this.identifier();
+            if (!errorIdentifier) {
+                throw this.errorAtCurrentToken(`Expected error name but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`);
+            }
+            this.expectToken('BRACKET_CLOSE', ')');
+            catchBlock = this.codeBlock();
+            if (!catchBlock) throw this.errorAtCurrentToken(`Expected { but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`);
+        }
 
+        let finallyBlock: CodeBlockNode | null = null;
+        if (this._cursor.readCurrentToken()?.type === 'FINALLY') {
+            this._cursor.advanceCursor(1);
+            finallyBlock = this.codeBlock();
+            if (!finallyBlock) throw this.errorAtCurrentToken(`Expected { but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`);
+        }
+
+        if (!catchBlock && !finallyBlock) {
+            throw this.errorAtCurrentToken(`Expected catch or finally but found ${this._cursor.readCurrentToken()?.value ?? 'EOF'}`);
+        }
+
+        return {
+            type: 'TryStatement',
+            body,
+            errorIdentifier,
+            catchBlock,
+            finallyBlock,
+            position: token.position
+        };
+    };
 
+    /*
+        <for-initializer> := <declaration> | <assignment>
+        <for-increment> := <assignment> | <expression>
+        <for-statement> := <for> (: <for-initializer>? <terminator> <expression>? <terminator> <for-increment>? :) <code-block>
+    */
+    private forStatement = (): ForStatementNode | null => {
+        const token = this._cursor.readCurrentToken();
+        if (token?.type !== 'FOR') return null;
+        this._cursor.advanceCursor(1);
+
+        const possibleOpenBracket = this._cursor.readCurrentToken();
+        if (possibleOpenBracket?.type !== 'BRACKET_OPEN'){
+            throw this.errorAtCurrentToken(`Expected ( but found ${possibleOpenBracket?.value ?? 'EOF'}`);
+        }
+        this._cursor.advanceCursor(1);
+
+        const initializer = this.declaration() || this.assignment();
+        this.expectForTerminator();
+
+        const condition = this.expression();
+        this.expectForTerminator();
+
+        const increment = this.assignment() || this.expression();
+
+        const possibleCloseBracket = this._cursor.readCurrentToken();
+        if (possibleCloseBracket?.type !== 'BRACKET_CLOSE') {
+            throw this.errorAtCurrentToken(`Expected ) but found ${possibleCloseBracket?.value ?? 'EOF'}`);
+        }
+        this._cursor.advanceCursor(1);
+
+        return {
+            type: 'ForStatement',
+            initializer,
+            condition,
+            increment,
+            body: this.loopBody(),
+            position: token.position
+        };
+    };
+
+    private expectForTerminator = () => {
+        if (!this.terminator()) {
+            throw this.errorAtCurrentToken(`Expected '🦆' but found '${this._cursor.readCurrentToken()?.value ?? 'EOF'}'`);
+        }
+    };
+
+    private loopBody = (): CodeBlockNode => {
+        this._loopDepth += 1;
+        try {
+            const codeBlock = this.codeBlock();
+            if (codeBlock === null) {
+                throw this.errorAtCurrentToken('Expected code block');
+            }
+            return codeBlock;
+        } finally {
+            this._loopDepth -= 1;
+        }
+    };
+
+    /*
+        <break-statement> := <break>
+    */
+    private breakStatement = (): BreakStatementNode | null => {
+        const token = this._cursor.readCurrentToken();
+        if (token?.type !== 'BREAK') return null;
+        if (this._loopDepth === 0) {
+            throw new ParseException(token.position, '\'break\' can only be used inside a loop', DiagnosticCodes.InvalidLoopControl);
+        }
+        this._cursor.advanceCursor(1);
+
+        return {
+            type: 'BreakStatement',
+            position: token.position
+        };
+    };
+
+    /*
+        <continue-statement> := <continue>
+    */
+    private continueStatement = (): ContinueStatementNode | null => {
+        const token = this._cursor.readCurrentToken();
+        if (token?.type !== 'CONTINUE') return null;
+        if (this._loopDepth === 0) {
+            throw new ParseException(token.position, '\'continue\' can only be used inside a loop', DiagnosticCodes.InvalidLoopControl);
+        }
+        this._cursor.advanceCursor(1);
+
+        return {
+            type: 'ContinueStatement',
+            position: token.position
+        };
+    };
 }
@@ -1,3 +1,4 @@
+import { Diagnostic } from '../types/Diagnostic';
 import { Position } from '../types/Position';
 
 export type LiteralNodeTypes = 'TextLiteral' |
@@ -9,10 +10,32 @@ export type LiteralNodeTypes = 'TextLiteral' |
 
 export type NodeTypes = LiteralNodeTypes |
     'OptionalValue' |
+    'ListValue' |
     'AccessorExpression' |
+    'IndexExpression' |
+    'CallExpression' |
+    'IndexAssignment' |
+    'ListLiteral' |
+    'VectorConstructor' |
     'UnaryExpression' |
+    'ConditionalExpression' |
+    'WhenExpression' |
+    'TextTemplate' |
+    'RecordLiteral' |
+    'RecordField' |
+    'RecordType' |
+    'RecordTypeField' |
+    'FieldAssignment' |
+    'RecordValue' |
+    'RecordTypeValue' |
+    'WhenCase' |
     'ImportStatement' | 
     'IfStatement' |
+    'WhileStatement' |
+    'ForStatement' |
+    'TryStatement' |
+    'BreakStatement' |
+    'ContinueStatement' |
     'BinaryExpression' |
     'Expression' |
     'Module' |
@@ -29,12 +52,12 @@ export type NodeTypes = LiteralNodeTypes |
     'FuncCallNode' |
     'CodeBlock' |
     'FuncDeclaration' |
-    'InternalFuncDeclaration' |
     'ReturnStatement' |
-    'DataType';
+    'DataType' |
+    'Error';
 
 export type DataTypes = 'boolean' | 'text' | 'nothing' |
-    'vector2' | 'vector3' | 'func' | 'list' | 'number' | 'optional';
+    'vector2' | 'vector3' | 'func' | 'list' | 'number' | 'optional' | 'record' | 'type';
 
 export type UnaryOperatorTypes = '!' | '-';
 export type MathematicalOperatorTypes = '+' | '-' | '/' | '%' | '*';
@@ -44,7 +67,9 @@ export type OperatorTypes = MathematicalOperatorTypes | ComparisonOperatorTypes
 
 export interface Node <T extends NodeTypes = NodeTypes> {
     type: T,
-    position: Position
+    position: Position,
+    // position right after the last character of the node, only nodes read from code have it
+    end?: Position
 }
 
 export interface IdentifierNode extends Node<'Identifier'> {
@@ -52,7 +77,9 @@ export interface IdentifierNode extends Node<'Identifier'> {
 }
 
 export interface ExpressionNode extends Node<'Expression'> {
-    body: BinaryExpressionNode | LiteralNode | IdentifierNode | FuncCallNode | FuncDeclarationNode | AccessorExpressionNode
+    body: BinaryExpressionNode | UnaryExpressionNode | LiteralNode | IdentifierNode | FuncCallNode | FuncDeclarationNode | AccessorExpressionNode |
+        ListLiteralNode | IndexExpressionNode | CallExpressionNode | VectorConstructorNode | ConditionalExpressionNode | WhenExpressionNode |
+        TextTemplateNode | RecordLiteralNode | RecordTypeNode
 }
 
 export interface AccessorExpressionNode extends Node<'AccessorExpression'> {
@@ -60,6 +87,17 @@ export interface AccessorExpressionNode extends Node<'AccessorExpression'> {
     value: IdentifierNode | FuncCallNode
 }
 
+export interface IndexExpressionNode extends Node<'IndexExpression'> {
+    expression: ExpressionNode,
+    index: ExpressionNode
+}
+
+// call of the function another call or an index returns, calls by name are FuncCallNodes
+export interface CallExpressionNode extends Node<'CallExpression'> {
+    expression: ExpressionNode,
+    params: ArgsNode | null
+}
+
 export interface AssignmentOperatorNode extends Node<'AssignmentOperator'> {
     value: string;
 }
@@ -69,21 +107,41 @@ export interface AssignmentNode extends Node<'Assignment'> {
     expression: ExpressionNode
 }
 
+export interface FieldAssignmentNode extends Node<'FieldAssignment'> {
+    target: AccessorExpressionNode,
+    expression: ExpressionNode
+}
+
+export interface IndexAssignmentNode extends Node<'IndexAssignment'> {
+    target: IndexExpressionNode,
+    expression: ExpressionNode
+}
+
 export interface DeclarationNode extends Node<'Declaration'> {
     declaratorType: 'constant' | 'variable',
     isOptional: boolean,
+    // only exported declarations can be imported by other modules
+    isExported: boolean,
     dataType: DataTypeNode | null,
     assignmentNode: AssignmentNode,
 }
 
 export interface StatementNode extends Node<'Statement'> {
-    body: DeclarationNode | AssignmentNode | ExpressionNode | ReturnStatementNode | IfStatementNode | ImportStatementNode
+    body: DeclarationNode | AssignmentNode | ExpressionNode | ReturnStatementNode | IfStatementNode | ImportStatementNode |
+        WhileStatementNode | ForStatementNode | TryStatementNode | BreakStatementNode | ContinueStatementNode |
+        IndexAssignmentNode | FieldAssignmentNode | ErrorNode
 }
 
 export interface ModuleNode extends Node<'Module'> {
     statements: Array<StatementNode>
 }
 
+export interface ParseResult {
+    // statements with errors are replaced by error nodes
+    ast: ModuleNode,
+    diagnostics: Array<Diagnostic>
+}
+
 export interface ArgsNode extends Node<'Args'> {
     args: Array<ExpressionNode>,
 }
@@ -103,18 +161,17 @@ export interface FuncCallNode extends Node<'FuncCallNode'> {
     identifier: IdentifierNode,
 }
 
-export interface GenericFuncDeclarationNode extends Node<'FuncDeclaration' | 'InternalFuncDeclaration'> {
+export interface GenericFuncDeclarationNode extends Node<'FuncDeclaration'> {
     parameters: ParamsNode | null,
+    // null when the function doesn't declare what it returns
+    returnType: DataTypeNode | null,
 }
 
 export interface FuncDeclarationNode extends GenericFuncDeclarationNode {
     type: 'FuncDeclaration',
-    body: CodeBlockNode
-}
-
-export interface InternalFuncDeclarationNode extends GenericFuncDeclarationNode {
-    type: 'InternalFuncDeclaration',
-    identifier: string,
+    body: CodeBlockNode,
+    // return type the type checker inferred when none is declared, it describes the function but isn't checked
+    inferredReturnType?: DataTypeNode
 }
 
 export interface CodeBlockNode extends Node<'CodeBlock'> {
@@ -129,11 +186,90 @@ export interface ReturnStatementNode extends Node<'ReturnStatement'> {
 export interface IfStatementNode extends Node<'IfStatement'> {
     condition: ExpressionNode,
     trueExpression: CodeBlockNode,
-    falseExpression: CodeBlockNode | null
+    // an if statement when chained with else if
+    falseExpression: CodeBlockNode | IfStatementNode | null
+}
+
+export interface ConditionalExpressionNode extends Node<'ConditionalExpression'> {
+    condition: ExpressionNode,
+    trueExpression: ExpressionNode,
+    falseExpression: ExpressionNode
+}
+
+export interface TextTemplateNode extends Node<'TextTemplate'> {
+    // the text and the interpolated expressions in order
+    parts: Array<TextLiteralNode | ExpressionNode>
+}
+
+export interface RecordFieldNode extends Node<'RecordField'> {
+    identifier: IdentifierNode,
+    expression: ExpressionNode
+}
+
+export interface RecordLiteralNode extends Node<'RecordLiteral'> {
+    fields: Array<RecordFieldNode>
+}
+
+export interface RecordTypeFieldNode extends Node<'RecordTypeField'> {
+    identifier: IdentifierNode,
+    dataType: DataTypeNode
+}
+
+export interface RecordTypeNode extends Node<'RecordType'> {
+    fields: Array<RecordTypeFieldNode>
+}
+
+export interface WhenCaseNode extends Node<'WhenCase'> {
+    // null for the else case
+    pattern: LiteralNode | DataTypeNode | null,
+    body: CodeBlockNode | ExpressionNode
+}
+
+export interface WhenExpressionNode extends Node<'WhenExpression'> {
+    value: ExpressionNode,
+    cases: Array<WhenCaseNode>
+}
+
+export interface WhileStatementNode extends Node<'WhileStatement'> {
+    condition: ExpressionNode,
+    body: CodeBlockNode
+}
+
+export interface ForStatementNode extends Node<'ForStatement'> {
+    initializer: DeclarationNode | AssignmentNode | null,
+    condition: ExpressionNode | null,
+    increment: AssignmentNode | ExpressionNode | null,
+    body: CodeBlockNode
+}
+
+export interface TryStatementNode extends Node<'TryStatement'> {
+    body: CodeBlockNode,
+    // variable the error is declared in inside the catch block, null without a catch block
+    errorIdentifier: IdentifierNode | null,
+    catchBlock: CodeBlockNode | null,
+    // runs after the body and the catch block even when they return or fail
+    finallyBlock: CodeBlockNode | null
 }
 
+export type BreakStatementNode = Node<'BreakStatement'>;
+
+export type ContinueStatementNode = Node<'ContinueStatement'>;
+
 export interface ImportStatementNode extends Node<'ImportStatement'> {
-    value: TextLiteralNode
+    value: TextLiteralNode,
+    // the names listed in import { a, b } from 'path', null when every export is imported
+    names: Array<IdentifierNode> | null,
+    // the namespace of import 'path' as name, null when the exports are imported by their names
+    alias: IdentifierNode | null,
+}
+
+/**
+ * Placeholder for a statement that couldn't be parsed, its diagnostic is returned with the tree
+ */
+export interface ErrorNode extends Node<'Error'> {
+    message: string,
+    // identifier of the declaration that couldn't be parsed, the code after it can still use it
+    identifier: IdentifierNode | null
 }
 
 /** Terminal Nodes **/
@@ -146,6 +282,26 @@ export interface OptionalDataType extends DataTypeNode {
     internalType: DataTypes
 }
 
+export interface ListDataType extends DataTypeNode {
+    value: 'list',
+    internalType: DataTypes,
+    // full type of the elements, list<list<number>> has list<number> elements
+    elementType: DataTypeNode
+}
+
+export interface FuncDataType extends DataTypeNode {
+    value: 'func',
+    parameters: Array<DataTypeNode>,
+    // null when the signature comes from a function that doesn't declare what it returns
+    returnType: DataTypeNode | null
+}
+
+export interface RecordDataType extends DataTypeNode {
+    value: 'record',
+    // identifier the record type was declared with
+    name: string
+}
+
 export interface TerminatorNode extends Node<'Terminator'> {
     value: '🦆';
 }
@@ -171,17 +327,28 @@ export interface Vector2LiteralNode extends LiteralNode<'Vector2Literal'> {
     y: NumberLiteralNode
 }
 
-export interface Vector3LiteralNode extends Vector2LiteralNode {
+export interface Vector3LiteralNode extends LiteralNode<'Vector3Literal'> {
+    x: NumberLiteralNode,
+    y: NumberLiteralNode,
     z: NumberLiteralNode,
 }
 
+export interface VectorConstructorNode extends Node<'VectorConstructor'> {
+    vectorType: 'vector2' | 'vector3',
+    components: Array<ExpressionNode>
+}
+
+export interface ListLiteralNode extends Node<'ListLiteral'> {
+    elements: Array<ExpressionNode>
+}
+
 export interface BinaryExpressionNode extends Node<'BinaryExpression'> {
-    left: LiteralNode | IdentifierNode,
+    left: ExpressionNode,
     right: ExpressionNode,
     operator: OperatorTypes
 }
 
 export interface UnaryExpressionNode extends Node<'UnaryExpression'> {
-    value: LiteralNode | IdentifierNode,
+    value: ExpressionNode,
     operator: UnaryOperatorTypes, 
 }
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { MemoryValue, QRecord } from '../interpreter/types';
+import Lexer from '../lexer';
+import Parser from '../parser';
+import { DataTypeNode } from '../parser/types';
+import { Position } from '../types/Position';
+import { JsValueUtils } from '../utils/jsValue/jsValueUtils';
+import { MemoryUtils } from '../utils/memory/memoryUtils';
+import standardLibrary from './standardLibrary';
+import { HostFunctionDefinition, InternalFunctionDefinition } from './types';
+
+const fakePosition: Position = {
+    globalChar: 0,
+    line: 0,
+    lineChar: 0
+};
+
+const validIdentifier = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Functions of the global scope implemented in JavaScript, the standard library and the ones registered by the host.
+ * The global scope of the memory and the type checker start from its declarations
+ */
+export class Library {
+    private _declarations: Record<string, MemoryValue>;
+    private _lexer: Lexer;
+    private _parser: Parser;
+
+    constructor() {
+        this._declarations = { ...standardLibrary };
+        this._lexer = new Lexer();
+        this._parser = new Parser();
+    }
+
+    public getDeclarations = (): Record<string, MemoryValue> => ({ ...this._declarations });
+
+    /**
+     * Adds a host function to the global scope
+     * @returns the declaration of the function
+     * @throws Error when the name is taken or a type can't be parsed
+     */
+    public registerFunction = (name: string, definition: HostFunctionDefinition): MemoryValue => {
+        this.checkName(name);
+        return this.declare(MemoryUtils.convertToInternalFunc(this.toInternalFunction(name, definition)));
+    };
+
+    /**
+     * Adds a constant record to the global scope holding the host functions, they are called like name.function()
+     * @returns the declaration of the record
+     * @throws Error when a name is taken or a type can't be parsed
+     */
+    public registerModule = (name: string, functions: Record<string, HostFunctionDefinition>): MemoryValue => {
+        this.checkName(name);
+        const module: QRecord = {
+            type: 'Record',
+            fields: {},
+            recordType: null,
+            position: fakePosition
+        };
+
+        Object.entries(functions).forEach(([functionName, definition]) => {
+            if (!validIdentifier.test(functionName)) throw new Error(`'${functionName}' is not a valid identifier`);
+            const internalFunction = this.toInternalFunction(`${name}.${functionName}`, definition);
+            module.fields[functionName] = {
+                ...MemoryUtils.convertToInternalFunc(internalFunction),
+                identifier: functionName,
+                declarationType: 'constant'
+            };
+        });
+
+        return this.declare(MemoryUtils.fromValue(name, 'constant', module));
+    };
+
+    private declare = (declaration: MemoryValue): MemoryValue => {
+        this._declarations[declaration.identifier] = declaration;
+        return declaration;
+    };
+
+    private checkName = (name: string) => {
+        if (!validIdentifier.test(name)) throw new Error(`'${name}' is not a valid identifier`);
+        if (name in this._declarations) throw new Error(`'${name}' is already declared`);
+    };
+
+    /**
+     * Parses the types of the host function and wraps it so it receives and returns JavaScript values
+     */
+    private toInternalFunction = (identifier: string, definition: HostFunctionDefinition): InternalFunctionDefinition => {
+        const returnType = this.parseDataType(definition.returnType);
+
+        return {
+            identifier,
+            params: definition.params.map((param) => ({ identifier: param.identifier, dataType: this.parseDataType(param.dataType) })),
+            returnType,
+            implementation: JsValueUtils.wrapJsFunction(definition.implementation, returnType, true)
+        };
+    };
+
+    /**
+     * Parses a data type written the same way as in code, like list<number>
+     * @throws Error when it is not a valid data type
+     */
+    public parseDataType = (dataType: string): DataTypeNode => {
+        try {
+            return this._parser.parseDataType(this._lexer.convertToTokens(dataType));
+        } catch {
+            throw new Error(`'${dataType}' is not a valid data type`);
+        }
+    };
+}
@@ -1,10 +1,11 @@
-import { DataTypes, InternalFuncDeclarationNode, TextLiteralNode } from '../parser/types';
+import { RuntimeException } from '../exception/RuntimeException';
+import { DataTypes, DataTypeNode } from '../parser/types';
 import { Memory } from '../interpreter/memory';
-import { MemoryValue, Value } from '../interpreter/types';
+import { InternalCallContext, InternalFunction, MemoryValue, QInternalFunction, QText, Value } from '../interpreter/types';
 import { Position } from '../types/Position';
-import { System } from '../system';
 import { MemoryUtils } from '../utils/memory/memoryUtils';
-import { RuntimeException } from '../exception/RuntimeException';
+import { ValueUtils } from '../utils/value/valueUtils';
+import { InternalFunctionDefinition } from './types';
 
 
 const fakePosition:Position = {
@@ -13,39 +14,54 @@ const fakePosition:Position = {
     lineChar: 0
 };
 
-export const executeInternalFunc = (node: InternalFuncDeclarationNode,
+const createDataType = (value: DataTypes): DataTypeNode => ({
+    type: 'DataType',
+    value,
+    position: fakePosition
+});
+
+/**
+ * Calls the implementation of the function with the values of its parameters, they are already in memory
+ */
+export const executeInternalFunc = (node: QInternalFunction,
     memory: Memory,
-    system: System): Value => {
-    switch (node.identifier){
-    case 'quackprint':
-        return execQuackPrint(memory, system);
+    context: InternalCallContext): Value => {
+    const args = (node.parameters?.params ?? []).map((param) => memory.get(param.identifier.value, param.identifier.position).value);
+    try {
+        return node.implementation(args, context);
+    } catch (error) {
+        // errors of the implementation are reported at the call so the code can catch them
+        if (error instanceof RuntimeException) throw error;
+        throw new RuntimeException(context.position, error instanceof Error ? error.message : String(error));
     }
+};
 
-    return { 
-        type: 'NothingLiteral',
-        position: fakePosition
-    };
+const execQuackPrint: InternalFunction = ([value], { system, position }) => {
+    system.stdout((value as QText).value);
+    return ValueUtils.nothing(position);
 };
 
-const execQuackPrint = (memory: Memory, system: System): Value => {
-    const value = memory.get('value');
-    if (value.type !== 'text') throw new RuntimeException(fakePosition, `Invalid type, expecting Text but found ${value.type}`);
-    system.stdout((value.value as TextLiteralNode).value);
-    return { type: 'NothingLiteral', position: fakePosition };
+const execFail: InternalFunction = ([message], { position }) => {
+    throw new RuntimeException(position, (message as QText).value);
 };
 
-const _standardLibrary: Array<{
-    identifier: string,
-    params: Array<{ identifier: string, dataType: DataTypes }>
-}> = [
-    { identifier: 'quackprint', params: [{ 
-        dataType: 'text',
-        identifier: 'value'
-    }] },
+const _standardLibrary: Array<InternalFunctionDefinition> = [
+    {
+        identifier: 'quackprint',
+        params: [{ identifier: 'value', dataType: createDataType('text') }],
+        returnType: createDataType('nothing'),
+        implementation: execQuackPrint
+    },
+    {
+        identifier: 'fail',
+        params: [{ identifier: 'message', dataType: createDataType('text') }],
+        returnType: createDataType('nothing'),
+        implementation: execFail
+    },
 ];
 
 const standardLibrary: Record<string, MemoryValue> = _standardLibrary
-    .map((value) => MemoryUtils.convertToInternalFunc(value.identifier, value.params))
+    .map(MemoryUtils.convertToInternalFunc)
     .reduce((a, b) => ({ ...a, [b.identifier]: b }), {});
 
-export default standardLibrary;
\ No newline at end of file
+export default standardLibrary;
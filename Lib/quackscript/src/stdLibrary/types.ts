@@ -1,3 +1,42 @@
-export const standardLibraryIdentifier = [
-    'quackprint'
-];
\ No newline at end of file
+import { InternalFunction } from '../interpreter/types';
+import { DataTypeNode } from '../parser/types';
+import { Position } from '../types/Position';
+
+/**
+ * Parameter of a host function, its data type is written the same way as in code, like list<number>
+ */
+export interface HostParam {
+    identifier: string,
+    dataType: string
+}
+
+/**
+ * Passed to host functions after their arguments
+ */
+export interface HostCallContext {
+    // where the function was called from, a RuntimeException thrown with it points to the call
+    position: Position
+}
+
+/**
+ * Function of the host, its arguments are the JavaScript values of the QuackScript arguments
+ */
+export type HostFunction = (...args: Array<never>) => unknown;
+
+export interface HostFunctionDefinition {
+    params: Array<HostParam>,
+    // written the same way as in code, the returned value is converted to it
+    returnType: string,
+    implementation: HostFunction
+}
+
+/**
+ * Function implemented in JavaScript with its signature already parsed
+ */
+export interface InternalFunctionDefinition {
+    identifier: string,
+    params: Array<{ identifier: string, dataType: DataTypeNode }>,
+    // null when the function doesn't declare what it returns
+    returnType: DataTypeNode | null,
+    implementation: InternalFunction
+}
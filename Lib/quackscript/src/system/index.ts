@@ -1,3 +1,4 @@
+import { PathUtils } from '../utils/path/pathUtils';
 
 export type OutputStream = (value: string) => void;
 
@@ -5,16 +6,28 @@ export class System {
     public stdout: OutputStream;
     public stderr: OutputStream;
     private _loadFile: ((path: string) => string) | undefined;
+    private _resolvePath: ((path: string, importer: string | null) => string) | undefined;
 
     constructor(
         stdOut?: OutputStream,
         stdErr?: OutputStream,
-        loadFile?: System['loadFile']) {
+        loadFile?: System['loadFile'],
+        resolvePath?: System['resolvePath']) {
         this.stderr = stdErr ?? console.error;
         this.stdout = stdOut ?? console.log;
         this._loadFile = loadFile;
+        this._resolvePath = resolvePath;
     }
 
+    /**
+     * Gets the path of an imported file from the path written in the import and the path of the file importing it,
+     * null when the importer has no path. Without a resolver paths are relative to the folder of the importer.
+     * The path is the same for every import of a file, so it is used to cache imported modules
+     */
+    public resolvePath = (path: string, importer: string | null): string => (
+        this._resolvePath ? this._resolvePath(path, importer) : PathUtils.resolve(path, importer)
+    );
+
     public loadFile = (path: string): string => {
         if (this._loadFile) {
             return this._loadFile(path);
@@ -0,0 +1,455 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import Lexer from '../../lexer';
+import Parser from '../../parser';
+import { DataTypeUtils } from '../../utils/dataTypes/dataTypeUtils';
+import { TestUtils } from '../../utils/test/testUtils';
+import TypeChecker from '..';
+
+const messagesOf = (code: string) => TestUtils.check(code).map((diagnostic) => diagnostic.message);
+
+describe('Type Checker - ', () => {
+
+    const samplesPath = join(__dirname, '../../__tests__/samples');
+    const samples = readdirSync(samplesPath)
+        // samples ending with Error.quack stop with an error the type checker finds before running them
+        .filter((file) => file.endsWith('.quack') && !file.endsWith('Error.quack'));
+
+    test.each(samples)('%s has no type errors', (sample) => {
+        expect(messagesOf(readFileSync(join(samplesPath, sample), 'utf8'))).toEqual([]);
+    });
+
+    test('reports errors in branches that are never executed', () => {
+        const diagnostics = TestUtils.check(`quack count <- 0🦆
+if (false) {
+    count <- 'many'🦆
+}🦆`);
+
+        expect(diagnostics).toHaveLength(1);
+        expect(diagnostics[0]).toMatchObject({
+            code: 'QS3001',
+            severity: 'error',
+            message: 'Tried to assign text to number',
+            start: { line: 3, lineChar: 14 }
+        });
+    });
+
+    test('checks declared types', () => {
+        expect(messagesOf(`
+            QUACK name:text <- 5🦆
+            QUACK names:list<text> <- [1, 2]🦆
+            quack empty <- []🦆
+        `)).toEqual([
+            'Tried to assign number to text',
+            'Tried to assign list<number> to list<text>',
+            'Unable to infer the type of \'empty\', declare it as list<type>',
+        ]);
+    });
+
+    test('checks assignments to constants and arguments', () => {
+        expect(messagesOf(`
+            QUACK limit <- 5🦆
+            limit <- 6🦆
+            QUACK increment <- (value:number) > {
+                value <- value + 1🦆
+            }🦆
+        `)).toEqual([
+            'Tried to update constant \'limit\'',
+            'Tried to update argument \'value\'',
+        ]);
+    });
+
+    test('checks function arguments', () => {
+        expect(messagesOf(`
+            QUACK add <- (first:number, second:number) > {
+                return first + second🦆
+            }🦆
+            add(1)🦆
+            add(1, 'two')🦆
+            quackprint(5)🦆
+            QUACK value <- 1🦆
+            value()🦆
+        `)).toEqual([
+            'Expecting 2 arguments but got 1 arguments',
+            'Expected argument of type number but got text',
+            'Expected argument of type text but got number',
+            'Tried to call variable \'value\' as a function',
+        ]);
+    });
+
+    test('checks operators', () => {
+        expect(messagesOf(`
+            1 + 'one'🦆
+            true + false🦆
+            -'text'🦆
+            vector2(1, 2) + vector3(1, 2, 3)🦆
+            1 == 'one'🦆
+        `)).toEqual([
+            'Operator \'+\' can\'t be used between number and text',
+            'Operator \'+\' can\'t be used between boolean and boolean',
+            'Operator \'-\' can only be used on number or vector but found text',
+            'Operator \'+\' can\'t be used between vector2 and vector3',
+        ]);
+    });
+
+    test('checks the use of optionals', () => {
+        expect(messagesOf(`
+            quack age?:number🦆
+            age + 1🦆
+            age.unwrap() + 1🦆
+            age <- 'old'🦆
+            QUACK double <- (value:number) > {
+                return value * 2🦆
+            }🦆
+            double(age)🦆
+            if (age) {
+            }🦆
+        `)).toEqual([
+            'Operator \'+\' can\'t be used between optional<number> and number',
+            'Tried to assign text to optional<number>',
+            'Expected argument of type number but got optional<number>',
+            'Condition must be boolean but found optional<number>',
+        ]);
+    });
+
+    test('checks conditions', () => {
+        expect(messagesOf(`
+            while (1) {
+            }🦆
+            for (quack i <- 0🦆 'i'🦆 i <- i + 1) {
+            }🦆
+            QUACK value <- 'a' ? 1 : 2🦆
+        `)).toEqual([
+            'Condition must be boolean but found number',
+            'Condition must be boolean but found text',
+            'Condition must be boolean but found text',
+        ]);
+    });
+
+    test('checks returned values', () => {
+        expect(messagesOf(`
+            QUACK greet <- (name:text):text > {
+                if (name == '') {
+                    return 0🦆
+                }🦆
+                return 'hello ' + name🦆
+            }🦆
+        `)).toEqual([
+            'Expected function to return text but got number',
+        ]);
+    });
+
+    test('functions that declare what they return must return in every path', () => {
+        expect(messagesOf(`
+            QUACK never <- ():number > {
+                quackprint('no return')🦆
+            }🦆
+            QUACK sometimes <- (value:number):text > {
+                if (value > 0) {
+                    return 'positive'🦆
+                }🦆
+            }🦆
+            QUACK always <- (value:number):text > {
+                if (value > 0) {
+                    return 'positive'🦆
+                } else if (value < 0) {
+                    return 'negative'🦆
+                } else {
+                    return 'zero'🦆
+                }🦆
+            }🦆
+            QUACK maybe <- ():optional<number> > {
+                quackprint('nothing')🦆
+            }🦆
+        `)).toEqual([
+            'Expected function to return number but it can end without returning',
+            'Expected function to return text but it can end without returning',
+        ]);
+    });
+
+    test('checks calls to the functions returned by calls and indexes', () => {
+        expect(messagesOf(`
+            QUACK makeAdder <- (amount:number):func<(number) > number> > {
+                return (value:number):number > { return value + amount🦆 }🦆
+            }🦆
+            QUACK total:text <- makeAdder(1)(2)🦆
+            makeAdder(1)('two')🦆
+            makeAdder(1)(2)(3)🦆
+            QUACK numbers <- [1, 2]🦆
+            numbers[0]()🦆
+        `)).toEqual([
+            'Tried to assign number to text',
+            'Expected argument of type number but got text',
+            'Tried to call number as a function',
+            'Tried to call number as a function',
+        ]);
+    });
+
+    test('uses the declared return type of functions', () => {
+        expect(messagesOf(`
+            QUACK count <- ():number > {
+                return 1🦆
+            }🦆
+            QUACK label:text <- count()🦆
+        `)).toEqual([
+            'Tried to assign number to text',
+        ]);
+    });
+
+    test('infers the return type of functions that don\'t declare it', () => {
+        const code = `QUACK shout <- (who: text) > { return who + '!'🦆 }🦆
+QUACK greet <- (who: text) > { quackprint(shout(who))🦆 }🦆
+QUACK pick <- (value: number) > {
+    if (value > 1) { return 'big'🦆 }🦆
+    return 1🦆
+}🦆
+QUACK find <- (value: number) > {
+    if (value > 1) { return 'big'🦆 }🦆
+}🦆`;
+        const typeChecker = new TypeChecker();
+        typeChecker.check(new Parser().parse(new Lexer().convertToTokens(code)));
+
+        const typeOf = (name: string) => {
+            const [, symbol] = [...typeChecker.getSymbolTable().identifiers].find(([identifier]) => identifier.value === name) ?? [];
+            return symbol?.dataType && DataTypeUtils.typeToText(symbol.dataType);
+        };
+        expect(['shout', 'greet', 'pick', 'find', 'quackprint'].map(typeOf)).toEqual([
+            'func<(text) > text>',
+            'func<(text) > nothing>',
+            'func<(number) > unknown>',
+            'func<(number) > unknown>',
+            'func<(text) > nothing>',
+        ]);
+    });
+
+    test('functions can use variables declared after them', () => {
+        expect(messagesOf(`
+            QUACK isEven <- (value:number):boolean > {
+                return value == 0 ? true : isOdd(value - 1)🦆
+            }🦆
+            QUACK isOdd <- (value:number):boolean > {
+                return value == 0 ? false : isEven(value - 1)🦆
+            }🦆
+            isEven(4)🦆
+        `)).toEqual([]);
+    });
+
+    test('reports undeclared and redeclared variables', () => {
+        expect(messagesOf(`
+            quackprint(missing)🦆
+            quack value <- 1🦆
+            quack value <- 2🦆
+            if (true) {
+                quack value <- 3🦆
+            }🦆
+        `)).toEqual([
+            'Variable \'missing\' is not declared',
+            'Variable \'value\' already exists',
+        ]);
+    });
+
+    test('redeclarations point to the previous declaration', () => {
+        const [diagnostic] = TestUtils.check(`quack value <- 1🦆
+quack value <- 2🦆`);
+
+        expect(diagnostic).toMatchObject({
+            code: 'QS3003',
+            start: { line: 2, lineChar: 7 },
+            end: { line: 2, lineChar: 12 },
+            related: [{ start: { line: 1, lineChar: 7 }, message: '\'value\' is declared' }]
+        });
+    });
+
+    test('checks lists and vectors', () => {
+        expect(messagesOf(`
+            QUACK numbers <- [1, 'two']🦆
+            QUACK values <- [1, 2]🦆
+            values['first']🦆
+            values[0] <- 'one'🦆
+            QUACK word <- 'word'🦆
+            word[0]🦆
+            vector2(1, 'two')🦆
+            vector2(1, 2).z🦆
+        `)).toEqual([
+            'List elements must be of the same type, expected number but found text',
+            'List index must be a number but found text',
+            'Tried to assign text to an element of list<number>',
+            'Tried to index text, only lists can be indexed',
+            'vector2 components must be numbers but found text',
+            'Attribute \'z\' is not part of vector2',
+        ]);
+    });
+
+    test('checks the arguments of the functions of lists and vectors', () => {
+        expect(messagesOf(`
+            QUACK values <- [1, 2]🦆
+            values.push('three')🦆
+            values.slice(0)🦆
+            values.contains('one')🦆
+            vector2(1, 2).dot(vector3(1, 2, 3))🦆
+            vector2(1, 2).length(1)🦆
+        `)).toEqual([
+            'Expected argument of type number but got text',
+            '\'slice\' expects 2 arguments but got 1 arguments',
+            'Expected argument of type vector2 but got vector3',
+            '\'length\' expects 0 arguments but got 1 arguments',
+        ]);
+    });
+
+    test('checks records', () => {
+        expect(messagesOf(`
+            QUACK Duck <- type { name: text, age: optional<number> }🦆
+            QUACK donald:Duck <- { name: 5 }🦆
+            QUACK daisy:Duck <- { age: 3 }🦆
+            QUACK scrooge:Duck <- { name: 'scrooge', wealth: 100 }🦆
+            donald.color🦆
+            donald.name <- 1🦆
+            QUACK loose <- { size: 1 }🦆
+            loose.weight🦆
+        `)).toEqual([
+            'Field \'name\' of Duck must be text but got number',
+            'Missing field \'name\' of Duck',
+            'Field \'wealth\' is not part of Duck',
+            'Field \'color\' is not part of Duck',
+            'Tried to assign number to text',
+            'Field \'weight\' is not part of record',
+        ]);
+    });
+
+    test('checks imported declarations', () => {
+        const loadFile = () => 'export QUACK add <- (first:number, second:number):number > { return first + second🦆 }🦆';
+        const diagnostics = TestUtils.check(`import 'math.quack'🦆
+QUACK total:text <- add(1, 2)🦆`, loadFile);
+
+        expect(diagnostics.map((diagnostic) => diagnostic.message)).toEqual(['Tried to assign number to text']);
+        expect(diagnostics[0]?.start.line).toEqual(2);
+    });
+
+    test('imports are resolved from the file importing them', () => {
+        const files: Record<string, string> = {
+            '/project/lib/math.quack': 'import \'./constants.quack\'🦆\nexport QUACK double <- (value:number):number > { return value * two🦆 }🦆',
+            '/project/lib/constants.quack': 'export QUACK two <- 2🦆',
+        };
+        const resolvePath = (path: string, importer: string | null) => `${importer?.replace(/[^/]*$/, '') ?? '/'}${path.replace('./', '')}`;
+        const loadFile = jest.fn((path: string) => files[path] ?? '');
+        const code = 'import \'./lib/math.quack\'🦆\nQUACK result:text <- double(2)🦆';
+
+        const diagnostics = new TypeChecker(loadFile, resolvePath).check(new Parser().parse(new Lexer().convertToTokens(code)), '/project/main.quack');
+
+        expect(loadFile.mock.calls.map(([path]) => path)).toEqual(['/project/lib/math.quack', '/project/lib/constants.quack']);
+        expect(diagnostics.map((diagnostic) => diagnostic.message)).toEqual(['Tried to assign number to text']);
+    });
+
+    test('files imported by several files are checked once and their symbols are not duplicated', () => {
+        const files: Record<string, string> = {
+            'counter.quack': 'export quack count <- 0🦆',
+            'first.quack': 'import \'counter.quack\'🦆\nexport QUACK first <- count🦆',
+            'second.quack': 'import \'./counter.quack\'🦆\nexport QUACK second <- count🦆',
+        };
+        const loadFile = jest.fn((path: string) => files[path] ?? '');
+
+        const diagnostics = TestUtils.check(`import 'first.quack'🦆
+import 'second.quack'🦆
+import 'counter.quack'🦆
+QUACK total:text <- first + second + count🦆`, loadFile);
+
+        expect(loadFile.mock.calls.map(([path]) => path)).toEqual(['first.quack', 'counter.quack', 'second.quack']);
+        expect(diagnostics.map((diagnostic) => diagnostic.message)).toEqual(['Tried to assign number to text']);
+    });
+
+    test('circular imports don\'t stop the importer from being checked', () => {
+        const files: Record<string, string> = {
+            '/project/a.quack': 'import \'./b.quack\'🦆\nexport QUACK a <- 1🦆',
+            '/project/b.quack': 'import \'./a.quack\'🦆\nexport QUACK b <- 2🦆',
+        };
+        const code = 'import \'./a.quack\'🦆\nimport \'./b.quack\'🦆\nQUACK total:text <- a + b🦆\nquackprint(unknown)🦆';
+
+        const diagnostics = new TypeChecker((path) => files[path] ?? '')
+            .check(new Parser().parse(new Lexer().convertToTokens(code)), '/project/main.quack');
+
+        expect(diagnostics.map((diagnostic) => diagnostic.message)).toEqual([
+            'Tried to assign number to text',
+            'Variable \'unknown\' is not declared',
+        ]);
+    });
+
+    test('files importing themselves are reported', () => {
+        const code = 'import \'./main.quack\'🦆';
+        const diagnostics = new TypeChecker(() => code).check(new Parser().parse(new Lexer().convertToTokens(code)), '/project/main.quack');
+
+        expect(diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.message])).toEqual([
+            ['QS3016', 'Circular import /project/main.quack -> /project/main.quack'],
+        ]);
+    });
+
+    test('imported names must be exported by the module', () => {
+        const loadFile = () => 'QUACK factor <- 2🦆\nexport QUACK double <- (value:number):number > { return value * factor🦆 }🦆';
+        const diagnostics = TestUtils.check(`import { double, factor } from 'math.quack'🦆
+QUACK result:number <- double(factor)🦆`, loadFile);
+
+        expect(diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.message])).toEqual([
+            ['QS3015', '\'factor\' is not exported by math.quack'],
+        ]);
+    });
+
+    test('namespace imports have the types of the exports as fields', () => {
+        const loadFile = () => 'export QUACK double <- (value:number):number > { return value * 2🦆 }🦆\nQUACK hidden <- 1🦆';
+        const diagnostics = TestUtils.check(`import 'math.quack' as math🦆
+QUACK result:text <- math.double(2)🦆
+math.hidden🦆`, loadFile);
+
+        expect(diagnostics.map((diagnostic) => [diagnostic.start.line, diagnostic.message])).toEqual([
+            [2, 'Tried to assign number to text'],
+            [3, 'Field \'hidden\' is not part of record'],
+        ]);
+    });
+
+    test('imports that can\'t be loaded are reported and the rest of the file is still checked', () => {
+        const loadFile = (path: string) => {
+            throw new Error(`File ${path} not found`);
+        };
+        const diagnostics = TestUtils.check(`import 'missing.quack'🦆
+import { add } from 'math.quack'🦆
+import 'other.quack' as other🦆
+add(other.value)🦆
+quackprint(unknown)🦆`, loadFile);
+
+        expect(diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.start.line, diagnostic.message])).toEqual([
+            ['QS3016', 1, 'Unable to load missing.quack: File missing.quack not found'],
+            ['QS3016', 2, 'Unable to load math.quack: File math.quack not found'],
+            ['QS3016', 3, 'Unable to load other.quack: File other.quack not found'],
+            ['QS3002', 5, 'Variable \'unknown\' is not declared'],
+        ]);
+    });
+
+    test('caught errors have a text message and number position', () => {
+        expect(messagesOf(`try {
+    fail('broken')🦆
+} catch (err) {
+    QUACK message: text <- err.message🦆
+    QUACK line: text <- err.line🦆
+}🦆
+err🦆`)).toEqual([
+            'Tried to assign number to text',
+            'Variable \'err\' is not declared'
+        ]);
+    });
+
+    test('the symbol table links every identifier to its declaration', () => {
+        const code = `quack count <- 0🦆
+QUACK increase <- (amount: number) > {
+    count <- count + amount🦆
+}🦆
+increase(1)🦆`;
+        const typeChecker = new TypeChecker();
+        typeChecker.check(new Parser().parse(new Lexer().convertToTokens(code)));
+        const { identifiers, scopes } = typeChecker.getSymbolTable();
+
+        const usesOf = (name: string) => [...identifiers]
+            .filter(([identifier]) => identifier.value === name)
+            .map(([identifier, symbol]) => [identifier.position.line, symbol.position?.line]);
+        expect(usesOf('count')).toEqual([[1, 1], [3, 1], [3, 1]]);
+        expect(usesOf('amount')).toEqual([[2, 2], [3, 2]]);
+        expect(scopes.map((scope) => scope.block?.position.line ?? null)).toEqual([null, 2]);
+    });
+});
@@ -0,0 +1,1175 @@
+import Lexer from '../lexer';
+import Parser from '../parser';
+import {
+    AccessorExpressionNode, AssignmentNode, BinaryExpressionNode, CallExpressionNode, CodeBlockNode, ConditionalExpressionNode, DataTypeNode,
+    DataTypes, DeclarationNode, ExpressionNode, FieldAssignmentNode, ForStatementNode, FuncCallNode, FuncDataType, FuncDeclarationNode, IdentifierNode,
+    IfStatementNode, ImportStatementNode, IndexAssignmentNode, IndexExpressionNode,
+    ListDataType, ListLiteralNode, ModuleNode, Node, OptionalDataType, RecordDataType, RecordLiteralNode, RecordTypeNode,
+    StatementNode, TryStatementNode, UnaryExpressionNode, VectorConstructorNode, WhenExpressionNode, WhileStatementNode
+} from '../parser/types';
+import { Library } from '../stdLibrary/library';
+import { StaticPrimitiveAttributes } from '../interpreter/staticPrimitiveAttributes';
+import { Value } from '../interpreter/types';
+import { System } from '../system';
+import { Diagnostic, DiagnosticCode, DiagnosticCodes, DiagnosticLocation } from '../types/Diagnostic';
+import { Position } from '../types/Position';
+import { DataTypeUtils } from '../utils/dataTypes/dataTypeUtils';
+import { DiagnosticUtils } from '../utils/diagnostic/diagnosticUtils';
+import { NodeUtils } from '../utils/node/nodeUtils';
+import { PendingFunction, RecordLiteralType, StaticType, SymbolTable, TypeScope, TypeSymbol } from './types';
+
+const comparisonOperators = ['==', '!=', '<', '<=', '>', '>='];
+const logicalOperators = ['&&', '||'];
+
+/**
+ * Finds type errors without running the code, types that are only known at runtime are not checked
+ */
+export default class TypeChecker {
+
+    private _lexer: Lexer;
+    private _parser: Parser;
+    private _system: System;
+    private _library: Library;
+    private _scope: TypeScope;
+    private _diagnostics: Array<Diagnostic> = [];
+    private _symbolTable: SymbolTable = { identifiers: new Map(), scopes: [] };
+    private _pendingFunctions: Array<PendingFunction> = [];
+    // declared return types of the functions being checked, null when they don't declare one
+    private _returnTypes: Array<DataTypeNode | null> = [];
+    // types of the values returned by the functions being checked, used to infer the undeclared return types
+    private _returnedTypes: Array<Array<StaticType>> = [];
+    // path of the file being checked, imports are resolved from it
+    private _filePath: string | null = null;
+    // exported symbols of the files imported in this check by their path
+    private _modules: Map<string, Record<string, TypeSymbol>> = new Map();
+    // paths of the files whose imports are being checked, starting with the checked file
+    private _importChain: Array<string> = [];
+
+    /**
+     * @param library functions declared before the code runs, the standard library when not given
+     */
+    public constructor(loadFile?: System['loadFile'], resolvePath?: System['resolvePath'], library: Library = new Library()) {
+        this._lexer = new Lexer();
+        this._parser = new Parser();
+        this._system = new System(undefined, undefined, loadFile, resolvePath);
+        this._library = library;
+        this._scope = this.createGlobalScope();
+    }
+
+    /**
+     * Checks the module and every function declared in it
+     * @param filePath path of the file the module was read from, used to resolve its imports
+     * @returns the type errors sorted by position
+     */
+    public check(tree: ModuleNode, filePath?: string): Array<Diagnostic> {
+        this._filePath = filePath ?? null;
+        this._modules = new Map();
+        this._importChain = filePath ? [filePath] : [];
+        this._scope = this.createGlobalScope();
+        this._diagnostics = [];
+        this._symbolTable = { identifiers: new Map(), scopes: [this._scope] };
+        this._pendingFunctions = [];
+        this._returnTypes = [];
+        this._returnedTypes = [];
+
+        this.checkModule(tree);
+        this.checkPendingFunctions();
+
+        return DiagnosticUtils.sort(this._diagnostics);
+    }
+
+    /**
+     * Gets the symbols and scopes of the module checked last, symbols of imported files are left out
+     */
+    public getSymbolTable(): SymbolTable {
+        return this._symbolTable;
+    }
+
+    private createGlobalScope = (): TypeScope => {
+        const symbols: Record<string, TypeSymbol> = {};
+        Object.entries(this._library.getDeclarations()).forEach(([identifier, memoryValue]) => {
+            symbols[identifier] = {
+                declarationType: memoryValue.declarationType === 'constant' ? 'constant' : 'internal',
+                dataType: this.typeOfInternalValue(memoryValue.value),
+                recordType: null,
+                position: null
+            };
+        });
+        return { parent: null, symbols, block: null };
+    };
+
+    /**
+     * Gets the type of a library function, or of a module of functions as a record of their types
+     */
+    private typeOfInternalValue = (value: Value): StaticType => {
+        if (value.type === 'InternalFunction') return DataTypeUtils.getFunctionSignature(value);
+        if (value.type !== 'Record') return null;
+
+        const moduleType: RecordLiteralType = {
+            type: 'DataType',
+            value: 'record',
+            fields: {},
+            position: value.position
+        };
+        Object.entries(value.fields).forEach(([name, field]) => {
+            moduleType.fields[name] = this.typeOfInternalValue(field.value);
+        });
+        return moduleType;
+    };
+
+    private checkModule = (moduleNode: ModuleNode) => {
+        let isImportAllowed = true;
+        for (const statement of moduleNode.statements) {
+            if (statement.body.type === 'ImportStatement' && isImportAllowed) {
+                this.checkImport(statement.body);
+                continue;
+            }
+            isImportAllowed = false;
+            this.checkStatement(statement);
+        }
+    };
+
+    /**
+     * Imported files are checked once in their own scope, like when running them, and their exports are added to the importer
+     * by their names or under the namespace of the import. Their own type errors and symbols are not reported in this module.
+     * The names and namespace of imports that can't be checked are declared without a type
+     */
+    private checkImport = (node: ImportStatementNode) => {
+        const exports = this.checkImportedModule(node);
+        if (!exports) {
+            if (node.alias) {
+                this.declare(node.alias, { declarationType: 'constant', dataType: null, recordType: null, position: node.alias.position });
+            }
+            node.names?.forEach((name) => this.declareUnknownImport(name));
+            return;
+        }
+
+        if (node.alias) {
+            const namespaceType: RecordLiteralType = { type: 'DataType', value: 'record', fields: {}, position: node.alias.position };
+            Object.entries(exports).forEach(([name, symbol]) => namespaceType.fields[name] = symbol.dataType);
+            this.declare(node.alias, { declarationType: 'constant', dataType: namespaceType, recordType: null, position: node.alias.position });
+            return;
+        }
+
+        if (!node.names) {
+            Object.entries(exports).forEach(([name, symbol]) => this.bindImport(name, symbol, node));
+            return;
+        }
+
+        node.names.forEach((name) => {
+            const symbol = Object.prototype.hasOwnProperty.call(exports, name.value) ? exports[name.value] : undefined;
+            if (!symbol) {
+                this.report(name, `'${name.value}' is not exported by ${node.value.value}`, DiagnosticCodes.MissingExport);
+                this.declareUnknownImport(name);
+                return;
+            }
+            this.bindImport(name.value, symbol, name);
+        });
+    };
+
+    /**
+     * Declares an imported name whose type isn't known, so its uses are not reported again as undeclared
+     */
+    private declareUnknownImport = (name: IdentifierNode) => {
+        this.bindImport(name.value, { declarationType: 'constant', dataType: null, recordType: null, position: name.position }, name);
+    };
+
+    /**
+     * Adds the symbol of another module to the scope, the same symbol can be imported many times
+     */
+    private bindImport = (name: string, symbol: TypeSymbol, node: Node) => {
+        const declaredSymbol = Object.prototype.hasOwnProperty.call(this._scope.symbols, name) ? this._scope.symbols[name] : undefined;
+        if (declaredSymbol && declaredSymbol !== symbol) {
+            this.report(node, `Variable '${name}' already exists`, DiagnosticCodes.DuplicateDeclaration);
+            return;
+        }
+        this._scope.symbols[name] = symbol;
+    };
+
+    /**
+     * @returns the exported symbols of the imported file, null when it can't be loaded or imports itself through its imports
+     */
+    private checkImportedModule = (node: ImportStatementNode): Record<string, TypeSymbol> | null => {
+        let filePath: string;
+        let code: string;
+        try {
+            filePath = this._system.resolvePath(node.value.value, this._filePath);
+            const cachedExports = this._modules.get(filePath);
+            if (cachedExports) return cachedExports;
+            if (this._importChain.includes(filePath)) {
+                this.report(node, `Circular import ${[...this._importChain, filePath].join(' -> ')}`, DiagnosticCodes.InvalidImport);
+                return null;
+            }
+            code = this._system.loadFile(filePath);
+        } catch (error) {
+            this.report(node.value, `Unable to load ${node.value.value}: ${error instanceof Error ? error.message : String(error)}`,
+                DiagnosticCodes.InvalidImport);
+            return null;
+        }
+
+        const diagnostics = this._diagnostics;
+        const symbolTable = this._symbolTable;
+        const importerScope = this._scope;
+        const importerPath = this._filePath;
+        this._diagnostics = [];
+        this._symbolTable = { identifiers: new Map(), scopes: [] };
+        this._scope = { parent: this.createGlobalScope(), symbols: {}, block: null };
+        this._filePath = filePath;
+        this._importChain.push(filePath);
+
+        let exports: Record<string, TypeSymbol>;
+        try {
+            // statements of the file with syntax errors are left out, the errors are reported when checking the file itself
+            const tree = this._parser.parseModule(this._lexer.tokenize(code).tokens).ast;
+            this.checkModule(tree);
+            exports = this.getExports(tree, this._scope);
+        } finally {
+            this._importChain.pop();
+            this._diagnostics = diagnostics;
+            this._symbolTable = symbolTable;
+            this._scope = importerScope;
+            this._filePath = importerPath;
+        }
+
+        this._modules.set(filePath, exports);
+        return exports;
+    };
+
+    private getExports = (moduleNode: ModuleNode, moduleScope: TypeScope): Record<string, TypeSymbol> => {
+        const exports: Record<string, TypeSymbol> = {};
+        moduleNode.statements.forEach(({ body }) => {
+            if (body.type !== 'Declaration' || !body.isExported) return;
+            const name = body.assignmentNode.identifier.value;
+            const symbol = Object.prototype.hasOwnProperty.call(moduleScope.symbols, name) ? moduleScope.symbols[name] : undefined;
+            if (symbol) exports[name] = symbol;
+        });
+        return exports;
+    };
+
+    private checkPendingFunctions = () => {
+        let pending = this._pendingFunctions.shift();
+        while (pending) {
+            this.checkFunction(pending);
+            pending = this._pendingFunctions.shift();
+        }
+    };
+
+    private checkFunction = ({ node, signature, scope, diagnostics, symbolTable }: PendingFunction) => {
+        const previousDiagnostics = this._diagnostics;
+        const previousSymbolTable = this._symbolTable;
+        this._diagnostics = diagnostics;
+        this._symbolTable = symbolTable;
+        this._scope = this.createScope(scope, node.body);
+        this._returnTypes.push(node.returnType);
+        this._returnedTypes.push([]);
+
+        try {
+            node.parameters?.params.forEach((param) => this.declare(param.identifier, {
+                declarationType: 'argument',
+                dataType: param.dataType,
+                recordType: null,
+                position: param.identifier.position
+            }));
+            node.body.body.forEach(this.checkStatement);
+            this.checkMissingReturn(node);
+            if (!node.returnType) this.inferReturnType(node, signature, this._returnedTypes[this._returnedTypes.length - 1] ?? []);
+        } finally {
+            this._returnTypes.pop();
+            this._returnedTypes.pop();
+            this._diagnostics = previousDiagnostics;
+            this._symbolTable = previousSymbolTable;
+        }
+    };
+
+    /**
+     * Functions that declare what they return must return in every path, only optionals can end without a value
+     */
+    private checkMissingReturn = (node: FuncDeclarationNode) => {
+        const returnType = node.returnType;
+        if (!returnType || ['optional', 'nothing'].includes(returnType.value) || this.alwaysReturns(node.body.body)) return;
+
+        this.report(returnType,
+            `Expected function to return ${this.typeToText(returnType)} but it can end without returning`, DiagnosticCodes.MissingReturn);
+    };
+
+    /**
+     * Functions that don't declare what they return get the type all of their return statements have, or nothing when
+     * they have none. The return type stays unknown when the types differ or the function can also end without returning
+     */
+    private inferReturnType = (node: FuncDeclarationNode, signature: FuncDataType, returnedTypes: Array<StaticType>) => {
+        delete node.inferredReturnType;
+
+        const [firstType] = returnedTypes;
+        if (firstType === null || (firstType && !this.alwaysReturns(node.body.body))) return;
+        if (!returnedTypes.every((type) => type && firstType && DataTypeUtils.isSameType(firstType, type))) return;
+
+        const returnType = firstType ?? this.createType('nothing', node.position);
+        signature.returnType = returnType;
+        node.inferredReturnType = returnType;
+    };
+
+    /**
+     * Checks if the statements return in every path, loops are expected to end without returning
+     */
+    private alwaysReturns = (statements: Array<StatementNode>): boolean => statements.some(({ body }) => {
+        switch (body.type) {
+        case 'ReturnStatement':
+            return true;
+        case 'IfStatement':
+            return this.alwaysReturnsIf(body);
+        case 'TryStatement':
+            return (body.finallyBlock !== null && this.alwaysReturns(body.finallyBlock.body)) ||
+                (this.alwaysReturns(body.body.body) && (!body.catchBlock || this.alwaysReturns(body.catchBlock.body)));
+        }
+        return false;
+    });
+
+    private alwaysReturnsIf = (node: IfStatementNode): boolean => {
+        if (!node.falseExpression || !this.alwaysReturns(node.trueExpression.body)) return false;
+        return node.falseExpression.type === 'IfStatement' ?
+            this.alwaysReturnsIf(node.falseExpression) :
+            this.alwaysReturns(node.falseExpression.body);
+    };
+
+    private checkStatement = (statement: StatementNode) => {
+        const body = statement.body;
+        switch (body.type) {
+        case 'Declaration':
+            return this.checkDeclaration(body);
+        case 'Assignment':
+            return this.checkAssignment(body);
+        case 'Expression':
+            this.typeOfExpression(body);
+            return;
+        case 'ReturnStatement':
+            return this.checkReturn(body.value);
+        case 'IfStatement':
+            return this.checkIfStatement(body);
+        case 'WhileStatement':
+            return this.checkWhileStatement(body);
+        case 'ForStatement':
+            return this.checkForStatement(body);
+        case 'TryStatement':
+            return this.checkTryStatement(body);
+        case 'IndexAssignment':
+            return this.checkIndexAssignment(body);
+        case 'FieldAssignment':
+            return this.checkFieldAssignment(body);
+        case 'ImportStatement':
+            return this.report(statement, 'Import statements must be at the top of the file', DiagnosticCodes.MisplacedImport);
+        case 'Error':
+            // already reported by the parser, what it declares is still declared so its uses aren't reported
+            if (body.identifier) {
+                this.declare(body.identifier, { declarationType: 'variable', dataType: null, recordType: null, position: body.identifier.position });
+            }
+            return;
+        }
+    };
+
+    private checkScopedCodeBlock = (block: CodeBlockNode) => {
+        this.withScope(() => block.body.forEach(this.checkStatement), block);
+    };
+
+    private withScope = <T>(check: () => T, block: CodeBlockNode | null = null): T => {
+        const scope = this._scope;
+        this._scope = this.createScope(scope, block);
+        try {
+            return check();
+        } finally {
+            this._scope = scope;
+        }
+    };
+
+    private createScope = (parent: TypeScope, block: CodeBlockNode | null): TypeScope => {
+        const scope: TypeScope = { parent, symbols: {}, block };
+        this._symbolTable.scopes.push(scope);
+        return scope;
+    };
+
+    private checkIfStatement = (node: IfStatementNode): void => {
+        this.checkCondition(node.condition, true);
+        this.checkScopedCodeBlock(node.trueExpression);
+
+        if (node.falseExpression?.type === 'IfStatement') {
+            this.checkIfStatement(node.falseExpression);
+        } else if (node.falseExpression !== null) {
+            this.checkScopedCodeBlock(node.falseExpression);
+        }
+    };
+
+    private checkWhileStatement = (node: WhileStatementNode) => {
+        this.checkCondition(node.condition, true);
+        this.checkScopedCodeBlock(node.body);
+    };
+
+    private checkForStatement = (node: ForStatementNode) => {
+        this.withScope(() => {
+            if (node.initializer?.type === 'Declaration') {
+                this.checkDeclaration(node.initializer);
+            } else if (node.initializer?.type === 'Assignment') {
+                this.checkAssignment(node.initializer);
+            }
+
+            if (node.condition) this.checkCondition(node.condition, true);
+            this.checkScopedCodeBlock(node.body);
+
+            if (node.increment?.type === 'Assignment') {
+                this.checkAssignment(node.increment);
+            } else if (node.increment?.type === 'Expression') {
+                this.typeOfExpression(node.increment);
+            }
+        });
+    };
+
+    /**
+     * The error of the catch block is a record with the message and position of the runtime error
+     */
+    private checkTryStatement = (node: TryStatementNode) => {
+        this.checkScopedCodeBlock(node.body);
+
+        const { catchBlock, errorIdentifier } = node;
+        if (catchBlock && errorIdentifier) {
+            const position = errorIdentifier.position;
+            const errorType: RecordLiteralType = {
+                type: 'DataType',
+                value: 'record',
+                fields: {
+                    message: this.createType('text', position),
+                    line: this.createType('number', position),
+                    column: this.createType('number', position)
+                },
+                position
+            };
+            this.withScope(() => {
+                this.declare(errorIdentifier, { declarationType: 'constant', dataType: errorType, recordType: null, position });
+                catchBlock.body.forEach(this.checkStatement);
+            }, catchBlock);
+        }
+
+        if (node.finallyBlock) this.checkScopedCodeBlock(node.finallyBlock);
+    };
+
+    /**
+     * Statement conditions treat nothing as false, conditional expressions only take booleans
+     */
+    private checkCondition = (condition: ExpressionNode, isNothingAllowed: boolean) => {
+        const type = this.typeOfExpression(condition);
+        if (!type || type.value === 'boolean' || (isNothingAllowed && type.value === 'nothing')) return;
+        this.report(condition, `Condition must be boolean but found ${this.typeToText(type)}`, DiagnosticCodes.InvalidCondition);
+    };
+
+    private checkDeclaration = (node: DeclarationNode) => {
+        const identifier = node.assignmentNode.identifier;
+        const expression = node.assignmentNode.expression;
+        const valueType = this.typeOfExpression(expression);
+        const dataType = this.getDeclaredType(node, valueType);
+
+        if (node.dataType && dataType) {
+            this.checkAssignedType(dataType, this.unwrapOptional(dataType, valueType), expression);
+        }
+
+        if (!node.dataType && expression.body.type === 'ListLiteral' && expression.body.elements.length === 0) {
+            this.report(node, `Unable to infer the type of '${identifier.value}', declare it as list<type>`, DiagnosticCodes.UninferredType);
+        }
+
+        this.declare(identifier, {
+            declarationType: node.declaratorType,
+            dataType,
+            recordType: this.getRecordType(expression),
+            position: identifier.position
+        });
+    };
+
+    /**
+     * Declarations unwrap optional values, the value they hold is checked instead
+     */
+    private unwrapOptional = (dataType: DataTypeNode, valueType: StaticType): StaticType => {
+        if (dataType.value === 'optional' || valueType?.value !== 'optional') return valueType;
+
+        const internalType = DataTypeUtils.getInternalType(valueType);
+        return internalType ? this.createType(internalType, valueType.position) : null;
+    };
+
+    /**
+     * Infers the type of the declaration the same way the interpreter does
+     */
+    private getDeclaredType = (node: DeclarationNode, valueType: StaticType): StaticType => {
+        if (!node.isOptional) return node.dataType ?? valueType;
+
+        const internalType = node.dataType ?
+            DataTypeUtils.getInternalType(node.dataType) ?? node.dataType.value :
+            valueType?.value ?? null;
+        if (!internalType) return null;
+
+        const optionalType: OptionalDataType = {
+            type: 'DataType',
+            value: 'optional',
+            internalType,
+            position: node.position
+        };
+        return optionalType;
+    };
+
+    /**
+     * Gets the record type a type expression holds, used to check the fields of records declared with it
+     */
+    private getRecordType = (expression: ExpressionNode): RecordTypeNode | null => {
+        if (expression.body.type === 'RecordType') return expression.body;
+        if (expression.body.type === 'Identifier') return this.lookup(expression.body, false)?.recordType ?? null;
+        return null;
+    };
+
+    private checkAssignment = (node: AssignmentNode) => {
+        const valueType = this.typeOfExpression(node.expression);
+        const symbol = this.lookup(node.identifier);
+        if (!symbol) return;
+
+        if (symbol.declarationType === 'constant' || symbol.declarationType === 'argument') {
+            this.report(node, `Tried to update ${symbol.declarationType} '${node.identifier.value}'`, DiagnosticCodes.ConstantUpdate);
+            return;
+        }
+
+        if (symbol.dataType) {
+            this.checkAssignedType(symbol.dataType, valueType, node.expression);
+        }
+    };
+
+    private checkReturn = (expression: ExpressionNode) => {
+        const valueType = this.typeOfExpression(expression);
+        const returnType = this._returnTypes[this._returnTypes.length - 1];
+        this._returnedTypes[this._returnedTypes.length - 1]?.push(valueType);
+        if (!returnType || !valueType) return;
+
+        if (!this.isAssignable(returnType, valueType)) {
+            this.report(expression,
+                `Expected function to return ${this.typeToText(returnType)} but got ${this.typeToText(valueType)}`, DiagnosticCodes.TypeMismatch);
+            return;
+        }
+        this.checkRecordFields(returnType, valueType, expression);
+    };
+
+    /**
+     * Checks a value assigned to a variable, field or argument of the given type
+     */
+    private checkAssignedType = (dataType: DataTypeNode, valueType: StaticType, node: Node) => {
+        if (!valueType) return;
+
+        if (!this.isAssignable(dataType, valueType)) {
+            this.report(node, `Tried to assign ${this.typeToText(valueType)} to ${this.typeToText(dataType)}`, DiagnosticCodes.TypeMismatch);
+            return;
+        }
+        this.checkRecordFields(dataType, valueType, node);
+    };
+
+    /**
+     * Record literals take the record type they are assigned to, their fields must match it
+     */
+    private checkRecordFields = (dataType: DataTypeNode, valueType: DataTypeNode, node: Node) => {
+        if (!DataTypeUtils.isRecordDataType(dataType) || !this.isRecordLiteralType(valueType)) return;
+
+        const recordType = this.resolveRecordType(dataType);
+        if (!recordType) return;
+
+        for (const field of recordType.fields) {
+            const name = field.identifier.value;
+            if (!(name in valueType.fields)) {
+                if (field.dataType.value !== 'optional') {
+                    this.report(node, `Missing field '${name}' of ${dataType.name}`, DiagnosticCodes.MissingField);
+                }
+                continue;
+            }
+
+            const fieldType = valueType.fields[name] ?? null;
+            if (fieldType && !this.isAssignable(field.dataType, fieldType)) {
+                this.report(node,
+                    `Field '${name}' of ${dataType.name} must be ${this.typeToText(field.dataType)} but got ${this.typeToText(fieldType)}`, DiagnosticCodes.TypeMismatch);
+            }
+        }
+
+        const unknownField = Object.keys(valueType.fields)
+            .find((name) => !recordType.fields.some((field) => field.identifier.value === name));
+        if (unknownField) {
+            this.report(node, `Field '${unknownField}' is not part of ${dataType.name}`, DiagnosticCodes.UnknownField);
+        }
+    };
+
+    private resolveRecordType = (dataType: RecordDataType): RecordTypeNode | null => {
+        const symbol = this.findSymbol(dataType.name);
+        if (!symbol) return null;
+        if (!symbol.recordType && symbol.dataType?.value !== 'type') {
+            this.report(dataType, `'${dataType.name}' is not a record type`, DiagnosticCodes.NotARecordType);
+        }
+        return symbol.recordType;
+    };
+
+    private checkIndexAssignment = (node: IndexAssignmentNode) => {
+        const listType = this.typeOfIndexExpression(node.target);
+        const valueType = this.typeOfExpression(node.expression);
+        if (!listType || !valueType) return;
+
+        if (!this.isAssignable(listType, valueType)) {
+            this.report(node.expression,
+                `Tried to assign ${this.typeToText(valueType)} to an element of list<${this.typeToText(listType)}>`, DiagnosticCodes.TypeMismatch);
+        }
+    };
+
+    private checkFieldAssignment = (node: FieldAssignmentNode) => {
+        const recordType = this.typeOfExpression(node.target.expression);
+        const field = node.target.value as IdentifierNode;
+        const valueType = this.typeOfExpression(node.expression);
+        if (!recordType) return;
+
+        if (recordType.value !== 'record') {
+            this.report(node.target, `Tried to assign field '${field.value}' of ${this.typeToText(recordType)}`, DiagnosticCodes.UnknownField);
+            return;
+        }
+
+        const fieldType = this.getFieldType(recordType, field);
+        if (fieldType) {
+            this.checkAssignedType(fieldType, valueType, node.expression);
+        }
+    };
+
+    private typeOfExpression = (node: ExpressionNode): StaticType => {
+        const body = node.body;
+        switch (body.type) {
+        case 'TextLiteral':
+        case 'BooleanLiteral':
+        case 'NothingLiteral':
+        case 'Vector2Literal':
+        case 'Vector3Literal':
+        case 'NumberLiteral':
+            return this.createType(DataTypeUtils.literalToDataType(body.type), node.position);
+        case 'FuncDeclaration': {
+            const signature = DataTypeUtils.getFunctionSignature(body);
+            this._pendingFunctions.push({
+                node: body,
+                signature,
+                scope: this._scope,
+                diagnostics: this._diagnostics,
+                symbolTable: this._symbolTable
+            });
+            return signature;
+        }
+        case 'Identifier':
+            return this.lookup(body)?.dataType ?? null;
+        case 'FuncCallNode':
+            return this.typeOfFunctionCall(body);
+        case 'BinaryExpression':
+            return this.typeOfBinaryExpression(body);
+        case 'UnaryExpression':
+            return this.typeOfUnaryExpression(body);
+        case 'ConditionalExpression':
+            return this.typeOfConditionalExpression(body);
+        case 'WhenExpression':
+            return this.typeOfWhenExpression(body);
+        case 'TextTemplate':
+            body.parts.forEach((part) => {
+                if (part.type === 'Expression') this.typeOfExpression(part);
+            });
+            return this.createType('text', node.position);
+        case 'AccessorExpression':
+            return this.typeOfAccessorExpression(body);
+        case 'ListLiteral':
+            return this.typeOfListLiteral(body);
+        case 'IndexExpression':
+            return this.typeOfIndexExpression(body);
+        case 'CallExpression':
+            return this.typeOfCallExpression(body);
+        case 'VectorConstructor':
+            return this.typeOfVectorConstructor(body);
+        case 'RecordLiteral':
+            return this.typeOfRecordLiteral(body);
+        case 'RecordType':
+            return this.createType('type', node.position);
+        }
+    };
+
+    private typeOfFunctionCall = (node: FuncCallNode): StaticType => {
+        const symbol = this.lookup(node.identifier);
+        const args = node.params?.args ?? [];
+        const argTypes = args.map(this.typeOfExpression);
+        if (!symbol?.dataType) return null;
+
+        if (symbol.dataType.value !== 'func') {
+            this.report(node, `Tried to call variable '${node.identifier.value}' as a function`, DiagnosticCodes.NotCallable);
+            return null;
+        }
+        return this.checkCall(symbol.dataType, args, argTypes, node);
+    };
+
+    private typeOfCallExpression = (node: CallExpressionNode): StaticType => {
+        const fnType = this.typeOfExpression(node.expression);
+        const args = node.params?.args ?? [];
+        const argTypes = args.map(this.typeOfExpression);
+        if (!fnType) return null;
+
+        if (fnType.value !== 'func') {
+            this.report(node, `Tried to call ${this.typeToText(fnType)} as a function`, DiagnosticCodes.NotCallable);
+            return null;
+        }
+        return this.checkCall(fnType, args, argTypes, node);
+    };
+
+    /**
+     * Checks the arguments against the signature of the function
+     * @returns the declared return type, null when unknown
+     */
+    private checkCall = (
+        fnType: DataTypeNode,
+        args: Array<ExpressionNode>,
+        argTypes: Array<StaticType>,
+        node: Node
+    ): StaticType => {
+        if (!DataTypeUtils.isFuncDataType(fnType)) return null;
+
+        if (fnType.parameters.length !== args.length) {
+            this.report(node, `Expecting ${fnType.parameters.length} arguments but got ${args.length} arguments`, DiagnosticCodes.ArgumentCount);
+            return fnType.returnType;
+        }
+
+        fnType.parameters.forEach((parameter, i) => {
+            const argType = argTypes[i];
+            const arg = args[i];
+            if (!argType || !arg) return;
+
+            if (!this.isAssignable(parameter, argType)) {
+                this.report(arg,
+                    `Expected argument of type ${this.typeToText(parameter)} but got ${this.typeToText(argType)}`, DiagnosticCodes.TypeMismatch);
+                return;
+            }
+            this.checkRecordFields(parameter, argType, arg);
+        });
+
+        return fnType.returnType;
+    };
+
+    private typeOfBinaryExpression = (node: BinaryExpressionNode): StaticType => {
+        const left = this.typeOfExpression(node.left);
+        const right = this.typeOfExpression(node.right);
+        const operator = node.operator;
+        const isComparison = comparisonOperators.includes(operator);
+        const isLogical = logicalOperators.includes(operator);
+
+        if (!left || !right) {
+            return isComparison || isLogical ? this.createType('boolean', node.position) : null;
+        }
+
+        const resultType = this.getBinaryResultType(operator, left.value, right.value);
+        if (!resultType) {
+            this.report(node,
+                `Operator '${operator}' can't be used between ${this.typeToText(left)} and ${this.typeToText(right)}`, DiagnosticCodes.InvalidOperator);
+            return null;
+        }
+        return this.createType(resultType, node.position);
+    };
+
+    /**
+     * Mirrors the operations the interpreter supports for each pair of types
+     * @returns null when the operator can't be used with the types
+     */
+    private getBinaryResultType = (operator: string, left: DataTypes, right: DataTypes): DataTypes | null => {
+        const isComparison = comparisonOperators.includes(operator);
+        const isEquality = operator === '==' || operator === '!=';
+        const isLeftVector = left === 'vector2' || left === 'vector3';
+        const isRightVector = right === 'vector2' || right === 'vector3';
+
+        if (left === 'func' || right === 'func') return null;
+
+        if (left === 'boolean' && right === 'boolean') {
+            return isEquality || logicalOperators.includes(operator) ? 'boolean' : null;
+        }
+
+        if (left === 'number' && right === 'number') {
+            if (logicalOperators.includes(operator)) return null;
+            return isComparison ? 'boolean' : 'number';
+        }
+
+        if (left === 'text' && right === 'text') {
+            if (operator === '+') return 'text';
+            return isEquality ? 'boolean' : null;
+        }
+
+        if (isLeftVector && isRightVector) {
+            if (isEquality) return 'boolean';
+            return left === right && (operator === '+' || operator === '-') ? left : null;
+        }
+
+        if (isLeftVector && right === 'number' && (operator === '*' || operator === '/')) return left;
+        if (left === 'number' && isRightVector && operator === '*') return right;
+
+        return isEquality ? 'boolean' : null;
+    };
+
+    private typeOfUnaryExpression = (node: UnaryExpressionNode): StaticType => {
+        const type = this.typeOfExpression(node.value);
+        if (!type) return null;
+
+        if (node.operator === '!' && type.value === 'boolean') return type;
+        if (node.operator === '-' && ['number', 'vector2', 'vector3'].includes(type.value)) return type;
+
+        const expectedType = node.operator === '!' ? 'boolean' : 'number or vector';
+        this.report(node,
+            `Operator '${node.operator}' can only be used on ${expectedType} but found ${this.typeToText(type)}`, DiagnosticCodes.InvalidOperator);
+        return null;
+    };
+
+    private typeOfConditionalExpression = (node: ConditionalExpressionNode): StaticType => {
+        this.checkCondition(node.condition, false);
+        const trueType = this.typeOfExpression(node.trueExpression);
+        const falseType = this.typeOfExpression(node.falseExpression);
+        return this.getCommonType([trueType, falseType]);
+    };
+
+    /**
+     * The type of a when is only known when every case is an expression of the same type and there is an else case
+     */
+    private typeOfWhenExpression = (node: WhenExpressionNode): StaticType => {
+        this.typeOfExpression(node.value);
+        const caseTypes = node.cases.map((whenCase) => {
+            if (whenCase.body.type === 'CodeBlock') {
+                this.checkScopedCodeBlock(whenCase.body);
+                return null;
+            }
+            return this.typeOfExpression(whenCase.body);
+        });
+
+        const lastCase = node.cases[node.cases.length - 1];
+        return lastCase?.pattern === null ? this.getCommonType(caseTypes) : null;
+    };
+
+    private getCommonType = (types: Array<StaticType>): StaticType => {
+        const [firstType] = types;
+        if (!firstType) return null;
+        return types.every((type) => type && this.isAssignable(firstType, type) && this.isAssignable(type, firstType)) ?
+            firstType :
+            null;
+    };
+
+    private typeOfAccessorExpression = (node: AccessorExpressionNode): StaticType => {
+        const valueType = this.typeOfExpression(node.expression);
+        const identifier = node.value.type === 'FuncCallNode' ? node.value.identifier : node.value;
+        const args = node.value.type === 'FuncCallNode' ? node.value.params?.args ?? [] : [];
+        const argTypes = args.map(this.typeOfExpression);
+        if (!valueType) return null;
+
+        const isCommonAttribute = node.value.type === 'FuncCallNode' && this.isCommonAttribute(valueType, identifier);
+        if (valueType.value === 'record' && !isCommonAttribute) {
+            const fieldType = this.getFieldType(valueType, identifier);
+            if (!fieldType || node.value.type !== 'FuncCallNode') return fieldType;
+
+            if (fieldType.value !== 'func') {
+                this.report(node.value, `Tried to call field '${identifier.value}' as a function`, DiagnosticCodes.NotCallable);
+                return null;
+            }
+            return this.checkCall(fieldType, args, argTypes, node.value);
+        }
+
+        if (node.value.type === 'FuncCallNode') {
+            if (!StaticPrimitiveAttributes.getStaticPrimitiveValue(valueType.value, identifier)) {
+                this.report(identifier, `Attribute '${identifier.value}' is not part of ${this.typeToText(valueType)}`, DiagnosticCodes.UnknownField);
+                return null;
+            }
+            this.checkStaticCall(this.getStaticParameterTypes(valueType, identifier), identifier, args, argTypes);
+            return this.getStaticFunctionType(valueType, identifier, node.position);
+        }
+
+        const isVectorComponent = (valueType.value === 'vector2' && ['x', 'y'].includes(identifier.value)) ||
+            (valueType.value === 'vector3' && ['x', 'y', 'z'].includes(identifier.value));
+        if (!isVectorComponent) {
+            this.report(identifier, `Attribute '${identifier.value}' is not part of ${this.typeToText(valueType)}`, DiagnosticCodes.UnknownField);
+            return null;
+        }
+        return this.createType('number', node.position);
+    };
+
+    /**
+     * Gets the types of the arguments of the functions every primitive value has, null for arguments of any type.
+     * They are the arguments the interpreter checks when the function is called
+     */
+    private getStaticParameterTypes = (valueType: DataTypeNode, identifier: IdentifierNode): Array<StaticType> => {
+        const position = identifier.position;
+
+        switch (identifier.value) {
+        case 'push':
+            return [this.getElementType(valueType)];
+        case 'map':
+        case 'filter':
+            return [this.createType('func', position)];
+        case 'reduce':
+            return [this.createType('func', position), null];
+        case 'contains':
+            return [null];
+        case 'slice':
+            return [this.createType('number', position), this.createType('number', position)];
+        case 'dot':
+            return [valueType];
+        case 'cross':
+            return [this.createType('vector3', position)];
+        }
+        return [];
+    };
+
+    private checkStaticCall = (
+        parameters: Array<StaticType>,
+        identifier: IdentifierNode,
+        args: Array<ExpressionNode>,
+        argTypes: Array<StaticType>
+    ) => {
+        if (parameters.length !== args.length) {
+            this.report(identifier, `'${identifier.value}' expects ${parameters.length} arguments but got ${args.length} arguments`,
+                DiagnosticCodes.ArgumentCount);
+            return;
+        }
+
+        parameters.forEach((parameter, i) => {
+            const argType = argTypes[i];
+            const arg = args[i];
+            if (!parameter || !argType || !arg || this.isAssignable(parameter, argType)) return;
+
+            this.report(arg,
+                `Expected argument of type ${this.typeToText(parameter)} but got ${this.typeToText(argType)}`, DiagnosticCodes.TypeMismatch);
+        });
+    };
+
+    /**
+     * Gets the type returned by the functions every primitive value has, like list.length()
+     */
+    private getStaticFunctionType = (valueType: DataTypeNode, identifier: IdentifierNode, position: Position): StaticType => {
+        const internalType = DataTypeUtils.getInternalType(valueType);
+
+        switch (identifier.value) {
+        case 'toText':
+            return this.createType('text', position);
+        case 'length':
+        case 'dot':
+            return this.createType('number', position);
+        case 'contains':
+            return this.createType('boolean', position);
+        case 'push':
+            return this.createType('nothing', position);
+        case 'filter':
+        case 'slice':
+        case 'normalize':
+        case 'cross':
+            return valueType;
+        case 'pop':
+            return this.getElementType(valueType);
+        case 'unwrap':
+            return internalType ? this.createType(internalType, position) : null;
+        }
+        return null;
+    };
+
+    /**
+     * Gets the type of a record field, fields of records without a known type are not checked
+     */
+    private getFieldType = (recordType: DataTypeNode, identifier: IdentifierNode): StaticType => {
+        if (this.isRecordLiteralType(recordType)) {
+            if (!(identifier.value in recordType.fields)) {
+                this.report(identifier, `Field '${identifier.value}' is not part of record`, DiagnosticCodes.UnknownField);
+            }
+            return recordType.fields[identifier.value] ?? null;
+        }
+
+        if (!DataTypeUtils.isRecordDataType(recordType)) return null;
+
+        const recordTypeNode = this.resolveRecordType(recordType);
+        if (!recordTypeNode) return null;
+
+        const field = recordTypeNode.fields.find((field) => field.identifier.value === identifier.value);
+        if (!field) {
+            this.report(identifier, `Field '${identifier.value}' is not part of ${recordType.name}`, DiagnosticCodes.UnknownField);
+            return null;
+        }
+        return field.dataType;
+    };
+
+    /**
+     * Records without a field of the name fall back to the attributes every value has, like toText
+     */
+    private isCommonAttribute = (recordType: DataTypeNode, identifier: IdentifierNode): boolean => {
+        if (recordType.value !== 'record' || !StaticPrimitiveAttributes.getStaticPrimitiveValue('record', identifier)) return false;
+        if (this.isRecordLiteralType(recordType)) return !(identifier.value in recordType.fields);
+        if (!DataTypeUtils.isRecordDataType(recordType)) return false;
+
+        const recordTypeNode = this.findSymbol(recordType.name)?.recordType;
+        return !!recordTypeNode && !recordTypeNode.fields.some((field) => field.identifier.value === identifier.value);
+    };
+
+    private typeOfListLiteral = (node: ListLiteralNode): StaticType => {
+        const types = node.elements.map((element) => ({ element, type: this.typeOfExpression(element) }));
+        const firstType = types[0]?.type ?? null;
+
+        types.forEach(({ element, type }) => {
+            if (!firstType || !type) return;
+            if (type.value !== firstType.value) {
+                this.report(element,
+                    `List elements must be of the same type, expected ${firstType.value} but found ${type.value}`, DiagnosticCodes.TypeMismatch);
+            } else if (firstType.value === 'list' && !this.isAssignable(firstType, type)) {
+                // lists of lists check the full type of their elements
+                this.report(element, `List elements must be of the same type, expected ${
+                    this.typeToText(firstType)} but found ${this.typeToText(type)}`, DiagnosticCodes.TypeMismatch);
+            }
+        });
+
+        if (!firstType) return this.createType('list', node.position);
+
+        const listType: ListDataType = {
+            type: 'DataType',
+            value: 'list',
+            internalType: firstType.value,
+            elementType: firstType,
+            position: node.position
+        };
+        return listType;
+    };
+
+    /**
+     * @returns the type of the elements of the list, null when unknown
+     */
+    private typeOfIndexExpression = (node: IndexExpressionNode): StaticType => {
+        const listType = this.typeOfExpression(node.expression);
+        const indexType = this.typeOfExpression(node.index);
+
+        if (indexType && indexType.value !== 'number') {
+            this.report(node.index, `List index must be a number but found ${indexType.value}`, DiagnosticCodes.InvalidIndex);
+        }
+
+        if (!listType) return null;
+        if (listType.value !== 'list') {
+            this.report(node, `Tried to index ${listType.value}, only lists can be indexed`, DiagnosticCodes.InvalidIndex);
+            return null;
+        }
+
+        const elementType = this.getElementType(listType);
+        return elementType && { ...elementType, position: node.position, end: NodeUtils.getEnd(node) };
+    };
+
+    /**
+     * Gets the full type of the elements of a list type, null when unknown
+     */
+    private getElementType = (listType: DataTypeNode): StaticType => {
+        const internalType = DataTypeUtils.getInternalType(listType);
+        return DataTypeUtils.getElementType(listType) ?? (internalType ? this.createType(internalType, listType.position) : null);
+    };
+
+    private typeOfVectorConstructor = (node: VectorConstructorNode): StaticType => {
+        node.components.forEach((component) => {
+            const type = this.typeOfExpression(component);
+            if (type && type.value !== 'number') {
+                this.report(component, `${node.vectorType} components must be numbers but found ${type.value}`, DiagnosticCodes.TypeMismatch);
+            }
+        });
+        return this.createType(node.vectorType, node.position);
+    };
+
+    private typeOfRecordLiteral = (node: RecordLiteralNode): RecordLiteralType => {
+        const fields: Record<string, StaticType> = {};
+        node.fields.forEach((field) => {
+            fields[field.identifier.value] = this.typeOfExpression(field.expression);
+        });
+
+        return {
+            type: 'DataType',
+            value: 'record',
+            fields,
+            position: node.position
+        };
+    };
+
+    /**
+     * Checks if a value of the actual type can be used where the expected type is declared,
+     * it follows the checks done when a value is saved in memory
+     */
+    private isAssignable = (expected: DataTypeNode, actual: DataTypeNode): boolean => {
+        const expectedInternalType = DataTypeUtils.getInternalType(expected);
+        const actualInternalType = DataTypeUtils.getInternalType(actual);
+
+        switch (expected.value) {
+        case 'optional':
+            if (actual.value === 'optional') return actualInternalType === expectedInternalType;
+            return actual.value === 'nothing' || actual.value === expectedInternalType;
+        case 'list': {
+            if (actual.value !== 'list') return false;
+            if (!actualInternalType || !expectedInternalType) return true;
+
+            const expectedElementType = DataTypeUtils.getElementType(expected);
+            const actualElementType = DataTypeUtils.getElementType(actual);
+            return actualInternalType === expectedInternalType &&
+                (!expectedElementType || !actualElementType || this.isAssignable(expectedElementType, actualElementType));
+        }
+        case 'func':
+            if (actual.value !== 'func') return false;
+            return !DataTypeUtils.isFuncDataType(expected) || !DataTypeUtils.isFuncDataType(actual) ||
+                DataTypeUtils.isSameType(expected, actual);
+        case 'record':
+            if (actual.value !== 'record') return false;
+            return !DataTypeUtils.isRecordDataType(expected) || !DataTypeUtils.isRecordDataType(actual) ||
+                expected.name === actual.name;
+        }
+
+        return expected.value === actual.value;
+    };
+
+    private isRecordLiteralType = (dataType: DataTypeNode): dataType is RecordLiteralType => (
+        dataType.value === 'record' && 'fields' in dataType
+    );
+
+    private typeToText = (dataType: DataTypeNode): string => (
+        (dataType.value === 'list' || dataType.value === 'optional') && !DataTypeUtils.getInternalType(dataType) ?
+            `${dataType.value}<unknown>` :
+            DataTypeUtils.typeToText(dataType)
+    );
+
+    private createType = (value: DataTypes, position: Position): DataTypeNode => ({
+        type: 'DataType',
+        value,
+        position
+    });
+
+    private declare = (identifier: IdentifierNode, symbol: TypeSymbol) => {
+        const declaredSymbol = Object.prototype.hasOwnProperty.call(this._scope.symbols, identifier.value) ?
+            this._scope.symbols[identifier.value] :
+            undefined;
+        if (declaredSymbol) {
+            const declaration = declaredSymbol.position;
+            this.report(identifier, `Variable '${identifier.value}' already exists`, DiagnosticCodes.DuplicateDeclaration,
+                declaration ? [{ start: declaration, end: declaration, message: `'${identifier.value}' is declared` }] : []);
+            return;
+        }
+        this._scope.symbols[identifier.value] = symbol;
+        this._symbolTable.identifiers.set(identifier, symbol);
+    };
+
+    private findSymbol = (name: string): TypeSymbol | null => {
+        let scope: TypeScope | null = this._scope;
+        while (scope !== null) {
+            if (Object.prototype.hasOwnProperty.call(scope.symbols, name)) {
+                return scope.symbols[name] ?? null;
+            }
+            scope = scope.parent;
+        }
+        return null;
+    };
+
+    /**
+     * Finds the symbol of an identifier
+     * @param isReported if an undeclared identifier is reported
+     */
+    private lookup = (identifier: IdentifierNode, isReported = true): TypeSymbol | null => {
+        const symbol = this.findSymbol(identifier.value);
+        if (symbol) this._symbolTable.identifiers.set(identifier, symbol);
+        if (!symbol && isReported) {
+            this.report(identifier, `Variable '${identifier.value}' is not declared`, DiagnosticCodes.UndeclaredVariable);
+        }
+        return symbol;
+    };
+
+    /**
+     * Reports an error spanning the node
+     */
+    private report = (node: Node, message: string, code: DiagnosticCode, related: Array<DiagnosticLocation> = []) => {
+        this._diagnostics.push(DiagnosticUtils.create(node.position, NodeUtils.getEnd(node), code, message, related));
+    };
+}
@@ -0,0 +1,55 @@
+import { CodeBlockNode, DataTypeNode, FuncDataType, FuncDeclarationNode, IdentifierNode, RecordTypeNode } from '../parser/types';
+import { Diagnostic } from '../types/Diagnostic';
+import { Position } from '../types/Position';
+
+/**
+ * Data type known without running the code, null when it can only be known at runtime
+ */
+export type StaticType = DataTypeNode | null;
+
+/**
+ * Type of a record literal that hasn't been given a record type yet
+ */
+export interface RecordLiteralType extends DataTypeNode {
+    value: 'record',
+    fields: Record<string, StaticType>
+}
+
+export interface TypeSymbol {
+    declarationType: 'constant' | 'variable' | 'argument' | 'internal',
+    dataType: StaticType,
+    // fields of the record type when the symbol holds a type
+    recordType: RecordTypeNode | null,
+    // where it was declared, null for the standard library
+    position: Position | null
+}
+
+export type TypeScope = {
+    parent: TypeScope | null,
+    symbols: Record<string, TypeSymbol>,
+    // block the scope was created for, null for the global scope and the scope of a for loop initializer
+    block: CodeBlockNode | null
+};
+
+/**
+ * Symbols and scopes found while checking a module, used by editor tooling
+ */
+export interface SymbolTable {
+    // symbol every declared or used identifier refers to
+    identifiers: Map<IdentifierNode, TypeSymbol>,
+    scopes: Array<TypeScope>
+}
+
+/**
+ * Function body checked once the module has been checked, so it can see everything declared in its scope
+ */
+export interface PendingFunction {
+    node: FuncDeclarationNode,
+    // type of the function value, functions without a declared return type get the inferred one once checked
+    signature: FuncDataType,
+    scope: TypeScope,
+    // list the diagnostics of the body are added to
+    diagnostics: Array<Diagnostic>,
+    // table the identifiers and scopes of the body are added to
+    symbolTable: SymbolTable
+}
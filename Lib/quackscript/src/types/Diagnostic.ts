@@ -0,0 +1,58 @@
+import { Position } from './Position';
+
+/**
+ * Stable codes of the errors, QS1xxx are found by the lexer, QS2xxx by the parser,
+ * QS3xxx by the type checker and QS4xxx while running the code
+ */
+export const DiagnosticCodes = {
+    InvalidCharacter: 'QS1001',
+
+    UnexpectedToken: 'QS2001',
+    MissingExpression: 'QS2002',
+    MissingInitializer: 'QS2003',
+    InvalidText: 'QS2004',
+    InvalidLoopControl: 'QS2005',
+    DuplicateField: 'QS2006',
+    MisplacedExport: 'QS2007',
+
+    TypeMismatch: 'QS3001',
+    UndeclaredVariable: 'QS3002',
+    DuplicateDeclaration: 'QS3003',
+    ConstantUpdate: 'QS3004',
+    ArgumentCount: 'QS3005',
+    InvalidOperator: 'QS3006',
+    InvalidCondition: 'QS3007',
+    NotCallable: 'QS3008',
+    UnknownField: 'QS3009',
+    MissingField: 'QS3010',
+    UninferredType: 'QS3011',
+    InvalidIndex: 'QS3012',
+    NotARecordType: 'QS3013',
+    MisplacedImport: 'QS3014',
+    MissingExport: 'QS3015',
+    InvalidImport: 'QS3016',
+    MissingReturn: 'QS3017',
+
+    RuntimeError: 'QS4001',
+} as const;
+
+export type DiagnosticCode = typeof DiagnosticCodes[keyof typeof DiagnosticCodes];
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'information';
+
+export interface DiagnosticLocation {
+    start: Position,
+    end: Position,
+    message: string
+}
+
+export interface Diagnostic {
+    start: Position,
+    // position after the last character of the code the diagnostic is about
+    end: Position,
+    severity: DiagnosticSeverity,
+    code: DiagnosticCode,
+    message: string,
+    // other places of the code involved, like a previous declaration
+    related?: Array<DiagnosticLocation>
+}
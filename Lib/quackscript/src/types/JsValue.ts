@@ -0,0 +1,11 @@
+/**
+ * JavaScript value a QuackScript value is converted to when it is passed to the host, nothing is undefined,
+ * records and vectors are objects and functions are JavaScript functions
+ */
+export type JsValue = number | boolean | string | undefined | Array<JsValue> | JsRecord | JsFunction;
+
+export interface JsRecord {
+    [field: string]: JsValue
+}
+
+export type JsFunction = (...args: Array<never>) => unknown;
@@ -1,5 +1,6 @@
 type LogicalOperatorLexemes = 'AND' |
-    'OR';
+    'OR' |
+    'NOT';
 
 type ComparisonOperatorLexemes = 'EQUALS' |
     'NOT_EQUALS' |
@@ -19,6 +20,10 @@ export type DataTypeLexemes = 'NOTHING' |
     'BOOLEAN_TYPE' |
     'TEXT_TYPE' |
     'NUMBER_TYPE' |
+    'LIST_TYPE' |
+    'RECORD_TYPE' |
+    'VECTOR2' |
+    'VECTOR3' |
     'OPTIONAL_TYPE';
 
 
@@ -35,6 +40,7 @@ export type Lexemes = LogicalOperatorLexemes |
     DataValueLexemes |
     DataTypeLexemes |
     'IMPORT' |
+    'EXPORT' |
     'ASSIGNMENT_OPERATOR' |
     'TERMINATOR' |
     'ASSIGNMENT_LET' |
@@ -50,6 +56,16 @@ export type Lexemes = LogicalOperatorLexemes |
     'IF' |
     'THEN' |
     'ELSE' |
+    'WHILE' |
+    'FOR' |
+    'BREAK' |
+    'CONTINUE' |
+    'TRY' |
+    'CATCH' |
+    'FINALLY' |
+    'WHEN' |
+    'TYPE' |
+    'ARROW' |
     'RETURN' |
     'DOT' |
     'QUESTION_MARK' |
@@ -1,66 +1,325 @@
-import { Value } from '../../interpreter/types';
-import { BooleanLiteralNode, DataTypes, FuncDeclarationNode, NumberLiteralNode, TextLiteralNode } from '../../parser/types';
+import { QList, QText, Value } from '../../interpreter/types';
+import {
+    DataTypeNode, DataTypes, FuncDataType, GenericFuncDeclarationNode, ListDataType, LiteralNodeTypes, OptionalDataType, RecordDataType
+} from '../../parser/types';
 import { DataTypeLexemes } from '../../types/Lexemes';
+import { VectorUtils, VectorValue } from '../vector/vectorUtils';
 
 const valueToDataTypeMap: Record<Value['type'], DataTypes> = {
+    Boolean: 'boolean',
+    Nothing: 'nothing',
+    Number: 'number',
+    Text: 'text',
+    Vector2: 'vector2',
+    Vector3: 'vector3',
+    Function: 'func',
+    InternalFunction: 'func',
+    Optional: 'optional',
+    List: 'list',
+    Record: 'record',
+    RecordType: 'type'
+};
+
+const literalToDataTypeMap: Record<LiteralNodeTypes, DataTypes> = {
     BooleanLiteral: 'boolean',
     NothingLiteral: 'nothing',
     NumberLiteral: 'number',
     TextLiteral: 'text',
     Vector2Literal: 'vector2',
-    Vector3Literal: 'vector3',
-    FuncDeclaration: 'func',
-    InternalFuncDeclaration: 'func',
-    OptionalValue: 'optional'
+    Vector3Literal: 'vector3'
+};
+
+/**
+ * Converts values inside lists and records, texts are quoted and optionals show the value they hold
+ */
+const convertNestedValueToText = (value: Value): string => {
+    const unwrappedValue = value.type === 'Optional' ? value.value : value;
+    return unwrappedValue.type === 'Text' ?
+        `'${unwrappedValue.value}'` :
+        convertValueToText(unwrappedValue).value;
 };
 
-const convertValueToText = (value: Value): TextLiteralNode => {
+const convertValueToText = (value: Value): QText => {
     let textValue = '';
     switch (value.type) {
-    case 'BooleanLiteral':
-        textValue = (value as BooleanLiteralNode).value ? 'true' : 'false';
+    case 'Boolean':
+        textValue = value.value ? 'true' : 'false';
         break;
-    case 'FuncDeclaration':
-    case 'InternalFuncDeclaration':
+    case 'Function':
+    case 'InternalFunction':
         // eslint-disable-next-line no-case-declarations
-        const paramsAsString = ((value as FuncDeclarationNode).parameters)?.params.map((value) => ( 
-            `${value.identifier.value}:${value.dataType.value}`
+        const paramsAsString = value.parameters?.params.map((value) => ( 
+            `${value.identifier.value}:${typeToText(value.dataType)}`
         )).join(', ') ?? '';
-        textValue = `(${paramsAsString}) > { [function-body] }`;
+        // eslint-disable-next-line no-case-declarations
+        const returnType = value.returnType;
+        textValue = `(${paramsAsString})${returnType ? `:${typeToText(returnType)}` : ''} > { [function-body] }`;
         break;
-    case 'NothingLiteral':
+    case 'Nothing':
         textValue = 'nothing';
         break;
-    case 'NumberLiteral':
-        textValue = (value as NumberLiteralNode).value.toString();
+    case 'Number':
+        textValue = value.value.toString();
+        break;
+    case 'Vector2':
+    case 'Vector3':
+        textValue = `${valueToDataTypeMap[value.type]}(${VectorUtils.toComponents(value).join(', ')})`;
         break;
-    case 'Vector2Literal':
-        throw new Error('conversion to string not implemented');
-    case 'Vector3Literal':
-        throw new Error('conversion to string not implemented');
-    case 'TextLiteral':
-        return (value as TextLiteralNode);
-    case 'OptionalValue':
+    case 'Text':
+        return value;
+    case 'Optional':
         textValue = `${convertValueToText(value.value).value}:Optional<${value.internalType}>`;
+        break;
+    case 'List':
+        textValue = `[${value.values.map(convertNestedValueToText).join(', ')}]`;
+        break;
+    case 'Record': {
+        const fields = Object.values(value.fields).map((field) => `${field.identifier}: ${convertNestedValueToText(field.value)}`);
+        textValue = fields.length ? `{ ${fields.join(', ')} }` : '{}';
+        break;
+    }
+    case 'RecordType': {
+        const fields = value.fields.map((field) => `${field.identifier.value}: ${typeToText(field.dataType)}`);
+        textValue = `type { ${fields.join(', ')} }`;
+        break;
+    }
     }
     return {
         position: value.position,
-        type: 'TextLiteral',
+        type: 'Text',
         value: textValue
     };
 };
 
+const isFuncDataType = (dataType: DataTypeNode): dataType is FuncDataType => (
+    dataType.value === 'func' && 'parameters' in dataType
+);
+
+const isRecordDataType = (dataType: DataTypeNode): dataType is RecordDataType => (
+    dataType.value === 'record' && 'name' in dataType
+);
+
+const isListDataType = (dataType: DataTypeNode): dataType is ListDataType => (
+    dataType.value === 'list' && 'elementType' in dataType
+);
+
+const typeToText = (dataType: DataTypeNode): string => {
+    if (isRecordDataType(dataType)) return dataType.name;
+
+    const elementType = getElementType(dataType);
+    if (elementType) return `list<${typeToText(elementType)}>`;
+
+    if (dataType.value === 'optional' || dataType.value === 'list') {
+        return `${dataType.value}<${(dataType as OptionalDataType | ListDataType).internalType ?? 'unknown'}>`;
+    }
+
+    if (isFuncDataType(dataType)) {
+        const returnType = dataType.returnType ? typeToText(dataType.returnType) : 'unknown';
+        return `func<(${dataType.parameters.map(typeToText).join(', ')}) > ${returnType}>`;
+    }
+
+    return dataType.value;
+};
+
+/**
+ * Gets the internal type of the generic data types, optional<type> and list<type>
+ */
+const getInternalType = (dataType: DataTypeNode): DataTypes | null => (
+    dataType.value === 'optional' || dataType.value === 'list' ?
+        (dataType as OptionalDataType | ListDataType).internalType :
+        null
+);
+
+/**
+ * Gets the full type of the elements of a list type, list<list<number>> has list<number> elements
+ */
+const getElementType = (dataType: DataTypeNode): DataTypeNode | null => (
+    isListDataType(dataType) ? dataType.elementType : null
+);
+
+/**
+ * Gets the full type of a list value, null when the type of its elements is not known yet
+ */
+const getListType = (list: QList): ListDataType | null => {
+    if (list.internalType === null) return null;
+    return {
+        type: 'DataType',
+        value: 'list',
+        internalType: list.internalType,
+        elementType: list.elementType ?? { type: 'DataType', value: list.internalType, position: list.position },
+        position: list.position
+    };
+};
+
+/**
+ * Gives a list of the data type the type of its elements, empty lists adopt it and nested lists are typed the same way.
+ * Lists that are not of the type are left untouched
+ */
+const conformList = (list: QList, dataType: DataTypeNode) => {
+    if (!isValueOfType(list, dataType)) return;
+
+    list.internalType = list.internalType ?? getInternalType(dataType);
+    const elementType = getElementType(dataType);
+    if (!elementType || !isListDataType(elementType)) return;
+
+    list.elementType = elementType;
+    list.values.forEach((element) => element.type === 'List' && conformList(element, elementType));
+};
+
+/**
+ * Gets the type of a function declaration or a function value
+ */
+const getFunctionSignature = (fn: Pick<GenericFuncDeclarationNode, 'parameters' | 'returnType' | 'position'>): FuncDataType => ({
+    type: 'DataType',
+    value: 'func',
+    parameters: fn.parameters?.params.map((param) => param.dataType) ?? [],
+    returnType: fn.returnType,
+    position: fn.position
+});
+
+/**
+ * Checks if a data type can be used where the expected data type is declared,
+ * functions without a declared return type can be used for any return type
+ */
+const isSameType = (expected: DataTypeNode, actual: DataTypeNode): boolean => {
+    if (expected.value !== actual.value) return false;
+    if (getInternalType(expected) !== getInternalType(actual)) return false;
+
+    const expectedElementType = getElementType(expected);
+    const actualElementType = getElementType(actual);
+    if (expectedElementType && actualElementType && !isSameType(expectedElementType, actualElementType)) return false;
+    if (isRecordDataType(expected)) return isRecordDataType(actual) && expected.name === actual.name;
+    if (!isFuncDataType(expected)) return true;
+    if (!isFuncDataType(actual)) return false;
+
+    if (expected.parameters.length !== actual.parameters.length) return false;
+    const areParametersEqual = expected.parameters.every((parameter, i) => {
+        const actualParameter = actual.parameters[i];
+        return actualParameter !== undefined && isSameType(parameter, actualParameter);
+    });
+
+    return areParametersEqual && (
+        expected.returnType === null ||
+        actual.returnType === null ||
+        isSameType(expected.returnType, actual.returnType)
+    );
+};
+
+const isValueOfType = (value: Value, dataType: DataTypeNode): boolean => {
+    const valueType = valueToDataTypeMap[value.type];
+
+    switch (dataType.value) {
+    case 'optional': {
+        const internalType = (dataType as OptionalDataType).internalType;
+        if (value.type === 'Optional') return value.internalType === internalType;
+        return valueType === 'nothing' || valueType === internalType;
+    }
+    case 'list': {
+        if (value.type !== 'List') return false;
+        if (value.internalType === null) return true;
+        if (value.internalType !== (dataType as ListDataType).internalType) return false;
+
+        // lists of lists check the full type of their elements
+        const elementType = getElementType(dataType);
+        if (!elementType || !isListDataType(elementType)) return true;
+        return (!value.elementType || isSameType(elementType, value.elementType)) &&
+            value.values.every((element) => isValueOfType(element, elementType));
+    }
+    case 'func':
+        if (value.type !== 'Function' && value.type !== 'InternalFunction') return false;
+        return !isFuncDataType(dataType) || isSameType(dataType, getFunctionSignature(value));
+    case 'record':
+        if (value.type !== 'Record') return false;
+        return !isRecordDataType(dataType) || value.recordType?.name === dataType.name;
+    }
+
+    return valueType === dataType.value;
+};
+
+const valueTypeToText = (value: Value): string => {
+    switch (value.type) {
+    case 'Function':
+    case 'InternalFunction':
+        return typeToText(getFunctionSignature(value));
+    case 'List':
+        return value.elementType ? `list<${typeToText(value.elementType)}>` : `list<${value.internalType ?? 'unknown'}>`;
+    case 'Optional':
+        return `optional<${value.internalType}>`;
+    case 'Record':
+        return value.recordType?.name ?? 'record';
+    }
+    return valueToDataTypeMap[value.type];
+};
+
+/**
+ * Compares two values, lists, records and optionals are compared by their content, functions and types by reference
+ */
+const isEqual = (left: Value, right: Value): boolean => {
+    if (left.type !== right.type) return false;
+
+    switch (left.type) {
+    case 'Boolean':
+    case 'Number':
+    case 'Text':
+        return left.value === (right as typeof left).value;
+    case 'Nothing':
+        return true;
+    case 'Vector2':
+    case 'Vector3':
+        return VectorUtils.isEqual(left, right as VectorValue);
+    case 'Optional':
+        return isEqual(left.value, (right as typeof left).value);
+    case 'List': {
+        const rightValues = (right as typeof left).values;
+        return left.values.length === rightValues.length &&
+            left.values.every((item, i) => {
+                const rightItem = rightValues[i];
+                return rightItem !== undefined && isEqual(item, rightItem);
+            });
+    }
+    case 'Record': {
+        const rightFields = (right as typeof left).fields;
+        const fields = Object.values(left.fields);
+        return fields.length === Object.keys(rightFields).length &&
+            fields.every((field) => {
+                const rightField = rightFields[field.identifier];
+                return rightField !== undefined && isEqual(field.value, rightField.value);
+            });
+    }
+    }
+
+    return left === right;
+};
+
 export const lexemeToDataTypeMap: Record<DataTypeLexemes, DataTypes> = {
     'BOOLEAN_TYPE': 'boolean',
     'FUNC_TYPE': 'func',
     'NOTHING': 'nothing',
     'NUMBER_TYPE': 'number',
+    'LIST_TYPE': 'list',
+    'RECORD_TYPE': 'record',
+    'VECTOR2': 'vector2',
+    'VECTOR3': 'vector3',
     'OPTIONAL_TYPE': 'optional',
     'TEXT_TYPE': 'text',
 };
 
 export const DataTypeUtils = {
-    valueToDataType: (nodeType: Value['type']) => ( valueToDataTypeMap[nodeType] ),
+    valueToDataType: (valueType: Value['type']) => ( valueToDataTypeMap[valueType] ),
+    literalToDataType: (nodeType: LiteralNodeTypes) => ( literalToDataTypeMap[nodeType] ),
     convertValueToText,
+    isEqual,
+    isFuncDataType,
+    isRecordDataType,
+    isListDataType,
+    typeToText,
+    valueTypeToText,
+    getInternalType,
+    getElementType,
+    getListType,
+    conformList,
+    getFunctionSignature,
+    isSameType,
+    isValueOfType,
     lexemeToDataTypeMap
 };
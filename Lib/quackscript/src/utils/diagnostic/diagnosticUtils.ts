@@ -0,0 +1,47 @@
+import { Diagnostic, DiagnosticCode, DiagnosticLocation, DiagnosticSeverity } from '../../types/Diagnostic';
+import { Position } from '../../types/Position';
+
+const severityText: Record<DiagnosticSeverity, string> = {
+    error: 'Error',
+    warning: 'Warning',
+    information: 'Info'
+};
+
+const create = (
+    start: Position,
+    end: Position,
+    code: DiagnosticCode,
+    message: string,
+    related?: Array<DiagnosticLocation>
+): Diagnostic => ({
+    start: { ...start },
+    end: { ...end },
+    severity: 'error',
+    code,
+    message,
+    ...(related?.length ? { related } : {})
+});
+
+/**
+ * Formats the diagnostic the same way exceptions are, followed by its related locations
+ */
+const toText = (diagnostic: Diagnostic): string => {
+    const { start, code, message } = diagnostic;
+    const related = (diagnostic.related ?? [])
+        .map((location) => `\n  ${location.message} in line ${location.start.line} at char ${location.start.lineChar}`);
+
+    return `${severityText[diagnostic.severity]} ${code}: In line ${start.line} at char ${start.lineChar} \n ${message}${related.join('')}`;
+};
+
+/**
+ * Sorts diagnostics by where they start in the code
+ */
+const sort = (diagnostics: Array<Diagnostic>): Array<Diagnostic> => (
+    [...diagnostics].sort((a, b) => a.start.globalChar - b.start.globalChar)
+);
+
+export const DiagnosticUtils = {
+    create,
+    toText,
+    sort
+};
@@ -0,0 +1,285 @@
+import { RuntimeException } from '../../exception/RuntimeException';
+import {
+    InternalFunction, JsConversionContext, QFunction, QInternalFunction, QList, QOptional, QRecord, Value
+} from '../../interpreter/types';
+import { DataTypeNode, DataTypes, FuncDataType, ListDataType, OptionalDataType } from '../../parser/types';
+import { JsFunction, JsRecord, JsValue } from '../../types/JsValue';
+import { Position } from '../../types/Position';
+import { DataTypeUtils } from '../dataTypes/dataTypeUtils';
+import { MemoryUtils } from '../memory/memoryUtils';
+import { ValueUtils } from '../value/valueUtils';
+import { VectorUtils } from '../vector/vectorUtils';
+
+const createDataType = (value: DataTypes, position: Position): DataTypeNode => ({
+    type: 'DataType',
+    value,
+    position
+});
+
+const isRecord = (jsValue: unknown): jsValue is JsRecord => (
+    typeof jsValue === 'object' && jsValue !== null && !Array.isArray(jsValue)
+);
+
+const isNothing = (jsValue: unknown): jsValue is undefined | null => jsValue === undefined || jsValue === null;
+
+/**
+ * Names the type of a JavaScript value the way QuackScript names its types
+ */
+const describe = (jsValue: unknown): string => {
+    if (isNothing(jsValue)) return 'nothing';
+    if (Array.isArray(jsValue)) return 'list';
+    if (isRecord(jsValue)) return 'record';
+    if (typeof jsValue === 'string') return 'text';
+    if (typeof jsValue === 'function') return 'func';
+    return typeof jsValue;
+};
+
+/**
+ * @param path where the value is inside the converted value, like [0].name
+ */
+const mismatch = (expected: string, jsValue: unknown, position: Position, path: string) => new RuntimeException(
+    position,
+    `Expected ${expected}${path ? ` at ${path}` : ''} but got ${describe(jsValue)}`
+);
+
+/**
+ * Gets the data type of a JavaScript value when the type it is converted to isn't declared, like the fields of a record
+ * @throws RuntimeException for functions, their parameter types can't be known
+ */
+const inferDataType = (jsValue: unknown, position: Position, path: string): DataTypeNode => {
+    if (isNothing(jsValue)) return createDataType('nothing', position);
+    if (typeof jsValue === 'number') return createDataType('number', position);
+    if (typeof jsValue === 'boolean') return createDataType('boolean', position);
+    if (typeof jsValue === 'string') return createDataType('text', position);
+    if (Array.isArray(jsValue)) return createDataType('list', position);
+    if (isRecord(jsValue)) return createDataType('record', position);
+
+    throw new RuntimeException(position, `The type of the ${describe(jsValue)}${path ? ` at ${path}` : ''} can't be inferred`);
+};
+
+/**
+ * Converts a QuackScript value to the JavaScript value it represents, functions are wrapped so calling them runs the code
+ * @throws RuntimeException for record types, they have no JavaScript representation
+ */
+const toJs = (value: Value, context: JsConversionContext): JsValue => {
+    switch (value.type) {
+    case 'Number':
+    case 'Boolean':
+    case 'Text':
+        return value.value;
+    case 'Nothing':
+        return undefined;
+    case 'Optional':
+        return toJs(value.value, context);
+    case 'List':
+        return value.values.map((element) => toJs(element, context));
+    case 'Vector2':
+        return { x: value.x, y: value.y };
+    case 'Vector3':
+        return { x: value.x, y: value.y, z: value.z };
+    case 'Record': {
+        const record: JsRecord = {};
+        Object.entries(value.fields).forEach(([name, field]) => {
+            record[name] = toJs(field.value, context);
+        });
+        return record;
+    }
+    case 'Function':
+    case 'InternalFunction':
+        return toJsFunction(value, context);
+    }
+
+    throw new RuntimeException(value.position, `${DataTypeUtils.valueTypeToText(value)} can't be converted to JavaScript`);
+};
+
+/**
+ * Wraps a QuackScript function so JavaScript can call it, arguments are converted to the types of its parameters
+ */
+const toJsFunction = (fn: QFunction | QInternalFunction, context: JsConversionContext): JsFunction => (
+    (...args: Array<unknown>) => {
+        const params = fn.parameters?.params ?? [];
+        // extra arguments are converted so the call reports the wrong amount of arguments
+        const values = args.map((arg, i) => fromJs(arg, params[i]?.dataType ?? null, fn.position, context, `argument ${i + 1}`));
+        return toJs(context.callFunction(fn, values, fn.position), context);
+    }
+);
+
+/**
+ * Converts a JavaScript value to a QuackScript value of the data type
+ * @param dataType null to infer it from the value
+ * @param position where the value is used, errors point to it
+ * @throws RuntimeException when the value is not of the data type
+ */
+const fromJs = (
+    jsValue: unknown,
+    dataType: DataTypeNode | null,
+    position: Position,
+    context: JsConversionContext,
+    path = ''
+): Value => {
+    const expectedType = dataType ?? inferDataType(jsValue, position, path);
+
+    switch (expectedType.value) {
+    case 'number':
+        if (typeof jsValue === 'number') return { type: 'Number', value: jsValue, position };
+        break;
+    case 'boolean':
+        if (typeof jsValue === 'boolean') return { type: 'Boolean', value: jsValue, position };
+        break;
+    case 'text':
+        if (typeof jsValue === 'string') return { type: 'Text', value: jsValue, position };
+        break;
+    case 'nothing':
+        if (isNothing(jsValue)) return ValueUtils.nothing(position);
+        break;
+    case 'optional': {
+        const internalType = (expectedType as OptionalDataType).internalType;
+        const optional: QOptional = {
+            type: 'Optional',
+            internalType,
+            value: isNothing(jsValue) ?
+                ValueUtils.nothing(position) :
+                fromJs(jsValue, createDataType(internalType, position), position, context, path),
+            position
+        };
+        return optional;
+    }
+    case 'list':
+        if (Array.isArray(jsValue)) return listFromJs(jsValue, expectedType as Partial<ListDataType>, position, context, path);
+        break;
+    case 'vector2':
+    case 'vector3': {
+        const components = expectedType.value === 'vector2' ? ['x', 'y'] : ['x', 'y', 'z'];
+        if (isRecord(jsValue) && components.every((component) => typeof jsValue[component] === 'number')) {
+            return VectorUtils.fromComponents(components.map((component) => jsValue[component] as number), position);
+        }
+        break;
+    }
+    case 'record':
+        if (isRecord(jsValue)) return recordFromJs(jsValue, expectedType, position, context, path);
+        break;
+    case 'func':
+        if (typeof jsValue !== 'function') break;
+        if (!DataTypeUtils.isFuncDataType(expectedType)) {
+            throw new RuntimeException(position,
+                `Functions${path ? ` at ${path}` : ''} need a declared type like func<(number) > number> to be converted`);
+        }
+        return funcFromJs(jsValue as JsFunction, expectedType);
+    default:
+        throw new RuntimeException(position, `${DataTypeUtils.typeToText(expectedType)} can't be converted from JavaScript`);
+    }
+
+    throw mismatch(DataTypeUtils.typeToText(expectedType), jsValue, position, path);
+};
+
+/**
+ * Lists without a declared element type, like the ones inside records, take the type of their first element
+ */
+const listFromJs = (
+    jsValue: Array<unknown>,
+    dataType: Partial<ListDataType>,
+    position: Position,
+    context: JsConversionContext,
+    path: string
+): QList => {
+    const internalType = dataType.internalType ??
+        (jsValue.length ? inferDataType(jsValue[0], position, `${path}[0]`).value : null);
+    const elementType = dataType.elementType ?? (internalType ? createDataType(internalType, position) : null);
+    const values = jsValue.map((element, i) => fromJs(element, elementType, position, context, `${path}[${i}]`));
+    const [firstValue] = values;
+
+    return {
+        type: 'List',
+        internalType,
+        elementType: firstValue?.type === 'List' ? DataTypeUtils.getListType(firstValue) : null,
+        values,
+        position
+    };
+};
+
+/**
+ * Records of a declared record type get its fields types, the rest take the types of their values
+ */
+const recordFromJs = (
+    jsValue: JsRecord,
+    dataType: DataTypeNode,
+    position: Position,
+    context: JsConversionContext,
+    path: string
+): Value => {
+    const record: QRecord = {
+        type: 'Record',
+        fields: {},
+        recordType: null,
+        position
+    };
+
+    if (!DataTypeUtils.isRecordDataType(dataType)) {
+        Object.entries(jsValue).forEach(([name, field]) => {
+            record.fields[name] = MemoryUtils.fromValue(name, 'variable', fromJs(field, null, position, context, `${path}.${name}`));
+        });
+        return record;
+    }
+
+    const recordType = context.resolveRecordType(dataType);
+    recordType.fields.forEach((field) => {
+        const name = field.identifier.value;
+        if (!(name in jsValue) && field.dataType.value !== 'optional') {
+            throw new RuntimeException(position, `Missing field '${name}' of ${dataType.name}${path ? ` at ${path}` : ''}`);
+        }
+        const value = fromJs(jsValue[name], field.dataType, position, context, `${path}.${name}`);
+        record.fields[name] = MemoryUtils.fromValue(name, 'variable', value);
+    });
+
+    // unknown fields are reported when the record is given its type
+    Object.keys(jsValue)
+        .filter((name) => !(name in record.fields))
+        .forEach((name) => {
+            const value = fromJs(jsValue[name], null, position, context, `${path}.${name}`);
+            record.fields[name] = MemoryUtils.fromValue(name, 'variable', value);
+        });
+
+    return context.conformToType(record, dataType, position);
+};
+
+/**
+ * Wraps a JavaScript function so the code can call it, it gets the type the function was expected to be
+ */
+const funcFromJs = (jsFunction: JsFunction, dataType: FuncDataType): Value => (
+    MemoryUtils.convertToInternalFunc({
+        identifier: jsFunction.name || 'anonymous',
+        params: dataType.parameters.map((parameter, i) => ({ identifier: `argument${i + 1}`, dataType: parameter })),
+        returnType: dataType.returnType,
+        implementation: wrapJsFunction(jsFunction, dataType.returnType, false)
+    }).value
+);
+
+/**
+ * Creates the implementation of an internal function that calls a JavaScript function with JavaScript values,
+ * errors it throws are reported at the position of the call
+ * @param returnType the returned value is converted to it, it is ignored when it is nothing
+ * @param withContext the context of the call is passed after the arguments, used by host functions
+ */
+const wrapJsFunction = (jsFunction: JsFunction, returnType: DataTypeNode | null, withContext: boolean): InternalFunction => (
+    (args, context) => {
+        const jsArgs = args.map((arg) => toJs(arg, context));
+        let result: unknown;
+        try {
+            result = withContext ?
+                jsFunction(...jsArgs as Array<never>, { position: context.position } as never) :
+                jsFunction(...jsArgs as Array<never>);
+        } catch (error) {
+            if (error instanceof RuntimeException) throw error;
+            throw new RuntimeException(context.position, error instanceof Error ? error.message : String(error));
+        }
+
+        if (returnType?.value === 'nothing') return ValueUtils.nothing(context.position);
+        return fromJs(result, returnType, context.position, context);
+    }
+);
+
+export const JsValueUtils = {
+    toJs,
+    fromJs,
+    wrapJsFunction,
+};
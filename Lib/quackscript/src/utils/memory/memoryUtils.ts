@@ -1,6 +1,8 @@
-import { MemoryValue, } from '../../interpreter/types';
-import { DataTypes, InternalFuncDeclarationNode, ParamNode } from '../../parser/types';
+import { MemoryValue, QInternalFunction, Value, } from '../../interpreter/types';
+import { DataTypeNode, FuncDataType, ListDataType, ParamNode } from '../../parser/types';
+import { InternalFunctionDefinition } from '../../stdLibrary/types';
 import { Position } from '../../types/Position';
+import { DataTypeUtils } from '../dataTypes/dataTypeUtils';
 
 const fakePosition:Position = {
     globalChar: 1,
@@ -8,26 +10,15 @@ const fakePosition:Position = {
     lineChar: 1
 };
 
-const convertToInternalFunc = (identifier: string, params: Array<{
-    identifier: string,
-    dataType: DataTypes
-}>): MemoryValue => ({
-    internalType: null,
-    declarationType: 'internal',
-    identifier: identifier,
-    type: 'internalFunc',
-    value: {
-        identifier: identifier,
+const convertToInternalFunc = ({ identifier, params, returnType, implementation }: InternalFunctionDefinition): MemoryValue => {
+    const value: QInternalFunction = {
+        identifier,
         position: fakePosition,
         parameters: {
             position: fakePosition,
             type: 'Params',
-            params: params.map((param) => ({
-                dataType: {
-                    position: fakePosition,
-                    type: 'DataType',
-                    value: param.dataType
-                },
+            params: params.map((param): ParamNode => ({
+                dataType: param.dataType,
                 identifier: {
                     position: fakePosition,
                     type: 'Identifier',
@@ -35,12 +26,106 @@ const convertToInternalFunc = (identifier: string, params: Array<{
                 },
                 position: fakePosition,
                 type: 'Param'
-            } as ParamNode)),
+            })),
         },
-        type: 'InternalFuncDeclaration',
-    } as InternalFuncDeclarationNode
+        returnType,
+        type: 'InternalFunction',
+        implementation
+    };
+
+    return {
+        internalType: null,
+        signature: null,
+        declarationType: 'internal',
+        identifier,
+        type: 'internalFunc',
+        value
+    };
+};
+
+const isListOfLists = (dataType: DataTypeNode): dataType is ListDataType => (
+    DataTypeUtils.isListDataType(dataType) && DataTypeUtils.isListDataType(dataType.elementType)
+);
+
+/**
+ * Creates the memory value of a declared data type, the value is checked when saved in memory
+ */
+const fromDataType = (
+    identifier: string,
+    declarationType: MemoryValue['declarationType'],
+    dataType: DataTypeNode,
+    value: Value
+): MemoryValue => ({
+    declarationType,
+    identifier,
+    type: dataType.value,
+    value,
+    internalType: DataTypeUtils.getInternalType(dataType),
+    signature: DataTypeUtils.isFuncDataType(dataType) || DataTypeUtils.isRecordDataType(dataType) || isListOfLists(dataType) ? dataType : null,
 });
 
+/**
+ * Creates the memory value inferring the data type from the value
+ */
+const fromValue = (
+    identifier: string,
+    declarationType: MemoryValue['declarationType'],
+    value: Value
+): MemoryValue => {
+    const memoryValue: MemoryValue = {
+        declarationType,
+        identifier,
+        type: DataTypeUtils.valueToDataType(value.type),
+        value,
+        internalType: null,
+        signature: null,
+    };
+
+    switch (value.type) {
+    case 'Optional':
+        memoryValue.internalType = value.internalType;
+        break;
+    case 'List':
+        memoryValue.internalType = value.internalType;
+        memoryValue.signature = value.elementType ? DataTypeUtils.getListType(value) : null;
+        break;
+    case 'Function':
+    case 'InternalFunction':
+        memoryValue.signature = DataTypeUtils.getFunctionSignature(value);
+        break;
+    case 'Record':
+        memoryValue.signature = value.recordType?.name ? {
+            type: 'DataType',
+            value: 'record',
+            name: value.recordType.name,
+            position: value.position
+        } : null;
+        break;
+    }
+
+    return memoryValue;
+};
+
+/**
+ * Gets the type of the memory value the way it is written in code, declared types are used over the type of the value
+ * and functions without a declared return type are described with the one the type checker inferred
+ */
+const typeToText = (memoryValue: MemoryValue): string => {
+    const { signature, value } = memoryValue;
+    if (signature && DataTypeUtils.isFuncDataType(signature) && !signature.returnType && value.type === 'Function') {
+        const inferredSignature: FuncDataType = { ...signature, returnType: value.inferredReturnType };
+        return DataTypeUtils.typeToText(inferredSignature);
+    }
+    if (signature) return DataTypeUtils.typeToText(signature);
+    if (memoryValue.type === 'optional' || memoryValue.type === 'list') {
+        return `${memoryValue.type}<${memoryValue.internalType ?? 'unknown'}>`;
+    }
+    return DataTypeUtils.valueTypeToText(memoryValue.value);
+};
+
 export const MemoryUtils = {
-    convertToInternalFunc
+    convertToInternalFunc,
+    typeToText,
+    fromDataType,
+    fromValue
 };
@@ -0,0 +1,19 @@
+import { Node } from '../../parser/types';
+import { Position } from '../../types/Position';
+import { TextUtils } from '../text/textUtils';
+
+/**
+ * Gets the position right after the node, identifiers created outside of the parser end after their name and other
+ * nodes without an end are treated as empty
+ */
+const getEnd = (node: Node): Position => {
+    if (node.end) return node.end;
+    if (node.type === 'Identifier' && 'value' in node && typeof node.value === 'string') {
+        return TextUtils.advancePosition(node.position, node.value);
+    }
+    return node.position;
+};
+
+export const NodeUtils = {
+    getEnd
+};
@@ -0,0 +1,38 @@
+/**
+ * Removes the empty and . segments of the path and resolves its .. segments, .. that go above the start are kept
+ */
+const normalize = (path: string): string => {
+    const isAbsolute = path.startsWith('/');
+    const segments: Array<string> = [];
+
+    path.split('/').forEach((segment) => {
+        if (segment === '' || segment === '.') return;
+        if (segment === '..' && segments.length && segments[segments.length - 1] !== '..') {
+            segments.pop();
+            return;
+        }
+        if (segment === '..' && isAbsolute) return;
+        segments.push(segment);
+    });
+
+    return `${isAbsolute ? '/' : ''}${segments.join('/')}`;
+};
+
+/**
+ * Gets the folder of the file, an empty text for files without a folder
+ */
+const dirname = (path: string): string => path.substring(0, path.lastIndexOf('/') + 1);
+
+/**
+ * Resolves the imported path from the folder of the file importing it, absolute paths are only normalized
+ * @param importer null when the importing code has no file, the path is then used from the current folder
+ */
+const resolve = (path: string, importer: string | null): string => (
+    normalize(path.startsWith('/') || importer === null ? path : `${dirname(importer)}${path}`)
+);
+
+export const PathUtils = {
+    normalize,
+    dirname,
+    resolve
+};
@@ -0,0 +1,120 @@
+/**
+ * A segment of the generated code and the source position it comes from, lines and columns start at 0
+ */
+export interface SourceMapping {
+    generatedLine: number,
+    generatedColumn: number,
+    source: number,
+    line: number,
+    column: number
+}
+
+export interface SourceMap {
+    version: 3,
+    file: string,
+    sources: Array<string>,
+    sourcesContent: Array<string | null>,
+    names: Array<string>,
+    mappings: string
+}
+
+const BASE64_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const encodeVlq = (value: number): string => {
+    let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+    let encoded = '';
+    do {
+        let digit = vlq & 31;
+        vlq >>>= 5;
+        if (vlq > 0) digit |= 32;
+        encoded += BASE64_DIGITS[digit];
+    } while (vlq > 0);
+    return encoded;
+};
+
+/**
+ * Decodes all the values of a segment
+ * @throws Error when the segment has an invalid digit
+ */
+const decodeVlq = (segment: string): Array<number> => {
+    const values: Array<number> = [];
+    let value = 0;
+    let shift = 0;
+
+    for (const character of segment) {
+        const digit = BASE64_DIGITS.indexOf(character);
+        if (digit === -1) throw new Error(`Invalid source map digit '${character}'`);
+
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+            shift += 5;
+            continue;
+        }
+        values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+        value = 0;
+        shift = 0;
+    }
+    return values;
+};
+
+/**
+ * Encodes the mappings field, every value is relative to the previous segment
+ */
+const encodeMappings = (mappings: Array<SourceMapping>): string => {
+    const sortedMappings = [...mappings].sort((a, b) => a.generatedLine - b.generatedLine || a.generatedColumn - b.generatedColumn);
+    const lines: Array<Array<string>> = [];
+    let previous = { generatedColumn: 0, generatedLine: -1, source: 0, line: 0, column: 0 };
+
+    for (const mapping of sortedMappings) {
+        while (lines.length <= mapping.generatedLine) lines.push([]);
+        const generatedColumn = mapping.generatedLine === previous.generatedLine ? previous.generatedColumn : 0;
+
+        lines[mapping.generatedLine]?.push([
+            mapping.generatedColumn - generatedColumn,
+            mapping.source - previous.source,
+            mapping.line - previous.line,
+            mapping.column - previous.column
+        ].map(encodeVlq).join(''));
+        previous = mapping;
+    }
+    return lines.map((segments) => segments.join(',')).join(';');
+};
+
+const decodeMappings = (mappings: string): Array<SourceMapping> => {
+    const decoded: Array<SourceMapping> = [];
+    let previous = { source: 0, line: 0, column: 0 };
+
+    mappings.split(';').forEach((line, generatedLine) => {
+        let generatedColumn = 0;
+        for (const segment of line.split(',')) {
+            if (!segment) continue;
+            const [columnDelta = 0, sourceDelta = 0, lineDelta = 0, sourceColumnDelta = 0] = decodeVlq(segment);
+            generatedColumn += columnDelta;
+            previous = {
+                source: previous.source + sourceDelta,
+                line: previous.line + lineDelta,
+                column: previous.column + sourceColumnDelta
+            };
+            decoded.push({ generatedLine, generatedColumn, ...previous });
+        }
+    });
+    return decoded;
+};
+
+/**
+ * Encodes the source map as a data url so it can be inlined in the generated code
+ */
+const toDataUrl = (sourceMap: SourceMap): string => {
+    const bytes = new TextEncoder().encode(JSON.stringify(sourceMap));
+    let binary = '';
+    bytes.forEach((byte) => {
+        binary += String.fromCharCode(byte);
+    });
+    return `data:application/json;charset=utf-8;base64,${btoa(binary)}`;
+};
+
+export const SourceMapUtils = {
+    encodeMappings,
+    decodeMappings,
+    toDataUrl
+};
@@ -0,0 +1,80 @@
+import Compiler from '../../compiler';
+import { CompileOptions } from '../../compiler/types';
+import Interpreter from '../../interpreter';
+import { Value } from '../../interpreter/types';
+import Lexer from '../../lexer';
+import Parser from '../../parser';
+import TypeChecker from '../../typeChecker';
+
+const parse = (code: string) => new Parser().parse(new Lexer().convertToTokens(code));
+
+/**
+ * Reads imported files from the given files by their path
+ */
+const loadFrom = (files: Record<string, string>) => (path: string) => {
+    const file = files[path];
+    if (file === undefined) throw new Error(`File ${path} not found`);
+    return file;
+};
+
+/**
+ * Creates an interpreter writing to the returned stdout and stderr, imported files are read from the given files.
+ * valueOf evaluates the code in the session and returns the value of its last expression
+ */
+const createInterpreter = (files: Record<string, string> = {}) => {
+    const stdout: Array<string> = [];
+    const stderr: Array<string> = [];
+    const interpreter = new Interpreter((value) => stdout.push(value), (value) => stderr.push(value), loadFrom(files));
+    const execute = (code: string, filePath?: string) => interpreter.execute(parse(code), code, filePath);
+    const valueOf = (code: string): Value => {
+        const { value, diagnostics } = interpreter.evaluate(code);
+        if (!value) throw new Error(diagnostics.map((diagnostic) => diagnostic.message).join('\n'));
+        return value;
+    };
+    return { interpreter, stdout, stderr, execute, valueOf };
+};
+
+/**
+ * Same as createInterpreter but the code is compiled to javascript, compile returns the module without running it
+ */
+const createCompiler = (files: Record<string, string> = {}) => {
+    const stdout: Array<string> = [];
+    const stderr: Array<string> = [];
+    const compiler = new Compiler((value) => stdout.push(value), (value) => stderr.push(value), loadFrom(files));
+    const execute = (code: string, filePath?: string) => compiler.execute(parse(code), code, filePath);
+    const compile = (code: string, options: CompileOptions = {}) => compiler.compile(parse(code), { code, ...options });
+    return { compiler, stdout, stderr, execute, compile };
+};
+
+/**
+ * Lexes, parses and executes the code returning everything written to stdout and stderr
+ */
+const run = (code: string, files: Record<string, string> = {}, filePath?: string) => {
+    const { stdout, stderr, execute } = createInterpreter(files);
+    execute(code, filePath);
+    return { stdout, stderr };
+};
+
+/**
+ * Same as run but the code is compiled to javascript and executed
+ */
+const runCompiled = (code: string, files: Record<string, string> = {}, filePath?: string) => {
+    const { stdout, stderr, execute } = createCompiler(files);
+    execute(code, filePath);
+    return { stdout, stderr };
+};
+
+/**
+ * Lexes, parses and type checks the code without running it
+ */
+const check = (code: string, loadFile?: (path: string) => string) => {
+    return new TypeChecker(loadFile).check(parse(code));
+};
+
+export const TestUtils = {
+    run,
+    runCompiled,
+    check,
+    createInterpreter,
+    createCompiler
+};
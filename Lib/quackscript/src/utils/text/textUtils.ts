@@ -0,0 +1,141 @@
+import { ParseException } from '../../exception/ParseException';
+import { DiagnosticCodes } from '../../types/Diagnostic';
+import { Position } from '../../types/Position';
+
+export type TextSegment = {
+    type: 'text',
+    value: string
+} | {
+    type: 'interpolation',
+    code: string,
+    position: Position
+};
+
+const escapeCharacters: Record<string, string> = {
+    'n': '\n',
+    't': '\t',
+    '\\': '\\',
+    '\'': '\'',
+    '"': '"',
+    '`': '`',
+    '$': '$',
+};
+
+const quotes = ['\'', '"', '`'];
+
+/**
+ * Moves the position past the given characters
+ */
+const advancePosition = (position: Position, characters: string): Position => {
+    const lines = characters.split('\n');
+    const lastLine = lines[lines.length - 1] ?? '';
+
+    return {
+        globalChar: position.globalChar + characters.length,
+        line: position.line + lines.length - 1,
+        lineChar: lines.length > 1 ? lastLine.length + 1 : position.lineChar + characters.length
+    };
+};
+
+/**
+ * Reads the escape sequence starting at the backslash in index
+ * @throws ParseException when the escape sequence is not valid
+ */
+const readEscapeSequence = (content: string, index: number, position: Position) => {
+    const character = content.charAt(index + 1);
+
+    if (character === 'u') {
+        const unicode = /^\{([0-9a-fA-F]{1,6})\}/.exec(content.substring(index + 2));
+        const codePoint = unicode?.[1] ? parseInt(unicode[1], 16) : NaN;
+        if (!unicode || isNaN(codePoint) || codePoint > 0x10FFFF) {
+            throw new ParseException(position, 'Invalid unicode escape sequence, expected \\u{hex}', DiagnosticCodes.InvalidText);
+        }
+        return { value: String.fromCodePoint(codePoint), length: 2 + unicode[0].length };
+    }
+
+    const value = escapeCharacters[character];
+    if (value === undefined) {
+        throw new ParseException(position, `Invalid escape sequence '\\${character}'`, DiagnosticCodes.InvalidText);
+    }
+    return { value, length: 2 };
+};
+
+/**
+ * Finds the } closing the interpolation, skipping nested brackets and texts
+ * @returns the index of the closing bracket or -1 when the interpolation is never closed
+ */
+const findInterpolationEnd = (content: string, start: number): number => {
+    let depth = 1;
+    for (let index = start; index < content.length; index++) {
+        const character = content.charAt(index);
+
+        if (quotes.includes(character)) {
+            index++;
+            while (index < content.length && content.charAt(index) !== character) {
+                if (content.charAt(index) === '\\') index++;
+                index++;
+            }
+            continue;
+        }
+
+        if (character === '{') depth++;
+        if (character === '}') depth--;
+        if (depth === 0) return index;
+    }
+
+    return -1;
+};
+
+/**
+ * Splits the source of a text literal, including its quotes, into text and interpolated code.
+ * Escape sequences are resolved and only backtick texts can be interpolated with ${}
+ * @throws ParseException when an escape sequence or interpolation is invalid
+ */
+const parseTextLiteral = (raw: string, position: Position): Array<TextSegment> => {
+    const allowsInterpolation = raw.charAt(0) === '`';
+    const content = raw.substring(1, raw.length - 1);
+    // the content starts after the opening quote
+    const positionAt = (index: number) => advancePosition(position, raw.substring(0, index + 1));
+
+    const segments: Array<TextSegment> = [];
+    let text = '';
+    let index = 0;
+    while (index < content.length) {
+        const character = content.charAt(index);
+
+        if (character === '\\') {
+            const escapeSequence = readEscapeSequence(content, index, positionAt(index));
+            text += escapeSequence.value;
+            index += escapeSequence.length;
+            continue;
+        }
+
+        if (allowsInterpolation && character === '$' && content.charAt(index + 1) === '{') {
+            const end = findInterpolationEnd(content, index + 2);
+            if (end === -1) {
+                throw new ParseException(positionAt(index), 'Expected } to close the interpolation', DiagnosticCodes.InvalidText);
+            }
+
+            if (text.length) segments.push({ type: 'text', value: text });
+            text = '';
+            segments.push({
+                type: 'interpolation',
+                code: content.substring(index + 2, end),
+                position: positionAt(index + 2)
+            });
+            index = end + 1;
+            continue;
+        }
+
+        text += character;
+        index++;
+    }
+
+    if (text.length || !segments.length) segments.push({ type: 'text', value: text });
+    return segments;
+};
+
+export const TextUtils = {
+    advancePosition,
+    parseTextLiteral,
+};
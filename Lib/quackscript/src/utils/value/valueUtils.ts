@@ -0,0 +1,34 @@
+import { QNothing, Value } from '../../interpreter/types';
+import { BooleanLiteralNode, LiteralNode, NumberLiteralNode, TextLiteralNode, Vector2LiteralNode, Vector3LiteralNode } from '../../parser/types';
+import { Position } from '../../types/Position';
+
+const nothing = (position: Position): QNothing => ({ type: 'Nothing', position });
+
+/**
+ * Creates the value of a literal, a new value is created every time so the tree is never shared with memory
+ */
+const fromLiteral = (node: LiteralNode): Value => {
+    switch (node.type) {
+    case 'NumberLiteral':
+        return { type: 'Number', value: (node as NumberLiteralNode).value, position: node.position };
+    case 'TextLiteral':
+        return { type: 'Text', value: (node as TextLiteralNode).value, position: node.position };
+    case 'BooleanLiteral':
+        return { type: 'Boolean', value: (node as BooleanLiteralNode).value, position: node.position };
+    case 'NothingLiteral':
+        return nothing(node.position);
+    case 'Vector2Literal': {
+        const { x, y } = node as Vector2LiteralNode;
+        return { type: 'Vector2', x: x.value, y: y.value, position: node.position };
+    }
+    case 'Vector3Literal': {
+        const { x, y, z } = node as Vector3LiteralNode;
+        return { type: 'Vector3', x: x.value, y: y.value, z: z.value, position: node.position };
+    }
+    }
+};
+
+export const ValueUtils = {
+    nothing,
+    fromLiteral
+};
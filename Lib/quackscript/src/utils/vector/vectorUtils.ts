@@ -0,0 +1,77 @@
+import { QVector2, QVector3 } from '../../interpreter/types';
+import { Position } from '../../types/Position';
+
+export type VectorValue = QVector2 | QVector3;
+
+const isVector = (value: { type: string }): value is VectorValue => (
+    value.type === 'Vector2' || value.type === 'Vector3'
+);
+
+const toComponents = (vector: VectorValue): Array<number> => (
+    vector.type === 'Vector3' ? [vector.x, vector.y, vector.z] : [vector.x, vector.y]
+);
+
+/**
+ * Creates a vector2 or vector3 depending on the amount of components
+ */
+const fromComponents = (components: Array<number>, position: Position): VectorValue => {
+    const [x = 0, y = 0, z] = components;
+    return z === undefined ?
+        { type: 'Vector2', x, y, position } :
+        { type: 'Vector3', x, y, z, position };
+};
+
+const combine = (left: VectorValue, right: VectorValue, operation: (a: number, b: number) => number) => {
+    const rightComponents = toComponents(right);
+    return fromComponents(
+        toComponents(left).map((value, i) => operation(value, rightComponents[i] ?? 0)),
+        left.position
+    );
+};
+
+const add = (left: VectorValue, right: VectorValue) => combine(left, right, (a, b) => a + b);
+
+const subtract = (left: VectorValue, right: VectorValue) => combine(left, right, (a, b) => a - b);
+
+const scale = (vector: VectorValue, scalar: number) => fromComponents(
+    toComponents(vector).map((value) => value * scalar),
+    vector.position
+);
+
+const divide = (vector: VectorValue, scalar: number) => fromComponents(
+    toComponents(vector).map((value) => value / scalar),
+    vector.position
+);
+
+const dot = (left: VectorValue, right: VectorValue) => {
+    const rightComponents = toComponents(right);
+    return toComponents(left).reduce((total, value, i) => total + value * (rightComponents[i] ?? 0), 0);
+};
+
+const length = (vector: VectorValue) => Math.sqrt(dot(vector, vector));
+
+const cross = (left: QVector3, right: QVector3) => fromComponents([
+    left.y * right.z - left.z * right.y,
+    left.z * right.x - left.x * right.z,
+    left.x * right.y - left.y * right.x,
+], left.position);
+
+const isEqual = (left: VectorValue, right: VectorValue) => {
+    const rightComponents = toComponents(right);
+    return left.type === right.type &&
+        toComponents(left).every((value, i) => value === rightComponents[i]);
+};
+
+export const VectorUtils = {
+    isVector,
+    toComponents,
+    fromComponents,
+    add,
+    subtract,
+    scale,
+    divide,
+    dot,
+    length,
+    cross,
+    isEqual
+};